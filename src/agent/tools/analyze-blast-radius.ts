@@ -3,6 +3,7 @@
  */
 import { z } from 'zod';
 import { GraphAnalyzer } from '../../graph/analyzer.js';
+import { nodeDisplayName } from '../../graph/builder.js';
 import type { DependencyGraph, BlastRadiusResult } from '../../types.js';
 
 export const analyzeBlastRadiusSchema = z.object({
@@ -57,7 +58,7 @@ export function formatBlastRadiusResult(result: BlastRadiusResult): string {
   } else {
     lines.push(`**Affected Services (${result.affectedNodes.length}):**`);
     for (const node of result.affectedNodes) {
-      lines.push(`- ${node.name} (${node.type})`);
+      lines.push(`- ${nodeDisplayName(node)} (${node.type})`);
     }
   }
 
@@ -3,6 +3,7 @@
  */
 import { z } from 'zod';
 import { GraphAnalyzer } from '../../graph/analyzer.js';
+import { nodeDisplayName } from '../../graph/builder.js';
 import type { DependencyGraph, CouplingResult } from '../../types.js';
 
 export const explainCouplingSchema = z.object({
@@ -60,7 +61,7 @@ export function formatCouplingResult(result: CouplingResult): string {
   if (result.sharedDependencies.length > 0) {
     lines.push('**Shared Dependencies:**');
     for (const dep of result.sharedDependencies) {
-      lines.push(`- ${dep.name} (${dep.type})`);
+      lines.push(`- ${nodeDisplayName(dep)} (${dep.type})`);
     }
     lines.push('');
   }
@@ -2,6 +2,7 @@
  * Get graph data tool - retrieves cached graph information
  */
 import { z } from 'zod';
+import { nodeDisplayName } from '../../graph/builder.js';
 import type { DependencyGraph } from '../../types.js';
 
 export const getGraphDataSchema = z.object({
@@ -60,14 +61,14 @@ export async function getGraphDataHandler(
     if (input.nodeFilter) {
       const filter = input.nodeFilter.toLowerCase();
       nodes = nodes.filter(n => 
-        n.name.toLowerCase().includes(filter) ||
+        nodeDisplayName(n).toLowerCase().includes(filter) ||
         n.id.toLowerCase().includes(filter)
       );
     }
 
     result.nodes = nodes.map(n => ({
       id: n.id,
-      name: n.name,
+      name: nodeDisplayName(n),
       type: n.type,
     }));
   }
@@ -6,18 +6,14 @@ import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
 import { LocalReader, GitHubReader } from '../readers/index.js';
 import { buildGraph } from '../graph/builder.js';
+import { loadEntityAliases, resolveEntities } from '../graph/resolver.js';
 import { GraphStorage } from '../graph/storage.js';
 import { GraphAnalyzer } from '../graph/analyzer.js';
+import { diffGraphs } from '../graph/diff.js';
 import { AgentService } from '../agent/server.js';
 import { sessionManager } from '../session/manager.js';
-import { 
-  parseTerraform, 
-  parseDockerCompose, 
-  parseKubernetes, 
-  parseCodeowners, 
-  parsePackageJson 
-} from '../parsers/index.js';
-import type { ParsedDependency, DependencyGraph } from '../types.js';
+import { createParseCache, parseFiles, parseTerraformState } from '../parsers/index.js';
+import type { DependencyGraph, ScanCache } from '../types.js';
 
 // Request schemas
 const scanRequestSchema = z.object({
@@ -25,6 +21,29 @@ const scanRequestSchema = z.object({
   path: z.string().min(1),
   branch: z.string().optional(),
   name: z.string().optional(),
+  helmValues: z.array(z.string()).optional(),
+  kustomizeOverlay: z.string().optional(),
+  composeProfiles: z.array(z.string()).optional(),
+  protoPackagePattern: z.string().optional(),
+  kubeCluster: z.string().optional(),
+  incremental: z.boolean().optional(),
+  entityResolution: z.object({
+    aliases: z.record(z.array(z.string())).optional(),
+    labelKeys: z.array(z.string()).optional(),
+    pathMappings: z.array(z.object({ path: z.string().min(1), entity: z.string().optional() })).optional(),
+    stripSuffixes: z.array(z.string()).optional(),
+  }).optional(),
+});
+
+const terraformImportSchema = z.object({
+  name: z.string().min(1),
+  // `terraform show -json` output, as a JSON string or an already-parsed object
+  content: z.union([z.string().min(1), z.record(z.unknown())]),
+});
+
+const retentionSchema = z.object({
+  maxSnapshots: z.number().int().positive().optional(),
+  maxAgeDays: z.number().positive().optional(),
 });
 
 const askRequestSchema = z.object({
@@ -43,7 +62,10 @@ let agentService: AgentService | null = null;
  */
 function getStorage(): GraphStorage {
   if (!storage) {
-    storage = new GraphStorage('./data/graphs.sqlite');
+    storage = new GraphStorage('./data/graphs.sqlite', {
+      maxSnapshots: process.env.SNAPSHOT_RETENTION_COUNT ? parseInt(process.env.SNAPSHOT_RETENTION_COUNT, 10) : 20,
+      maxAgeDays: process.env.SNAPSHOT_RETENTION_DAYS ? parseFloat(process.env.SNAPSHOT_RETENTION_DAYS) : undefined,
+    });
   }
   return storage;
 }
@@ -65,6 +87,14 @@ function getAgentService(): AgentService {
   return agentService;
 }
 
+/**
+ * Whether a scanned file holds secrets (`.env` files, Terraform state) that must not be stored
+ */
+function holdsSecrets(filePath: string): boolean {
+  const filename = filePath.split('/').pop() || '';
+  return filename === '.env' || filename.startsWith('.env.') || filename.endsWith('.tfstate');
+}
+
 /**
  * Shutdown handler for cleanup
  */
@@ -87,46 +117,86 @@ export function createRouter(): Router {
     try {
       const body = scanRequestSchema.parse(req.body);
       
-      let files: { path: string; content: string }[];
+      let files: { path: string; content: string; hash: string }[];
       let graphName: string;
       let sourcePath: string;
+      let branch: string | undefined;
+      let githubReader: GitHubReader | undefined;
+      // The previous scan of this source, unless a full rescan was asked for
+      let previous: ScanCache | null = null;
 
       if (body.type === 'github') {
-        const reader = new GitHubReader(body.path, body.branch);
-        files = await reader.readFiles();
+        const reader = githubReader = new GitHubReader(body.path, body.branch);
         const info = reader.getRepoInfo();
         graphName = body.name || `${info.owner}/${info.repo}`;
-        sourcePath = body.path;
+        sourcePath = `${info.owner}/${info.repo}`;
+        branch = info.branch;
+        if (body.incremental !== false) {
+          previous = await getStorage().loadScanCache({ sourceType: 'github', sourcePath, branch });
+        }
+        files = await reader.readFiles(previous?.files);
       } else {
         const reader = new LocalReader(body.path);
-        files = await reader.readFiles();
         graphName = body.name || body.path.split('/').pop() || 'local';
         sourcePath = reader.getBasePath();
+        if (body.incremental !== false) {
+          previous = await getStorage().loadScanCache({ sourceType: 'local', sourcePath });
+        }
+        files = await reader.readFiles();
       }
 
-      // Parse all files
-      const allDependencies: ParsedDependency[] = [];
+      // Parse all files, reusing the previous scan's results for unchanged ones
+      const parseCache = createParseCache(previous?.units);
+      const allDependencies = await parseFiles(files, {
+        helmValues: body.helmValues,
+        kustomizeOverlay: body.kustomizeOverlay,
+        composeProfiles: body.composeProfiles,
+        protoPackagePattern: body.protoPackagePattern,
+        kubeCluster: body.kubeCluster,
+      }, parseCache);
+
+      // Unify each service's nodes across compose, Kubernetes, packages and Backstage
+      const dependencies = resolveEntities(allDependencies, {
+        ...body.entityResolution,
+        aliases: { ...loadEntityAliases(files), ...body.entityResolution?.aliases },
+      });
 
-      for (const file of files) {
-        const deps = await parseFile(file.path, file.content);
-        allDependencies.push(...deps);
+      // Link provenance to the files at the scanned commit
+      for (const dep of githubReader ? dependencies : []) {
+        if (dep.provenance?.file) {
+          dep.provenance.url = githubReader!.getFileUrl(dep.provenance.file, dep.provenance.startLine, dep.provenance.endLine);
+        }
       }
 
       // Build and save graph
-      const graph = buildGraph(allDependencies, {
+      const graph = buildGraph(dependencies, {
         name: graphName,
         sourceType: body.type,
         sourcePath,
+        branch,
+        commitSha: githubReader?.getRepoInfo().commitSha,
+        fileHashes: Object.fromEntries(files.map(file => [file.path, file.hash])),
       });
 
-      await getStorage().saveGraph(graph);
+      // Only GitHub rescans read file contents back (local ones re-read the disk), and
+      // files holding secrets are never kept
+      const cachedFiles = files.map(file => githubReader && !holdsSecrets(file.path)
+        ? file
+        : { path: file.path, hash: file.hash });
+      const projectId = await getStorage().saveGraph(graph, { files: cachedFiles, units: parseCache.current });
 
       res.json({
         success: true,
         graphId: graph.id,
+        projectId,
         nodeCount: graph.nodes.length,
         edgeCount: graph.edges.length,
         filesProcessed: files.length,
+        filesParsed: parseCache.parsedFiles.size,
+        filesReused: [...parseCache.reusedFiles].filter(file => !parseCache.parsedFiles.has(file)).length,
+        ...(githubReader && {
+          filesDownloaded: githubReader.getDownloadedFileCount(),
+        }),
       });
     } catch (error) {
       console.error('Scan error:', error);
@@ -141,6 +211,148 @@ export function createRouter(): Router {
     }
   });
 
+  /**
+   * POST /api/import/terraform - Build a graph from Terraform state or plan JSON
+   */
+  router.post('/import/terraform', async (req: Request, res: Response) => {
+    try {
+      const body = terraformImportSchema.parse(req.body);
+      const content = typeof body.content === 'string' ? body.content : JSON.stringify(body.content);
+
+      const dependencies = await parseTerraformState(content);
+      if (dependencies.length === 0) {
+        res.status(400).json({ error: 'No Terraform resources found in the provided state or plan' });
+        return;
+      }
+
+      // Each import name is its own source, so re-importing a plan adds to its history
+      // without pruning or diffing against unrelated imports
+      const graph = buildGraph(dependencies, {
+        name: body.name,
+        sourceType: 'import',
+        sourcePath: body.name,
+      });
+
+      const projectId = await getStorage().saveGraph(graph);
+
+      res.json({
+        success: true,
+        graphId: graph.id,
+        projectId,
+        nodeCount: graph.nodes.length,
+        edgeCount: graph.edges.length,
+      });
+    } catch (error) {
+      console.error('Terraform import error:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid request', details: error.errors });
+      } else {
+        res.status(500).json({
+          error: 'Import failed',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  /**
+   * GET /api/projects - List scanned sources with their latest snapshot
+   */
+  router.get('/projects', async (_req: Request, res: Response) => {
+    try {
+      const projects = await getStorage().listProjects();
+      res.json({ projects });
+    } catch (error) {
+      console.error('List projects error:', error);
+      res.status(500).json({ error: 'Failed to list projects' });
+    }
+  });
+
+  /**
+   * GET /api/projects/:id/snapshots - A project's snapshots, oldest first
+   */
+  router.get('/projects/:id/snapshots', async (req: Request, res: Response) => {
+    try {
+      const project = await getStorage().getProject(req.params.id);
+      const snapshots = await getStorage().listSnapshots(req.params.id);
+
+      if (!project || !snapshots) {
+        res.status(404).json({ error: 'Project not found' });
+        return;
+      }
+
+      res.json({ project, snapshots });
+    } catch (error) {
+      console.error('List snapshots error:', error);
+      res.status(500).json({ error: 'Failed to list snapshots' });
+    }
+  });
+
+  /**
+   * GET /api/projects/:id/snapshots/:snapshotId - Load one snapshot's graph
+   */
+  router.get('/projects/:id/snapshots/:snapshotId', async (req: Request, res: Response) => {
+    try {
+      const snapshots = await getStorage().listSnapshots(req.params.id);
+      const graph = snapshots?.some(snapshot => snapshot.id === req.params.snapshotId)
+        ? await getStorage().loadGraph(req.params.snapshotId)
+        : null;
+
+      if (!graph) {
+        res.status(404).json({ error: 'Snapshot not found' });
+        return;
+      }
+
+      res.json({ graph });
+    } catch (error) {
+      console.error('Get snapshot error:', error);
+      res.status(500).json({ error: 'Failed to get snapshot' });
+    }
+  });
+
+  /**
+   * PUT /api/projects/:id/retention - Set how many snapshots a project keeps
+   */
+  router.put('/projects/:id/retention', async (req: Request, res: Response) => {
+    try {
+      const retention = retentionSchema.parse(req.body);
+      const project = await getStorage().setRetention(req.params.id, retention);
+
+      if (!project) {
+        res.status(404).json({ error: 'Project not found' });
+        return;
+      }
+
+      res.json({ project });
+    } catch (error) {
+      console.error('Set retention error:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid request', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to set retention' });
+      }
+    }
+  });
+
+  /**
+   * DELETE /api/projects/:id - Delete a project and all its snapshots
+   */
+  router.delete('/projects/:id', async (req: Request, res: Response) => {
+    try {
+      const deleted = await getStorage().deleteProject(req.params.id);
+
+      if (!deleted) {
+        res.status(404).json({ error: 'Project not found' });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete project error:', error);
+      res.status(500).json({ error: 'Failed to delete project' });
+    }
+  });
+
   /**
    * GET /api/graphs - List all cached graphs
    */
@@ -280,44 +492,110 @@ export function createRouter(): Router {
   });
 
   /**
-   * Health check
+   * GET /api/graphs/:id/plan-impact - What an imported Terraform plan touches
    */
-  router.get('/health', (_req: Request, res: Response) => {
-    res.json({ 
-      status: 'ok',
-      activeSessions: sessionManager.getActiveSessionCount(),
-    });
+  router.get('/graphs/:id/plan-impact', async (req: Request, res: Response) => {
+    try {
+      const graph = await getStorage().loadGraph(req.params.id);
+
+      if (!graph) {
+        res.status(404).json({ error: 'Graph not found' });
+        return;
+      }
+
+      const analyzer = new GraphAnalyzer(graph);
+      res.json({ result: analyzer.getPlanImpact() });
+    } catch (error) {
+      console.error('Plan impact error:', error);
+      res.status(500).json({ error: 'Failed to calculate plan impact' });
+    }
   });
 
-  return router;
-}
+  /**
+   * GET /api/graphs/:id/version-drift - Packages locked to multiple versions
+   */
+  router.get('/graphs/:id/version-drift', async (req: Request, res: Response) => {
+    try {
+      const graph = await getStorage().loadGraph(req.params.id);
 
-/**
- * Parse a file based on its type
- */
-async function parseFile(filePath: string, content: string): Promise<ParsedDependency[]> {
-  const filename = filePath.split('/').pop() || '';
+      if (!graph) {
+        res.status(404).json({ error: 'Graph not found' });
+        return;
+      }
 
-  if (filename.endsWith('.tf')) {
-    return parseTerraform(content);
-  }
+      const analyzer = new GraphAnalyzer(graph);
+      res.json({ result: analyzer.getVersionDrift() });
+    } catch (error) {
+      console.error('Version drift error:', error);
+      res.status(500).json({ error: 'Failed to calculate version drift' });
+    }
+  });
 
-  if (/docker-compose\.ya?ml$/i.test(filename)) {
-    return parseDockerCompose(content);
-  }
+  /**
+   * GET /api/graphs/:id/provenance?nodeId=...|edgeId=... - Where a node or edge was found
+   */
+  router.get('/graphs/:id/provenance', async (req: Request, res: Response) => {
+    try {
+      const query = z.union([
+        z.object({ nodeId: z.string().min(1) }),
+        z.object({ edgeId: z.string().min(1) }),
+      ]).parse(req.query);
+      const graph = await getStorage().loadGraph(req.params.id);
 
-  if (/\.ya?ml$/i.test(filename) && !filename.includes('docker-compose')) {
-    // Assume it's a Kubernetes manifest
-    return parseKubernetes(content);
-  }
+      if (!graph) {
+        res.status(404).json({ error: 'Graph not found' });
+        return;
+      }
 
-  if (filename === 'CODEOWNERS') {
-    return parseCodeowners(content);
-  }
+      const analyzer = new GraphAnalyzer(graph);
+      const result = analyzer.getProvenance(query);
+      if (!result) {
+        res.status(404).json({ error: 'nodeId' in query ? 'Node not found' : 'Edge not found' });
+        return;
+      }
 
-  if (filename === 'package.json') {
-    return parsePackageJson(content);
-  }
+      res.json({ result });
+    } catch (error) {
+      console.error('Provenance error:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid request', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to load provenance' });
+      }
+    }
+  });
+
+  /**
+   * GET /api/graphs/:id/diff/:otherId - What changed from one graph to another
+   */
+  router.get('/graphs/:id/diff/:otherId', async (req: Request, res: Response) => {
+    try {
+      const [base, head] = await Promise.all([
+        getStorage().loadGraph(req.params.id),
+        getStorage().loadGraph(req.params.otherId),
+      ]);
+
+      if (!base || !head) {
+        res.status(404).json({ error: 'Graph not found' });
+        return;
+      }
+
+      res.json({ result: diffGraphs(base, head) });
+    } catch (error) {
+      console.error('Graph diff error:', error);
+      res.status(500).json({ error: 'Failed to diff graphs' });
+    }
+  });
 
-  return [];
+  /**
+   * Health check
+   */
+  router.get('/health', (_req: Request, res: Response) => {
+    res.json({ 
+      status: 'ok',
+      activeSessions: sessionManager.getActiveSessionCount(),
+    });
+  });
+
+  return router;
 }
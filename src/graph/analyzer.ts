@@ -7,7 +7,10 @@ import type {
   GraphEdge,
   BlastRadiusResult,
   CouplingResult,
-  CycleResult 
+  CycleResult,
+  PlanImpactResult,
+  ProvenanceResult,
+  VersionDriftResult
 } from '../types.js';
 
 export class GraphAnalyzer {
@@ -108,6 +111,91 @@ export class GraphAnalyzer {
     };
   }
 
+  /**
+   * Get the impact of an imported Terraform plan - the nodes it changes and
+   * everything in their combined blast radius
+   */
+  getPlanImpact(): PlanImpactResult {
+    const changed = this.graph.nodes.filter(node => {
+      const action = node.metadata.plannedAction;
+      return typeof action === 'string' && action !== 'no-op' && action !== 'read';
+    });
+    const changedIds = new Set(changed.map(node => node.id));
+
+    const affected = new Set<string>();
+    for (const node of changed) {
+      for (const dependent of this.getBlastRadius(node.id).affectedNodes) {
+        if (!changedIds.has(dependent.id)) {
+          affected.add(dependent.id);
+        }
+      }
+    }
+
+    const affectedNodes = this.graph.nodes.filter(n => affected.has(n.id));
+    const ratio = this.graph.nodes.length > 0
+      ? (changed.length + affectedNodes.length) / this.graph.nodes.length
+      : 0;
+    let impactLevel: PlanImpactResult['impactLevel'];
+
+    if (ratio > 0.5) {
+      impactLevel = 'critical';
+    } else if (ratio > 0.25) {
+      impactLevel = 'high';
+    } else if (ratio > 0.1) {
+      impactLevel = 'medium';
+    } else {
+      impactLevel = 'low';
+    }
+
+    return {
+      changedNodes: changed,
+      affectedNodes,
+      impactLevel,
+    };
+  }
+
+  /**
+   * Find packages that lockfiles resolve to different exact versions for different
+   * dependents, e.g. two services pinned to different `lodash` releases
+   */
+  getVersionDrift(): VersionDriftResult {
+    const resolved = new Map<string, Map<string, Set<string>>>();
+    for (const edge of this.graph.edges) {
+      const version = edge.metadata?.resolvedVersion;
+      if (typeof version !== 'string' || !version) continue;
+      const versions = resolved.get(edge.target) || new Map<string, Set<string>>();
+      versions.set(version, (versions.get(version) || new Set()).add(edge.source));
+      resolved.set(edge.target, versions);
+    }
+
+    const packages = [...resolved.entries()]
+      .filter(([, versions]) => versions.size > 1)
+      .map(([name, versions]) => ({
+        package: name,
+        versions: [...versions.entries()]
+          .map(([version, dependents]) => ({ version, dependents: [...dependents].sort() }))
+          .sort((a, b) => a.version.localeCompare(b.version, undefined, { numeric: true })),
+      }))
+      .sort((a, b) => b.versions.length - a.versions.length || a.package.localeCompare(b.package));
+
+    return { packages };
+  }
+
+  /**
+   * Where a node or edge was found; undefined when the graph doesn't contain it
+   */
+  getProvenance(query: { nodeId: string } | { edgeId: string }): ProvenanceResult | undefined {
+    if ('nodeId' in query) {
+      const node = this.graph.nodes.find(n => n.id === query.nodeId);
+      return node && { node: { id: node.id, name: node.name, type: node.type }, provenance: node.provenance || [] };
+    }
+    const edge = this.graph.edges.find(e => e.id === query.edgeId);
+    return edge && {
+      edge: { id: edge.id, source: edge.source, target: edge.target, type: edge.type },
+      provenance: edge.provenance || [],
+    };
+  }
+
   /**
    * Find coupling reasons between multiple nodes
    */
@@ -2,18 +2,24 @@
  * Graph builder - constructs dependency graphs from parsed dependencies
  */
 import { v4 as uuidv4 } from 'uuid';
+import { provenanceKey } from '../parsers/provenance.js';
 import type { 
   ParsedDependency, 
   DependencyGraph, 
   GraphNode, 
   GraphEdge,
-  NodeType 
+  NodeHint,
+  NodeType,
+  Provenance
 } from '../types.js';
 
 interface BuildGraphOptions {
   name: string;
-  sourceType: 'github' | 'local';
+  sourceType: 'github' | 'local' | 'import';
   sourcePath: string;
+  branch?: string;
+  commitSha?: string;
+  fileHashes?: Record<string, string>;
 }
 
 /**
@@ -25,6 +31,7 @@ export function buildGraph(
 ): DependencyGraph {
   const nodesMap = new Map<string, GraphNode>();
   const edges: GraphEdge[] = [];
+  const seenProvenance = new Map<GraphNode | GraphEdge, Set<string>>();
 
   // First pass: collect all unique nodes
   for (const dep of dependencies) {
@@ -34,26 +41,39 @@ export function buildGraph(
     if (!nodesMap.has(dep.target)) {
       nodesMap.set(dep.target, createNode(dep.target, dep.type));
     }
+    applyNodeHint(nodesMap.get(dep.source)!, dep.sourceNode);
+    applyNodeHint(nodesMap.get(dep.target)!, dep.targetNode);
+    addProvenance(nodesMap.get(dep.source)!, dep.provenance, seenProvenance);
+    addProvenance(nodesMap.get(dep.target)!, dep.provenance, seenProvenance);
   }
 
   // Second pass: create edges
-  const edgeSet = new Set<string>();
+  const edgeMap = new Map<string, GraphEdge>();
   for (const dep of dependencies) {
     const edgeKey = `${dep.source}|${dep.target}|${dep.type}`;
     
-    // Skip duplicate edges
-    if (edgeSet.has(edgeKey)) {
+    // Duplicate edges only fill in metadata the first one lacks (e.g. a lockfile's resolved version)
+    const existing = edgeMap.get(edgeKey);
+    if (existing) {
+      for (const [key, value] of Object.entries(dep.metadata || {})) {
+        if (value !== undefined && existing.metadata?.[key] === undefined) {
+          existing.metadata = { ...existing.metadata, [key]: value };
+        }
+      }
+      addProvenance(existing, dep.provenance, seenProvenance);
       continue;
     }
-    edgeSet.add(edgeKey);
 
-    edges.push({
+    const edge: GraphEdge = {
       id: uuidv4(),
       source: dep.source,
       target: dep.target,
       type: dep.type,
       metadata: dep.metadata,
-    });
+    };
+    addProvenance(edge, dep.provenance, seenProvenance);
+    edgeMap.set(edgeKey, edge);
+    edges.push(edge);
   }
 
   return {
@@ -65,6 +85,9 @@ export function buildGraph(
       createdAt: new Date().toISOString(),
       sourceType: options.sourceType,
       sourcePath: options.sourcePath,
+      branch: options.branch,
+      commitSha: options.commitSha,
+      fileHashes: options.fileHashes,
     },
   };
 }
@@ -83,6 +106,45 @@ function createNode(id: string, depType: string): GraphNode {
   };
 }
 
+/**
+ * Apply parser-provided node details over the inferred ones
+ */
+function applyNodeHint(node: GraphNode, hint: NodeHint | undefined): void {
+  if (!hint) return;
+  if (hint.type) node.type = hint.type;
+  if (hint.name) node.name = hint.name;
+  if (hint.metadata) {
+    for (const [key, value] of Object.entries(hint.metadata)) {
+      if (value !== undefined) node.metadata[key] = value;
+    }
+  }
+}
+
+/**
+ * Record where a node or edge was found, once per distinct location
+ */
+function addProvenance(
+  item: GraphNode | GraphEdge,
+  provenance: Provenance | undefined,
+  seen: Map<GraphNode | GraphEdge, Set<string>>
+): void {
+  if (!provenance) return;
+  const keys = seen.get(item) ?? new Set<string>();
+  const key = provenanceKey(provenance);
+  if (keys.has(key)) return;
+  seen.set(item, keys.add(key));
+  (item.provenance ??= []).push(provenance);
+}
+
+/**
+ * Node name for display, qualified with the Kubernetes cluster and namespace when
+ * the node has them (`Service/api (prod-eu/payments)`) so same-named objects stay apart
+ */
+export function nodeDisplayName(node: GraphNode): string {
+  const scope = [node.metadata?.cluster, node.metadata?.namespace].filter(part => typeof part === 'string' && part);
+  return scope.length > 0 ? `${node.name} (${scope.join('/')})` : node.name;
+}
+
 /**
  * Extract a human-readable name from a node ID
  */
@@ -106,9 +168,34 @@ function inferNodeType(id: string, depType: string): NodeType {
   if (id.startsWith('ConfigMap/') || id.startsWith('Secret/')) {
     return 'k8s_deployment';
   }
+  if (/^(CronJob|HorizontalPodAutoscaler|PodDisruptionBudget)\//.test(id) || (depType.startsWith('k8s_') && id.startsWith('Job/'))) {
+    return 'k8s_deployment';
+  }
+  if (/^(Gateway|VirtualService|DestinationRule|ServiceEntry|HTTPRoute|GRPCRoute|TCPRoute|TLSRoute|TrafficSplit|Namespace)\//.test(id)) {
+    return 'k8s_network';
+  }
+  if (id.startsWith('External/')) {
+    return 'external';
+  }
+
+  // Helm types
+  if (id.startsWith('Chart/')) {
+    return 'helm_chart';
+  }
+
+  // Terraform types (addresses inside nested modules are prefixed with `module.<name>.`)
+  if (depType.startsWith('terraform_')) {
+    const address = id.replace(/^(?:module\.[^.]+\.)+(?=[^.]+\.)/, '');
+    if (address.startsWith('module.') || address.includes('/')) {
+      return 'terraform_module';
+    }
+    if (address.startsWith('var.') || address.startsWith('local.')) {
+      return 'terraform_variable';
+    }
+    if (address.startsWith('output.')) {
+      return 'terraform_output';
+    }
 
-  // Terraform types
-  if (depType === 'terraform_resource') {
     if (id.includes('db') || id.includes('rds') || id.includes('database')) {
       return 'database';
     }
@@ -118,8 +205,33 @@ function inferNodeType(id: string, depType: string): NodeType {
     return 'terraform_resource';
   }
 
+  // CI/CD types (`Job/` is also a Kubernetes kind, so only trust the prefix for CI edges)
+  if (depType.startsWith('ci_')) {
+    if (id.startsWith('Workflow/')) return 'ci_workflow';
+    if (id.startsWith('Job/')) return 'ci_job';
+    if (id.startsWith('Action/')) return 'ci_action';
+    if (id.startsWith('Environment/')) return 'ci_environment';
+  }
+
+  // API contract types
+  if (id.startsWith('API/')) {
+    return 'api';
+  }
+  if (id.startsWith('Channel/')) {
+    return 'queue';
+  }
+  if (depType === 'api_provider' || depType === 'api_consumer') {
+    return 'service';
+  }
+
   // Docker types
-  if (depType === 'docker_depends_on' || depType === 'docker_network') {
+  if (id.startsWith('Dockerfile/')) {
+    return 'dockerfile';
+  }
+  if (id.startsWith('Image/')) {
+    return 'docker_image';
+  }
+  if (depType === 'docker_depends_on' || depType === 'docker_network' || depType === 'docker_volume' || depType === 'docker_build' || depType === 'docker_image') {
     return 'docker_service';
   }
 
@@ -127,6 +239,26 @@ function inferNodeType(id: string, depType: string): NodeType {
   if (depType === 'npm_dependency' || depType === 'npm_devDependency') {
     return 'npm_package';
   }
+  if (depType === 'npm_workspace') {
+    return 'service';
+  }
+
+  // Other package ecosystems
+  if (depType === 'go_dependency') {
+    return 'go_module';
+  }
+  if (depType === 'python_dependency') {
+    return 'python_package';
+  }
+  if (depType === 'cargo_dependency') {
+    return 'cargo_crate';
+  }
+  if (depType === 'maven_dependency') {
+    return 'maven_artifact';
+  }
+  if (depType === 'nuget_dependency') {
+    return 'nuget_package';
+  }
 
   // Codeowner types
   if (depType === 'codeowner') {
@@ -136,6 +268,17 @@ function inferNodeType(id: string, depType: string): NodeType {
     return 'service';
   }
 
+  // Catalog (Backstage) types
+  if (id.startsWith('System/') || id.startsWith('Domain/')) {
+    return 'system';
+  }
+  if (id.startsWith('Group/') || id.startsWith('User/')) {
+    return 'team';
+  }
+  if (depType === 'backstage_depends_on' || depType === 'owns') {
+    return 'service';
+  }
+
   return 'unknown';
 }
 
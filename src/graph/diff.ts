@@ -0,0 +1,90 @@
+/**
+ * Graph diff - compares two graphs by stable identities rather than their per-scan UUIDs
+ */
+import type { DependencyGraph, GraphDiffResult, GraphEdge, GraphNode, MetadataChange } from '../types.js';
+
+/**
+ * Stable identity of an edge across scans; builder dedupes edges on the same key
+ */
+export function edgeKey(edge: Pick<GraphEdge, 'source' | 'target' | 'type'>): string {
+  return `${edge.source}|${edge.target}|${edge.type}`;
+}
+
+/**
+ * What changed going from `base` to `head`: nodes matched by ID, edges by
+ * source/target/type. Provenance is not compared, so line shifts aren't changes.
+ */
+export function diffGraphs(base: DependencyGraph, head: DependencyGraph): GraphDiffResult {
+  const baseNodes = new Map(base.nodes.map(node => [node.id, node]));
+  const headNodes = new Map(head.nodes.map(node => [node.id, node]));
+  const baseEdges = new Map(base.edges.map(edge => [edgeKey(edge), edge]));
+  const headEdges = new Map(head.edges.map(edge => [edgeKey(edge), edge]));
+
+  const result: GraphDiffResult = {
+    baseGraphId: base.id,
+    headGraphId: head.id,
+    nodes: { added: [], removed: [], changed: [] },
+    edges: { added: [], removed: [], changed: [] },
+  };
+
+  for (const [id, node] of headNodes) {
+    const before = baseNodes.get(id);
+    if (!before) {
+      result.nodes.added.push(node);
+      continue;
+    }
+    const changes = [
+      ...compareFields(before, node, ['name', 'type']),
+      ...compareMetadata(before.metadata, node.metadata),
+    ];
+    if (changes.length > 0) {
+      result.nodes.changed.push({ id, before, after: node, changes });
+    }
+  }
+  result.nodes.removed = base.nodes.filter(node => !headNodes.has(node.id));
+
+  for (const [key, edge] of headEdges) {
+    const before = baseEdges.get(key);
+    if (!before) {
+      result.edges.added.push(edge);
+      continue;
+    }
+    const changes = compareMetadata(before.metadata, edge.metadata);
+    if (changes.length > 0) {
+      result.edges.changed.push({ key, before, after: edge, changes });
+    }
+  }
+  result.edges.removed = base.edges.filter(edge => !headEdges.has(edgeKey(edge)));
+
+  return result;
+}
+
+function compareFields(before: GraphNode, after: GraphNode, fields: Array<'name' | 'type'>): MetadataChange[] {
+  return fields
+    .filter(field => before[field] !== after[field])
+    .map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+function compareMetadata(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined
+): MetadataChange[] {
+  const keys = [...new Set([...Object.keys(before || {}), ...Object.keys(after || {})])].sort();
+  return keys
+    .filter(key => !isEqual(before?.[key], after?.[key]))
+    .map(key => ({ field: `metadata.${key}`, before: before?.[key], after: after?.[key] }));
+}
+
+/**
+ * Structural equality for JSON values, ignoring object key order
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+  return keys.length === Object.keys(bRecord).length && keys.every(key => key in bRecord && isEqual(aRecord[key], bRecord[key]));
+}
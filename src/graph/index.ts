@@ -1,6 +1,8 @@
 /**
  * Graph module index
  */
-export { buildGraph } from './builder.js';
+export { buildGraph, nodeDisplayName } from './builder.js';
 export { GraphAnalyzer } from './analyzer.js';
+export { diffGraphs, edgeKey } from './diff.js';
 export { GraphStorage } from './storage.js';
+export { resolveEntities, loadEntityAliases, ENTITY_ALIASES_FILENAME } from './resolver.js';
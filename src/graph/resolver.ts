@@ -0,0 +1,205 @@
+/**
+ * Entity resolver - unifies the nodes different sources create for the same service
+ * (compose service, Kubernetes workload, package, Backstage component)
+ * before the graph is built
+ */
+import path from 'path';
+import yaml from 'js-yaml';
+import { parseKubernetesNodeId } from '../parsers/kubernetes.js';
+import type { EntityResolutionOptions, NodeHint, ParsedDependency, SourceFile } from '../types.js';
+
+export const ENTITY_ALIASES_FILENAME = 'entity-aliases.yaml';
+
+/** Which kind of source a candidate node came from; automatic matches take at most one node per layer */
+type Layer = 'compose' | 'kubernetes' | 'package' | 'backstage';
+
+interface Candidate {
+  layer: Layer;
+  labels?: Record<string, string>;
+  /** Manifest the package was declared in */
+  file?: string;
+}
+
+const DEFAULT_LABEL_KEYS = ['app.kubernetes.io/name', 'app'];
+const DEFAULT_PATH_MAPPINGS: NonNullable<EntityResolutionOptions['pathMappings']> = [{ path: 'services/*' }, { path: 'apps/*' }];
+const DEFAULT_STRIP_SUFFIXES = ['-service', '-svc'];
+
+const WORKLOAD_KINDS = new Set(['Deployment', 'StatefulSet', 'DaemonSet', 'CronJob']);
+const COMPOSE_SERVICE_TYPES = new Set(['docker_depends_on', 'docker_network', 'docker_volume']);
+const COMPOSE_SOURCE_TYPES = new Set(['docker_build', 'docker_image']);
+const MANIFEST_TYPES = new Set([
+  'npm_dependency',
+  'npm_devDependency',
+  'npm_workspace',
+  'go_dependency',
+  'python_dependency',
+  'cargo_dependency',
+  'maven_dependency',
+  'nuget_dependency',
+]);
+
+/**
+ * Read explicit aliases from `entity-aliases.yaml` files: a map of entity name to
+ * the node IDs that are that entity
+ */
+export function loadEntityAliases(files: SourceFile[]): Record<string, string[]> {
+  const aliases: Record<string, string[]> = {};
+  for (const file of files.filter(file => path.posix.basename(file.path) === ENTITY_ALIASES_FILENAME)) {
+    try {
+      const entries = yaml.load(file.content) as Record<string, unknown> | undefined;
+      for (const [entity, ids] of Object.entries(entries || {})) {
+        if (!Array.isArray(ids)) continue;
+        aliases[entity] = [...(aliases[entity] || []), ...ids.map(String)];
+      }
+    } catch (error) {
+      console.warn(`Failed to parse ${file.path}:`, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+  return aliases;
+}
+
+/**
+ * Rewrite dependencies so every node known to be the same service shares one ID (the
+ * entity name). Explicit aliases always apply; otherwise nodes match on a label, path
+ * mapping or normalized name, and a name shared by two nodes of the same layer (e.g.
+ * workloads in two namespaces) is ambiguous and left alone. Unified nodes become
+ * `service` nodes listing the original IDs in `metadata.aliases`.
+ */
+export function resolveEntities(dependencies: ParsedDependency[], options: EntityResolutionOptions = {}): ParsedDependency[] {
+  const candidates = collectCandidates(dependencies);
+  const groups = new Map<string, Set<string>>();
+  const explicit = new Map<string, string>();
+
+  for (const [entity, ids] of Object.entries(options.aliases || {})) {
+    groups.set(entity, new Set(ids));
+    ids.forEach(id => explicit.set(id, entity));
+  }
+
+  // Automatic matches, skipping keys claimed by more than one node of a layer
+  const byKey = new Map<string, Map<Layer, string[]>>();
+  for (const [id, candidate] of candidates) {
+    if (explicit.has(id)) continue;
+    const key = entityKey(id, candidate, options);
+    if (!key) continue;
+    const layers = byKey.get(key) || new Map<Layer, string[]>();
+    layers.set(candidate.layer, [...(layers.get(candidate.layer) || []), id]);
+    byKey.set(key, layers);
+  }
+  for (const [key, layers] of byKey) {
+    const ids = [...layers.values()].filter(layerIds => layerIds.length === 1).flat();
+    const group = groups.get(key) || new Set<string>();
+    ids.forEach(id => group.add(id));
+    groups.set(key, group);
+  }
+
+  const entityOf = new Map<string, string>();
+  for (const [entity, ids] of groups) {
+    if (ids.size < 2 && !(options.aliases && entity in options.aliases)) continue;
+    ids.forEach(id => entityOf.set(id, entity));
+  }
+  const aliasesOf = new Map<string, string[]>();
+  for (const [id, entity] of entityOf) {
+    aliasesOf.set(entity, [...(aliasesOf.get(entity) || []), id].sort());
+  }
+  // An entity is owned by everyone owning one of its aliases
+  const ownersOf = new Map<string, Set<string>>();
+  for (const dep of dependencies) {
+    for (const [id, hint] of [[dep.source, dep.sourceNode], [dep.target, dep.targetNode]] as const) {
+      const entity = entityOf.get(id);
+      const owners = hint?.metadata?.owners;
+      if (!entity || !Array.isArray(owners)) continue;
+      const entityOwners = ownersOf.get(entity) ?? new Set<string>();
+      owners.forEach(owner => entityOwners.add(String(owner)));
+      ownersOf.set(entity, entityOwners);
+    }
+  }
+
+  const resolve = (id: string, hint: NodeHint | undefined): [string, NodeHint | undefined] => {
+    const entity = entityOf.get(id);
+    if (!entity) return [id, hint];
+    // Kubernetes identity metadata describes only one of the aliases
+    const { kind: _kind, namespace: _namespace, cluster: _cluster, ...metadata } = hint?.metadata || {};
+    const owners = ownersOf.has(entity) ? { owners: [...ownersOf.get(entity)!].sort() } : {};
+    return [entity, { ...hint, type: 'service', name: entity, metadata: { ...metadata, ...owners, aliases: aliasesOf.get(entity) } }];
+  };
+
+  const resolved: ParsedDependency[] = [];
+  for (const dep of dependencies) {
+    const [source, sourceNode] = resolve(dep.source, dep.sourceNode);
+    const [target, targetNode] = resolve(dep.target, dep.targetNode);
+    // Edges between two aliases of one entity (e.g. a package's own workload) collapse away
+    if (source === target && (source !== dep.source || target !== dep.target)) continue;
+    resolved.push(source === dep.source && target === dep.target ? dep : { ...dep, source, target, sourceNode, targetNode });
+  }
+  return resolved;
+}
+
+/**
+ * Nodes that stand for a service in some layer
+ */
+function collectCandidates(dependencies: ParsedDependency[]): Map<string, Candidate> {
+  const candidates = new Map<string, Candidate>();
+  const add = (id: string, candidate: Candidate) => {
+    const existing = candidates.get(id);
+    candidates.set(id, existing ? { ...candidate, ...existing, labels: existing.labels ?? candidate.labels } : candidate);
+  };
+
+  for (const dep of dependencies) {
+    for (const [id, hint, role] of [[dep.source, dep.sourceNode, 'source'], [dep.target, dep.targetNode, 'target']] as const) {
+      const identity = parseKubernetesNodeId(id);
+      if (identity && WORKLOAD_KINDS.has(identity.kind)) {
+        add(id, { layer: 'kubernetes', labels: hint?.metadata?.labels as Record<string, string> | undefined });
+      } else if (hint?.metadata?.backstageKind === 'Component') {
+        add(id, { layer: 'backstage' });
+      } else if (COMPOSE_SERVICE_TYPES.has(dep.type) || (role === 'source' && COMPOSE_SOURCE_TYPES.has(dep.type))) {
+        add(id, { layer: 'compose' });
+      } else if (MANIFEST_TYPES.has(dep.type) && !dep.metadata?.transitive && (role === 'source' || dep.type === 'npm_workspace')) {
+        // Packages declared in the repo, not the third-party packages they depend on
+        // (lockfiles also list edges between those)
+        add(id, { layer: 'package', file: role === 'source' ? dep.provenance?.file : undefined });
+      }
+    }
+  }
+  return candidates;
+}
+
+/**
+ * The entity a candidate matches automatically: a naming label, a mapped path, or
+ * its normalized name
+ */
+function entityKey(id: string, candidate: Candidate, options: EntityResolutionOptions): string | undefined {
+  switch (candidate.layer) {
+    case 'kubernetes': {
+      const label = (options.labelKeys || DEFAULT_LABEL_KEYS).map(key => candidate.labels?.[key]).find(Boolean);
+      return normalizeName(label || parseKubernetesNodeId(id)!.name, options);
+    }
+    case 'package': {
+      const mapped = candidate.file ? mapPath(path.posix.dirname(candidate.file), options) : undefined;
+      // `@acme/orders`, `github.com/acme/orders`, `com.acme:orders`
+      return mapped ?? normalizeName(id.split(/[/:]/).pop()!, options);
+    }
+    default:
+      return normalizeName(id, options);
+  }
+}
+
+function mapPath(filePath: string, options: EntityResolutionOptions): string | undefined {
+  for (const mapping of options.pathMappings || DEFAULT_PATH_MAPPINGS) {
+    const pattern = mapping.path.replace(/^\/+|\/+$/g, '');
+    const source = pattern.split('/').map(part => part === '*' ? '([^/]+)' : part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('/');
+    const match = new RegExp(`^${source}(?:/.*)?$`).exec(filePath);
+    if (match) return mapping.entity ?? (match[1] ? normalizeName(match[1], options) : undefined);
+  }
+  return undefined;
+}
+
+function normalizeName(name: string, options: EntityResolutionOptions): string {
+  let normalized = name.toLowerCase().replace(/_/g, '-');
+  for (const suffix of options.stripSuffixes || DEFAULT_STRIP_SUFFIXES) {
+    if (normalized.endsWith(suffix) && normalized.length > suffix.length) {
+      normalized = normalized.slice(0, -suffix.length);
+      break;
+    }
+  }
+  return normalized;
+}
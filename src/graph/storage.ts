@@ -1,18 +1,25 @@
 /**
  * Graph storage - SQLite-based persistence for dependency graphs
  */
-import initSqlJs, { Database } from 'sql.js';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
 import fs from 'fs';
 import path from 'path';
-import type { DependencyGraph } from '../types.js';
+import { v4 as uuidv4 } from 'uuid';
+import type { DependencyGraph, ParsedDependency, ProjectSummary, RetentionPolicy, ScanCache, SnapshotSummary } from '../types.js';
+
+type Row = Record<string, SqlValue>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export class GraphStorage {
   private db: Database | null = null;
   private dbPath: string;
+  private defaultRetention: RetentionPolicy;
   private initialized: Promise<void>;
 
-  constructor(dbPath: string = './data/graphs.sqlite') {
+  constructor(dbPath: string = './data/graphs.sqlite', defaultRetention: RetentionPolicy = {}) {
     this.dbPath = dbPath;
+    this.defaultRetention = defaultRetention;
     this.initialized = this.initialize();
   }
 
@@ -60,6 +67,46 @@ export class GraphStorage {
     
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_graphs_name ON graphs(name);`);
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_graphs_created_at ON graphs(created_at);`);
+
+    // Projects group the snapshots (graphs) scanned from one source
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS projects (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        source_type TEXT NOT NULL,
+        source_path TEXT NOT NULL,
+        branch TEXT NOT NULL DEFAULT '',
+        retention_json TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE (source_type, source_path, branch)
+      );
+    `);
+    this.migrateSnapshots();
+
+    // Each project's latest scan: file hashes (and contents, where kept) and parse results by unit.
+    // Caches that required every file's content are dropped; the next scan reads everything.
+    const contentColumn = this.query('PRAGMA table_info(scan_files)').find(row => row.name === 'content');
+    if (contentColumn?.notnull) {
+      this.db.run('DROP TABLE scan_files');
+    }
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS scan_files (
+        project_id TEXT NOT NULL,
+        path TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        content TEXT,
+        PRIMARY KEY (project_id, path)
+      );
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS scan_units (
+        project_id TEXT NOT NULL,
+        unit_key TEXT NOT NULL,
+        dependencies_json TEXT NOT NULL,
+        PRIMARY KEY (project_id, unit_key)
+      );
+    `);
     
     // Save to disk
     this.saveToFile();
@@ -74,6 +121,37 @@ export class GraphStorage {
     fs.writeFileSync(this.dbPath, data);
   }
 
+  /**
+   * Add the snapshot columns to databases created before projects existed, and file
+   * their graphs under projects
+   */
+  private migrateSnapshots(): void {
+    const columns = new Set(this.query('PRAGMA table_info(graphs)').map(row => row.name));
+    const added = [['project_id', 'TEXT'], ['commit_sha', 'TEXT'], ['node_count', 'INTEGER'], ['edge_count', 'INTEGER']];
+    for (const [column, type] of added) {
+      if (!columns.has(column)) {
+        this.db!.run(`ALTER TABLE graphs ADD COLUMN ${column} ${type}`);
+      }
+    }
+    this.db!.run(`CREATE INDEX IF NOT EXISTS idx_graphs_project ON graphs(project_id, created_at);`);
+
+    for (const row of this.query('SELECT graph_json FROM graphs WHERE project_id IS NULL')) {
+      this.writeSnapshot(JSON.parse(row.graph_json as string) as DependencyGraph);
+    }
+  }
+
+  /**
+   * Run a query and return its rows as objects keyed by column
+   */
+  private query(sql: string, params: SqlValue[] = []): Row[] {
+    const result = this.db!.exec(sql, params);
+    if (result.length === 0) {
+      return [];
+    }
+    const { columns, values } = result[0];
+    return values.map(row => Object.fromEntries(columns.map((col, idx) => [col, row[idx]])));
+  }
+
   /**
    * Ensure database is initialized
    */
@@ -85,14 +163,30 @@ export class GraphStorage {
   }
 
   /**
-   * Save a graph to the database
+   * Save a graph as the newest snapshot of its project (created on the source's first
+   * scan), then prune the project's snapshots by its retention policy. A scan cache
+   * replaces the project's, for the next incremental rescan. Returns the project ID.
    */
-  async saveGraph(graph: DependencyGraph): Promise<void> {
+  async saveGraph(graph: DependencyGraph, scanCache?: ScanCache): Promise<string> {
     await this.ensureInitialized();
-    
+
+    const projectId = this.writeSnapshot(graph);
+    this.pruneSnapshots(projectId);
+    if (scanCache) {
+      this.writeScanCache(projectId, scanCache);
+    }
+
+    this.saveToFile();
+    return projectId;
+  }
+
+  private writeSnapshot(graph: DependencyGraph): string {
+    const projectId = this.upsertProject(graph);
+
     this.db!.run(
-      `INSERT OR REPLACE INTO graphs (id, name, graph_json, source_type, source_path, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT OR REPLACE INTO graphs (id, name, graph_json, source_type, source_path, created_at, updated_at,
+         project_id, commit_sha, node_count, edge_count)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         graph.id,
         graph.name,
@@ -100,11 +194,107 @@ export class GraphStorage {
         graph.metadata.sourceType,
         graph.metadata.sourcePath,
         graph.metadata.createdAt,
-        new Date().toISOString()
+        new Date().toISOString(),
+        projectId,
+        graph.metadata.commitSha ?? null,
+        graph.nodes.length,
+        graph.edges.length,
       ]
     );
-    
-    this.saveToFile();
+
+    return projectId;
+  }
+
+  private writeScanCache(projectId: string, scanCache: ScanCache): void {
+    this.db!.run('DELETE FROM scan_files WHERE project_id = ?', [projectId]);
+    this.db!.run('DELETE FROM scan_units WHERE project_id = ?', [projectId]);
+
+    for (const file of scanCache.files) {
+      this.db!.run(
+        'INSERT OR REPLACE INTO scan_files (project_id, path, hash, content) VALUES (?, ?, ?, ?)',
+        [projectId, file.path, file.hash, file.content ?? null]
+      );
+    }
+    for (const [key, dependencies] of scanCache.units) {
+      this.db!.run(
+        'INSERT OR REPLACE INTO scan_units (project_id, unit_key, dependencies_json) VALUES (?, ?, ?)',
+        [projectId, key, JSON.stringify(dependencies)]
+      );
+    }
+  }
+
+  /**
+   * What the latest scan of a source read and parsed; null before its first scan
+   */
+  async loadScanCache(source: Pick<DependencyGraph['metadata'], 'sourceType' | 'sourcePath' | 'branch'>): Promise<ScanCache | null> {
+    await this.ensureInitialized();
+
+    const [project] = this.query(
+      'SELECT id FROM projects WHERE source_type = ? AND source_path = ? AND branch = ?',
+      [source.sourceType, source.sourcePath, source.branch ?? '']
+    );
+    if (!project) {
+      return null;
+    }
+
+    const files = this.query('SELECT path, hash, content FROM scan_files WHERE project_id = ?', [project.id]).map(row => ({
+      path: row.path as string,
+      hash: row.hash as string,
+      ...(row.content !== null && { content: row.content as string }),
+    }));
+    const units = new Map(
+      this.query('SELECT unit_key, dependencies_json FROM scan_units WHERE project_id = ?', [project.id])
+        .map(row => [row.unit_key as string, JSON.parse(row.dependencies_json as string) as ParsedDependency[]])
+    );
+    return { files, units };
+  }
+
+  /**
+   * Find or create the project for a graph's source
+   */
+  private upsertProject(graph: DependencyGraph): string {
+    const now = new Date().toISOString();
+    const key = [graph.metadata.sourceType, graph.metadata.sourcePath, graph.metadata.branch ?? ''];
+    const [existing] = this.query('SELECT id FROM projects WHERE source_type = ? AND source_path = ? AND branch = ?', key);
+
+    if (existing) {
+      this.db!.run('UPDATE projects SET name = ?, updated_at = ? WHERE id = ?', [graph.name, now, existing.id]);
+      return existing.id as string;
+    }
+
+    const id = uuidv4();
+    this.db!.run(
+      `INSERT INTO projects (id, name, source_type, source_path, branch, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, graph.name, ...key, now, now]
+    );
+    return id;
+  }
+
+  /**
+   * Delete the snapshots a project's retention policy no longer keeps
+   */
+  private pruneSnapshots(projectId: string): string[] {
+    const [project] = this.query('SELECT retention_json FROM projects WHERE id = ?', [projectId]);
+    const policy: RetentionPolicy = {
+      ...this.defaultRetention,
+      ...(project?.retention_json ? JSON.parse(project.retention_json as string) : {}),
+    };
+    const cutoff = policy.maxAgeDays !== undefined ? Date.now() - policy.maxAgeDays * DAY_MS : undefined;
+
+    // Newest first; the latest snapshot is always kept
+    const [, ...older] = this.query('SELECT id, created_at FROM graphs WHERE project_id = ? ORDER BY created_at DESC', [projectId]);
+    const pruned = older
+      .filter((row, index) =>
+        (policy.maxSnapshots !== undefined && index + 1 >= policy.maxSnapshots) ||
+        (cutoff !== undefined && Date.parse(row.created_at as string) < cutoff)
+      )
+      .map(row => row.id as string);
+
+    for (const id of pruned) {
+      this.db!.run('DELETE FROM graphs WHERE id = ?', [id]);
+    }
+    return pruned;
   }
 
   /**
@@ -169,12 +359,116 @@ export class GraphStorage {
   }
 
   /**
-   * Delete a graph by ID
+   * List projects, most recently scanned first
+   */
+  async listProjects(): Promise<ProjectSummary[]> {
+    await this.ensureInitialized();
+
+    return this.query('SELECT * FROM projects ORDER BY updated_at DESC').map(row => this.toProject(row));
+  }
+
+  /**
+   * Get a project by ID
+   */
+  async getProject(id: string): Promise<ProjectSummary | null> {
+    await this.ensureInitialized();
+
+    const [row] = this.query('SELECT * FROM projects WHERE id = ?', [id]);
+    return row ? this.toProject(row) : null;
+  }
+
+  /**
+   * List a project's snapshots, oldest first; null when the project doesn't exist
+   */
+  async listSnapshots(projectId: string): Promise<SnapshotSummary[] | null> {
+    await this.ensureInitialized();
+
+    const [project] = this.query('SELECT id FROM projects WHERE id = ?', [projectId]);
+    return project ? this.snapshotsOf(projectId) : null;
+  }
+
+  /**
+   * Replace a project's retention overrides and prune by the new policy
+   */
+  async setRetention(projectId: string, retention: RetentionPolicy): Promise<ProjectSummary | null> {
+    await this.ensureInitialized();
+
+    const [row] = this.query('SELECT id FROM projects WHERE id = ?', [projectId]);
+    if (!row) {
+      return null;
+    }
+
+    this.db!.run('UPDATE projects SET retention_json = ? WHERE id = ?', [JSON.stringify(retention), projectId]);
+    this.pruneSnapshots(projectId);
+    this.saveToFile();
+
+    return this.getProject(projectId);
+  }
+
+  /**
+   * Delete a project and all of its snapshots
+   */
+  async deleteProject(id: string): Promise<boolean> {
+    await this.ensureInitialized();
+
+    const [row] = this.query('SELECT id FROM projects WHERE id = ?', [id]);
+    if (!row) {
+      return false;
+    }
+
+    this.db!.run('DELETE FROM graphs WHERE project_id = ?', [id]);
+    this.deleteOrphanedProjects();
+    this.saveToFile();
+    return true;
+  }
+
+  /**
+   * Remove projects left without snapshots, with their scan caches
+   */
+  private deleteOrphanedProjects(): void {
+    this.db!.run('DELETE FROM projects WHERE id NOT IN (SELECT project_id FROM graphs WHERE project_id IS NOT NULL)');
+    this.db!.run('DELETE FROM scan_files WHERE project_id NOT IN (SELECT id FROM projects)');
+    this.db!.run('DELETE FROM scan_units WHERE project_id NOT IN (SELECT id FROM projects)');
+  }
+
+  private toProject(row: Row): ProjectSummary {
+    const snapshots = this.snapshotsOf(row.id as string);
+    return {
+      id: row.id as string,
+      name: row.name as string,
+      sourceType: row.source_type as ProjectSummary['sourceType'],
+      sourcePath: row.source_path as string,
+      branch: (row.branch as string) || undefined,
+      retention: row.retention_json ? JSON.parse(row.retention_json as string) as RetentionPolicy : {},
+      snapshotCount: snapshots.length,
+      latestSnapshot: snapshots[snapshots.length - 1],
+    };
+  }
+
+  private snapshotsOf(projectId: string): SnapshotSummary[] {
+    return this.query(
+      `SELECT id, name, created_at, commit_sha, node_count, edge_count
+       FROM graphs WHERE project_id = ? ORDER BY created_at ASC`,
+      [projectId]
+    ).map(row => ({
+      id: row.id as string,
+      projectId,
+      name: row.name as string,
+      createdAt: row.created_at as string,
+      commitSha: (row.commit_sha as string | null) ?? undefined,
+      nodeCount: row.node_count as number,
+      edgeCount: row.edge_count as number,
+    }));
+  }
+
+  /**
+   * Delete a graph by ID, and its project when it was the only snapshot
    */
   async deleteGraph(id: string): Promise<boolean> {
     await this.ensureInitialized();
     
     this.db!.run('DELETE FROM graphs WHERE id = ?', [id]);
+    this.deleteOrphanedProjects();
     this.saveToFile();
     
     // Check if it was deleted by trying to load it
@@ -0,0 +1,366 @@
+/**
+ * ARM template parser - extracts Azure resource dependencies from ARM JSON templates
+ */
+import yaml from 'js-yaml';
+import { trackLineRanges, type LineRange } from './yaml-lines.js';
+import type { NodeHint, NodeType, ParsedDependency } from '../types.js';
+
+interface ArmResource {
+  type: string;
+  name: string;
+  apiVersion?: string;
+  dependsOn?: string[];
+  properties?: unknown;
+  resources?: ArmResource[];
+  [key: string]: unknown;
+}
+
+interface ArmTemplate {
+  $schema?: string;
+  languageVersion?: string;
+  parameters?: Record<string, { defaultValue?: unknown }>;
+  variables?: Record<string, unknown>;
+  resources?: ArmResource[] | Record<string, ArmResource>;
+}
+
+/**
+ * A resource declared in an ARM template, with its resolved ID
+ */
+interface DeclaredResource {
+  id: string;
+  symbolicName?: string;
+  resource: ArmResource;
+  parentId?: string;
+  /** Lines of the resource's declaration */
+  lines?: LineRange;
+}
+
+export interface AzureReference {
+  target: string;
+  via: 'dependsOn' | 'resourceId' | 'reference' | 'symbolic' | 'parent';
+}
+
+/**
+ * Check whether JSON content is an ARM deployment template
+ */
+export function isArmTemplate(fileContent: string): boolean {
+  return /schema\.management\.azure\.com\/schemas\/[^"]*deploymentTemplate\.json/i.test(fileContent);
+}
+
+/**
+ * Parse an ARM template. Resource IDs are `<resource type>/<name>`, e.g. `Microsoft.Web/sites/orders-api`.
+ * Each dependency's lines are those of the resource declaring it.
+ */
+export async function parseArmTemplate(fileContent: string): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+
+  // Loaded as YAML's JSON subset to record where each resource is declared
+  const ranges = new Map<object, LineRange>();
+  let template: ArmTemplate;
+  try {
+    template = yaml.load(fileContent, { json: true, listener: trackLineRanges(fileContent, ranges) }) as ArmTemplate;
+  } catch (error) {
+    console.warn('Failed to parse ARM template:', error instanceof Error ? error.message : 'Unknown error');
+    return dependencies;
+  }
+
+  if (!template || typeof template !== 'object' || !template.resources) {
+    return dependencies;
+  }
+
+  const evaluator = new ArmExpressionEvaluator(template);
+  const declared = collectResources(template, evaluator, ranges);
+  const byName = new Map<string, DeclaredResource>();
+  for (const entry of declared) {
+    byName.set(entry.id, entry);
+    if (entry.symbolicName) byName.set(entry.symbolicName, entry);
+    byName.set(entry.id.split('/').pop()!, entry);
+  }
+
+  const hint = (entry: DeclaredResource): NodeHint => azureNodeHint(entry.resource.type, entry.resource.apiVersion, {
+    symbolicName: entry.symbolicName,
+  });
+
+  for (const entry of declared) {
+    const references: AzureReference[] = [];
+    if (entry.parentId) references.push({ target: entry.parentId, via: 'parent' });
+
+    for (const dependency of entry.resource.dependsOn || []) {
+      const value = evaluator.evaluate(dependency, references, true);
+      if (typeof value === 'string' && !dependency.startsWith('[')) {
+        references.push({ target: value, via: 'dependsOn' });
+      }
+    }
+
+    // resourceId() and reference() calls anywhere in the resource body
+    const { dependsOn: _dependsOn, resources: _children, ...body } = entry.resource;
+    visitStrings(body, value => evaluator.evaluate(value, references));
+
+    const seen = new Set<string>();
+    for (const reference of references) {
+      const target = byName.get(reference.target);
+      const targetId = target?.id ?? reference.target;
+      if (targetId === entry.id || seen.has(`${targetId}|${reference.via}`)) continue;
+      seen.add(`${targetId}|${reference.via}`);
+
+      dependencies.push({
+        source: entry.id,
+        target: targetId,
+        type: 'azure_resource',
+        metadata: { via: reference.via },
+        sourceNode: hint(entry),
+        targetNode: target ? hint(target) : azureNodeHint(targetId.split('/').slice(0, -1).join('/')),
+        provenance: { parser: 'arm', ...entry.lines },
+      });
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Flatten top-level and nested child resources, resolving names and full types
+ */
+function collectResources(
+  template: ArmTemplate,
+  evaluator: ArmExpressionEvaluator,
+  ranges: Map<object, LineRange>
+): DeclaredResource[] {
+  const declared: DeclaredResource[] = [];
+
+  const visit = (resource: ArmResource, symbolicName?: string, parent?: { type: string; name: string; id: string }) => {
+    if (!resource || typeof resource.type !== 'string') return;
+
+    const name = String(evaluator.evaluate(String(resource.name ?? symbolicName ?? ''), []));
+    const type = parent && !resource.type.includes('/') ? `${parent.type}/${resource.type}` : resource.type;
+    const fullName = parent && !name.includes('/') ? `${parent.name}/${name}` : name;
+    const id = azureResourceId(type, fullName);
+
+    const entry: DeclaredResource = { id, symbolicName, resource: { ...resource, type }, parentId: parent?.id, lines: ranges.get(resource) };
+    declared.push(entry);
+
+    for (const child of resource.resources || []) {
+      visit(child, undefined, { type, name: fullName, id });
+    }
+  };
+
+  if (Array.isArray(template.resources)) {
+    template.resources.forEach(resource => visit(resource));
+  } else {
+    // languageVersion 2.0 uses symbolic names as keys
+    Object.entries(template.resources || {}).forEach(([symbolicName, resource]) => visit(resource, symbolicName));
+  }
+
+  return declared;
+}
+
+/**
+ * Graph ID for an Azure resource: `<type>/<name>` with any API version stripped
+ */
+export function azureResourceId(type: string, name: string): string {
+  return `${type.split('@')[0]}/${name}`;
+}
+
+/**
+ * Node details for an Azure resource type
+ */
+export function azureNodeHint(type: string, apiVersion?: string, metadata: Record<string, unknown> = {}): NodeHint {
+  const [azureType, typeVersion] = type.split('@');
+  return {
+    type: azureNodeType(azureType),
+    metadata: { azureType, apiVersion: apiVersion ?? typeVersion, ...metadata },
+  };
+}
+
+function azureNodeType(azureType: string): NodeType {
+  if (/^Microsoft\.(Sql|DocumentDB|DBforPostgreSQL|DBforMySQL|DBforMariaDB|Cache)\//i.test(azureType)) {
+    return 'database';
+  }
+  if (/^Microsoft\.(ServiceBus|EventHub|EventGrid)\//i.test(azureType) || /queueServices/i.test(azureType)) {
+    return 'queue';
+  }
+  if (/^Microsoft\.ApiManagement\//i.test(azureType)) {
+    return 'api';
+  }
+  if (/^Microsoft\.(Web\/sites|App\/containerApps|ContainerInstance\/containerGroups)/i.test(azureType)) {
+    return 'service';
+  }
+  return 'azure_resource';
+}
+
+function visitStrings(value: unknown, callback: (value: string) => void): void {
+  if (typeof value === 'string') {
+    callback(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => visitStrings(item, callback));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => visitStrings(item, callback));
+  }
+}
+
+type ArmToken = { type: 'string' | 'number' | 'identifier' | 'punct'; value: string };
+
+/**
+ * Best-effort evaluator for ARM template expressions (`[concat(parameters('name'), '-app')]`).
+ * Unresolvable parameters become `${name}` placeholders; resourceId() and reference()
+ * calls are recorded as references.
+ */
+class ArmExpressionEvaluator {
+  private tokens: ArmToken[] = [];
+  private position = 0;
+  private references: AzureReference[] = [];
+
+  constructor(private template: ArmTemplate) {}
+
+  evaluate(value: string, references: AzureReference[], isDependsOn = false): unknown {
+    if (!value.startsWith('[') || value.startsWith('[[') || !value.endsWith(']')) {
+      return value;
+    }
+
+    this.tokens = tokenize(value.slice(1, -1));
+    this.position = 0;
+    this.references = [];
+
+    let result: unknown;
+    try {
+      result = this.expression();
+    } catch {
+      result = value;
+    }
+
+    for (const reference of this.references) {
+      references.push(isDependsOn && reference.via === 'resourceId' ? { ...reference, via: 'dependsOn' } : reference);
+    }
+    if (isDependsOn && typeof result === 'string' && this.references.length === 0) {
+      references.push({ target: result, via: 'dependsOn' });
+    }
+    return result;
+  }
+
+  private expression(): unknown {
+    const token = this.tokens[this.position++];
+    if (!token) throw new Error('Unexpected end of expression');
+
+    let value: unknown;
+    if (token.type === 'string') {
+      value = token.value;
+    } else if (token.type === 'number') {
+      value = Number(token.value);
+    } else if (token.type === 'identifier') {
+      this.expect('(');
+      const args: unknown[] = [];
+      while (this.peek() !== ')') {
+        args.push(this.expression());
+        if (this.peek() === ',') this.position++;
+      }
+      this.expect(')');
+      value = this.call(token.value, args);
+    } else {
+      throw new Error(`Unexpected token ${token.value}`);
+    }
+
+    // Property and index access: reference(...).outputs.x, variables('list')[0]
+    while (this.peek() === '.' || this.peek() === '[') {
+      if (this.tokens[this.position++].value === '.') {
+        const property = this.tokens[this.position++].value;
+        value = value && typeof value === 'object' ? (value as Record<string, unknown>)[property] : undefined;
+      } else {
+        const index = this.expression();
+        this.expect(']');
+        value = value && typeof value === 'object' ? (value as Record<string, unknown>)[String(index)] : undefined;
+      }
+    }
+
+    return value;
+  }
+
+  private call(name: string, args: unknown[]): unknown {
+    switch (name.toLowerCase()) {
+      case 'parameters': {
+        const parameter = this.template.parameters?.[String(args[0])];
+        return parameter?.defaultValue !== undefined ? parameter.defaultValue : `\${${args[0]}}`;
+      }
+      case 'variables': {
+        const variable = this.template.variables?.[String(args[0])];
+        return typeof variable === 'string' ? new ArmExpressionEvaluator(this.template).evaluate(variable, []) : variable;
+      }
+      case 'concat':
+        return args.every(Array.isArray) ? args.flat() : args.map(String).join('');
+      case 'format':
+        return String(args[0]).replace(/\{(\d+)\}/g, (_match, index: string) => String(args[Number(index) + 1]));
+      case 'tolower':
+        return String(args[0]).toLowerCase();
+      case 'toupper':
+        return String(args[0]).toUpperCase();
+      case 'resourceid':
+      case 'subscriptionresourceid':
+      case 'tenantresourceid':
+      case 'extensionresourceid': {
+        // Optional subscription/resource group arguments precede the resource type
+        const typeIndex = args.findIndex(arg => typeof arg === 'string' && /^[\w.-]+\/[\w./-]+$/.test(arg));
+        if (typeIndex === -1) return undefined;
+        const id = azureResourceId(String(args[typeIndex]), args.slice(typeIndex + 1).map(String).join('/'));
+        this.references.push({ target: id, via: 'resourceId' });
+        return id;
+      }
+      case 'reference': {
+        const target = String(args[0]);
+        this.references.push({ target, via: 'reference' });
+        return {};
+      }
+      default:
+        return `\${${name}()}`;
+    }
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.position]?.value;
+  }
+
+  private expect(value: string): void {
+    if (this.tokens[this.position]?.value !== value) {
+      throw new Error(`Expected ${value}`);
+    }
+    this.position++;
+  }
+}
+
+function tokenize(expression: string): ArmToken[] {
+  const tokens: ArmToken[] = [];
+  let position = 0;
+
+  while (position < expression.length) {
+    const char = expression[position];
+    if (/\s/.test(char)) {
+      position++;
+    } else if (char === "'") {
+      let value = '';
+      position++;
+      while (position < expression.length) {
+        if (expression[position] === "'" && expression[position + 1] === "'") {
+          value += "'";
+          position += 2;
+        } else if (expression[position] === "'") {
+          position++;
+          break;
+        } else {
+          value += expression[position++];
+        }
+      }
+      tokens.push({ type: 'string', value });
+    } else if (/\d/.test(char)) {
+      const match = /^\d+/.exec(expression.slice(position))![0];
+      tokens.push({ type: 'number', value: match });
+      position += match.length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][\w]*/.exec(expression.slice(position))![0];
+      tokens.push({ type: 'identifier', value: match });
+      position += match.length;
+    } else {
+      tokens.push({ type: 'punct', value: char });
+      position++;
+    }
+  }
+
+  return tokens;
+}
@@ -0,0 +1,152 @@
+/**
+ * AsyncAPI parser - creates channel (topic/queue) nodes from AsyncAPI specs and links
+ * publishing services as providers and receiving services as consumers
+ */
+import yaml from 'js-yaml';
+import { specOwner, locator } from './openapi.js';
+import { trackLineRanges, type EntryRanges, type LineRange } from './yaml-lines.js';
+import type { NodeHint, ParsedDependency, Provenance } from '../types.js';
+
+interface AsyncApiOperation {
+  operationId?: string;
+  action?: 'send' | 'receive';
+  channel?: { $ref?: string };
+}
+
+interface AsyncApiChannel {
+  address?: string | null;
+  publish?: AsyncApiOperation;
+  subscribe?: AsyncApiOperation;
+  'x-publishers'?: string[];
+  'x-producers'?: string[];
+  'x-subscribers'?: string[];
+  'x-consumers'?: string[];
+}
+
+interface AsyncApiDocument {
+  asyncapi?: string;
+  info?: { title?: string; version?: string; 'x-service'?: string };
+  servers?: Record<string, { url?: string; host?: string; protocol?: string }>;
+  channels?: Record<string, AsyncApiChannel>;
+  operations?: Record<string, AsyncApiOperation>;
+  'x-service'?: string;
+}
+
+type Action = 'send' | 'receive';
+
+/**
+ * Check whether YAML/JSON content is an AsyncAPI document
+ */
+export function isAsyncApiDocument(fileContent: string): boolean {
+  return /^\s*["']?asyncapi["']?\s*:\s*["']?\d/m.test(fileContent);
+}
+
+/**
+ * Graph ID of a message channel, e.g. `Channel/orders.created`
+ */
+export function channelId(address: string): string {
+  return `Channel/${address}`;
+}
+
+/**
+ * Parse an AsyncAPI 2.x/3.x spec. The spec describes one application: channels it
+ * sends to link to it as their provider (`api_provider`, channel -> service) and
+ * channels it receives from are consumed by it (`api_consumer`, service -> channel).
+ * `x-publishers`/`x-subscribers` on a channel add other services.
+ */
+export async function parseAsyncApi(fileContent: string, specPath = 'asyncapi.yaml'): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+
+  let document: AsyncApiDocument;
+  const ranges = new Map<object, LineRange>();
+  const entries: EntryRanges = new Map();
+  try {
+    document = yaml.load(fileContent, { listener: trackLineRanges(fileContent, ranges, entries) }) as AsyncApiDocument;
+  } catch (error) {
+    console.warn('Failed to parse AsyncAPI spec:', error instanceof Error ? error.message : 'Unknown error');
+    return dependencies;
+  }
+
+  if (!document || typeof document !== 'object' || !document.asyncapi) {
+    return dependencies;
+  }
+
+  // Servers are brokers, not the application, so only the spec itself names the owner
+  const application = specOwner(document, specPath);
+  const protocols = [...new Set(Object.values(document.servers || {}).map(server => server?.protocol).filter(Boolean))];
+  const isV2 = /^2\./.test(String(document.asyncapi));
+
+  const channels = document.channels || {};
+  const addressOf = (key: string) => {
+    const address = channels[key]?.address;
+    return isV2 || !address ? key : address;
+  };
+  const channelNode = (key: string): NodeHint => ({
+    type: 'queue',
+    name: addressOf(key),
+    metadata: { protocol: protocols.length === 1 ? protocols[0] : protocols.length > 0 ? protocols : undefined },
+  });
+
+  const locate = locator('asyncapi', ranges, entries);
+
+  const link = (
+    key: string,
+    service: string,
+    action: Action,
+    metadata: Record<string, unknown>,
+    provenance: Provenance | undefined
+  ) => {
+    const channel = channelId(addressOf(key));
+    dependencies.push(action === 'send'
+      ? {
+          source: channel,
+          target: service,
+          type: 'api_provider',
+          metadata: { action, specPath, ...metadata },
+          sourceNode: channelNode(key),
+          provenance,
+        }
+      : {
+          source: service,
+          target: channel,
+          type: 'api_consumer',
+          metadata: { action, specPath, ...metadata },
+          targetNode: channelNode(key),
+          provenance,
+        });
+  };
+
+  if (isV2) {
+    // In 2.x `subscribe` means the application publishes and `publish` means it receives
+    for (const [key, channel] of Object.entries(channels)) {
+      if (channel?.subscribe) {
+        link(key, application, 'send', { operationId: channel.subscribe.operationId }, locate(channel, 'subscribe'));
+      }
+      if (channel?.publish) {
+        link(key, application, 'receive', { operationId: channel.publish.operationId }, locate(channel, 'publish'));
+      }
+    }
+  } else {
+    for (const [operationId, operation] of Object.entries(document.operations || {})) {
+      const key = operation?.channel?.$ref?.replace(/^#\/channels\//, '').replace(/~1/g, '/').replace(/~0/g, '~');
+      if (!key || !operation.action) continue;
+      link(key, application, operation.action, { operationId }, locate(document.operations, operationId));
+    }
+  }
+
+  // Other services declared on the channel
+  for (const [key, channel] of Object.entries(channels)) {
+    for (const list of ['x-publishers', 'x-producers'] as const) {
+      for (const [index, publisher] of (channel?.[list] || []).entries()) {
+        link(key, publisher, 'send', { declaredIn: 'x-publishers' }, locate(channel![list], index));
+      }
+    }
+    for (const list of ['x-subscribers', 'x-consumers'] as const) {
+      for (const [index, subscriber] of (channel?.[list] || []).entries()) {
+        link(key, subscriber, 'receive', { declaredIn: 'x-subscribers' }, locate(channel![list], index));
+      }
+    }
+  }
+
+  return dependencies;
+}
@@ -0,0 +1,170 @@
+/**
+ * Backstage catalog parser - maps catalog-info.yaml entities to graph nodes with
+ * dependency, API and ownership edges
+ */
+import yaml from 'js-yaml';
+import { trackLineRanges, type EntryRanges, type LineRange } from './yaml-lines.js';
+import type { NodeHint, NodeType, ParsedDependency, Provenance, SourceFile } from '../types.js';
+
+interface CatalogEntity {
+  apiVersion?: string;
+  kind?: string;
+  metadata?: {
+    name?: string;
+    namespace?: string;
+    title?: string;
+    description?: string;
+    tags?: string[];
+    annotations?: Record<string, string>;
+  };
+  spec?: {
+    type?: string;
+    lifecycle?: string;
+    owner?: string;
+    system?: string;
+    domain?: string;
+    dependsOn?: string[];
+    dependencyOf?: string[];
+    providesApis?: string[];
+    consumesApis?: string[];
+  };
+}
+
+// Graph ID prefixes by entity kind; components keep their bare name like other services
+const KIND_PREFIXES: Record<string, string> = {
+  component: '',
+  api: 'API/',
+  resource: 'Resource/',
+  system: 'System/',
+  domain: 'Domain/',
+  group: 'Group/',
+  user: 'User/',
+};
+
+/**
+ * Check whether YAML content holds Backstage catalog entities
+ */
+export function isBackstageCatalog(fileContent: string): boolean {
+  return /^\s*apiVersion:\s*["']?backstage\.io\//m.test(fileContent);
+}
+
+/**
+ * Graph ID for an entity reference (`[kind:][namespace/]name`), e.g.
+ * `group:default/payments` -> `Group/payments`
+ */
+export function backstageEntityId(ref: string, defaultKind = 'component'): string {
+  const match = /^(?:([\w-]+):)?(?:([\w.-]+)\/)?(.+)$/.exec(ref.trim());
+  const kind = (match?.[1] || defaultKind).toLowerCase();
+  const name = match?.[3] || ref;
+  return `${KIND_PREFIXES[kind] ?? `${kind.charAt(0).toUpperCase()}${kind.slice(1)}/`}${name}`;
+}
+
+/**
+ * Parse every catalog file together so components pick up the domain of a system
+ * declared elsewhere
+ */
+export async function parseBackstageCatalog(files: SourceFile[]): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+  const entities = new Map<string, CatalogEntity>();
+  // Where each entity and its spec entries were read
+  const entityFiles = new Map<CatalogEntity, string>();
+  const ranges = new Map<object, LineRange>();
+  const entries: EntryRanges = new Map();
+
+  for (const file of files) {
+    let documents: CatalogEntity[];
+    try {
+      documents = yaml.loadAll(file.content, undefined, { listener: trackLineRanges(file.content, ranges, entries) }) as CatalogEntity[];
+    } catch (error) {
+      console.warn(`Failed to parse Backstage catalog ${file.path}:`, error instanceof Error ? error.message : 'Unknown error');
+      continue;
+    }
+    for (const entity of documents) {
+      if (!entity?.kind || !entity.metadata?.name || !entity.apiVersion?.startsWith('backstage.io/')) continue;
+      entities.set(backstageEntityId(entity.metadata.name, entity.kind), entity);
+      entityFiles.set(entity, file.path);
+    }
+  }
+
+  const hints = new Map([...entities.entries()].map(([id, entity]) => [id, entityHint(entity, entities)]));
+  const add = (source: string, target: string, type: ParsedDependency['type'], provenance: Provenance) => {
+    dependencies.push({ source, target, type, sourceNode: hints.get(source), targetNode: hints.get(target), provenance });
+  };
+
+  for (const [id, entity] of entities) {
+    const spec = entity.spec || {};
+    // The spec entry (or list item) a dependency was declared in
+    const locate = (key: keyof NonNullable<CatalogEntity['spec']>, index?: number): Provenance => ({
+      parser: 'backstage',
+      file: entityFiles.get(entity),
+      ...(index === undefined ? entries.get(spec)?.get(key) : entries.get(spec[key] as object)?.get(index)),
+    });
+
+    if (spec.owner) {
+      add(backstageEntityId(spec.owner, 'group'), id, 'owns', locate('owner'));
+    }
+    for (const [index, ref] of (spec.dependsOn || []).entries()) {
+      add(id, backstageEntityId(ref), 'backstage_depends_on', locate('dependsOn', index));
+    }
+    for (const [index, ref] of (spec.dependencyOf || []).entries()) {
+      add(backstageEntityId(ref), id, 'backstage_depends_on', locate('dependencyOf', index));
+    }
+    // Same direction as the OpenAPI parser: API -> provider, consumer -> API
+    for (const [index, ref] of (spec.providesApis || []).entries()) {
+      add(backstageEntityId(ref, 'api'), id, 'api_provider', locate('providesApis', index));
+    }
+    for (const [index, ref] of (spec.consumesApis || []).entries()) {
+      add(id, backstageEntityId(ref, 'api'), 'api_consumer', locate('consumesApis', index));
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Node details for an entity, with `system` and `domain` as grouping metadata
+ */
+function entityHint(entity: CatalogEntity, entities: Map<string, CatalogEntity>): NodeHint {
+  const kind = entity.kind!.toLowerCase();
+  const spec = entity.spec || {};
+  const system = spec.system ? backstageEntityId(spec.system, 'system') : undefined;
+  // Components inherit the domain of their system
+  const domain = spec.domain ?? (system ? entities.get(system)?.spec?.domain : undefined);
+
+  return {
+    type: nodeType(kind, spec.type),
+    name: entity.metadata?.title,
+    metadata: {
+      backstageKind: entity.kind,
+      backstageType: spec.type,
+      lifecycle: spec.lifecycle,
+      owner: spec.owner,
+      system: system?.replace(/^System\//, ''),
+      domain: domain ? backstageEntityId(domain, 'domain').replace(/^Domain\//, '') : undefined,
+      description: entity.metadata?.description,
+      tags: entity.metadata?.tags,
+      annotations: entity.metadata?.annotations,
+    },
+  };
+}
+
+function nodeType(kind: string, type: string | undefined): NodeType {
+  switch (kind) {
+    case 'component':
+      return 'service';
+    case 'api':
+      return 'api';
+    case 'system':
+    case 'domain':
+      return 'system';
+    case 'group':
+    case 'user':
+      return 'team';
+    case 'resource':
+      if (type && /database|db|sql|storage|cache/i.test(type)) return 'database';
+      if (type && /queue|topic|stream|kafka/i.test(type)) return 'queue';
+      return 'unknown';
+    default:
+      return 'unknown';
+  }
+}
@@ -0,0 +1,567 @@
+/**
+ * Bicep parser - extracts Azure resource and module dependencies from .bicep files
+ */
+import path from 'path';
+import { azureNodeHint, azureResourceId, type AzureReference } from './arm.js';
+import { lineLocator, type LineRange } from './yaml-lines.js';
+import type { ParsedDependency, SourceFile } from '../types.js';
+
+interface BicepToken {
+  type: 'identifier' | 'string' | 'number' | 'punct' | 'newline';
+  value: string;
+  /** 1-based line of the tokenized source the token starts on */
+  line: number;
+  /** Tokens inside `${...}` interpolations of a string */
+  inner?: BicepToken[];
+}
+
+interface Declaration {
+  kind: 'resource' | 'module';
+  symbol: string;
+  /** Resource type (with API version) or module path */
+  target: string;
+  existing: boolean;
+  body: BicepToken[];
+  parent?: Declaration;
+  id?: string;
+  /** Lines of the whole declaration */
+  lines: LineRange;
+}
+
+/**
+ * A module parameter value passed in by the caller
+ */
+interface ParamBinding {
+  value?: string;
+  /** Caller resources referenced by the value */
+  references: string[];
+}
+
+const MAX_MODULE_DEPTH = 10;
+
+/**
+ * Check whether a module path is a local .bicep file (not a registry or template spec reference)
+ */
+function isLocalModule(modulePath: string): boolean {
+  return !/^(br|ts)[:/]/.test(modulePath);
+}
+
+/**
+ * List the local .bicep files a file uses as modules
+ */
+export function listBicepModules(file: SourceFile): string[] {
+  return parseDeclarations(tokenizeBicep(file.content))
+    .filter(declaration => declaration.kind === 'module' && isLocalModule(declaration.target))
+    .map(declaration => path.posix.normalize(path.posix.join(path.posix.dirname(file.path), declaration.target)));
+}
+
+/**
+ * Parse a set of .bicep files. Files used as modules are evaluated with the parameters their
+ * callers pass, so resource names and references resolve through the module boundary.
+ */
+export async function parseBicepFiles(files: SourceFile[]): Promise<ParsedDependency[]> {
+  const fileMap = new Map(files.map(file => [file.path, file]));
+  const referenced = new Set(files.flatMap(listBicepModules));
+  const roots = files.filter(file => !referenced.has(file.path));
+  const dependencies: ParsedDependency[] = [];
+
+  const parsed = new Set<string>();
+  for (const file of roots) {
+    dependencies.push(...parseBicepFile(file, fileMap, new Map(), [], parsed).dependencies);
+  }
+
+  // Files only reachable through a module cycle are parsed on their own
+  for (const file of files) {
+    if (!parsed.has(file.path)) {
+      dependencies.push(...parseBicepFile(file, fileMap, new Map(), [], parsed).dependencies);
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Parse a single .bicep file without following its modules
+ */
+export async function parseBicep(fileContent: string, filePath = 'main.bicep'): Promise<ParsedDependency[]> {
+  const file = { path: filePath, content: fileContent };
+  return parseBicepFile(file, new Map([[filePath, file]]), new Map(), [], new Set()).dependencies;
+}
+
+function parseBicepFile(
+  file: SourceFile,
+  fileMap: Map<string, SourceFile>,
+  bindings: Map<string, ParamBinding>,
+  stack: string[],
+  parsed: Set<string>
+): { dependencies: ParsedDependency[]; resourceIds: string[] } {
+  parsed.add(file.path);
+  const dependencies: ParsedDependency[] = [];
+  const tokens = tokenizeBicep(file.content);
+  const values = collectValues(tokens, bindings);
+  const declarations = parseDeclarations(tokens);
+  const symbols = new Map<string, Declaration>(declarations.map(declaration => [declaration.symbol, declaration]));
+
+  // Resolve IDs first so references can point at any declaration
+  for (const declaration of declarations) {
+    declaration.id = declarationId(declaration, symbols, values);
+  }
+
+  const hint = (declaration: Declaration) => declaration.kind === 'module'
+    ? { type: 'azure_resource' as const, metadata: { azureType: 'Microsoft.Resources/deployments', module: declaration.target, symbolicName: declaration.symbol, file: file.path } }
+    : azureNodeHint(fullType(declaration), undefined, { symbolicName: declaration.symbol, existing: declaration.existing || undefined, file: file.path });
+
+  for (const declaration of declarations) {
+    const references: AzureReference[] = [];
+    if (declaration.parent) references.push({ target: declaration.parent.id!, via: 'parent' });
+
+    const parentSymbol = propertyTokens(declaration.body, 'parent')?.[0]?.value;
+    if (parentSymbol && symbols.has(parentSymbol)) {
+      references.push({ target: symbols.get(parentSymbol)!.id!, via: 'parent' });
+    }
+
+    for (const symbol of referencedSymbols(propertyTokens(declaration.body, 'dependsOn') || [], symbols)) {
+      references.push({ target: symbols.get(symbol)!.id!, via: 'dependsOn' });
+    }
+    for (const symbol of referencedSymbols(declaration.body, symbols)) {
+      references.push({ target: symbols.get(symbol)!.id!, via: 'symbolic' });
+    }
+    references.push(...resourceIdCalls(declaration.body, values));
+
+    // Parameters bound to caller resources
+    for (const token of flatten(declaration.body)) {
+      if (token.type === 'identifier' && bindings.has(token.value)) {
+        for (const target of bindings.get(token.value)!.references) {
+          references.push({ target, via: 'symbolic' });
+        }
+      }
+    }
+
+    const seen = new Set<string>();
+    for (const reference of references) {
+      if (reference.target === declaration.id || seen.has(reference.target)) continue;
+      seen.add(reference.target);
+      const target = [...symbols.values()].find(candidate => candidate.id === reference.target);
+
+      dependencies.push({
+        source: declaration.id!,
+        target: reference.target,
+        type: 'azure_resource',
+        metadata: { via: reference.via },
+        sourceNode: hint(declaration),
+        targetNode: target ? hint(target) : undefined,
+        provenance: { parser: 'bicep', file: file.path, ...declaration.lines },
+      });
+    }
+
+    if (declaration.kind === 'module' && isLocalModule(declaration.target)) {
+      const modulePath = path.posix.normalize(path.posix.join(path.posix.dirname(file.path), declaration.target));
+      const moduleFile = fileMap.get(modulePath);
+      if (!moduleFile) continue;
+      if (stack.includes(modulePath) || modulePath === file.path || stack.length >= MAX_MODULE_DEPTH) {
+        console.warn(`Skipping recursive Bicep module: ${modulePath}`);
+        continue;
+      }
+
+      const nested = parseBicepFile(moduleFile, fileMap, moduleBindings(declaration, symbols, values), [...stack, file.path], parsed);
+      dependencies.push(...nested.dependencies);
+      for (const resourceId of nested.resourceIds) {
+        dependencies.push({
+          source: declaration.id!,
+          target: resourceId,
+          type: 'azure_module',
+          metadata: { module: declaration.target },
+          sourceNode: hint(declaration),
+          provenance: { parser: 'bicep', file: file.path, ...declaration.lines },
+        });
+      }
+    }
+  }
+
+  return {
+    dependencies,
+    resourceIds: declarations
+      .filter(declaration => declaration.kind === 'resource' && !declaration.parent)
+      .map(declaration => declaration.id!),
+  };
+}
+
+/**
+ * Evaluate the parameters a module declaration passes to its file
+ */
+function moduleBindings(
+  declaration: Declaration,
+  symbols: Map<string, Declaration>,
+  values: Map<string, string | undefined>
+): Map<string, ParamBinding> {
+  const bindings = new Map<string, ParamBinding>();
+  const params = propertyTokens(declaration.body, 'params');
+  if (!params || params[0]?.value !== '{') return bindings;
+
+  for (const [name, tokens] of objectProperties(params, 0)) {
+    bindings.set(name, {
+      value: evaluate(tokens, values),
+      references: referencedSymbols(tokens, symbols).map(symbol => symbols.get(symbol)!.id!),
+    });
+  }
+
+  return bindings;
+}
+
+/**
+ * Parameter defaults (or caller bindings) and variables that evaluate to strings
+ */
+function collectValues(tokens: BicepToken[], bindings: Map<string, ParamBinding>): Map<string, string | undefined> {
+  const values = new Map<string, string | undefined>();
+
+  for (const statement of statements(tokens)) {
+    const [keyword, name] = statement;
+    if (keyword?.value === 'param' && name) {
+      const assign = statement.findIndex(token => token.value === '=');
+      const binding = bindings.get(name.value);
+      values.set(name.value, binding ? binding.value : assign === -1 ? undefined : evaluate(statement.slice(assign + 1), values));
+    } else if (keyword?.value === 'var' && name) {
+      values.set(name.value, evaluate(statement.slice(3), values));
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Resource and module declarations, including nested child resources
+ */
+function parseDeclarations(tokens: BicepToken[], parent?: Declaration): Declaration[] {
+  const declarations: Declaration[] = [];
+
+  for (const statement of parent ? nestedStatements(tokens) : statements(tokens)) {
+    const [keyword, symbol, target] = statement;
+    if (!keyword || !symbol || !target || target.type !== 'string') continue;
+    if (keyword.value !== 'resource' && keyword.value !== 'module') continue;
+
+    const assign = statement.findIndex(token => token.value === '=');
+    if (assign === -1) continue;
+
+    const declaration: Declaration = {
+      kind: keyword.value as Declaration['kind'],
+      symbol: symbol.value,
+      target: target.value,
+      existing: statement.slice(3, assign).some(token => token.value === 'existing'),
+      body: statement.slice(assign + 1),
+      parent,
+      lines: { startLine: keyword.line, endLine: statement[statement.length - 1].line },
+    };
+    declarations.push(declaration);
+
+    if (declaration.kind === 'resource') {
+      const open = declaration.body.findIndex(token => token.value === '{');
+      if (open !== -1) {
+        declarations.push(...parseDeclarations(declaration.body.slice(open), declaration));
+      }
+    }
+  }
+
+  return declarations;
+}
+
+function declarationId(declaration: Declaration, symbols: Map<string, Declaration>, values: Map<string, string | undefined>): string {
+  if (declaration.id) return declaration.id;
+
+  const nameTokens = propertyTokens(declaration.body, 'name');
+  const name = nameTokens ? evaluate(nameTokens, values) ?? `\${${tokenText(nameTokens)}}` : declaration.symbol;
+
+  if (declaration.kind === 'module') {
+    return azureResourceId('Microsoft.Resources/deployments', name);
+  }
+
+  const parentSymbol = propertyTokens(declaration.body, 'parent')?.[0]?.value;
+  const parent = declaration.parent || (parentSymbol ? symbols.get(parentSymbol) : undefined);
+  if (parent && parent !== declaration) {
+    const parentId = declarationId(parent, symbols, values);
+    const parentName = parentId.slice(fullType(parent).split('@')[0].length + 1);
+    return azureResourceId(fullType(declaration), `${parentName}/${name}`);
+  }
+
+  return azureResourceId(fullType(declaration), name);
+}
+
+/**
+ * Full resource type; nested child resources declare only the child segment
+ */
+function fullType(declaration: Declaration): string {
+  if (declaration.parent && !declaration.target.includes('/')) {
+    const [childType, childVersion] = declaration.target.split('@');
+    const [parentType, parentVersion] = fullType(declaration.parent).split('@');
+    return `${parentType}/${childType}@${childVersion ?? parentVersion}`;
+  }
+  return declaration.target;
+}
+
+/**
+ * Declared symbols used in an expression (skipping property keys and member names)
+ */
+function referencedSymbols(tokens: BicepToken[], symbols: Map<string, Declaration>): string[] {
+  const found = new Set<string>();
+  const flat = flatten(tokens);
+
+  flat.forEach((token, index) => {
+    const previous = flat[index - 1];
+    const next = flat[index + 1];
+    if (token.type !== 'identifier' || !symbols.has(token.value)) return;
+    if (previous?.value === '.' || previous?.value === '.?' || previous?.value === 'resource' || previous?.value === 'module') return;
+    if (next?.value === ':' && (!previous || ['{', ',', '\n'].includes(previous.value))) return;
+    found.add(token.value);
+  });
+
+  return [...found];
+}
+
+/**
+ * resourceId('Microsoft.Storage/storageAccounts', name) calls
+ */
+function resourceIdCalls(tokens: BicepToken[], values: Map<string, string | undefined>): AzureReference[] {
+  const references: AzureReference[] = [];
+  const flat = flatten(tokens);
+
+  flat.forEach((token, index) => {
+    if (token.type !== 'identifier' || !/^(resourceId|subscriptionResourceId|tenantResourceId)$/.test(token.value) || flat[index + 1]?.value !== '(') return;
+
+    const args = splitArguments(flat, index + 1).map(arg => evaluate(arg, values));
+    const typeIndex = args.findIndex(arg => arg !== undefined && /^[\w.-]+\/[\w./-]+$/.test(arg));
+    if (typeIndex === -1) return;
+    references.push({
+      target: azureResourceId(args[typeIndex]!, args.slice(typeIndex + 1).map(arg => arg ?? '${?}').join('/')),
+      via: 'resourceId',
+    });
+  });
+
+  return references;
+}
+
+function splitArguments(tokens: BicepToken[], open: number): BicepToken[][] {
+  const args: BicepToken[][] = [[]];
+  let depth = 0;
+
+  for (let index = open + 1; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (['(', '[', '{'].includes(token.value)) depth++;
+    if ([')', ']', '}'].includes(token.value)) {
+      if (depth === 0) break;
+      depth--;
+    }
+    if (depth === 0 && token.value === ',') {
+      args.push([]);
+    } else if (token.type !== 'newline') {
+      args[args.length - 1].push(token);
+    }
+  }
+
+  return args.filter(arg => arg.length > 0);
+}
+
+/**
+ * Evaluate a simple string expression: a literal, interpolated string or param/var name
+ */
+function evaluate(tokens: BicepToken[], values: Map<string, string | undefined>): string | undefined {
+  const meaningful = tokens.filter(token => token.type !== 'newline');
+  if (meaningful.length !== 1) return undefined;
+
+  const [token] = meaningful;
+  if (token.type === 'number') return token.value;
+  if (token.type === 'identifier') return values.get(token.value);
+  if (token.type === 'string') {
+    return token.value.replace(/\$\{([^}]*)\}/g, (match, expression: string) => values.get(expression.trim()) ?? match);
+  }
+  return undefined;
+}
+
+/**
+ * Tokens of a top-level property (`name: ...`) inside the first object of a declaration body
+ */
+function propertyTokens(body: BicepToken[], property: string): BicepToken[] | undefined {
+  const open = body.findIndex(token => token.value === '{');
+  if (open === -1) return undefined;
+  return objectProperties(body, open).get(property);
+}
+
+/**
+ * Read `key: value` pairs of the object starting at `open`
+ */
+function objectProperties(tokens: BicepToken[], open: number): Map<string, BicepToken[]> {
+  const properties = new Map<string, BicepToken[]>();
+  let depth = 0;
+  let key: string | undefined;
+  let value: BicepToken[] = [];
+  let atEntryStart = true;
+
+  for (let index = open; index < tokens.length; index++) {
+    const token = tokens[index];
+
+    if (['{', '[', '('].includes(token.value)) {
+      depth++;
+      if (depth === 1) continue;
+    }
+    if (['}', ']', ')'].includes(token.value)) {
+      depth--;
+      if (depth === 0) break;
+    }
+
+    if (depth === 1 && (token.type === 'newline' || token.value === ',')) {
+      if (key !== undefined) properties.set(key, value);
+      key = undefined;
+      value = [];
+      atEntryStart = true;
+      continue;
+    }
+
+    if (depth === 1 && atEntryStart && (token.type === 'identifier' || token.type === 'string') && tokens[index + 1]?.value === ':') {
+      key = token.value;
+      index++;
+      atEntryStart = false;
+      continue;
+    }
+
+    atEntryStart = false;
+    if (key !== undefined) value.push(token);
+  }
+
+  if (key !== undefined) properties.set(key, value);
+  return properties;
+}
+
+/**
+ * Split tokens into top-level statements (newline-terminated outside brackets)
+ */
+function statements(tokens: BicepToken[]): BicepToken[][] {
+  const result: BicepToken[][] = [];
+  let current: BicepToken[] = [];
+  let depth = 0;
+
+  for (const token of tokens) {
+    if (['{', '[', '('].includes(token.value)) depth++;
+    if (['}', ']', ')'].includes(token.value)) depth--;
+
+    if (token.type === 'newline' && depth === 0) {
+      if (current.length > 0) result.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+
+  if (current.length > 0) result.push(current);
+  return result.filter(statement => statement[0]?.value !== '@');
+}
+
+/**
+ * Statements directly inside the object that starts at tokens[0]
+ */
+function nestedStatements(tokens: BicepToken[]): BicepToken[][] {
+  const result: BicepToken[][] = [];
+  let current: BicepToken[] = [];
+  let depth = 0;
+
+  for (const token of tokens) {
+    if (['{', '[', '('].includes(token.value)) {
+      depth++;
+      if (depth === 1) continue;
+    }
+    if (['}', ']', ')'].includes(token.value)) {
+      depth--;
+      if (depth === 0) break;
+    }
+
+    if (token.type === 'newline' && depth === 1) {
+      if (current.length > 0) result.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+
+  if (current.length > 0) result.push(current);
+  return result;
+}
+
+function flatten(tokens: BicepToken[]): BicepToken[] {
+  return tokens.flatMap(token => token.inner ? [token, ...flatten(token.inner)] : [token]);
+}
+
+function tokenText(tokens: BicepToken[]): string {
+  return tokens.filter(token => token.type !== 'newline').map(token => token.value).join('');
+}
+
+/**
+ * Split Bicep source into tokens; comments are dropped and newlines kept as statement separators
+ */
+export function tokenizeBicep(source: string): BicepToken[] {
+  const tokens: BicepToken[] = [];
+  const lineAt = lineLocator(source);
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+    const rest = source.slice(position);
+    const line = lineAt(position);
+
+    if (char === '\n') {
+      tokens.push({ type: 'newline', value: '\n', line });
+      position++;
+    } else if (/\s/.test(char)) {
+      position++;
+    } else if (rest.startsWith('//')) {
+      while (position < source.length && source[position] !== '\n') position++;
+    } else if (rest.startsWith('/*')) {
+      const end = source.indexOf('*/', position + 2);
+      position = end === -1 ? source.length : end + 2;
+    } else if (rest.startsWith("'''")) {
+      const end = source.indexOf("'''", position + 3);
+      const stop = end === -1 ? source.length : end;
+      tokens.push({ type: 'string', value: source.slice(position + 3, stop), line });
+      position = stop + 3;
+    } else if (char === "'") {
+      let value = '';
+      const inner: BicepToken[] = [];
+      position++;
+      while (position < source.length && source[position] !== "'" && source[position] !== '\n') {
+        if (source[position] === '\\') {
+          value += source[position + 1] ?? '';
+          position += 2;
+        } else if (source.startsWith('${', position)) {
+          // Find the matching brace of the interpolation
+          let depth = 0;
+          let end = position + 2;
+          for (; end < source.length; end++) {
+            if (source[end] === '{') depth++;
+            if (source[end] === '}') {
+              if (depth === 0) break;
+              depth--;
+            }
+          }
+          const expression = source.slice(position + 2, end);
+          inner.push(...tokenizeBicep(expression));
+          value += `\${${expression}}`;
+          position = end + 1;
+        } else {
+          value += source[position++];
+        }
+      }
+      position++;
+      tokens.push({ type: 'string', value, inner: inner.length > 0 ? inner : undefined, line });
+    } else if (/\d/.test(char)) {
+      const match = /^\d+(\.\d+)?/.exec(rest)![0];
+      tokens.push({ type: 'number', value: match, line });
+      position += match.length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_]\w*/.exec(rest)![0];
+      tokens.push({ type: 'identifier', value: match, line });
+      position += match.length;
+    } else {
+      const punct = ['==', '!=', '<=', '>=', '&&', '||', '??', '.?', '::', '=>'].find(candidate => rest.startsWith(candidate)) || char;
+      tokens.push({ type: 'punct', value: punct, line });
+      position += punct.length;
+    }
+  }
+
+  return tokens;
+}
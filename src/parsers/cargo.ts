@@ -0,0 +1,69 @@
+/**
+ * Cargo.toml parser - extracts Rust crate dependencies
+ */
+import { parseToml, type TomlTable } from './toml.js';
+import type { EntryRanges } from './yaml-lines.js';
+import type { ParsedDependency } from '../types.js';
+
+const DEPENDENCY_TABLES: Array<[string, string]> = [
+  ['dependencies', 'production'],
+  ['dev-dependencies', 'development'],
+  ['build-dependencies', 'build'],
+];
+
+/**
+ * Parse Cargo.toml content and extract dependencies, including target-specific ones
+ */
+export async function parseCargoToml(fileContent: string): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+
+  const entries: EntryRanges = new Map();
+  let manifest: TomlTable;
+  try {
+    manifest = parseToml(fileContent, entries);
+  } catch (error) {
+    console.warn('Failed to parse Cargo.toml:', error instanceof Error ? error.message : 'Unknown error');
+    return dependencies;
+  }
+
+  // Virtual workspace manifests only declare shared versions
+  const sourceName = (manifest.package as TomlTable | undefined)?.name;
+  if (typeof sourceName !== 'string') {
+    return dependencies;
+  }
+
+  const addTable = (table: TomlTable | undefined, dependencyType: string, target?: string) => {
+    if (!table) return;
+    for (const [key, spec] of Object.entries(table)) {
+      const details = typeof spec === 'object' && !Array.isArray(spec) ? spec as TomlTable : {};
+      dependencies.push({
+        source: sourceName,
+        // `package` renames: `http1 = { package = "http", version = "1" }`
+        target: typeof details.package === 'string' ? details.package : key,
+        type: 'cargo_dependency',
+        metadata: {
+          version: typeof spec === 'string' ? spec : details.version,
+          dependencyType: details.optional === true ? 'optional' : dependencyType,
+          target,
+          path: details.path,
+          git: details.git,
+          workspace: details.workspace === true || undefined,
+        },
+        provenance: { parser: 'cargo', ...entries.get(table)?.get(key) },
+      });
+    }
+  };
+
+  for (const [tableName, dependencyType] of DEPENDENCY_TABLES) {
+    addTable(manifest[tableName] as TomlTable | undefined, dependencyType);
+  }
+
+  // [target.'cfg(unix)'.dependencies]
+  for (const [target, tables] of Object.entries((manifest.target || {}) as TomlTable)) {
+    for (const [tableName, dependencyType] of DEPENDENCY_TABLES) {
+      addTable((tables as TomlTable)[tableName] as TomlTable | undefined, dependencyType, target);
+    }
+  }
+
+  return dependencies;
+}
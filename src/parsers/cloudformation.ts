@@ -0,0 +1,342 @@
+/**
+ * CloudFormation parser - extracts resource dependencies from CloudFormation and SAM templates
+ */
+import path from 'path';
+import yaml from 'js-yaml';
+import { trackLineRanges, type LineRange } from './yaml-lines.js';
+import type { NodeHint, NodeType, ParsedDependency, Provenance } from '../types.js';
+
+interface CloudFormationResource {
+  Type?: string;
+  Properties?: Record<string, unknown>;
+  DependsOn?: string | string[];
+}
+
+interface CloudFormationOutput {
+  Value?: unknown;
+  Export?: { Name?: unknown };
+}
+
+type Parameters = Record<string, { Default?: unknown }>;
+
+interface CloudFormationTemplate {
+  AWSTemplateFormatVersion?: string;
+  Transform?: string | string[];
+  Parameters?: Parameters;
+  Resources?: Record<string, CloudFormationResource>;
+  Outputs?: Record<string, CloudFormationOutput>;
+}
+
+interface Reference {
+  target: string;
+  via: 'Ref' | 'GetAtt' | 'Sub' | 'DependsOn';
+  attribute?: string;
+}
+
+// Short-form intrinsic functions and the long form they expand to
+const INTRINSIC_TAGS: Record<string, string> = {
+  Ref: 'Ref',
+  Condition: 'Condition',
+  GetAtt: 'Fn::GetAtt',
+  Sub: 'Fn::Sub',
+  ImportValue: 'Fn::ImportValue',
+  Join: 'Fn::Join',
+  Select: 'Fn::Select',
+  Split: 'Fn::Split',
+  If: 'Fn::If',
+  Equals: 'Fn::Equals',
+  Not: 'Fn::Not',
+  And: 'Fn::And',
+  Or: 'Fn::Or',
+  FindInMap: 'Fn::FindInMap',
+  Base64: 'Fn::Base64',
+  Cidr: 'Fn::Cidr',
+  GetAZs: 'Fn::GetAZs',
+  Transform: 'Fn::Transform',
+  ToJsonString: 'Fn::ToJsonString',
+  Length: 'Fn::Length',
+};
+
+/**
+ * js-yaml schema that understands `!Ref`, `!GetAtt` and the other short-form tags
+ */
+export const CLOUDFORMATION_SCHEMA = yaml.DEFAULT_SCHEMA.extend(
+  Object.entries(INTRINSIC_TAGS).flatMap(([tag, fn]) =>
+    (['scalar', 'sequence', 'mapping'] as const).map(kind =>
+      new yaml.Type(`!${tag}`, {
+        kind,
+        construct: (data: unknown) => {
+          // !GetAtt Resource.Attribute is shorthand for [Resource, Attribute]
+          if (tag === 'GetAtt' && typeof data === 'string') {
+            const dot = data.indexOf('.');
+            return { [fn]: dot === -1 ? [data] : [data.slice(0, dot), data.slice(dot + 1)] };
+          }
+          return { [fn]: data ?? '' };
+        },
+      })
+    )
+  )
+);
+
+/**
+ * Check whether YAML/JSON content is a CloudFormation or SAM template
+ */
+export function isCloudFormationTemplate(fileContent: string): boolean {
+  return /AWSTemplateFormatVersion|AWS::Serverless-2016-10-31/.test(fileContent) ||
+    (/["']?Resources["']?\s*:/.test(fileContent) && /["']?Type["']?\s*:\s*["']?AWS::/.test(fileContent));
+}
+
+/**
+ * Derive a stack name from a template path, e.g. `orders/template.yaml` -> `orders`
+ */
+export function cloudFormationStackName(filePath: string): string {
+  const base = path.posix.basename(filePath).replace(/(\.template)?\.(ya?ml|json|template)$/i, '');
+  if (/^(template|cloudformation|cfn|stack|main|packaged)$/i.test(base)) {
+    const dir = path.posix.basename(path.posix.dirname(filePath));
+    return dir && dir !== '.' ? dir : base;
+  }
+  return base;
+}
+
+/**
+ * Parse a CloudFormation/SAM template. Resource IDs are `<stack>/<LogicalId>`;
+ * exports are shared `Export/<name>` nodes so cross-stack imports connect. Each
+ * dependency's lines are those of the resource or output it was read from.
+ */
+export async function parseCloudFormation(fileContent: string, stackName = 'stack'): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+
+  let template: CloudFormationTemplate;
+  const ranges = new Map<object, LineRange>();
+  try {
+    template = yaml.load(fileContent, {
+      schema: CLOUDFORMATION_SCHEMA,
+      listener: trackLineRanges(fileContent, ranges),
+    }) as CloudFormationTemplate;
+  } catch (error) {
+    console.warn('Failed to parse CloudFormation template:', error instanceof Error ? error.message : 'Unknown error');
+    return dependencies;
+  }
+
+  if (!template || typeof template !== 'object' || !template.Resources) {
+    return dependencies;
+  }
+
+  const resources = template.Resources;
+  const parameters = template.Parameters || {};
+  const resourceId = (logicalId: string) => `${stackName}/${logicalId}`;
+  const hint = (logicalId: string): NodeHint => {
+    const resourceType = resources[logicalId]?.Type;
+    return {
+      type: nodeTypeFor(resourceType),
+      metadata: { stack: stackName, logicalId, resourceType },
+    };
+  };
+  const location = (declaration: object): Provenance | undefined => {
+    const range = ranges.get(declaration);
+    return range && { parser: 'cloudformation', ...range };
+  };
+
+  for (const [logicalId, resource] of Object.entries(resources)) {
+    if (!resource || typeof resource !== 'object') continue;
+
+    const references: Array<Reference & { property?: string }> = [];
+    for (const [property, value] of Object.entries(resource.Properties || {})) {
+      references.push(...collectReferences(value).map(ref => ({ ...ref, property })));
+    }
+    const dependsOn = typeof resource.DependsOn === 'string' ? [resource.DependsOn] : resource.DependsOn || [];
+    references.push(...dependsOn.map(target => ({ target, via: 'DependsOn' as const })));
+
+    for (const ref of references) {
+      // Parameters, pseudo parameters (AWS::Region) and self-references aren't resources
+      if (!(ref.target in resources) || ref.target === logicalId) continue;
+      dependencies.push({
+        source: resourceId(logicalId),
+        target: resourceId(ref.target),
+        type: 'cloudformation_resource',
+        metadata: { via: ref.via, attribute: ref.attribute, property: ref.property },
+        sourceNode: hint(logicalId),
+        targetNode: hint(ref.target),
+        provenance: location(resource),
+      });
+    }
+
+    // Cross-stack imports
+    for (const exportName of collectImports(resource.Properties, parameters, stackName)) {
+      dependencies.push({
+        source: resourceId(logicalId),
+        target: `Export/${exportName}`,
+        type: 'cloudformation_resource',
+        metadata: { via: 'ImportValue' },
+        sourceNode: hint(logicalId),
+        targetNode: { type: 'cloudformation_resource', metadata: { exportName } },
+        provenance: location(resource),
+      });
+    }
+
+    // SAM API events without an explicit API use the implicit ServerlessRestApi/ServerlessHttpApi
+    if (resource.Type === 'AWS::Serverless::Function') {
+      const events = (resource.Properties?.Events || {}) as Record<string, { Type?: string; Properties?: Record<string, unknown> }>;
+      for (const event of Object.values(events)) {
+        const implicitApi = event?.Type === 'Api' && !event.Properties?.RestApiId
+          ? 'ServerlessRestApi'
+          : event?.Type === 'HttpApi' && !event.Properties?.ApiId
+            ? 'ServerlessHttpApi'
+            : undefined;
+        if (implicitApi) {
+          dependencies.push({
+            source: resourceId(implicitApi),
+            target: resourceId(logicalId),
+            type: 'cloudformation_resource',
+            metadata: { via: 'SAM implicit API' },
+            sourceNode: { type: 'api', metadata: { stack: stackName, logicalId: implicitApi } },
+            targetNode: hint(logicalId),
+            provenance: location(event),
+          });
+        }
+      }
+    }
+  }
+
+  // Exports link to the resources that provide their value
+  for (const output of Object.values(template.Outputs || {})) {
+    const exportName = output?.Export?.Name !== undefined
+      ? resolveString(output.Export.Name, parameters, stackName)
+      : undefined;
+    if (!exportName) continue;
+
+    for (const ref of collectReferences(output.Value)) {
+      if (!(ref.target in resources)) continue;
+      dependencies.push({
+        source: `Export/${exportName}`,
+        target: resourceId(ref.target),
+        type: 'cloudformation_resource',
+        metadata: { via: ref.via, attribute: ref.attribute, export: true },
+        sourceNode: { type: 'cloudformation_resource', metadata: { exportName, stack: stackName } },
+        targetNode: hint(ref.target),
+        provenance: location(output),
+      });
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Find Ref, Fn::GetAtt and Fn::Sub references anywhere in a value
+ */
+function collectReferences(value: unknown): Reference[] {
+  const references: Reference[] = [];
+
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+
+    for (const [key, nested] of Object.entries(node)) {
+      if (key === 'Ref' && typeof nested === 'string') {
+        references.push({ target: nested, via: 'Ref' });
+      } else if (key === 'Fn::GetAtt') {
+        const [target, ...attribute] = Array.isArray(nested) ? nested : String(nested).split('.');
+        if (typeof target === 'string') {
+          references.push({ target, via: 'GetAtt', attribute: attribute.join('.') || undefined });
+        }
+      } else if (key === 'Fn::Sub') {
+        const [template, variables] = Array.isArray(nested) ? nested : [nested, {}];
+        const localNames = new Set(Object.keys(variables || {}));
+        for (const match of String(template).matchAll(/\$\{(?!!)([^}.]+)(?:\.([^}]+))?\}/g)) {
+          if (!localNames.has(match[1])) {
+            references.push({ target: match[1], via: 'Sub', attribute: match[2] });
+          }
+        }
+        visit(variables);
+      } else {
+        visit(nested);
+      }
+    }
+  };
+
+  visit(value);
+  return references;
+}
+
+/**
+ * Find Fn::ImportValue export names anywhere in a value
+ */
+function collectImports(value: unknown, parameters: Parameters, stackName: string): string[] {
+  const imports: string[] = [];
+
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (node && typeof node === 'object') {
+      for (const [key, nested] of Object.entries(node)) {
+        if (key === 'Fn::ImportValue') {
+          const name = resolveString(nested, parameters, stackName);
+          if (name) imports.push(name);
+        } else {
+          visit(nested);
+        }
+      }
+    }
+  };
+
+  visit(value);
+  return imports;
+}
+
+/**
+ * Best-effort evaluation of a string expression (literal, Ref to a parameter default,
+ * Fn::Sub or Fn::Join) used for export names
+ */
+function resolveString(value: unknown, parameters: Parameters, stackName: string): string | undefined {
+  if (typeof value === 'string' || typeof value === 'number') return String(value);
+  if (!value || typeof value !== 'object') return undefined;
+
+  const lookup = (name: string): string => {
+    if (name === 'AWS::StackName') return stackName;
+    const fallback = parameters[name]?.Default;
+    return fallback !== undefined ? String(fallback) : `\${${name}}`;
+  };
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.Ref === 'string') return lookup(record.Ref);
+
+  if ('Fn::Sub' in record) {
+    const [template, variables] = Array.isArray(record['Fn::Sub']) ? record['Fn::Sub'] : [record['Fn::Sub'], {}];
+    return String(template).replace(/\$\{(?!!)([^}]+)\}/g, (match, name: string) => {
+      const local = (variables as Record<string, unknown> | undefined)?.[name];
+      return local !== undefined ? resolveString(local, parameters, stackName) ?? match : lookup(name);
+    });
+  }
+
+  if (Array.isArray(record['Fn::Join'])) {
+    const [delimiter, parts] = record['Fn::Join'] as [string, unknown[]];
+    const resolved = (parts || []).map(part => resolveString(part, parameters, stackName));
+    return resolved.every(part => part !== undefined) ? resolved.join(delimiter) : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Map an AWS resource type onto a graph node type
+ */
+function nodeTypeFor(resourceType: string | undefined): NodeType {
+  if (!resourceType) return 'cloudformation_resource';
+  if (/::(DynamoDB|RDS|DocDB|Neptune|ElastiCache|Redshift|MemoryDB)::/.test(resourceType) || resourceType === 'AWS::Serverless::SimpleTable') {
+    return 'database';
+  }
+  if (/::(SQS|SNS|Kinesis|Events|MSK|AmazonMQ)::/.test(resourceType)) {
+    return 'queue';
+  }
+  if (/::(ApiGateway|ApiGatewayV2|AppSync)::/.test(resourceType) || /^AWS::Serverless::(Api|HttpApi|GraphQLApi)$/.test(resourceType)) {
+    return 'api';
+  }
+  if (/^AWS::(Lambda::Function|Serverless::Function|ECS::Service|AppRunner::Service)$/.test(resourceType)) {
+    return 'service';
+  }
+  return 'cloudformation_resource';
+}
@@ -1,64 +1,118 @@
 /**
- * CODEOWNERS parser - extracts ownership metadata
+ * CODEOWNERS parser - assigns owners to the nodes declared in owned files
  */
-import type { ParsedDependency } from '../types.js';
+import type { ParsedDependency, SourceFile } from '../types.js';
 
 interface CodeownerRule {
   pattern: string;
   owners: string[];
+  /** 1-based line of the rule in the CODEOWNERS file */
+  line: number;
 }
 
+/** Where GitHub looks for CODEOWNERS, in the order it looks */
+export const CODEOWNERS_LOCATIONS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
 /**
- * Parse CODEOWNERS file content and extract ownership dependencies
+ * The CODEOWNERS file GitHub would use: the first one found in `CODEOWNERS_LOCATIONS`
  */
-export async function parseCodeowners(fileContent: string): Promise<ParsedDependency[]> {
-  const dependencies: ParsedDependency[] = [];
+export function findCodeownersFile(files: SourceFile[]): SourceFile | undefined {
+  for (const location of CODEOWNERS_LOCATIONS) {
+    const file = files.find(candidate => candidate.path.replace(/^\/+/, '') === location);
+    if (file) return file;
+  }
+  return undefined;
+}
+
+/**
+ * Resolve CODEOWNERS rules against the files each node was found in (its dependencies'
+ * provenance), giving `owns` edges from every owning team to the node and an `owners`
+ * list in the node's metadata
+ */
+export async function parseCodeowners(
+  fileContent: string,
+  dependencies: ParsedDependency[]
+): Promise<ParsedDependency[]> {
+  const ownership: ParsedDependency[] = [];
   const rules = parseCodeownerRules(fileContent);
 
-  // Create dependencies from paths to owners
-  for (const rule of rules) {
-    for (const owner of rule.owners) {
-      dependencies.push({
-        source: rule.pattern,
-        target: owner,
-        type: 'codeowner',
+  for (const [nodeId, files] of declaringFiles(dependencies)) {
+    const matched = new Map<string, CodeownerRule>();
+    for (const file of files) {
+      const rule = findRuleForPath(file, rules);
+      rule?.owners.forEach(owner => matched.has(owner) || matched.set(owner, rule));
+    }
+    const owners = [...matched.keys()].sort();
+
+    for (const [owner, rule] of matched) {
+      ownership.push({
+        source: owner,
+        target: nodeId,
+        type: 'owns',
         metadata: {
           pattern: rule.pattern,
           isTeam: owner.startsWith('@') && owner.includes('/'),
         },
+        sourceNode: { type: 'team', name: owner },
+        targetNode: { metadata: { owners } },
+        provenance: { parser: 'codeowners', startLine: rule.line, endLine: rule.line },
       });
     }
   }
 
-  return dependencies;
+  return ownership;
 }
 
 /**
- * Parse CODEOWNERS rules from file content
+ * Files each node is declared in: those where it is a dependency's source or, for
+ * nodes that are only ever referenced, the file referencing them when there is just
+ * one (a shared library used across the repo belongs to none of its users)
+ */
+function declaringFiles(dependencies: ParsedDependency[]): Map<string, Set<string>> {
+  const asSource = new Map<string, Set<string>>();
+  const asTarget = new Map<string, Set<string>>();
+  const teams = new Set(dependencies.filter(dep => dep.type === 'owns').map(dep => dep.source));
+
+  const record = (map: Map<string, Set<string>>, id: string, file: string) => {
+    map.set(id, (map.get(id) ?? new Set<string>()).add(file));
+  };
+  for (const dep of dependencies) {
+    const file = dep.provenance?.file;
+    if (!file) continue;
+    record(asSource, dep.source, file);
+    record(asTarget, dep.target, file);
+  }
+
+  const files = new Map<string, Set<string>>();
+  for (const [id, sourceFiles] of asSource) {
+    if (!teams.has(id)) files.set(id, sourceFiles);
+  }
+  for (const [id, targetFiles] of asTarget) {
+    if (!asSource.has(id) && targetFiles.size === 1) files.set(id, targetFiles);
+  }
+  return files;
+}
+
+/**
+ * Parse CODEOWNERS rules from file content. Rules without owners are kept: as the last
+ * match they leave a path unowned.
  */
 function parseCodeownerRules(content: string): CodeownerRule[] {
   const rules: CodeownerRule[] = [];
   const lines = content.split('\n');
 
-  for (const line of lines) {
+  lines.forEach((line, index) => {
     const trimmed = line.trim();
-    
+
     // Skip empty lines and comments
     if (!trimmed || trimmed.startsWith('#')) {
-      continue;
+      return;
     }
 
-    // Parse the rule: pattern followed by owners
-    const parts = trimmed.split(/\s+/);
-    if (parts.length >= 2) {
-      const pattern = parts[0];
-      const owners = parts.slice(1).filter(o => o.startsWith('@'));
-      
-      if (owners.length > 0) {
-        rules.push({ pattern, owners });
-      }
-    }
-  }
+    // Parse the rule: pattern followed by owners (up to an inline comment)
+    const parts = trimmed.replace(/\s+#.*$/, '').split(/\s+/);
+    rules.push({ pattern: parts[0], owners: parts.slice(1).filter(o => o.startsWith('@')), line: index + 1 });
+  });
 
   return rules;
 }
@@ -66,50 +120,53 @@ function parseCodeownerRules(content: string): CodeownerRule[] {
 /**
  * Match a file path against CODEOWNERS rules to find owners
  */
-export function findOwnersForPath(path: string, rules: CodeownerRule[]): string[] {
-  // Rules are processed in order, last match wins
-  let matchedOwners: string[] = [];
+export function findOwnersForPath(filePath: string, rules: CodeownerRule[]): string[] {
+  return findRuleForPath(filePath, rules)?.owners ?? [];
+}
+
+/**
+ * The rule deciding a path's owners: rules are processed in order, last match wins
+ */
+function findRuleForPath(filePath: string, rules: CodeownerRule[]): CodeownerRule | undefined {
+  let matched: CodeownerRule | undefined;
 
   for (const rule of rules) {
-    if (matchPattern(path, rule.pattern)) {
-      matchedOwners = rule.owners;
+    if (matchPattern(filePath, rule.pattern)) {
+      matched = rule;
     }
   }
 
-  return matchedOwners;
+  return matched;
 }
 
 /**
  * Match a path against a CODEOWNERS pattern
  */
-function matchPattern(path: string, pattern: string): boolean {
-  // Normalize paths
-  const normalizedPath = path.startsWith('/') ? path : `/${path}`;
-  const normalizedPattern = pattern.startsWith('/') ? pattern : `/${pattern}`;
-
-  // Convert pattern to regex
-  let regexStr = normalizedPattern
-    // Escape special regex characters (except * and ?)
-    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
-    // Convert ** to match any path
-    .replace(/\*\*/g, '.*')
-    // Convert * to match any non-slash characters
-    .replace(/\*/g, '[^/]*')
-    // Convert ? to match single character
-    .replace(/\?/g, '.');
-
-  // If pattern ends with /, match any file in that directory
-  if (pattern.endsWith('/')) {
-    regexStr = regexStr + '.*';
-  }
-
-  // Pattern should match from start
-  if (!regexStr.startsWith('/')) {
-    regexStr = '.*' + regexStr;
-  }
+export function matchPattern(filePath: string, pattern: string): boolean {
+  const normalizedPath = filePath.replace(/^\/+/, '');
+  const body = pattern.replace(/^\/+/, '').replace(/\/+$/, '');
+  if (!body) return false;
+
+  // Patterns with a slash (other than a trailing one) are relative to the root;
+  // others match at any depth
+  const anchored = body.includes('/') || pattern.startsWith('/');
+
+  // Convert pattern to regex: ** matches across directories, * and ? within one
+  const regexStr = body
+    .split('**')
+    .map(part => part
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '[^/]*')
+      .replace(/\?/g, '[^/]'))
+    .join('.*');
+
+  // A pattern naming a directory matches every file beneath it, but a trailing
+  // wildcard segment (`docs/*`) only matches that directory's own files
+  const lastSegment = body.split('/').pop()!;
+  const descendants = lastSegment.includes('*') && lastSegment !== '**' ? '' : '(?:/.*)?';
 
   try {
-    const regex = new RegExp(`^${regexStr}$`);
+    const regex = new RegExp(`^${anchored ? '' : '(?:.*/)?'}${regexStr}${descendants}$`);
     return regex.test(normalizedPath);
   } catch {
     return false;
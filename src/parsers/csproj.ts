@@ -0,0 +1,61 @@
+/**
+ * .csproj parser - extracts NuGet package and project references
+ */
+import path from 'path';
+import { parseXml, xmlDescendants, xmlText, type XmlElement } from './xml.js';
+import type { ParsedDependency } from '../types.js';
+
+/**
+ * Parse an SDK-style or legacy .csproj file. The project is named after its
+ * AssemblyName or PackageId, falling back to the file name.
+ */
+export async function parseCsproj(fileContent: string, filePath = 'project.csproj'): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+
+  let project: XmlElement;
+  try {
+    project = parseXml(fileContent);
+  } catch (error) {
+    console.warn('Failed to parse .csproj:', error instanceof Error ? error.message : 'Unknown error');
+    return dependencies;
+  }
+
+  const propertyGroups = xmlDescendants(project, 'PropertyGroup');
+  const property = (name: string) => propertyGroups.map(group => xmlText(group, name)).find(Boolean);
+  const sourceName = property('AssemblyName') || property('PackageId') || projectName(filePath);
+
+  for (const reference of xmlDescendants(project, 'PackageReference')) {
+    const name = reference.attributes.Include ?? reference.attributes.Update;
+    if (!name) continue;
+    const privateAssets = reference.attributes.PrivateAssets ?? xmlText(reference, 'PrivateAssets');
+    dependencies.push({
+      source: sourceName,
+      target: name,
+      type: 'nuget_dependency',
+      metadata: {
+        version: reference.attributes.Version ?? xmlText(reference, 'Version'),
+        // Analyzers and build tooling are marked PrivateAssets="all"
+        dependencyType: privateAssets?.toLowerCase() === 'all' ? 'development' : 'production',
+      },
+      provenance: { parser: 'csproj', startLine: reference.startLine, endLine: reference.endLine },
+    });
+  }
+
+  for (const reference of xmlDescendants(project, 'ProjectReference')) {
+    const include = reference.attributes.Include;
+    if (!include) continue;
+    dependencies.push({
+      source: sourceName,
+      target: projectName(include),
+      type: 'nuget_dependency',
+      metadata: { dependencyType: 'project', path: include.replace(/\\/g, '/') },
+      provenance: { parser: 'csproj', startLine: reference.startLine, endLine: reference.endLine },
+    });
+  }
+
+  return dependencies;
+}
+
+function projectName(filePath: string): string {
+  return path.posix.basename(filePath.replace(/\\/g, '/')).replace(/\.csproj$/i, '');
+}
@@ -1,78 +1,186 @@
 /**
  * Docker Compose parser - extracts service dependencies from docker-compose.yml
  */
+import path from 'path';
 import yaml from 'js-yaml';
-import type { ParsedDependency } from '../types.js';
+import { dockerfileId, imageId } from './dockerfile.js';
+import { findEnvEndpoints } from './inference.js';
+import { trackLineRanges, type EntryRanges, type LineRange } from './yaml-lines.js';
+import type { ParsedDependency, Provenance, SourceFile } from '../types.js';
 
 interface DockerComposeService {
+  extends?: string | { service: string; file?: string };
+  profiles?: string[];
   depends_on?: string[] | Record<string, { condition?: string }>;
   networks?: string[] | Record<string, unknown>;
   links?: string[];
   volumes_from?: string[];
+  volumes?: Array<string | { type?: string; source?: string }>;
+  environment?: string[] | Record<string, string | number | null>;
   image?: string;
-  build?: string | { context?: string };
+  build?: string | { context?: string; dockerfile?: string; dockerfile_inline?: string };
+  /**
+   * Set by the loader: where the service (`''`), each setting (`depends_on`) and each
+   * setting's items (`depends_on/db`, `environment/API_URL`) were read
+   */
+  locations?: Record<string, Provenance>;
 }
 
+type ComposeInclude = string | { path: string | string[]; project_directory?: string; env_file?: string | string[] };
+
 interface DockerComposeFile {
   version?: string;
+  include?: ComposeInclude[];
   services?: Record<string, DockerComposeService>;
   networks?: Record<string, unknown>;
   volumes?: Record<string, unknown>;
 }
 
+export interface ComposeOptions {
+  /** Active profiles; services assigned to other profiles are skipped. Defaults to every service */
+  profiles?: string[];
+}
+
 /**
- * Parse docker-compose.yml content and extract dependencies
+ * A service after extends/include/override merging. Build contexts are scan-relative.
  */
-export async function parseDockerCompose(fileContent: string): Promise<ParsedDependency[]> {
-  const dependencies: ParsedDependency[] = [];
+interface ResolvedService extends DockerComposeService {
+  depends_on?: Record<string, { condition?: string }>;
+  networks?: Record<string, unknown>;
+  environment?: Record<string, string | number | null>;
+  build?: { context?: string; dockerfile?: string; dockerfile_inline?: string };
+}
+
+interface ComposeProject {
+  services: Record<string, ResolvedService>;
+  /** Top-level named volumes declared by any file in the project */
+  volumes: Set<string>;
+}
+
+/**
+ * Compose files that are merged automatically: `compose.yaml` / `docker-compose.yml`
+ * and their `.override` counterparts
+ */
+export const COMPOSE_FILE_PATTERN = /^(docker-)?compose(\.override)?\.ya?ml$/i;
 
-  let compose: DockerComposeFile;
-  try {
-    compose = yaml.load(fileContent) as DockerComposeFile;
-  } catch (error) {
-    // Invalid YAML - log for debugging
-    console.warn('Failed to parse Docker Compose YAML:', error instanceof Error ? error.message : 'Unknown error');
+/**
+ * Parse docker-compose.yml content and extract dependencies.
+ * `composePath` (relative to the scan root) is used to locate build contexts.
+ */
+export async function parseDockerCompose(
+  fileContent: string,
+  composePath = 'docker-compose.yml',
+  options: ComposeOptions = {}
+): Promise<ParsedDependency[]> {
+  return parseComposeProject([composePath], [{ path: composePath, content: fileContent }], options);
+}
+
+/**
+ * Parse a compose project: the given compose files are merged in order (like repeated
+ * `-f` flags), resolving `include`, `extends` and `${VAR}` interpolation from the
+ * `.env` file next to the first compose file.
+ */
+export async function parseComposeProject(
+  composePaths: string[],
+  files: SourceFile[],
+  options: ComposeOptions = {}
+): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+  if (composePaths.length === 0) {
     return dependencies;
   }
 
-  if (!compose || !compose.services) {
-    return dependencies;
+  const fileMap = new Map(files.map(file => [file.path, file.content]));
+  const env = readDotEnv(path.posix.join(path.posix.dirname(composePaths[0]), '.env'), fileMap);
+  const loader = new ComposeLoader(fileMap);
+
+  const project: ComposeProject = { services: {}, volumes: new Set() };
+  for (const composePath of composePaths) {
+    const loaded = loader.load(composePath, env);
+    if (!loaded) continue;
+    project.services = mergeValues(project.services, loaded.services) as Record<string, ResolvedService>;
+    loaded.volumes.forEach(volume => project.volumes.add(volume));
   }
 
-  const services = compose.services;
+  // Profiles: services without profiles are always enabled
+  const services = Object.fromEntries(
+    Object.entries(project.services).filter(([, service]) =>
+      !options.profiles || !service.profiles?.length || service.profiles.some(profile => options.profiles!.includes(profile))
+    )
+  );
+  const isActive = (name: string) => !options.profiles || name in services;
 
   for (const [serviceName, service] of Object.entries(services)) {
     if (!service) continue;
 
+    // The most specific setting read for a dependency, else the whole service
+    const locate = (...keys: string[]): Provenance | undefined =>
+      keys.map(key => service.locations?.[key]).find(Boolean) ?? service.locations?.[''];
+
+    const envEndpoints = findEnvEndpoints(service.environment || {});
+    const sourceNode = service.profiles?.length || envEndpoints.length > 0
+      ? {
+          type: 'docker_service' as const,
+          metadata: {
+            profiles: service.profiles?.length ? service.profiles : undefined,
+            envEndpoints: envEndpoints.length > 0 ? envEndpoints : undefined,
+          },
+          envLocations: envEndpoints.length > 0
+            ? Object.fromEntries(envEndpoints.map(endpoint => [endpoint.envVar, locate(`environment/${endpoint.envVar}`, 'environment')]))
+            : undefined,
+        }
+      : undefined;
+
     // Handle depends_on
     if (service.depends_on) {
-      const dependsOn = Array.isArray(service.depends_on)
-        ? service.depends_on
-        : Object.keys(service.depends_on);
-
-      for (const dep of dependsOn) {
+      for (const [dep, settings] of Object.entries(service.depends_on)) {
+        if (!isActive(dep)) continue;
         dependencies.push({
           source: serviceName,
           target: dep,
           type: 'docker_depends_on',
           metadata: {
-            condition: !Array.isArray(service.depends_on) 
-              ? service.depends_on[dep]?.condition 
-              : undefined,
+            condition: settings?.condition,
           },
+          sourceNode,
+          provenance: locate(`depends_on/${dep}`, 'depends_on'),
         });
       }
     }
 
+    // Built services link to their Dockerfile; others to the image they run
+    if (service.build && !service.build.dockerfile_inline) {
+      const context = service.build.context || '.';
+      dependencies.push({
+        source: serviceName,
+        target: dockerfileId(path.posix.join(context, service.build.dockerfile || 'Dockerfile')),
+        type: 'docker_build',
+        metadata: { context, image: service.image },
+        sourceNode,
+        provenance: locate('build'),
+      });
+    } else if (service.image) {
+      dependencies.push({
+        source: serviceName,
+        target: imageId(service.image),
+        type: 'docker_image',
+        sourceNode,
+        provenance: locate('image'),
+      });
+    }
+
     // Handle links (legacy but still used)
     if (service.links) {
       for (const link of service.links) {
         const target = link.split(':')[0]; // handle alias syntax
+        if (!isActive(target)) continue;
         dependencies.push({
           source: serviceName,
           target,
           type: 'docker_depends_on',
           metadata: { linkType: 'legacy_link' },
+          sourceNode,
+          provenance: locate(`links/${link}`, 'links'),
         });
       }
     }
@@ -80,48 +188,378 @@ export async function parseDockerCompose(fileContent: string): Promise<ParsedDep
     // Handle volumes_from
     if (service.volumes_from) {
       for (const vol of service.volumes_from) {
-        const target = vol.split(':')[0];
+        const target = vol.replace(/^service:/, '').split(':')[0];
+        if (vol.startsWith('container:') || !isActive(target)) continue;
         dependencies.push({
           source: serviceName,
           target,
           type: 'docker_depends_on',
           metadata: { linkType: 'volumes_from' },
+          sourceNode,
+          provenance: locate(`volumes_from/${vol}`, 'volumes_from'),
         });
       }
     }
 
-    // Handle shared networks (creates implicit dependencies)
-    if (service.networks) {
-      const networks = Array.isArray(service.networks)
-        ? service.networks
-        : Object.keys(service.networks);
-
-      for (const network of networks) {
-        // Find other services on the same network
-        for (const [otherName, otherService] of Object.entries(services)) {
-          if (otherName === serviceName || !otherService) continue;
-          
-          const otherNetworks = otherService.networks
-            ? (Array.isArray(otherService.networks) 
-                ? otherService.networks 
-                : Object.keys(otherService.networks))
-            : [];
-
-          if (otherNetworks.includes(network)) {
-            // Create network-based dependency (bidirectional, so only add one direction)
-            if (serviceName < otherName) {
-              dependencies.push({
-                source: serviceName,
-                target: otherName,
-                type: 'docker_network',
-                metadata: { network },
-              });
-            }
-          }
-        }
+    // Shared networks and named volumes create implicit dependencies
+    // (bidirectional, so only add one direction)
+    const networks = Object.keys(service.networks || {});
+    const volumes = namedVolumes(service, project.volumes);
+    for (const [otherName, otherService] of Object.entries(services)) {
+      if (!otherService || serviceName >= otherName) continue;
+
+      const otherNetworks = Object.keys(otherService.networks || {});
+      for (const network of networks.filter(network => otherNetworks.includes(network))) {
+        dependencies.push({
+          source: serviceName,
+          target: otherName,
+          type: 'docker_network',
+          metadata: { network },
+          provenance: locate(`networks/${network}`, 'networks'),
+        });
+      }
+
+      const otherVolumes = namedVolumes(otherService, project.volumes);
+      for (const volume of volumes.filter(volume => otherVolumes.includes(volume))) {
+        dependencies.push({
+          source: serviceName,
+          target: otherName,
+          type: 'docker_volume',
+          metadata: { volume },
+          provenance: locate('volumes'),
+        });
       }
     }
   }
 
   return dependencies;
 }
+
+/**
+ * List every file a compose file reads through `include`, `extends.file` and `.env`
+ */
+export function listComposeFiles(composePath: string, fileMap: Map<string, string>): Set<string> {
+  const listed = new Set<string>();
+
+  const visit = (filePath: string) => {
+    if (listed.has(filePath) || !fileMap.has(filePath)) return;
+    listed.add(filePath);
+
+    const dir = path.posix.dirname(filePath);
+    const envPath = path.posix.join(dir, '.env');
+    if (fileMap.has(envPath)) listed.add(envPath);
+
+    let compose: DockerComposeFile;
+    try {
+      compose = yaml.load(fileMap.get(filePath)!) as DockerComposeFile;
+    } catch {
+      return;
+    }
+    if (!compose || typeof compose !== 'object') return;
+
+    for (const include of compose.include || []) {
+      for (const includePath of includePaths(include)) {
+        visit(path.posix.join(dir, includePath));
+      }
+    }
+    for (const service of Object.values(compose.services || {})) {
+      if (service?.extends && typeof service.extends === 'object' && typeof service.extends.file === 'string') {
+        visit(path.posix.join(dir, service.extends.file));
+      }
+    }
+  };
+
+  visit(composePath);
+  return listed;
+}
+
+/**
+ * Loads compose files with interpolation, `include` and `extends` resolved
+ */
+class ComposeLoader {
+  /** Guards against include/extends cycles */
+  private loading = new Set<string>();
+
+  constructor(private fileMap: Map<string, string>) {}
+
+  load(composePath: string, env: Record<string, string>): ComposeProject | undefined {
+    const compose = this.read(composePath, env);
+    if (!compose || this.loading.has(composePath)) return undefined;
+    this.loading.add(composePath);
+
+    const dir = path.posix.dirname(composePath);
+    const project: ComposeProject = { services: {}, volumes: new Set(Object.keys(compose.volumes || {})) };
+
+    // Included projects are loaded first; the including file may not redefine their services
+    for (const include of compose.include || []) {
+      const projectDir = typeof include === 'object' && include.project_directory
+        ? path.posix.join(dir, include.project_directory)
+        : undefined;
+      for (const includePath of includePaths(include)) {
+        const includedPath = path.posix.join(dir, includePath);
+        const includedDir = projectDir ?? path.posix.dirname(includedPath);
+        const envFiles = typeof include === 'object' && include.env_file
+          ? [include.env_file].flat().map(envFile => path.posix.join(dir, envFile))
+          : [path.posix.join(includedDir, '.env')];
+        const includedEnv = Object.assign({}, ...envFiles.map(envFile => readDotEnv(envFile, this.fileMap)));
+
+        const included = this.load(includedPath, includedEnv);
+        if (!included) continue;
+        Object.assign(project.services, included.services);
+        included.volumes.forEach(volume => project.volumes.add(volume));
+      }
+    }
+
+    for (const serviceName of Object.keys(compose.services || {})) {
+      const service = this.resolveService(composePath, compose, serviceName, env, new Set());
+      if (service) project.services[serviceName] = service;
+    }
+
+    this.loading.delete(composePath);
+    return project;
+  }
+
+  /**
+   * Resolve a service's `extends` chain and normalize it
+   */
+  private resolveService(
+    composePath: string,
+    compose: DockerComposeFile,
+    serviceName: string,
+    env: Record<string, string>,
+    visiting: Set<string>
+  ): ResolvedService | undefined {
+    const raw = compose.services?.[serviceName];
+    const key = `${composePath}#${serviceName}`;
+    if (!raw || typeof raw !== 'object' || visiting.has(key)) return undefined;
+    visiting.add(key);
+
+    const { extends: extendsFrom, ...local } = raw;
+    const service = normalizeService(local, path.posix.dirname(composePath));
+
+    if (!extendsFrom) {
+      return service;
+    }
+
+    const base = typeof extendsFrom === 'string' ? { service: extendsFrom } : extendsFrom;
+    const basePath = base.file ? path.posix.join(path.posix.dirname(composePath), base.file) : composePath;
+    const baseCompose = basePath === composePath ? compose : this.read(basePath, env);
+    const resolvedBase = baseCompose && this.resolveService(basePath, baseCompose, base.service, env, visiting);
+
+    if (!resolvedBase) {
+      console.warn(`Docker Compose service ${serviceName} extends unknown service ${base.service}`);
+      return service;
+    }
+    return mergeValues(resolvedBase, service) as ResolvedService;
+  }
+
+  private read(composePath: string, env: Record<string, string>): DockerComposeFile | undefined {
+    const content = this.fileMap.get(composePath);
+    if (content === undefined) {
+      console.warn(`Docker Compose file not found: ${composePath}`);
+      return undefined;
+    }
+
+    let compose: DockerComposeFile;
+    const ranges = new Map<object, LineRange>();
+    const entries: EntryRanges = new Map();
+    try {
+      compose = yaml.load(content, { listener: trackLineRanges(content, ranges, entries) }) as DockerComposeFile;
+    } catch (error) {
+      // Invalid YAML - log for debugging
+      console.warn('Failed to parse Docker Compose YAML:', error instanceof Error ? error.message : 'Unknown error');
+      return undefined;
+    }
+
+    if (!compose || typeof compose !== 'object') {
+      return undefined;
+    }
+
+    const interpolated = interpolate(compose, env) as DockerComposeFile;
+    for (const [serviceName, service] of Object.entries(interpolated.services || {})) {
+      if (isRecord(service)) {
+        service.locations = settingLocations(composePath, compose.services![serviceName], service, ranges, entries);
+      }
+    }
+    return interpolated;
+  }
+}
+
+/**
+ * Where a service and its settings were read, keyed as in `DockerComposeService.locations`.
+ * Ranges come from the service as loaded; item names from its interpolated values.
+ */
+function settingLocations(
+  file: string,
+  loaded: DockerComposeService,
+  service: DockerComposeService,
+  ranges: Map<object, LineRange>,
+  entries: EntryRanges
+): Record<string, Provenance> {
+  const locations: Record<string, Provenance> = {};
+  const record = (key: string, range: LineRange | undefined) => {
+    if (range) locations[key] = { parser: 'docker-compose', file, ...range };
+  };
+
+  record('', ranges.get(loaded));
+  for (const [setting, value] of Object.entries(loaded)) {
+    record(setting, entries.get(loaded)?.get(setting));
+    const items = (service as Record<string, unknown>)[setting];
+    if (Array.isArray(value) && Array.isArray(items)) {
+      items.forEach((item, index) => {
+        if (typeof item !== 'string') return;
+        const name = setting === 'environment' ? item.split('=')[0] : item;
+        record(`${setting}/${name}`, entries.get(value)?.get(index));
+      });
+    } else if (isRecord(value)) {
+      Object.keys(value).forEach(key => record(`${setting}/${key}`, entries.get(value)?.get(key)));
+    }
+  }
+  return locations;
+}
+
+/**
+ * Normalize short syntaxes to their long form so files merge cleanly, and make the
+ * build context scan-relative
+ */
+function normalizeService(service: DockerComposeService, dir: string): ResolvedService {
+  const { depends_on: dependsOn, networks, environment, build, ...rest } = service;
+  const normalized: ResolvedService = { ...rest };
+
+  if (dependsOn) {
+    normalized.depends_on = Array.isArray(dependsOn)
+      ? Object.fromEntries(dependsOn.map(dep => [dep, {}]))
+      : dependsOn;
+  }
+  if (networks) {
+    normalized.networks = Array.isArray(networks)
+      ? Object.fromEntries(networks.map(network => [network, null]))
+      : networks;
+  }
+  if (environment) {
+    normalized.environment = Array.isArray(environment)
+      ? Object.fromEntries(environment.map(entry => {
+          const separator = entry.indexOf('=');
+          return separator === -1 ? [entry, null] : [entry.slice(0, separator), entry.slice(separator + 1)];
+        }))
+      : environment;
+  }
+  if (build) {
+    const long = typeof build === 'string' ? { context: build } : build;
+    normalized.build = { ...long, context: path.posix.normalize(path.posix.join(dir, long.context || '.')) };
+  }
+
+  return normalized;
+}
+
+/**
+ * Compose merge rules: mappings merge recursively, sequences are concatenated
+ * without duplicates and scalars from the override win
+ */
+function mergeValues(base: unknown, override: unknown): unknown {
+  if (Array.isArray(base) && Array.isArray(override)) {
+    return [...base, ...override.filter(item => !base.some(existing => JSON.stringify(existing) === JSON.stringify(item)))];
+  }
+  if (isRecord(base) && isRecord(override)) {
+    const merged: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+      merged[key] = key in base ? mergeValues(base[key], value) : value;
+    }
+    return merged;
+  }
+  return override ?? base;
+}
+
+/**
+ * Named volumes a service mounts. Bind mounts (paths) and anonymous volumes are ignored.
+ */
+function namedVolumes(service: ResolvedService, declared: Set<string>): string[] {
+  const names = (service.volumes || []).map(volume => {
+    if (typeof volume === 'string') {
+      const [source, target] = volume.split(':');
+      return target !== undefined && !/^[./~]/.test(source) ? source : undefined;
+    }
+    return volume?.type === 'volume' || (volume?.type === undefined && declared.has(volume?.source ?? ''))
+      ? volume.source
+      : undefined;
+  });
+  return [...new Set(names.filter((name): name is string => !!name))];
+}
+
+function includePaths(include: ComposeInclude): string[] {
+  if (typeof include === 'string') return [include];
+  return include && include.path ? [include.path].flat() : [];
+}
+
+/**
+ * Read a `.env` file into a variable map (missing files yield an empty map)
+ */
+function readDotEnv(envPath: string, fileMap: Map<string, string>): Record<string, string> {
+  const content = fileMap.get(envPath);
+  if (content === undefined) {
+    return {};
+  }
+
+  const env: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/.exec(line);
+    if (!match) continue;
+
+    let value = match[2].trim();
+    const quoted = /^(["'])(.*)\1$/.exec(value);
+    if (quoted) {
+      value = quoted[1] === '"' ? quoted[2].replace(/\\n/g, '\n').replace(/\\(["\\])/g, '$1') : quoted[2];
+    } else {
+      value = value.replace(/\s+#.*$/, '');
+    }
+    env[match[1]] = value;
+  }
+  return env;
+}
+
+/**
+ * Apply `${VAR}`, `${VAR:-default}`, `${VAR-default}`, `${VAR:+alt}`, `${VAR:?error}` and
+ * `$VAR` interpolation to every string value. `$$` escapes a literal `$`; unresolved
+ * variables without a default are left as-is.
+ */
+function interpolate(value: unknown, env: Record<string, string>): unknown {
+  if (typeof value === 'string') {
+    return interpolateString(value, env);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolate(item, env));
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, interpolate(nested, env)]));
+  }
+  return value;
+}
+
+function interpolateString(value: string, env: Record<string, string>): string {
+  return value.replace(
+    /\$\$|\$\{(\w+)(?:(:?)([-+?])((?:[^{}]|\{[^{}]*\})*))?\}|\$(\w+)/g,
+    (match, braced: string | undefined, colon: string, operator: string | undefined, operand: string, bare: string | undefined) => {
+      if (match === '$$') return '$';
+
+      const name = braced ?? bare!;
+      const current = env[name];
+      // With a colon, empty values count as unset
+      const isSet = colon ? !!current : current !== undefined;
+
+      switch (operator) {
+        case '-':
+          return isSet ? current : interpolateString(operand, env);
+        case '+':
+          return isSet ? interpolateString(operand, env) : '';
+        case '?':
+          return isSet ? current : match;
+        default:
+          return current ?? match;
+      }
+    }
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
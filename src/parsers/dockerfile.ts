@@ -0,0 +1,244 @@
+/**
+ * Dockerfile parser - extracts base images, build stages and exposed ports
+ */
+import type { LineRange } from './yaml-lines.js';
+import type { ParsedDependency } from '../types.js';
+
+interface Instruction {
+  keyword: string;
+  args: string;
+  /** First and last line, continuations included */
+  line: number;
+  endLine: number;
+}
+
+interface BuildStage {
+  index: number;
+  name?: string;
+  base: string;
+  /** Lines of the stage's FROM instruction */
+  from: LineRange;
+  /** Stage names/indexes or external images this stage copies or mounts from, with the instruction's lines */
+  copiesFrom: Array<{ reference: string } & LineRange>;
+  exposedPorts: string[];
+}
+
+/**
+ * Graph ID of a Dockerfile, e.g. `Dockerfile/services/api/Dockerfile`
+ */
+export function dockerfileId(dockerfilePath: string): string {
+  return `Dockerfile/${dockerfilePath}`;
+}
+
+/**
+ * Graph ID of a container image, normalizing Docker Hub prefixes (`docker.io/library/node:20` -> `Image/node:20`)
+ */
+export function imageId(image: string): string {
+  const normalized = image
+    .replace(/^(docker\.io|index\.docker\.io|registry-1\.docker\.io)\//, '')
+    .replace(/^library\//, '');
+  return `Image/${normalized}`;
+}
+
+/**
+ * Parse a Dockerfile. The final stage is the Dockerfile node itself; earlier stages
+ * are `Dockerfile/<path>#<stage>` nodes.
+ */
+export async function parseDockerfile(fileContent: string, dockerfilePath = 'Dockerfile'): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+  const stages = parseStages(readInstructions(fileContent));
+
+  if (stages.length === 0) {
+    return dependencies;
+  }
+
+  const finalStage = stages[stages.length - 1];
+  const stageId = (stage: BuildStage) => stage === finalStage
+    ? dockerfileId(dockerfilePath)
+    : `${dockerfileId(dockerfilePath)}#${stage.name ?? stage.index}`;
+  const findStage = (reference: string, before: number) => stages
+    .slice(0, before)
+    .find(stage => stage.name === reference.toLowerCase() || String(stage.index) === reference);
+  const stageHint = (stage: BuildStage) => ({
+    type: 'dockerfile' as const,
+    metadata: {
+      path: dockerfilePath,
+      stage: stage.name ?? stage.index,
+      exposedPorts: stage.exposedPorts.length > 0 ? stage.exposedPorts : undefined,
+    },
+  });
+
+  for (const stage of stages) {
+    const source = stageId(stage);
+
+    // Base image or earlier stage
+    const baseStage = findStage(stage.base, stage.index);
+    if (baseStage) {
+      dependencies.push({
+        source,
+        target: stageId(baseStage),
+        type: 'docker_build_stage',
+        metadata: { relation: 'from' },
+        sourceNode: stageHint(stage),
+        targetNode: stageHint(baseStage),
+        provenance: { parser: 'dockerfile', ...stage.from },
+      });
+    } else if (stage.base !== 'scratch') {
+      dependencies.push({
+        source,
+        target: imageId(stage.base),
+        type: 'docker_base_image',
+        metadata: { stage: stage.name ?? stage.index, final: stage === finalStage },
+        sourceNode: stageHint(stage),
+        provenance: { parser: 'dockerfile', ...stage.from },
+      });
+    }
+
+    // COPY --from / RUN --mount=from=, each located at the first instruction using it
+    const copied = new Set<string>();
+    for (const { reference, ...lines } of stage.copiesFrom) {
+      if (copied.has(reference)) continue;
+      copied.add(reference);
+      const fromStage = findStage(reference, stage.index);
+      dependencies.push(fromStage
+        ? {
+            source,
+            target: stageId(fromStage),
+            type: 'docker_build_stage',
+            metadata: { relation: 'copy' },
+            sourceNode: stageHint(stage),
+            targetNode: stageHint(fromStage),
+            provenance: { parser: 'dockerfile', ...lines },
+          }
+        : {
+            source,
+            target: imageId(reference),
+            type: 'docker_base_image',
+            metadata: { stage: stage.name ?? stage.index, copyFrom: true },
+            sourceNode: stageHint(stage),
+            provenance: { parser: 'dockerfile', ...lines },
+          });
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Split a Dockerfile into instructions, joining line continuations and dropping comments
+ */
+function readInstructions(fileContent: string): Instruction[] {
+  const instructions: Instruction[] = [];
+  const lines = fileContent.split(/\r?\n/);
+  let escape = '\\';
+  let current: Instruction | undefined;
+
+  lines.forEach((rawLine, index) => {
+    // Parser directive: # escape=`
+    const directive = /^#\s*escape\s*=\s*(\S)/i.exec(rawLine);
+    if (directive && instructions.length === 0 && !current) {
+      escape = directive[1];
+      return;
+    }
+
+    const line = rawLine.trim();
+    if (!current && (line === '' || line.startsWith('#'))) return;
+    if (current && line.startsWith('#')) return;
+
+    const continues = line.endsWith(escape);
+    const text = continues ? line.slice(0, -1) : line;
+
+    if (current) {
+      current.args += ` ${text}`;
+      current.endLine = index + 1;
+    } else {
+      const match = /^(\S+)\s*(.*)$/.exec(text);
+      if (!match) return;
+      current = { keyword: match[1].toUpperCase(), args: match[2], line: index + 1, endLine: index + 1 };
+    }
+
+    if (!continues) {
+      current.args = current.args.trim();
+      instructions.push(current);
+      current = undefined;
+    }
+  });
+
+  if (current) instructions.push(current);
+  return instructions;
+}
+
+/**
+ * Group instructions into build stages, substituting ARG defaults in FROM lines
+ */
+function parseStages(instructions: Instruction[]): BuildStage[] {
+  const stages: BuildStage[] = [];
+  const globalArgs = new Map<string, string>();
+  let stageArgs = new Map<string, string>();
+
+  const substitute = (value: string, args: Map<string, string>) =>
+    value.replace(/\$\{(\w+)(?::?-([^}]*))?\}|\$(\w+)/g, (match, braced, fallback, bare) => {
+      const name = braced ?? bare;
+      return args.get(name) ?? fallback ?? match;
+    });
+
+  for (const instruction of instructions) {
+    const current = stages[stages.length - 1];
+
+    switch (instruction.keyword) {
+      case 'ARG': {
+        for (const declaration of instruction.args.split(/\s+/)) {
+          const [name, ...value] = declaration.split('=');
+          if (!name) continue;
+          const args = current ? stageArgs : globalArgs;
+          const fallback = current ? globalArgs.get(name) : undefined;
+          if (value.length > 0 || fallback !== undefined) {
+            args.set(name, value.length > 0 ? unquote(value.join('=')) : fallback!);
+          }
+        }
+        break;
+      }
+      case 'FROM': {
+        const parts = instruction.args.split(/\s+/).filter(part => !part.startsWith('--'));
+        const [image, as, name] = parts;
+        if (!image) break;
+        stageArgs = new Map();
+        stages.push({
+          index: stages.length,
+          name: as?.toUpperCase() === 'AS' && name ? name.toLowerCase() : undefined,
+          base: substitute(image, globalArgs),
+          from: { startLine: instruction.line, endLine: instruction.endLine },
+          copiesFrom: [],
+          exposedPorts: [],
+        });
+        break;
+      }
+      case 'COPY':
+      case 'ADD':
+      case 'RUN': {
+        if (!current) break;
+        const args = new Map([...globalArgs, ...stageArgs]);
+        const lines = { startLine: instruction.line, endLine: instruction.endLine };
+        for (const match of instruction.args.matchAll(/--from=("[^"]+"|\S+)/g)) {
+          current.copiesFrom.push({ reference: substitute(unquote(match[1]), args), ...lines });
+        }
+        for (const match of instruction.args.matchAll(/--mount=\S*?\bfrom=([^,\s]+)/g)) {
+          current.copiesFrom.push({ reference: substitute(unquote(match[1]), args), ...lines });
+        }
+        break;
+      }
+      case 'EXPOSE': {
+        if (!current) break;
+        const args = new Map([...globalArgs, ...stageArgs]);
+        current.exposedPorts.push(...instruction.args.split(/\s+/).filter(Boolean).map(port => substitute(port, args)));
+        break;
+      }
+    }
+  }
+
+  return stages;
+}
+
+function unquote(value: string): string {
+  return value.replace(/^(["'])(.*)\1$/, '$2');
+}
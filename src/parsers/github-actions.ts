@@ -0,0 +1,269 @@
+/**
+ * GitHub Actions parser - extracts workflows, jobs, actions, environments and
+ * deployment targets from `.github/workflows/*.yml`
+ */
+import path from 'path';
+import yaml from 'js-yaml';
+import { imageId } from './dockerfile.js';
+import { azureResourceId } from './arm.js';
+import { kubernetesNodeId } from './kubernetes.js';
+import { trackLineRanges, type EntryRanges, type LineRange } from './yaml-lines.js';
+import type { NodeHint, ParsedDependency, Provenance } from '../types.js';
+
+interface WorkflowStep {
+  name?: string;
+  uses?: string;
+  run?: string;
+  with?: Record<string, unknown>;
+}
+
+interface WorkflowJob {
+  name?: string;
+  needs?: string | string[];
+  uses?: string;
+  environment?: string | { name?: string; url?: string };
+  steps?: WorkflowStep[];
+}
+
+interface Workflow {
+  name?: string;
+  on?: unknown;
+  jobs?: Record<string, WorkflowJob>;
+}
+
+/**
+ * Check whether a path is a GitHub Actions workflow
+ */
+export function isGitHubWorkflow(filePath: string): boolean {
+  return /(^|\/)\.github\/workflows\/[^/]+\.ya?ml$/i.test(filePath);
+}
+
+/**
+ * Graph ID of a workflow file, e.g. `Workflow/.github/workflows/deploy.yml`
+ */
+export function workflowId(workflowPath: string): string {
+  return `Workflow/${workflowPath}`;
+}
+
+/**
+ * Parse a GitHub Actions workflow. Workflows link to their jobs; jobs link to the jobs
+ * they need, reusable workflows and actions they use, the environment they deploy to
+ * and the deployment targets their steps touch.
+ */
+export async function parseGitHubWorkflow(fileContent: string, workflowPath: string): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+
+  let workflow: Workflow;
+  const ranges = new Map<object, LineRange>();
+  const entries: EntryRanges = new Map();
+  try {
+    workflow = yaml.load(fileContent, { listener: trackLineRanges(fileContent, ranges, entries) }) as Workflow;
+  } catch (error) {
+    console.warn('Failed to parse GitHub Actions workflow:', error instanceof Error ? error.message : 'Unknown error');
+    return dependencies;
+  }
+
+  if (!workflow || typeof workflow !== 'object' || !workflow.jobs) {
+    return dependencies;
+  }
+
+  const workflowNode: NodeHint = {
+    type: 'ci_workflow',
+    name: workflow.name || path.posix.basename(workflowPath),
+    metadata: { path: workflowPath, triggers: triggersOf(workflow.on) },
+  };
+  const jobId = (job: string) => `Job/${workflowPath}#${job}`;
+  const jobNode = (job: string): NodeHint => ({
+    type: 'ci_job',
+    name: workflow.jobs?.[job]?.name || job,
+    metadata: { workflow: workflowPath, job },
+  });
+
+  const at = (range: LineRange | undefined): Provenance | undefined => range && { parser: 'github-actions', ...range };
+
+  for (const [jobName, job] of Object.entries(workflow.jobs)) {
+    if (!job || typeof job !== 'object') continue;
+    const source = jobId(jobName);
+    const sourceNode = jobNode(jobName);
+    const setting = (key: string) => at(entries.get(job)?.get(key));
+
+    dependencies.push({
+      source: workflowId(workflowPath),
+      target: source,
+      type: 'ci_job',
+      sourceNode: workflowNode,
+      targetNode: sourceNode,
+      provenance: at(entries.get(workflow.jobs)?.get(jobName)),
+    });
+
+    const needs = [job.needs || []].flat();
+    for (const [index, needed] of needs.entries()) {
+      dependencies.push({
+        source,
+        target: jobId(needed),
+        type: 'ci_needs',
+        sourceNode,
+        targetNode: jobNode(needed),
+        provenance: (Array.isArray(job.needs) && at(entries.get(job.needs)?.get(index))) || setting('needs'),
+      });
+    }
+
+    // Reusable workflow called as a job
+    if (job.uses) {
+      const reference = parseUses(job.uses, workflowPath);
+      dependencies.push({
+        source,
+        target: workflowId(reference.path),
+        type: 'ci_uses_workflow',
+        metadata: { ref: reference.ref, pinned: reference.pinned },
+        sourceNode,
+        targetNode: { type: 'ci_workflow', metadata: { path: reference.path, local: reference.local } },
+        provenance: setting('uses'),
+      });
+    }
+
+    const environment = typeof job.environment === 'string' ? job.environment : job.environment?.name;
+    if (environment && !environment.includes('${{')) {
+      dependencies.push({
+        source,
+        target: `Environment/${environment}`,
+        type: 'ci_environment',
+        metadata: { url: typeof job.environment === 'object' ? job.environment.url : undefined },
+        sourceNode,
+        targetNode: { type: 'ci_environment' },
+        provenance: setting('environment'),
+      });
+    }
+
+    for (const step of job.steps || []) {
+      const stepLocation = step && typeof step === 'object' ? at(ranges.get(step)) : undefined;
+      if (step?.uses) {
+        if (step.uses.startsWith('docker://')) {
+          dependencies.push({
+            source,
+            target: imageId(step.uses.slice('docker://'.length)),
+            type: 'ci_action',
+            metadata: { step: step.name },
+            sourceNode,
+            provenance: stepLocation,
+          });
+        } else {
+          const reference = parseUses(step.uses, workflowPath);
+          dependencies.push({
+            source,
+            target: `Action/${reference.path}`,
+            type: 'ci_action',
+            metadata: { ref: reference.ref, pinned: reference.pinned, step: step.name },
+            sourceNode,
+            targetNode: { type: 'ci_action', metadata: { local: reference.local || undefined } },
+            provenance: stepLocation,
+          });
+        }
+      }
+
+      for (const target of deploymentTargets(step)) {
+        dependencies.push({
+          source,
+          target: target.id,
+          type: 'ci_deploys',
+          metadata: { via: target.via, environment, step: step.name },
+          sourceNode,
+          provenance: stepLocation,
+        });
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Split a `uses:` reference into path and ref. Local references (`./...`) are made
+ * scan-relative; remote ones keep `owner/repo[/path]`. A full commit SHA counts as pinned.
+ */
+function parseUses(uses: string, workflowPath: string): { path: string; ref?: string; pinned: boolean; local: boolean } {
+  if (uses.startsWith('./')) {
+    // Local references are relative to the repository root, which is where `.github` lives
+    const root = workflowPath.replace(/(^|\/)\.github\/workflows\/[^/]+$/, '');
+    return { path: path.posix.join(root, uses), pinned: true, local: true };
+  }
+
+  const at = uses.lastIndexOf('@');
+  const ref = at === -1 ? undefined : uses.slice(at + 1);
+  return {
+    path: at === -1 ? uses : uses.slice(0, at),
+    ref,
+    pinned: !!ref && /^[0-9a-f]{40}$/i.test(ref),
+    local: false,
+  };
+}
+
+/**
+ * Deployment targets a step touches: `kubectl` workloads, `helm upgrade` charts, pushed
+ * images and the service inputs of well-known deploy actions
+ */
+function deploymentTargets(step: WorkflowStep): Array<{ id: string; via: string }> {
+  const targets: Array<{ id: string; via: string }> = [];
+  const add = (id: string | undefined, via: string) => {
+    if (id && !id.includes('${{') && !targets.some(target => target.id === id)) {
+      targets.push({ id, via });
+    }
+  };
+
+  const kinds: Record<string, string> = {
+    deployment: 'Deployment', deploy: 'Deployment', statefulset: 'StatefulSet', sts: 'StatefulSet',
+    daemonset: 'DaemonSet', ds: 'DaemonSet', service: 'Service', svc: 'Service',
+  };
+
+  const script = (step.run || '').replace(/\\\n/g, ' ');
+  for (const command of script.split(/\n|&&|;/)) {
+    for (const match of command.matchAll(/\bkubectl\b.*?\b(deployment|deploy|statefulset|sts|daemonset|ds|service|svc)\/([\w.-]+)/gi)) {
+      add(kubernetesNodeId({
+        kind: kinds[match[1].toLowerCase()],
+        name: match[2],
+        namespace: /\s(?:-n|--namespace)[=\s]+([\w.-]+)/.exec(command)?.[1],
+        cluster: /\s--context[=\s]+([\w.-]+)/.exec(command)?.[1],
+      }), 'kubectl');
+    }
+
+    const helm = /\bhelm\s+(?:upgrade|install)\s+(.*)$/.exec(command);
+    if (helm) {
+      // Positional arguments: release name then chart (flags and their values skipped)
+      const positional = helm[1].split(/\s+/).filter((arg, index, args) =>
+        arg && !arg.startsWith('-') && !/^-(f|n|-values|-namespace|-version|-set[\w-]*|-kube-context|-timeout)$/.test(args[index - 1] || '')
+      );
+      if (positional[1]) add(`Chart/${path.posix.basename(positional[1].replace(/\/+$/, ''))}`, 'helm');
+    }
+
+    const push = /\bdocker\s+(?:image\s+)?push\s+(?:-\S+\s+)*(\S+)/.exec(command);
+    if (push) add(imageId(push[1]), 'docker push');
+  }
+
+  const uses = step.uses?.split('@')[0];
+  const inputs = step.with || {};
+  const input = (key: string) => typeof inputs[key] === 'string' ? (inputs[key] as string).trim() : undefined;
+
+  if (uses === 'docker/build-push-action' && (inputs.push === true || inputs.push === 'true')) {
+    for (const tag of (input('tags') || '').split(/[\n,]/).map(tag => tag.trim()).filter(Boolean)) {
+      add(imageId(tag), 'docker/build-push-action');
+    }
+  }
+  if (uses === 'azure/webapps-deploy' || uses === 'azure/functions-action') {
+    add(input('app-name') && azureResourceId('Microsoft.Web/sites', input('app-name')!), uses);
+  }
+  if (uses === 'aws-actions/amazon-ecs-deploy-task-definition') {
+    add(input('service'), uses);
+  }
+
+  return targets;
+}
+
+/**
+ * Event names that trigger a workflow
+ */
+function triggersOf(on: unknown): string[] | undefined {
+  if (typeof on === 'string') return [on];
+  if (Array.isArray(on)) return on.map(String);
+  if (on && typeof on === 'object') return Object.keys(on);
+  return undefined;
+}
@@ -0,0 +1,68 @@
+/**
+ * go.mod parser - extracts Go module dependencies
+ */
+import type { ParsedDependency } from '../types.js';
+
+/**
+ * Parse go.mod content and extract dependencies
+ */
+export async function parseGoMod(fileContent: string): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+
+  // Flatten `require ( ... )` and `replace ( ... )` blocks into one directive per line
+  const directives: Array<{ verb: string; args: string; indirect: boolean; line: number }> = [];
+  let block: string | undefined;
+  for (const [index, rawLine] of fileContent.split(/\r?\n/).entries()) {
+    const indirect = /\/\/\s*indirect\b/.test(rawLine);
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (!line) continue;
+
+    if (block) {
+      if (line === ')') {
+        block = undefined;
+      } else {
+        directives.push({ verb: block, args: line, indirect, line: index + 1 });
+      }
+      continue;
+    }
+
+    const match = /^(\w+)\s*(.*)$/.exec(line);
+    if (!match) continue;
+    if (match[2] === '(') {
+      block = match[1];
+    } else {
+      directives.push({ verb: match[1], args: match[2], indirect, line: index + 1 });
+    }
+  }
+
+  const modulePath = directives.find(directive => directive.verb === 'module')?.args.replace(/^"|"$/g, '');
+  if (!modulePath) {
+    console.warn('Failed to parse go.mod: missing module directive');
+    return dependencies;
+  }
+
+  // replace old [version] => new [version]
+  const replacements = new Map<string, string>();
+  for (const directive of directives.filter(directive => directive.verb === 'replace')) {
+    const [from, to] = directive.args.split('=>').map(side => side.trim().split(/\s+/));
+    if (from?.[0] && to?.[0]) replacements.set(from[0], to.join(' '));
+  }
+
+  for (const directive of directives.filter(directive => directive.verb === 'require')) {
+    const [name, version] = directive.args.split(/\s+/);
+    if (!name) continue;
+    dependencies.push({
+      source: modulePath,
+      target: name,
+      type: 'go_dependency',
+      metadata: {
+        version,
+        dependencyType: directive.indirect ? 'indirect' : 'production',
+        replace: replacements.get(name),
+      },
+      provenance: { parser: 'go-mod', startLine: directive.line, endLine: directive.line },
+    });
+  }
+
+  return dependencies;
+}
@@ -0,0 +1,107 @@
+/**
+ * Gradle build script parser - extracts Maven artifact dependencies from
+ * build.gradle (Groovy) and build.gradle.kts (Kotlin)
+ */
+import path from 'path';
+import { mavenArtifactId } from './maven.js';
+import { lineLocator } from './yaml-lines.js';
+import type { ParsedDependency, Provenance } from '../types.js';
+
+// Configurations mapped onto the dependency types used by the other package parsers
+const CONFIGURATION_TYPES: Record<string, string> = {
+  implementation: 'production',
+  api: 'production',
+  compile: 'production',
+  runtimeOnly: 'runtime',
+  runtime: 'runtime',
+  compileOnly: 'provided',
+  compileOnlyApi: 'provided',
+  annotationProcessor: 'build',
+  kapt: 'build',
+  ksp: 'build',
+  testImplementation: 'test',
+  testRuntimeOnly: 'test',
+  testCompileOnly: 'test',
+  androidTestImplementation: 'test',
+  testFixturesImplementation: 'test',
+};
+
+/**
+ * Parse a Gradle build script. The project is named after its directory, qualified
+ * with `group` when the script sets one; `project(':core')` dependencies link to
+ * sibling projects by name.
+ */
+export async function parseGradle(fileContent: string, filePath = 'build.gradle'): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+  const source = stripComments(fileContent);
+  const lineAt = lineLocator(source);
+  const locate = (match: RegExpMatchArray): Provenance => ({
+    parser: 'gradle',
+    startLine: lineAt(match.index!),
+    endLine: lineAt(match.index! + match[0].length - 1),
+  });
+
+  const dir = path.posix.basename(path.posix.dirname(filePath));
+  const projectName = dir && dir !== '.' ? dir : 'unknown-package';
+  const group = /^\s*group\s*=\s*["']([^"']+)["']/m.exec(source)?.[1];
+  const sourceName = mavenArtifactId(group, projectName);
+
+  const configurations = Object.keys(CONFIGURATION_TYPES).join('|');
+  // implementation 'g:a:v' | implementation("g:a:v") | implementation(platform("g:a:v"))
+  const notation = new RegExp(
+    `\\b(${configurations})\\s*\\(?\\s*(?:(platform|enforcedPlatform)\\s*\\(\\s*)?["']([^"'$]+(?:\\$\\{?[\\w.]+\\}?[^"']*)?)["']`,
+    'g'
+  );
+  for (const match of source.matchAll(notation)) {
+    const [groupId, artifactId, version] = match[3].split(':');
+    if (!artifactId) continue;
+    dependencies.push({
+      source: sourceName,
+      target: mavenArtifactId(groupId, artifactId),
+      type: 'maven_dependency',
+      metadata: {
+        version,
+        dependencyType: match[2] ? 'bom' : CONFIGURATION_TYPES[match[1]],
+        configuration: match[1],
+      },
+      provenance: locate(match),
+    });
+  }
+
+  // implementation group: 'g', name: 'a', version: 'v'
+  const mapNotation = new RegExp(
+    `\\b(${configurations})\\s*\\(?\\s*group\\s*[:=]\\s*["']([^"']+)["']\\s*,\\s*name\\s*[:=]\\s*["']([^"']+)["'](?:\\s*,\\s*version\\s*[:=]\\s*["']([^"']+)["'])?`,
+    'g'
+  );
+  for (const match of source.matchAll(mapNotation)) {
+    dependencies.push({
+      source: sourceName,
+      target: mavenArtifactId(match[2], match[3]),
+      type: 'maven_dependency',
+      metadata: { version: match[4], dependencyType: CONFIGURATION_TYPES[match[1]], configuration: match[1] },
+      provenance: locate(match),
+    });
+  }
+
+  // implementation project(':libs:core')
+  const projectNotation = new RegExp(`\\b(${configurations})\\s*\\(?\\s*project\\s*\\(\\s*(?:path\\s*[:=]\\s*)?["']([^"']+)["']`, 'g');
+  for (const match of source.matchAll(projectNotation)) {
+    dependencies.push({
+      source: sourceName,
+      target: mavenArtifactId(group, match[2].split(':').filter(Boolean).pop() || match[2]),
+      type: 'maven_dependency',
+      metadata: { dependencyType: 'project', configuration: match[1], project: match[2] },
+      provenance: locate(match),
+    });
+  }
+
+  return dependencies;
+}
+
+/**
+ * Blank out comments, keeping every other character at its offset for line lookups
+ */
+function stripComments(source: string): string {
+  return source.replace(/("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+    (match, literal) => literal ?? match.replace(/[^\n]/g, ' '));
+}
@@ -0,0 +1,342 @@
+/**
+ * HCL tokenizer and structural parser - enough of HCL2 to walk Terraform blocks and expressions
+ */
+
+export type HclTokenType =
+  | 'identifier'
+  | 'number'
+  | 'string'
+  | 'punct'
+  | 'newline';
+
+export interface HclToken {
+  type: HclTokenType;
+  value: string;
+  line: number;
+}
+
+export interface HclAttribute {
+  name: string;
+  /** Expression tokens, including the contents of string interpolations */
+  tokens: HclToken[];
+  line: number;
+}
+
+export interface HclBlock {
+  type: string;
+  labels: string[];
+  attributes: HclAttribute[];
+  blocks: HclBlock[];
+  startLine: number;
+  endLine: number;
+}
+
+export interface HclBody {
+  attributes: HclAttribute[];
+  blocks: HclBlock[];
+}
+
+const PUNCTUATION = ['==', '!=', '<=', '>=', '&&', '||', '=>', '...', '{', '}', '[', ']', '(', ')', '=', '.', ',', ':', '?', '!', '<', '>', '+', '-', '*', '/', '%'];
+
+/**
+ * Split HCL source into tokens. Comments are dropped; string templates are flattened
+ * so `${...}` and `%{...}` contents appear as ordinary tokens between string parts.
+ */
+export function tokenizeHcl(source: string): HclToken[] {
+  return new Tokenizer(source).tokenize();
+}
+
+/**
+ * Parse HCL source into its top-level attributes and blocks
+ */
+export function parseHcl(source: string): HclBody {
+  const tokens = tokenizeHcl(source);
+  const parser = new BodyParser(tokens);
+  return parser.parseBody(false);
+}
+
+class Tokenizer {
+  private position = 0;
+  private line = 1;
+  private tokens: HclToken[] = [];
+
+  constructor(private source: string) {}
+
+  tokenize(): HclToken[] {
+    while (this.position < this.source.length) {
+      this.next();
+    }
+    return this.tokens;
+  }
+
+  private next(): void {
+    const char = this.source[this.position];
+
+    if (char === '\n') {
+      this.push('newline', '\n');
+      this.line++;
+      this.position++;
+      return;
+    }
+    if (/\s/.test(char)) {
+      this.position++;
+      return;
+    }
+
+    // Comments
+    if (char === '#' || this.source.startsWith('//', this.position)) {
+      while (this.position < this.source.length && this.source[this.position] !== '\n') this.position++;
+      return;
+    }
+    if (this.source.startsWith('/*', this.position)) {
+      const end = this.source.indexOf('*/', this.position + 2);
+      const stop = end === -1 ? this.source.length : end + 2;
+      this.countLines(this.position, stop);
+      this.position = stop;
+      return;
+    }
+
+    if (char === '"') {
+      this.readQuotedTemplate();
+      return;
+    }
+
+    const heredoc = /^<<(-?)([A-Za-z_][A-Za-z0-9_]*)[ \t]*\r?\n/.exec(this.source.slice(this.position));
+    if (heredoc) {
+      this.readHeredoc(heredoc[2], heredoc[0].length);
+      return;
+    }
+
+    const number = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(this.source.slice(this.position));
+    if (number) {
+      this.push('number', number[0]);
+      this.position += number[0].length;
+      return;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(this.source.slice(this.position));
+    if (identifier) {
+      this.push('identifier', identifier[0]);
+      this.position += identifier[0].length;
+      return;
+    }
+
+    const punct = PUNCTUATION.find(candidate => this.source.startsWith(candidate, this.position));
+    this.push('punct', punct || char);
+    this.position += punct ? punct.length : 1;
+  }
+
+  /**
+   * Read a "quoted" template, emitting literal parts as string tokens and
+   * tokenizing interpolations in place
+   */
+  private readQuotedTemplate(): void {
+    this.position++;
+    let literal = '';
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+      if (char === '\\') {
+        literal += this.source.slice(this.position, this.position + 2);
+        this.position += 2;
+        continue;
+      }
+      if (char === '"' || char === '\n') {
+        this.position += char === '"' ? 1 : 0;
+        break;
+      }
+      if (this.isTemplateStart()) {
+        this.push('string', literal);
+        literal = '';
+        this.readInterpolation();
+        continue;
+      }
+      literal += char;
+      this.position++;
+    }
+
+    this.push('string', literal);
+  }
+
+  private readHeredoc(marker: string, headerLength: number): void {
+    this.line++;
+    this.position += headerLength;
+    let literal = '';
+    let lineStart = true;
+
+    while (this.position < this.source.length) {
+      if (lineStart) {
+        const lineEnd = this.source.indexOf('\n', this.position);
+        const currentLine = this.source.slice(this.position, lineEnd === -1 ? undefined : lineEnd);
+        if (currentLine.trim() === marker) {
+          this.position += currentLine.length;
+          break;
+        }
+      }
+      lineStart = false;
+      if (this.isTemplateStart()) {
+        this.push('string', literal);
+        literal = '';
+        this.readInterpolation();
+        continue;
+      }
+      const char = this.source[this.position];
+      if (char === '\n') {
+        this.line++;
+        lineStart = true;
+      }
+      literal += char;
+      this.position++;
+    }
+
+    this.push('string', literal);
+  }
+
+  private isTemplateStart(): boolean {
+    const twoChars = this.source.slice(this.position, this.position + 2);
+    return (twoChars === '${' || twoChars === '%{') && this.source[this.position - 1] !== twoChars[0];
+  }
+
+  /**
+   * Tokenize the expression inside `${ ... }` / `%{ ... }` up to its matching brace
+   */
+  private readInterpolation(): void {
+    this.position += 2;
+    let depth = 0;
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+      if (char === '}' && depth === 0) {
+        this.position++;
+        return;
+      }
+      if (char === '{') depth++;
+      if (char === '}') depth--;
+      this.next();
+    }
+  }
+
+  private countLines(start: number, end: number): void {
+    for (let index = start; index < end; index++) {
+      if (this.source[index] === '\n') this.line++;
+    }
+  }
+
+  private push(type: HclTokenType, value: string): void {
+    this.tokens.push({ type, value, line: this.line });
+  }
+}
+
+class BodyParser {
+  private position = 0;
+
+  constructor(private tokens: HclToken[]) {}
+
+  /**
+   * Parse attributes and blocks until the end of input or a closing brace
+   */
+  parseBody(nested: boolean): HclBody {
+    const body: HclBody = { attributes: [], blocks: [] };
+
+    while (this.position < this.tokens.length) {
+      const token = this.tokens[this.position];
+
+      if (token.type === 'newline' || (token.type === 'punct' && token.value === ',')) {
+        this.position++;
+        continue;
+      }
+      if (token.type === 'punct' && token.value === '}') {
+        if (nested) return body;
+        this.position++;
+        continue;
+      }
+      if (token.type !== 'identifier') {
+        this.skipLine();
+        continue;
+      }
+
+      const following = this.tokens[this.position + 1];
+      if (following?.type === 'punct' && following.value === '=') {
+        this.position += 2;
+        body.attributes.push({ name: token.value, tokens: this.readExpression(), line: token.line });
+      } else {
+        const block = this.parseBlock();
+        if (block) body.blocks.push(block);
+      }
+    }
+
+    return body;
+  }
+
+  private parseBlock(): HclBlock | undefined {
+    const typeToken = this.tokens[this.position++];
+    const labels: string[] = [];
+
+    while (this.position < this.tokens.length) {
+      const token = this.tokens[this.position];
+      if (token.type === 'string' || token.type === 'identifier') {
+        labels.push(token.value);
+        this.position++;
+      } else {
+        break;
+      }
+    }
+
+    const open = this.tokens[this.position];
+    if (!open || open.type !== 'punct' || open.value !== '{') {
+      this.skipLine();
+      return undefined;
+    }
+    this.position++;
+
+    const body = this.parseBody(true);
+    const close = this.tokens[this.position];
+    this.position++;
+
+    return {
+      type: typeToken.value,
+      labels,
+      attributes: body.attributes,
+      blocks: body.blocks,
+      startLine: typeToken.line,
+      endLine: close?.line ?? typeToken.line,
+    };
+  }
+
+  /**
+   * Read expression tokens until a newline (or comma/closing brace) outside of brackets
+   */
+  private readExpression(): HclToken[] {
+    const expression: HclToken[] = [];
+    let depth = 0;
+
+    while (this.position < this.tokens.length) {
+      const token = this.tokens[this.position];
+      if (token.type === 'punct' && ['(', '[', '{'].includes(token.value)) depth++;
+      if (token.type === 'punct' && [')', ']', '}'].includes(token.value)) {
+        if (depth === 0) break;
+        depth--;
+      }
+      if (depth === 0 && token.type === 'punct' && token.value === ',') break;
+      if (depth === 0 && token.type === 'newline' && !this.continuesOnNextLine(expression)) break;
+      if (token.type !== 'newline') expression.push(token);
+      this.position++;
+    }
+
+    return expression;
+  }
+
+  /**
+   * An expression ending in an operator (e.g. a trailing `?` or `&&`) continues on the next line
+   */
+  private continuesOnNextLine(expression: HclToken[]): boolean {
+    const last = expression[expression.length - 1];
+    return !!last && last.type === 'punct' && ['?', ':', '&&', '||', '+', '-', '*', '/', '==', '!='].includes(last.value);
+  }
+
+  private skipLine(): void {
+    while (this.position < this.tokens.length && this.tokens[this.position].type !== 'newline') {
+      this.position++;
+    }
+  }
+}
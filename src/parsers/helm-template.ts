@@ -0,0 +1,829 @@
+/**
+ * Helm template renderer - renders a pragmatic subset of Go templating
+ */
+import yaml from 'js-yaml';
+import crypto from 'crypto';
+
+type TemplateSegment =
+  | { kind: 'text'; value: string }
+  | { kind: 'action'; value: string };
+
+type Operand =
+  | { kind: 'field'; path: string[] }
+  | { kind: 'variable'; name: string; path: string[] }
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'function'; name: string }
+  | { kind: 'pipeline'; pipeline: Pipeline; path: string[] };
+
+interface Pipeline {
+  declarations: string[];
+  assign: boolean;
+  commands: Operand[][];
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'action'; pipeline: Pipeline }
+  | { type: 'if' | 'with'; branches: Array<{ pipeline: Pipeline; body: TemplateNode[] }>; elseBody?: TemplateNode[] }
+  | { type: 'range'; pipeline: Pipeline; body: TemplateNode[]; elseBody?: TemplateNode[] }
+  | { type: 'template'; name: string; pipeline?: Pipeline };
+
+type TemplateFunction = (...args: unknown[]) => unknown;
+
+const NO_VALUE = Symbol('noValue');
+
+/**
+ * Renders Helm chart templates (Go text/template plus a subset of Sprig)
+ */
+export class TemplateRenderer {
+  private templates = new Map<string, TemplateNode[]>();
+  private functions: Record<string, TemplateFunction>;
+  private depth = 0;
+
+  constructor() {
+    this.functions = this.createFunctions();
+  }
+
+  /**
+   * Parse a template file and register it (and any `define` blocks it contains)
+   */
+  addTemplate(name: string, source: string): void {
+    const parser = new TemplateParser(splitSegments(source), this.templates);
+    this.templates.set(name, parser.parseBody());
+  }
+
+  /**
+   * Render a previously registered template with the given root context
+   */
+  render(name: string, context: unknown): string {
+    const nodes = this.templates.get(name);
+    if (!nodes) {
+      throw new Error(`Template not found: ${name}`);
+    }
+    return this.renderNodes(nodes, context, new Scope(context)).replace(/<no value>/g, '');
+  }
+
+  /**
+   * Render a template string directly (used by `tpl`)
+   */
+  renderString(source: string, context: unknown): string {
+    const parser = new TemplateParser(splitSegments(source), this.templates);
+    return this.renderNodes(parser.parseBody(), context, new Scope(context));
+  }
+
+  private renderNodes(nodes: TemplateNode[], dot: unknown, scope: Scope): string {
+    let output = '';
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value;
+          break;
+        case 'action': {
+          const value = this.evalPipeline(node.pipeline, dot, scope);
+          if (node.pipeline.declarations.length === 0) {
+            output += formatValue(value);
+          }
+          break;
+        }
+        case 'if':
+        case 'with': {
+          let rendered = false;
+          for (const branch of node.branches) {
+            const branchScope = new Scope(scope.root, scope);
+            const value = this.evalPipeline(branch.pipeline, dot, branchScope);
+            if (isTruthy(value)) {
+              const branchDot = node.type === 'with' ? value : dot;
+              output += this.renderNodes(branch.body, branchDot, branchScope);
+              rendered = true;
+              break;
+            }
+          }
+          if (!rendered && node.elseBody) {
+            output += this.renderNodes(node.elseBody, dot, new Scope(scope.root, scope));
+          }
+          break;
+        }
+        case 'range':
+          output += this.renderRange(node, dot, scope);
+          break;
+        case 'template': {
+          const context = node.pipeline ? this.evalPipeline(node.pipeline, dot, scope) : undefined;
+          output += this.include(node.name, context);
+          break;
+        }
+      }
+    }
+
+    return output;
+  }
+
+  private renderRange(
+    node: Extract<TemplateNode, { type: 'range' }>,
+    dot: unknown,
+    scope: Scope
+  ): string {
+    const { declarations } = node.pipeline;
+    const collection = this.evalPipeline({ ...node.pipeline, declarations: [] }, dot, scope);
+
+    let entries: Array<[unknown, unknown]> = [];
+    if (Array.isArray(collection)) {
+      entries = collection.map((item, index) => [index, item]);
+    } else if (collection && typeof collection === 'object') {
+      entries = Object.keys(collection).sort().map(key => [key, (collection as Record<string, unknown>)[key]]);
+    } else if (typeof collection === 'number') {
+      entries = Array.from({ length: collection }, (_, index) => [index, index]);
+    }
+
+    if (entries.length === 0) {
+      return node.elseBody ? this.renderNodes(node.elseBody, dot, new Scope(scope.root, scope)) : '';
+    }
+
+    let output = '';
+    for (const [key, value] of entries) {
+      const iterationScope = new Scope(scope.root, scope);
+      if (declarations.length === 1) {
+        iterationScope.declare(declarations[0], value);
+      } else if (declarations.length >= 2) {
+        iterationScope.declare(declarations[0], key);
+        iterationScope.declare(declarations[1], value);
+      }
+      output += this.renderNodes(node.body, value, iterationScope);
+    }
+    return output;
+  }
+
+  private include(name: string, context: unknown): string {
+    const nodes = this.templates.get(name);
+    if (!nodes) {
+      throw new Error(`Template not defined: ${name}`);
+    }
+    if (this.depth > 50) {
+      throw new Error(`Template recursion too deep: ${name}`);
+    }
+    this.depth++;
+    try {
+      return this.renderNodes(nodes, context, new Scope(context));
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private evalPipeline(pipeline: Pipeline, dot: unknown, scope: Scope): unknown {
+    let value: unknown = NO_VALUE;
+    for (const command of pipeline.commands) {
+      value = this.evalCommand(command, dot, scope, value);
+    }
+
+    for (const name of pipeline.declarations) {
+      if (pipeline.assign) {
+        scope.assign(name, value);
+      } else {
+        scope.declare(name, value);
+      }
+    }
+
+    return value;
+  }
+
+  private evalCommand(command: Operand[], dot: unknown, scope: Scope, piped: unknown): unknown {
+    const [head, ...rest] = command;
+    const args = () => {
+      const values = rest.map(operand => this.evalOperand(operand, dot, scope));
+      if (piped !== NO_VALUE) values.push(piped);
+      return values;
+    };
+
+    if (head.kind === 'function') {
+      return this.getFunction(head.name)(...args());
+    }
+
+    const value = this.evalOperand(head, dot, scope);
+    if (typeof value === 'function') {
+      return (value as TemplateFunction)(...args());
+    }
+    if (rest.length > 0 || piped !== NO_VALUE) {
+      throw new Error('Cannot pass arguments to a non-function value');
+    }
+    return value;
+  }
+
+  private evalOperand(operand: Operand, dot: unknown, scope: Scope): unknown {
+    switch (operand.kind) {
+      case 'literal':
+        return operand.value;
+      case 'field':
+        return resolvePath(dot, operand.path);
+      case 'variable':
+        return resolvePath(operand.name === '$' ? scope.root : scope.lookup(operand.name), operand.path);
+      case 'pipeline':
+        return resolvePath(this.evalPipeline(operand.pipeline, dot, new Scope(scope.root, scope)), operand.path);
+      case 'function':
+        return this.getFunction(operand.name)();
+    }
+  }
+
+  private getFunction(name: string): TemplateFunction {
+    if (!Object.prototype.hasOwnProperty.call(this.functions, name)) {
+      throw new Error(`Unsupported template function: ${name}`);
+    }
+    return this.functions[name];
+  }
+
+  /**
+   * Go template builtins plus the Sprig/Helm functions charts commonly rely on
+   */
+  private createFunctions(): Record<string, TemplateFunction> {
+    const str = (value: unknown) => formatValue(value);
+    const num = (value: unknown) => Number(value) || 0;
+
+    return {
+      // Go builtins
+      and: (...args) => args[indexOrLast(args, arg => !isTruthy(arg))],
+      or: (...args) => args[indexOrLast(args, arg => isTruthy(arg))],
+      not: (value) => !isTruthy(value),
+      len: (value) => Array.isArray(value) || typeof value === 'string'
+        ? value.length
+        : value && typeof value === 'object' ? Object.keys(value).length : 0,
+      index: (value, ...keys) => keys.reduce<unknown>((current, key) => resolvePath(current, [String(key)]), value),
+      print: (...args) => args.map(str).join(''),
+      println: (...args) => args.map(str).join(' ') + '\n',
+      printf: (format, ...args) => formatString(str(format), args),
+      eq: (value, ...others) => others.some(other => other === value),
+      ne: (a, b) => a !== b,
+      lt: (a, b) => (a as number) < (b as number),
+      le: (a, b) => (a as number) <= (b as number),
+      gt: (a, b) => (a as number) > (b as number),
+      ge: (a, b) => (a as number) >= (b as number),
+
+      // Helm
+      include: (name, context) => this.include(str(name), context),
+      tpl: (source, context) => this.renderString(str(source), context),
+      required: (_message, value) => value,
+      fail: (message) => { throw new Error(str(message)); },
+      lookup: () => ({}),
+      toYaml: (value) => yaml.dump(value ?? null, { lineWidth: -1 }).replace(/\n$/, ''),
+      toJson: (value) => JSON.stringify(value ?? null),
+      fromYaml: (value) => yaml.load(str(value)) ?? {},
+      fromJson: (value) => { try { return JSON.parse(str(value)); } catch { return {}; } },
+
+      // Sprig: defaults and flow control
+      default: (fallback, value) => isEmpty(value) ? fallback : value,
+      empty: (value) => isEmpty(value),
+      coalesce: (...args) => args.find(arg => !isEmpty(arg)),
+      ternary: (whenTrue, whenFalse, condition) => isTruthy(condition) ? whenTrue : whenFalse,
+
+      // Sprig: strings
+      quote: (...args) => args.filter(arg => arg !== undefined && arg !== null).map(arg => JSON.stringify(str(arg))).join(' '),
+      squote: (...args) => args.filter(arg => arg !== undefined && arg !== null).map(arg => `'${str(arg)}'`).join(' '),
+      upper: (value) => str(value).toUpperCase(),
+      lower: (value) => str(value).toLowerCase(),
+      title: (value) => str(value).replace(/\b\w/g, char => char.toUpperCase()),
+      trim: (value) => str(value).trim(),
+      trimAll: (chars, value) => trimChars(str(value), str(chars)),
+      trimSuffix: (suffix, value) => str(value).endsWith(str(suffix)) && str(suffix) ? str(value).slice(0, -str(suffix).length) : str(value),
+      trimPrefix: (prefix, value) => str(value).startsWith(str(prefix)) ? str(value).slice(str(prefix).length) : str(value),
+      trunc: (length, value) => num(length) >= 0 ? str(value).slice(0, num(length)) : str(value).slice(num(length)),
+      replace: (search, replacement, value) => str(value).split(str(search)).join(str(replacement)),
+      contains: (search, value) => str(value).includes(str(search)),
+      hasPrefix: (prefix, value) => str(value).startsWith(str(prefix)),
+      hasSuffix: (suffix, value) => str(value).endsWith(str(suffix)),
+      cat: (...args) => args.filter(arg => arg !== undefined && arg !== null).map(str).join(' '),
+      indent: (spaces, value) => indentLines(str(value), num(spaces)),
+      nindent: (spaces, value) => '\n' + indentLines(str(value), num(spaces)),
+      repeat: (count, value) => str(value).repeat(Math.max(0, num(count))),
+      kebabcase: (value) => str(value).replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/[_\s]+/g, '-').toLowerCase(),
+      snakecase: (value) => str(value).replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[-\s]+/g, '_').toLowerCase(),
+      regexMatch: (pattern, value) => new RegExp(str(pattern)).test(str(value)),
+      regexReplaceAll: (pattern, value, replacement) => str(value).replace(new RegExp(str(pattern), 'g'), str(replacement).replace(/\$\{(\d+)\}/g, '$$$1')),
+      b64enc: (value) => Buffer.from(str(value)).toString('base64'),
+      b64dec: (value) => Buffer.from(str(value), 'base64').toString('utf-8'),
+      sha256sum: (value) => crypto.createHash('sha256').update(str(value)).digest('hex'),
+      randAlphaNum: (length) => 'x'.repeat(num(length)),
+      toString: (value: unknown) => str(value),
+      int: (value) => Math.trunc(num(value)),
+      int64: (value) => Math.trunc(num(value)),
+      float64: (value) => num(value),
+      atoi: (value) => parseInt(str(value), 10) || 0,
+
+      // Sprig: math
+      add: (...args) => args.reduce<number>((sum, arg) => sum + num(arg), 0),
+      add1: (value) => num(value) + 1,
+      sub: (a, b) => num(a) - num(b),
+      mul: (...args) => args.reduce<number>((product, arg) => product * num(arg), 1),
+      div: (a, b) => Math.trunc(num(a) / num(b)),
+      mod: (a, b) => num(a) % num(b),
+      max: (...args) => Math.max(...args.map(num)),
+      min: (...args) => Math.min(...args.map(num)),
+
+      // Sprig: lists and dicts
+      list: (...args) => args,
+      dict: (...args) => {
+        const result: Record<string, unknown> = {};
+        for (let i = 0; i < args.length; i += 2) {
+          result[str(args[i])] = args[i + 1];
+        }
+        return result;
+      },
+      hasKey: (dict, key) => !!dict && typeof dict === 'object' && str(key) in (dict as object),
+      get: (dict, key) => (dict as Record<string, unknown> | undefined)?.[str(key)] ?? '',
+      set: (dict, key, value) => { (dict as Record<string, unknown>)[str(key)] = value; return dict; },
+      keys: (...dicts) => dicts.flatMap(dict => Object.keys((dict as object) ?? {})),
+      merge: (target, ...sources) => sources.reduce<unknown>((acc, source) => mergeValues(source, acc), target),
+      mergeOverwrite: (target, ...sources) => sources.reduce<unknown>((acc, source) => mergeValues(acc, source), target),
+      join: (separator, list) => (Array.isArray(list) ? list : [list]).map(str).join(str(separator)),
+      splitList: (separator, value) => str(value).split(str(separator)),
+      first: (list) => Array.isArray(list) ? list[0] : undefined,
+      last: (list) => Array.isArray(list) ? list[list.length - 1] : undefined,
+      append: (list, value) => [...(Array.isArray(list) ? list : []), value],
+      concat: (...lists) => lists.flatMap(list => Array.isArray(list) ? list : []),
+      has: (value, list) => Array.isArray(list) && list.includes(value),
+      uniq: (list) => Array.isArray(list) ? [...new Set(list)] : [],
+      compact: (list) => Array.isArray(list) ? list.filter(item => !isEmpty(item)) : [],
+      sortAlpha: (list) => Array.isArray(list) ? list.map(str).sort() : [],
+      until: (count) => Array.from({ length: num(count) }, (_, i) => i),
+      kindIs: (kind, value) => kindOf(value) === str(kind),
+      kindOf: (value) => kindOf(value),
+      semverCompare: () => true,
+    };
+  }
+}
+
+/**
+ * Variable scope for `$name` lookups
+ */
+class Scope {
+  private variables = new Map<string, unknown>();
+
+  constructor(readonly root: unknown, private parent?: Scope) {}
+
+  declare(name: string, value: unknown): void {
+    this.variables.set(name, value);
+  }
+
+  assign(name: string, value: unknown): void {
+    let scope: Scope | undefined = this;
+    while (scope) {
+      if (scope.variables.has(name)) {
+        scope.variables.set(name, value);
+        return;
+      }
+      scope = scope.parent;
+    }
+    this.variables.set(name, value);
+  }
+
+  lookup(name: string): unknown {
+    let scope: Scope | undefined = this;
+    while (scope) {
+      if (scope.variables.has(name)) {
+        return scope.variables.get(name);
+      }
+      scope = scope.parent;
+    }
+    throw new Error(`Undefined variable: ${name}`);
+  }
+}
+
+/**
+ * Recursive-descent parser turning text/action segments into a template tree
+ */
+class TemplateParser {
+  private position = 0;
+
+  constructor(
+    private segments: TemplateSegment[],
+    private templates: Map<string, TemplateNode[]>
+  ) {}
+
+  parseBody(): TemplateNode[] {
+    const { nodes, terminator } = this.parseList();
+    if (terminator) {
+      throw new Error(`Unexpected {{${terminator}}}`);
+    }
+    return nodes;
+  }
+
+  /**
+   * Parse nodes until an `end`/`else` action (returned as the terminator)
+   */
+  private parseList(): { nodes: TemplateNode[]; terminator?: string } {
+    const nodes: TemplateNode[] = [];
+
+    while (this.position < this.segments.length) {
+      const segment = this.segments[this.position++];
+      if (segment.kind === 'text') {
+        if (segment.value) nodes.push({ type: 'text', value: segment.value });
+        continue;
+      }
+
+      const action = segment.value;
+      if (action === '' || action.startsWith('/*')) continue;
+
+      const keyword = action.match(/^([a-z]+)\b/)?.[1];
+      switch (keyword) {
+        case 'end':
+        case 'else':
+          return { nodes, terminator: action };
+        case 'if':
+        case 'with':
+          nodes.push(this.parseConditional(keyword, action.slice(keyword.length)));
+          break;
+        case 'range':
+          nodes.push(this.parseRange(action.slice('range'.length)));
+          break;
+        case 'define': {
+          const name = parseStringLiteral(action.slice('define'.length).trim());
+          this.templates.set(name, this.parseUntilEnd('define'));
+          break;
+        }
+        case 'block': {
+          const [nameToken, ...rest] = tokenizeAction(action.slice('block'.length));
+          const name = String(nameToken.value);
+          this.templates.set(name, this.parseUntilEnd('block'));
+          nodes.push({ type: 'template', name, pipeline: rest.length > 0 ? parsePipeline(rest) : undefined });
+          break;
+        }
+        case 'template': {
+          const [nameToken, ...rest] = tokenizeAction(action.slice('template'.length));
+          nodes.push({
+            type: 'template',
+            name: String(nameToken.value),
+            pipeline: rest.length > 0 ? parsePipeline(rest) : undefined,
+          });
+          break;
+        }
+        default:
+          nodes.push({ type: 'action', pipeline: parsePipeline(tokenizeAction(action)) });
+      }
+    }
+
+    return { nodes };
+  }
+
+  private parseUntilEnd(keyword: string): TemplateNode[] {
+    const { nodes, terminator } = this.parseList();
+    if (terminator !== 'end') {
+      throw new Error(`Missing {{end}} for ${keyword}`);
+    }
+    return nodes;
+  }
+
+  private parseConditional(type: 'if' | 'with', firstCondition: string): TemplateNode {
+    const branches: Array<{ pipeline: Pipeline; body: TemplateNode[] }> = [];
+    let condition = firstCondition;
+
+    for (;;) {
+      const { nodes, terminator } = this.parseList();
+      branches.push({ pipeline: parsePipeline(tokenizeAction(condition)), body: nodes });
+
+      if (terminator === 'end') {
+        return { type, branches };
+      }
+      if (terminator === 'else') {
+        return { type, branches, elseBody: this.parseUntilEnd(type) };
+      }
+      const chained = terminator?.match(/^else\s+(if|with)\b(.*)$/s);
+      if (!chained) {
+        throw new Error(`Missing {{end}} for ${type}`);
+      }
+      condition = chained[2];
+    }
+  }
+
+  private parseRange(expression: string): TemplateNode {
+    const pipeline = parsePipeline(tokenizeAction(expression));
+    const { nodes, terminator } = this.parseList();
+
+    if (terminator === 'end') {
+      return { type: 'range', pipeline, body: nodes };
+    }
+    if (terminator === 'else') {
+      return { type: 'range', pipeline, body: nodes, elseBody: this.parseUntilEnd('range') };
+    }
+    throw new Error('Missing {{end}} for range');
+  }
+}
+
+interface ActionToken {
+  type: 'string' | 'number' | 'identifier' | 'field' | 'variable' | 'chain' | 'punct';
+  value: string | number;
+}
+
+/**
+ * Split template source into raw text and `{{ }}` actions, applying trim markers
+ */
+function splitSegments(source: string): TemplateSegment[] {
+  const segments: TemplateSegment[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const start = source.indexOf('{{', position);
+    if (start === -1) {
+      segments.push({ kind: 'text', value: source.slice(position) });
+      break;
+    }
+
+    let text = source.slice(position, start);
+    let innerStart = start + 2;
+    if (source[innerStart] === '-' && /\s/.test(source[innerStart + 1] ?? '')) {
+      text = text.replace(/\s+$/, '');
+      innerStart++;
+    }
+    segments.push({ kind: 'text', value: text });
+
+    const end = findActionEnd(source, innerStart);
+    let inner = source.slice(innerStart, end);
+    let trimRight = false;
+    if (/\s-$/.test(inner)) {
+      inner = inner.slice(0, -1);
+      trimRight = true;
+    }
+    segments.push({ kind: 'action', value: inner.trim() });
+
+    position = end + 2;
+    if (trimRight) {
+      while (position < source.length && /\s/.test(source[position])) position++;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Find the closing `}}` of an action, skipping string literals and comments
+ */
+function findActionEnd(source: string, from: number): number {
+  let i = from;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '"') {
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === '\\') i++;
+        i++;
+      }
+    } else if (char === '`') {
+      i = source.indexOf('`', i + 1);
+      if (i === -1) break;
+    } else if (source.startsWith('/*', i)) {
+      i = source.indexOf('*/', i + 2);
+      if (i === -1) break;
+      i++;
+    } else if (source.startsWith('}}', i)) {
+      return i;
+    }
+    i++;
+  }
+  throw new Error('Unclosed template action');
+}
+
+/**
+ * Tokenize the contents of a single action
+ */
+function tokenizeAction(action: string): ActionToken[] {
+  const tokens: ActionToken[] = [];
+  let i = 0;
+
+  while (i < action.length) {
+    const char = action[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '"') {
+      let j = i + 1;
+      while (j < action.length && action[j] !== '"') {
+        if (action[j] === '\\') j++;
+        j++;
+      }
+      tokens.push({ type: 'string', value: JSON.parse(action.slice(i, j + 1)) });
+      i = j + 1;
+    } else if (char === '`') {
+      const j = action.indexOf('`', i + 1);
+      tokens.push({ type: 'string', value: action.slice(i + 1, j) });
+      i = j + 1;
+    } else if (action.startsWith(':=', i)) {
+      tokens.push({ type: 'punct', value: ':=' });
+      i += 2;
+    } else if ('|()=,'.includes(char)) {
+      tokens.push({ type: 'punct', value: char });
+      i++;
+    } else if (char === '.' && action[i - 1] === ')') {
+      // Field access on a parenthesized pipeline: (dict "a" 1).a
+      const chain = action.slice(i).match(/^(?:\.[A-Za-z_][A-Za-z0-9_]*)+/)?.[0] || '.';
+      tokens.push({ type: 'chain', value: chain.slice(1) });
+      i += chain.length;
+    } else if (char === '.' && !/[A-Za-z_]/.test(action[i + 1] ?? '')) {
+      tokens.push({ type: 'field', value: '' });
+      i++;
+    } else {
+      const match = action.slice(i).match(/^(\$[A-Za-z0-9_]*|\.?[A-Za-z_][A-Za-z0-9_]*|-?\d+(?:\.\d+)?)((?:\.[A-Za-z_][A-Za-z0-9_]*)*)/);
+      if (!match) {
+        throw new Error(`Unexpected character in template action: ${char}`);
+      }
+      const [whole, head, chain] = match;
+      if (head.startsWith('$')) {
+        tokens.push({ type: 'variable', value: head + chain });
+      } else if (head.startsWith('.')) {
+        tokens.push({ type: 'field', value: head.slice(1) + chain });
+      } else if (/^-?\d/.test(head)) {
+        tokens.push({ type: 'number', value: Number(head) });
+      } else if (chain) {
+        throw new Error(`Unexpected field access on ${head}`);
+      } else {
+        tokens.push({ type: 'identifier', value: head });
+      }
+      i += whole.length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse action tokens into a pipeline (with optional variable declarations)
+ */
+function parsePipeline(tokens: ActionToken[]): Pipeline {
+  const pipeline: Pipeline = { declarations: [], assign: false, commands: [] };
+  let rest = tokens;
+
+  const declarationEnd = rest.findIndex(token => token.type === 'punct' && (token.value === ':=' || token.value === '='));
+  if (declarationEnd > 0 && rest.slice(0, declarationEnd).every(t => t.type === 'variable' || t.value === ',')) {
+    pipeline.declarations = rest.slice(0, declarationEnd).filter(t => t.type === 'variable').map(t => String(t.value));
+    pipeline.assign = rest[declarationEnd].value === '=';
+    rest = rest.slice(declarationEnd + 1);
+  }
+
+  let position = 0;
+  const parseOperand = (): Operand => {
+    const token = rest[position++];
+    if (token.type === 'punct' && token.value === '(') {
+      let depth = 1;
+      const start = position;
+      while (position < rest.length && depth > 0) {
+        if (rest[position].value === '(' && rest[position].type === 'punct') depth++;
+        if (rest[position].value === ')' && rest[position].type === 'punct') depth--;
+        position++;
+      }
+      const inner = rest.slice(start, position - 1);
+      const pipelinePath = rest[position]?.type === 'chain' ? splitPath(String(rest[position++].value)) : [];
+      return { kind: 'pipeline', pipeline: parsePipeline(inner), path: pipelinePath };
+    }
+    switch (token.type) {
+      case 'string':
+      case 'number':
+        return { kind: 'literal', value: token.value };
+      case 'field':
+        return { kind: 'field', path: splitPath(String(token.value)) };
+      case 'variable': {
+        const [name, ...path] = String(token.value).split('.');
+        return { kind: 'variable', name, path };
+      }
+      case 'identifier':
+        if (token.value === 'true') return { kind: 'literal', value: true };
+        if (token.value === 'false') return { kind: 'literal', value: false };
+        if (token.value === 'nil') return { kind: 'literal', value: null };
+        return { kind: 'function', name: String(token.value) };
+      default:
+        throw new Error(`Unexpected token in template action: ${token.value}`);
+    }
+  };
+
+  let command: Operand[] = [];
+  while (position < rest.length) {
+    const token = rest[position];
+    if (token.type === 'punct' && token.value === '|') {
+      pipeline.commands.push(command);
+      command = [];
+      position++;
+      continue;
+    }
+    command.push(parseOperand());
+  }
+  if (command.length > 0) {
+    pipeline.commands.push(command);
+  }
+  if (pipeline.commands.length === 0 || pipeline.commands.some(c => c.length === 0)) {
+    throw new Error('Empty template pipeline');
+  }
+
+  return pipeline;
+}
+
+function parseStringLiteral(value: string): string {
+  const token = tokenizeAction(value)[0];
+  if (!token || token.type !== 'string') {
+    throw new Error(`Expected template name, got: ${value}`);
+  }
+  return String(token.value);
+}
+
+function indexOrLast(values: unknown[], predicate: (value: unknown) => boolean): number {
+  const index = values.findIndex(predicate);
+  return index === -1 ? values.length - 1 : index;
+}
+
+function splitPath(path: string): string[] {
+  return path ? path.split('.') : [];
+}
+
+function resolvePath(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    const next = (current as Record<string, unknown>)[key];
+    current = typeof next === 'function' ? (next as TemplateFunction).bind(current) : next;
+  }
+  return current;
+}
+
+/**
+ * Go template truthiness: false, 0, nil and empty values are false
+ */
+function isTruthy(value: unknown): boolean {
+  return !isEmpty(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === null || value === undefined || value === false || value === 0 || value === '') {
+    return true;
+  }
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+function kindOf(value: unknown): string {
+  if (value === null || value === undefined) return 'invalid';
+  if (Array.isArray(value)) return 'slice';
+  if (typeof value === 'object') return 'map';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'float64';
+  if (typeof value === 'boolean') return 'bool';
+  return 'string';
+}
+
+/**
+ * Format a value the way Go's fmt prints it in templates
+ */
+function formatValue(value: unknown): string {
+  if (value === NO_VALUE || value === null || value === undefined) return '';
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(' ')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.keys(value).sort().map(key => `${key}:${formatValue((value as Record<string, unknown>)[key])}`);
+    return `map[${entries.join(' ')}]`;
+  }
+  return String(value);
+}
+
+function formatString(format: string, args: unknown[]): string {
+  let index = 0;
+  return format.replace(/%([-+# 0]*\d*(?:\.\d+)?)([sdvqtfx%])/g, (_match, _flags, verb) => {
+    if (verb === '%') return '%';
+    const arg = args[index++];
+    switch (verb) {
+      case 'd':
+        return String(Math.trunc(Number(arg) || 0));
+      case 'q':
+        return JSON.stringify(formatValue(arg));
+      case 'f':
+        return String(Number(arg) || 0);
+      case 'x':
+        return Buffer.from(formatValue(arg)).toString('hex');
+      default:
+        return formatValue(arg);
+    }
+  });
+}
+
+function indentLines(value: string, spaces: number): string {
+  const padding = ' '.repeat(Math.max(0, spaces));
+  return value.split('\n').map(line => padding + line).join('\n');
+}
+
+function trimChars(value: string, chars: string): string {
+  let start = 0;
+  let end = value.length;
+  while (start < end && chars.includes(value[start])) start++;
+  while (end > start && chars.includes(value[end - 1])) end--;
+  return value.slice(start, end);
+}
+
+/**
+ * Deep-merge two values, with `override` taking precedence
+ */
+export function mergeValues(base: unknown, override: unknown): unknown {
+  if (
+    base && override &&
+    typeof base === 'object' && typeof override === 'object' &&
+    !Array.isArray(base) && !Array.isArray(override)
+  ) {
+    const result: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+    for (const [key, value] of Object.entries(override as Record<string, unknown>)) {
+      result[key] = key in result ? mergeValues(result[key], value) : value;
+    }
+    return result;
+  }
+  return override === undefined ? base : override;
+}
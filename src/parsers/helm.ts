@@ -0,0 +1,296 @@
+/**
+ * Helm chart parser - renders chart templates and extracts Kubernetes dependencies
+ */
+import path from 'path';
+import yaml from 'js-yaml';
+import { TemplateRenderer, mergeValues } from './helm-template.js';
+import { kubernetesNodeId, loadKubernetesResources, extractKubernetesDependencies, type K8sResource } from './kubernetes.js';
+import { trackLineRanges, type LineRange } from './yaml-lines.js';
+import type { ParsedDependency, Provenance, SourceFile } from '../types.js';
+
+interface ChartDependency {
+  name: string;
+  version?: string;
+  repository?: string;
+  condition?: string;
+  alias?: string;
+}
+
+interface ChartMetadata {
+  apiVersion?: string;
+  name: string;
+  version?: string;
+  appVersion?: string;
+  dependencies?: ChartDependency[];
+  [key: string]: unknown;
+}
+
+export interface HelmChartOptions {
+  /** Values overlays merged over values.yaml, by file name (`values-prod.yaml`) or short name (`prod`) */
+  valuesFiles?: string[];
+  releaseName?: string;
+  namespace?: string;
+  /** Cluster context for the rendered resources' node IDs */
+  cluster?: string;
+}
+
+const TEMPLATE_EXTENSIONS = /\.(ya?ml|tpl)$/i;
+
+/**
+ * A template's rendered output
+ */
+interface RenderedTemplate {
+  file: SourceFile;
+  output: string;
+}
+
+/**
+ * Parse a Helm chart rooted at `chartDir` (relative to the scan root).
+ * `files` should contain the chart's own files; subcharts are parsed as separate charts.
+ */
+export async function parseHelmChart(
+  chartDir: string,
+  files: SourceFile[],
+  options: HelmChartOptions = {}
+): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+  const fileMap = new Map(files.map(file => [file.path, file.content]));
+  const chartPath = (name: string) => path.posix.join(chartDir, name);
+
+  let chart: ChartMetadata;
+  const ranges = new Map<object, LineRange>();
+  try {
+    const content = fileMap.get(chartPath('Chart.yaml')) || '';
+    chart = yaml.load(content, { listener: trackLineRanges(content, ranges) }) as ChartMetadata;
+  } catch (error) {
+    console.warn('Failed to parse Chart.yaml:', error instanceof Error ? error.message : 'Unknown error');
+    return dependencies;
+  }
+
+  if (!chart || !chart.name) {
+    return dependencies;
+  }
+
+  const chartId = `Chart/${chart.name}`;
+  const values = loadValues(chartDir, fileMap, options.valuesFiles || []);
+
+  // Chart dependencies (Chart.yaml for apiVersion v2, requirements.yaml for v1)
+  let chartDependencies = chart.dependencies;
+  let dependenciesFile = chartPath('Chart.yaml');
+  if (!chartDependencies && fileMap.has(chartPath('requirements.yaml'))) {
+    dependenciesFile = chartPath('requirements.yaml');
+    chartDependencies = loadYaml<{ dependencies?: ChartDependency[] }>(fileMap.get(dependenciesFile)!, ranges)?.dependencies;
+  }
+
+  for (const dep of chartDependencies || []) {
+    if (!dep?.name) continue;
+    dependencies.push({
+      source: chartId,
+      target: `Chart/${dep.name}`,
+      type: 'helm_dependency',
+      metadata: {
+        version: dep.version,
+        repository: dep.repository,
+        alias: dep.alias,
+        condition: dep.condition,
+        enabled: isDependencyEnabled(dep, values),
+      },
+      provenance: { parser: 'helm', file: dependenciesFile, ...ranges.get(dep) },
+    });
+  }
+
+  // Render templates and hand the resulting manifests to the Kubernetes parser, each
+  // resource located in the template it was rendered from
+  const resources: K8sResource[] = [];
+  const locations = new Map<K8sResource, Provenance>();
+  for (const { file, output } of renderChart(chart, chartDir, files, values, options)) {
+    const templateDocuments = splitDocuments(file.content);
+    const outputDocuments = splitDocuments(output);
+    // Templates that loop or branch around `---` render other documents than they
+    // hold, so their resources can only be placed in the whole template
+    const aligned = templateDocuments.length === outputDocuments.length;
+    const whole = { startLine: 1, endLine: Math.max(file.content.trimEnd().split('\n').length, 1) };
+
+    outputDocuments.forEach((document, index) => {
+      const range = aligned ? templateDocuments[index] : whole;
+      for (const resource of loadKubernetesResources(document.content)) {
+        resources.push(resource);
+        locations.set(resource, { parser: 'helm', file: file.path, startLine: range.startLine, endLine: range.endLine });
+      }
+    });
+  }
+
+  // Resources without a namespace are installed into the release namespace
+  const namespace = options.namespace || 'default';
+  dependencies.push(...extractKubernetesDependencies(resources, { namespace, cluster: options.cluster }, locations));
+
+  // Link the chart to every resource it renders
+  for (const resource of resources) {
+    if (resource.metadata?.name) {
+      dependencies.push({
+        source: chartId,
+        target: kubernetesNodeId({
+          kind: resource.kind,
+          name: resource.metadata.name,
+          namespace: resource.metadata.namespace || namespace,
+          cluster: options.cluster,
+        }),
+        type: 'helm_resource',
+        metadata: { chartVersion: chart.version },
+        provenance: locations.get(resource),
+      });
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Split YAML into its `---`-separated documents, each with the lines it spans (blank
+ * lines and comments at either end left out). Empty documents are kept, so a template
+ * and its output split alike when rendering kept every separator.
+ */
+function splitDocuments(content: string): Array<{ content: string } & LineRange> {
+  const lines = content.split('\n');
+  const documents: Array<{ content: string } & LineRange> = [];
+  const isBlank = (line: string) => /^\s*(#.*)?$/.test(line);
+
+  let start = 0;
+  for (let index = 0; index <= lines.length; index++) {
+    if (index < lines.length && !/^---(\s|$)/.test(lines[index])) continue;
+    // Text before a leading separator is not a document
+    if (index > 0 || start > 0) {
+      let first = start;
+      let last = index - 1;
+      while (first < last && isBlank(lines[first])) first++;
+      while (last > first && isBlank(lines[last])) last--;
+      documents.push({ content: lines.slice(start, index).join('\n'), startLine: first + 1, endLine: Math.max(last, first) + 1 });
+    }
+    start = index + 1;
+  }
+  return documents;
+}
+
+/**
+ * Load values.yaml and merge any requested overlays on top of it
+ */
+function loadValues(
+  chartDir: string,
+  fileMap: Map<string, string>,
+  overlays: string[]
+): Record<string, unknown> {
+  let values = loadYaml<Record<string, unknown>>(fileMap.get(path.posix.join(chartDir, 'values.yaml')) || '') || {};
+
+  for (const overlay of overlays) {
+    const candidates = [overlay, `values-${overlay}.yaml`, `values.${overlay}.yaml`, `values-${overlay}.yml`];
+    const match = candidates
+      .map(candidate => path.posix.join(chartDir, candidate))
+      .find(candidate => fileMap.has(candidate));
+
+    if (match) {
+      const overlayValues = loadYaml<Record<string, unknown>>(fileMap.get(match)!);
+      values = mergeValues(values, overlayValues || {}) as Record<string, unknown>;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Render every manifest template in the chart. Templates that fail to render or
+ * produce invalid YAML are skipped.
+ */
+function renderChart(
+  chart: ChartMetadata,
+  chartDir: string,
+  files: SourceFile[],
+  values: Record<string, unknown>,
+  options: HelmChartOptions
+): RenderedTemplate[] {
+  const renderer = new TemplateRenderer();
+  const templatesDir = path.posix.join(chartDir, 'templates') + '/';
+  const templateFiles = files.filter(file => file.path.startsWith(templatesDir) && TEMPLATE_EXTENSIONS.test(file.path));
+  const templateName = (file: SourceFile) => `${chart.name}/templates/${file.path.slice(templatesDir.length)}`;
+
+  // Register every template first so `define` blocks from helpers are available everywhere
+  const registered: SourceFile[] = [];
+  for (const file of templateFiles) {
+    try {
+      renderer.addTemplate(templateName(file), file.content);
+      registered.push(file);
+    } catch (error) {
+      console.warn(`Failed to parse Helm template ${file.path}:`, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  const context = {
+    Values: values,
+    Chart: capitalizeKeys(chart),
+    Release: {
+      Name: options.releaseName || chart.name,
+      Namespace: options.namespace || 'default',
+      Service: 'Helm',
+      IsInstall: true,
+      IsUpgrade: false,
+      Revision: 1,
+    },
+    Capabilities: {
+      KubeVersion: { Version: 'v1.29.0', Major: '1', Minor: '29', GitVersion: 'v1.29.0' },
+      APIVersions: { Has: () => true },
+    },
+    Files: {
+      Get: (name: unknown) => files.find(file => file.path === path.posix.join(chartDir, String(name)))?.content || '',
+    },
+  };
+
+  const rendered: RenderedTemplate[] = [];
+  for (const file of registered) {
+    // Partials (e.g. _helpers.tpl) only contribute `define` blocks
+    if (path.posix.basename(file.path).startsWith('_') || !/\.ya?ml$/i.test(file.path)) continue;
+
+    const name = templateName(file);
+    try {
+      const output = renderer.render(name, {
+        ...context,
+        Template: { Name: name, BasePath: `${chart.name}/templates` },
+      });
+      yaml.loadAll(output, () => undefined);
+      rendered.push({ file, output });
+    } catch (error) {
+      console.warn(`Failed to render Helm template ${file.path}:`, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  return rendered;
+}
+
+/**
+ * Evaluate a dependency `condition` (first resolvable boolean path wins, default enabled)
+ */
+function isDependencyEnabled(dep: ChartDependency, values: Record<string, unknown>): boolean {
+  for (const condition of (dep.condition || '').split(',')) {
+    const value = condition.trim().split('.').reduce<unknown>(
+      (current, key) => current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined,
+      values
+    );
+    if (typeof value === 'boolean') {
+      return value;
+    }
+  }
+  return true;
+}
+
+function capitalizeKeys(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key.charAt(0).toUpperCase() + key.slice(1), value])
+  );
+}
+
+function loadYaml<T>(content: string, ranges?: Map<object, LineRange>): T | undefined {
+  try {
+    return (yaml.load(content, ranges && { listener: trackLineRanges(content, ranges) }) as T) || undefined;
+  } catch (error) {
+    console.warn('Failed to parse Helm YAML:', error instanceof Error ? error.message : 'Unknown error');
+    return undefined;
+  }
+}
@@ -1,8 +1,29 @@
 /**
  * Parser index - exports all parsers
  */
-export { parseTerraform } from './terraform.js';
+export { parseTerraform, parseTerraformModule } from './terraform.js';
+export { parseTerraformState } from './terraform-state.js';
+export { parseCloudFormation } from './cloudformation.js';
+export { parseArmTemplate } from './arm.js';
+export { parseBicep, parseBicepFiles } from './bicep.js';
+export { parseGitHubWorkflow } from './github-actions.js';
+export { parseOpenApi } from './openapi.js';
+export { parseAsyncApi } from './asyncapi.js';
+export { parseProto, parseProtoFiles } from './proto.js';
 export { parseDockerCompose } from './docker-compose.js';
+export { parseDockerfile } from './dockerfile.js';
 export { parseKubernetes } from './kubernetes.js';
+export { parseBackstageCatalog } from './backstage.js';
 export { parseCodeowners } from './codeowners.js';
 export { parsePackageJson } from './package-json.js';
+export { parseWorkspace } from './workspaces.js';
+export { parseLockfile } from './lockfiles.js';
+export { parseGoMod } from './go-mod.js';
+export { parseRequirements, parsePyproject } from './python.js';
+export { parseCargoToml } from './cargo.js';
+export { parsePom } from './maven.js';
+export { parseGradle } from './gradle.js';
+export { parseCsproj } from './csproj.js';
+export { parseHelmChart } from './helm.js';
+export { inferRuntimeCalls } from './inference.js';
+export { parseFiles, parseFile, createParseCache } from './scanner.js';
@@ -0,0 +1,277 @@
+/**
+ * Runtime call inference - resolves hostnames in environment variables (URLs, DSNs,
+ * host:port pairs) to known service nodes and emits `inferred_call` edges
+ */
+import { parseKubernetesNodeId } from './kubernetes.js';
+import type { NodeHint, ParsedDependency, Provenance } from '../types.js';
+
+/**
+ * A network endpoint found in an environment variable. Parsers attach these to
+ * workload node hints as `metadata.envEndpoints`; credentials are never kept.
+ */
+export interface EnvEndpoint {
+  envVar: string;
+  host: string;
+  port?: number;
+  scheme?: string;
+  kind: 'url' | 'dsn' | 'host_port' | 'host';
+  /** Where the value came from when not set inline, e.g. `ConfigMap/app-config` */
+  via?: string;
+  container?: string;
+}
+
+type Platform = 'compose' | 'kubernetes';
+
+/**
+ * Where a node's bare hostnames resolve: its compose project, or its Kubernetes
+ * cluster and namespace
+ */
+interface HostScope {
+  platform: Platform;
+  cluster?: string;
+  namespace?: string;
+}
+
+interface KnownService {
+  id: string;
+  /** Services beat workloads when both answer to a hostname */
+  direct: boolean;
+}
+
+// Values reachable only from the workload itself
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '0.0.0.0', '::1', 'host.docker.internal']);
+
+// Variables whose bare value (no scheme or port) is a hostname
+const HOST_VARIABLE_PATTERN = /(HOST|HOSTNAME|HOSTS|ADDR|ADDRESS|SERVER|SERVERS|ENDPOINT|BROKERS?)$/i;
+
+// Confidence by how the endpoint was written
+const BASE_CONFIDENCE: Record<EnvEndpoint['kind'], number> = {
+  url: 0.9,
+  dsn: 0.85,
+  host_port: 0.8,
+  host: 0.6,
+};
+
+const DOCKER_SERVICE_TYPES = new Set(['docker_depends_on', 'docker_network', 'docker_volume']);
+const DOCKER_SOURCE_TYPES = new Set(['docker_build', 'docker_image']);
+
+/**
+ * Find network endpoints in a set of environment variables
+ */
+export function findEnvEndpoints(
+  environment: Record<string, unknown>,
+  provenance: Pick<EnvEndpoint, 'via' | 'container'> = {}
+): EnvEndpoint[] {
+  const endpoints: EnvEndpoint[] = [];
+
+  for (const [envVar, rawValue] of Object.entries(environment)) {
+    if (typeof rawValue !== 'string' && typeof rawValue !== 'number') continue;
+    const value = String(rawValue).trim();
+    // Unresolved interpolation can't be matched reliably
+    if (!value || value.includes('${')) continue;
+
+    for (const endpoint of parseEndpoints(envVar, value)) {
+      if (LOCAL_HOSTS.has(endpoint.host)) continue;
+      endpoints.push({ envVar, ...endpoint, ...provenance });
+    }
+  }
+
+  return endpoints;
+}
+
+/**
+ * Emit `inferred_call` edges for env endpoints that resolve to a service known from
+ * the parsed files. Compose services only resolve compose hostnames and Kubernetes
+ * workloads only resolve Kubernetes ones.
+ */
+export function inferRuntimeCalls(dependencies: ParsedDependency[]): ParsedDependency[] {
+  const known = indexKnownServices(dependencies);
+  const endpointsByNode = new Map<string, EnvEndpoint[]>();
+  // Where each endpoint was read, for the inferred edge's provenance: the variable
+  // when the parser knows it, else the dependency that carried the endpoint
+  const endpointLocations = new Map<EnvEndpoint, Provenance | undefined>();
+
+  const collect = (id: string, hint: NodeHint | undefined, location: Provenance | undefined) => {
+    const endpoints = hint?.metadata?.envEndpoints;
+    if (!Array.isArray(endpoints) || endpoints.length === 0) return;
+    const existing = endpointsByNode.get(id) || [];
+    for (const endpoint of endpoints as EnvEndpoint[]) {
+      if (!existing.some(other => JSON.stringify(other) === JSON.stringify(endpoint))) {
+        existing.push(endpoint);
+        endpointLocations.set(endpoint, hint?.envLocations?.[endpoint.envVar] ?? location);
+      }
+    }
+    endpointsByNode.set(id, existing);
+  };
+  for (const dep of dependencies) {
+    collect(dep.source, dep.sourceNode, dep.provenance);
+    collect(dep.target, dep.targetNode, dep.provenance);
+  }
+
+  const inferred = new Map<string, ParsedDependency>();
+  for (const [source, endpoints] of endpointsByNode) {
+    const scope = hostScopeOf(source);
+    if (!scope) continue;
+
+    for (const endpoint of endpoints) {
+      const match = resolveHost(endpoint.host, known.get(scope.platform)!, scope);
+      if (!match || match.id === source) continue;
+
+      const confidence = Math.round(
+        Math.min(1, BASE_CONFIDENCE[endpoint.kind] - (match.direct ? 0 : 0.2) + (match.qualified ? 0.05 : 0)) * 100
+      ) / 100;
+
+      const key = `${source}|${match.id}`;
+      const existing = inferred.get(key);
+      const envVars = [...new Set([...((existing?.metadata?.envVars as string[]) || []), endpoint.envVar])];
+      if (existing && (existing.metadata!.confidence as number) >= confidence) {
+        existing.metadata!.envVars = envVars;
+        continue;
+      }
+
+      inferred.set(key, {
+        source,
+        target: match.id,
+        type: 'inferred_call',
+        metadata: {
+          confidence,
+          envVar: endpoint.envVar,
+          envVars,
+          host: endpoint.host,
+          port: endpoint.port,
+          scheme: endpoint.scheme,
+          via: endpoint.via,
+          container: endpoint.container,
+        },
+        provenance: { ...endpointLocations.get(endpoint), parser: 'inference' },
+      });
+    }
+  }
+
+  return [...inferred.values()];
+}
+
+/**
+ * Hostnames each platform can resolve, mapped to the node answering them. Kubernetes
+ * names are keyed by cluster and namespace (`kubernetesHostKey`).
+ */
+function indexKnownServices(dependencies: ParsedDependency[]): Map<Platform, Map<string, KnownService>> {
+  const known = new Map<Platform, Map<string, KnownService>>([
+    ['compose', new Map()],
+    ['kubernetes', new Map()],
+  ]);
+
+  const add = (platform: Platform, hostname: string, service: KnownService) => {
+    const hosts = known.get(platform)!;
+    const existing = hosts.get(hostname);
+    if (!existing || (service.direct && !existing.direct)) {
+      hosts.set(hostname, service);
+    }
+  };
+
+  for (const dep of dependencies) {
+    const composeIds = DOCKER_SERVICE_TYPES.has(dep.type)
+      ? [dep.source, dep.target]
+      : DOCKER_SOURCE_TYPES.has(dep.type) ? [dep.source] : [];
+    composeIds.forEach(id => add('compose', id.toLowerCase(), { id, direct: true }));
+
+    for (const id of [dep.source, dep.target]) {
+      const identity = parseKubernetesNodeId(id);
+      if (identity && /^(Service|Deployment|StatefulSet|DaemonSet)$/.test(identity.kind)) {
+        add('kubernetes', kubernetesHostKey(identity.cluster, identity.namespace, identity.name.toLowerCase()), {
+          id,
+          direct: identity.kind === 'Service',
+        });
+      }
+    }
+  }
+
+  return known;
+}
+
+function hostScopeOf(id: string): HostScope | undefined {
+  const identity = parseKubernetesNodeId(id);
+  if (identity && /^(Deployment|StatefulSet|DaemonSet|Job|CronJob|Pod|ConfigMap)$/.test(identity.kind)) {
+    return { platform: 'kubernetes', cluster: identity.cluster, namespace: identity.namespace };
+  }
+  if (!id.includes('/')) return { platform: 'compose' };
+  return undefined;
+}
+
+function kubernetesHostKey(cluster: string | undefined, namespace: string | undefined, name: string): string {
+  return `${cluster ?? ''}|${namespace ?? 'default'}/${name}`;
+}
+
+/**
+ * Match a hostname. Kubernetes names resolve in the caller's namespace unless
+ * qualified with another (`orders.shop`, `orders.shop.svc.cluster.local`); compose
+ * names also accept the cluster-local form of the service name.
+ */
+function resolveHost(
+  host: string,
+  hosts: Map<string, KnownService>,
+  scope: HostScope
+): (KnownService & { qualified: boolean }) | undefined {
+  if (scope.platform === 'kubernetes') {
+    const key = (namespace: string | undefined, name: string) => kubernetesHostKey(scope.cluster, namespace, name);
+    const local = hosts.get(key(scope.namespace, host));
+    if (local) return { ...local, qualified: false };
+
+    const sameNamespace = /^([^.]+)\.svc(?:\.cluster\.local)?$/.exec(host);
+    const otherNamespace = /^([^.]+)\.([^.]+)(?:\.svc(?:\.cluster\.local)?)?$/.exec(host);
+    const service = sameNamespace
+      ? hosts.get(key(scope.namespace, sameNamespace[1]))
+      : otherNamespace && hosts.get(key(otherNamespace[2], otherNamespace[1]));
+    return service ? { ...service, qualified: true } : undefined;
+  }
+
+  const exact = hosts.get(host);
+  if (exact) return { ...exact, qualified: false };
+
+  const clusterLocal = /^([^.]+)\.[^.]+\.svc(\.cluster\.local)?$/.exec(host) ?? /^([^.]+)\.svc(\.cluster\.local)?$/.exec(host);
+  const service = clusterLocal && hosts.get(clusterLocal[1]);
+  return service ? { ...service, qualified: true } : undefined;
+}
+
+/**
+ * Extract host/port pairs from a single value
+ */
+function parseEndpoints(envVar: string, value: string): Array<Omit<EnvEndpoint, 'envVar'>> {
+  // URLs, including multi-host ones (mongodb://a:27017,b:27017/db) and JDBC URLs
+  const url = /^(?:jdbc:)?([a-z][a-z0-9+.-]*):\/\/(?:[^@/?#]*@)?([^/?#]+)/i.exec(value);
+  if (url) {
+    const scheme = url[1].toLowerCase();
+    return url[2].split(',').flatMap(hostPort => {
+      const parsed = splitHostPort(hostPort);
+      return parsed ? [{ ...parsed, scheme, kind: 'url' as const }] : [];
+    });
+  }
+
+  // Key/value DSNs: `host=db port=5432`, `Server=tcp:sql,1433;Database=app`
+  const dsnHost = /(?:^|[\s;])(?:host|server|data source|address)\s*=\s*(?:tcp:)?([^\s;,]+)(?:,(\d+))?/i.exec(value);
+  if (dsnHost) {
+    const dsnPort = dsnHost[2] ?? /(?:^|[\s;])port\s*=\s*(\d+)/i.exec(value)?.[1];
+    return [{ host: dsnHost[1].toLowerCase(), port: dsnPort ? Number(dsnPort) : undefined, kind: 'dsn' }];
+  }
+
+  // host:port lists (`kafka-0:9092,kafka-1:9092`)
+  if (/^[a-z0-9.-]+:\d+(,\s*[a-z0-9.-]+:\d+)*$/i.test(value)) {
+    return value.split(',').flatMap(hostPort => {
+      const parsed = splitHostPort(hostPort.trim());
+      return parsed ? [{ ...parsed, kind: 'host_port' as const }] : [];
+    });
+  }
+
+  // Bare hostnames, only for variables named like a host
+  if (HOST_VARIABLE_PATTERN.test(envVar) && /^[a-z][a-z0-9.-]*$/i.test(value)) {
+    return [{ host: value.toLowerCase(), kind: 'host' }];
+  }
+
+  return [];
+}
+
+function splitHostPort(hostPort: string): { host: string; port?: number } | undefined {
+  const match = /^([a-z0-9_.-]+)(?::(\d+))?$/i.exec(hostPort);
+  if (!match) return undefined;
+  return { host: match[1].toLowerCase(), port: match[2] ? Number(match[2]) : undefined };
+}
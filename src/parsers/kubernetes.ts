@@ -2,7 +2,9 @@
  * Kubernetes manifest parser - extracts service dependencies
  */
 import yaml from 'js-yaml';
-import type { ParsedDependency } from '../types.js';
+import { findEnvEndpoints, type EnvEndpoint } from './inference.js';
+import { trackLineRanges, type LineRange } from './yaml-lines.js';
+import type { NodeHint, ParsedDependency, Provenance, SourceFile } from '../types.js';
 
 interface K8sMetadata {
   name: string;
@@ -11,7 +13,7 @@ interface K8sMetadata {
   annotations?: Record<string, string>;
 }
 
-interface K8sResource {
+export interface K8sResource {
   apiVersion: string;
   kind: string;
   metadata: K8sMetadata;
@@ -19,80 +21,278 @@ interface K8sResource {
 }
 
 interface K8sServiceSpec {
+  type?: string;
+  externalName?: string;
   selector?: Record<string, string>;
   ports?: Array<{ port: number; targetPort?: number | string }>;
 }
 
+interface K8sContainer {
+  name: string;
+  env?: Array<{
+    name: string;
+    value?: string;
+    valueFrom?: { configMapKeyRef?: { name: string; key?: string }; secretKeyRef?: { name: string } };
+  }>;
+  envFrom?: Array<{ configMapRef?: { name: string }; secretRef?: { name: string } }>;
+  volumeMounts?: Array<{ name: string }>;
+}
+
+interface K8sPodSpec {
+  containers?: K8sContainer[];
+  initContainers?: K8sContainer[];
+  volumes?: Array<{
+    name: string;
+    configMap?: { name: string };
+    secret?: { secretName: string };
+    persistentVolumeClaim?: { claimName: string };
+    projected?: { sources?: Array<{ configMap?: { name: string }; secret?: { name: string } }> };
+  }>;
+  imagePullSecrets?: Array<{ name: string }>;
+  serviceAccountName?: string;
+}
+
+interface K8sPodTemplate {
+  metadata?: { labels?: Record<string, string> };
+  spec?: K8sPodSpec;
+}
+
 interface K8sDeploymentSpec {
   selector?: { matchLabels?: Record<string, string> };
-  template?: {
-    metadata?: { labels?: Record<string, string> };
-    spec?: {
-      containers?: Array<{
-        name: string;
-        env?: Array<{ name: string; valueFrom?: { configMapKeyRef?: { name: string }; secretKeyRef?: { name: string } } }>;
-        envFrom?: Array<{ configMapRef?: { name: string }; secretRef?: { name: string } }>;
-        volumeMounts?: Array<{ name: string }>;
-      }>;
-      volumes?: Array<{
-        name: string;
-        configMap?: { name: string };
-        secret?: { secretName: string };
-        persistentVolumeClaim?: { claimName: string };
-      }>;
-      serviceAccountName?: string;
-    };
-  };
+  template?: K8sPodTemplate;
+  // CronJob
+  jobTemplate?: { spec?: { template?: K8sPodTemplate } };
 }
 
+export interface KubernetesIdentity {
+  kind: string;
+  name: string;
+  namespace?: string;
+  cluster?: string;
+}
+
+export interface KubernetesOptions {
+  /** Namespace for manifests that don't declare one (e.g. a Helm release namespace) */
+  namespace?: string;
+  /** Cluster context, added to every node ID when set */
+  cluster?: string;
+}
+
+export const CLUSTER_SCOPED_KINDS = new Set([
+  'Namespace',
+  'ClusterRole',
+  'ClusterRoleBinding',
+  'CustomResourceDefinition',
+  'PersistentVolume',
+  'StorageClass',
+  'IngressClass',
+  'GatewayClass',
+  'PriorityClass',
+  'MutatingWebhookConfiguration',
+  'ValidatingWebhookConfiguration',
+  'APIService',
+]);
+
+/**
+ * Graph ID for a Kubernetes object: `Kind/[cluster/]namespace/name`, or
+ * `Kind/[cluster/]name` for cluster-scoped kinds
+ */
+export function kubernetesNodeId({ kind, name, namespace, cluster }: KubernetesIdentity): string {
+  return [
+    kind,
+    ...(cluster ? [cluster] : []),
+    ...(CLUSTER_SCOPED_KINDS.has(kind) ? [] : [namespace || 'default']),
+    name,
+  ].join('/');
+}
+
+/**
+ * Inverse of `kubernetesNodeId`; undefined for IDs that don't have its shape
+ */
+export function parseKubernetesNodeId(id: string): KubernetesIdentity | undefined {
+  const [kind, ...rest] = id.split('/');
+  // Object names and namespaces are DNS names (`*` is the any-namespace NetworkPolicy peer)
+  if (!/^[A-Z][A-Za-z]*$/.test(kind) || !rest.slice(-2).every(part => /^(\*|\w([\w.-]*\w)?)$/.test(part))) return undefined;
+
+  if (CLUSTER_SCOPED_KINDS.has(kind)) {
+    if (rest.length === 1) return { kind, name: rest[0] };
+    if (rest.length === 2) return { kind, cluster: rest[0], name: rest[1] };
+    return undefined;
+  }
+  if (rest.length === 2) return { kind, namespace: rest[0], name: rest[1] };
+  if (rest.length === 3) return { kind, cluster: rest[0], namespace: rest[1], name: rest[2] };
+  return undefined;
+}
+
+/**
+ * Builds the ID of an object referenced from a manifest, in that manifest's
+ * namespace unless another is given
+ */
+type ResourceRef = (kind: string, name: string, namespace?: string) => string;
+
 /**
  * Parse Kubernetes manifest content and extract dependencies
  */
-export async function parseKubernetes(fileContent: string): Promise<ParsedDependency[]> {
-  const dependencies: ParsedDependency[] = [];
+export async function parseKubernetes(fileContent: string, options: KubernetesOptions = {}): Promise<ParsedDependency[]> {
+  return extractKubernetesDependencies(loadKubernetesResources(fileContent), options);
+}
+
+/**
+ * Parse the manifests of several files together, so selectors and references resolve
+ * across files; each dependency records the file and lines of the object it was read from
+ */
+export async function parseKubernetesManifests(files: SourceFile[], options: KubernetesOptions = {}): Promise<ParsedDependency[]> {
+  const locations = new Map<K8sResource, Provenance>();
+  for (const file of files) {
+    const ranges = new Map<object, LineRange>();
+    for (const resource of loadKubernetesResources(file.content, ranges)) {
+      locations.set(resource, { parser: 'kubernetes', file: file.path, ...ranges.get(resource) });
+    }
+  }
+  return extractKubernetesDependencies([...locations.keys()], options, locations);
+}
+
+/**
+ * Load Kubernetes resources from (possibly multi-document) YAML content, recording
+ * the line range of every loaded object in `ranges` when given
+ */
+export function loadKubernetesResources(fileContent: string, ranges?: Map<object, LineRange>): K8sResource[] {
   const resources: K8sResource[] = [];
 
-  // Parse YAML (may contain multiple documents)
   try {
     yaml.loadAll(fileContent, (doc) => {
       if (doc && typeof doc === 'object' && 'kind' in doc) {
         resources.push(doc as K8sResource);
       }
-    });
+    }, ranges && { listener: trackLineRanges(fileContent, ranges) });
   } catch (error) {
     console.warn('Failed to parse Kubernetes YAML:', error instanceof Error ? error.message : 'Unknown error');
-    return dependencies;
+    return [];
   }
 
+  return resources;
+}
+
+/**
+ * Extract dependencies between already-loaded Kubernetes resources. Objects
+ * without a namespace fall back to `options.namespace`, then `default`; every
+ * node gets its `Kind/name` as display name and its namespace and cluster as metadata.
+ * `locations` gives where each resource was read, for its dependencies' provenance.
+ */
+export function extractKubernetesDependencies(
+  resources: K8sResource[],
+  options: KubernetesOptions = {},
+  locations?: Map<K8sResource, Provenance>
+): ParsedDependency[] {
+  const dependencies: ParsedDependency[] = [];
+  const identities = new Map<string, KubernetesIdentity>();
+  const refIn = (namespace: string | undefined): ResourceRef => (kind, name, refNamespace) => {
+    const identity = {
+      kind,
+      name,
+      namespace: CLUSTER_SCOPED_KINDS.has(kind) ? undefined : refNamespace || namespace || options.namespace || 'default',
+      cluster: options.cluster,
+    };
+    const id = kubernetesNodeId(identity);
+    identities.set(id, identity);
+    return id;
+  };
+
+  const scoped = resources.map(resource => resource.metadata?.namespace || CLUSTER_SCOPED_KINDS.has(resource.kind)
+    ? resource
+    : { ...resource, metadata: { ...resource.metadata, namespace: options.namespace || 'default' } });
+
   // Build a map of resources for reference
   const resourceMap = new Map<string, K8sResource>();
-  for (const resource of resources) {
-    const key = `${resource.kind}/${resource.metadata?.name}`;
-    resourceMap.set(key, resource);
+  for (const resource of scoped) {
+    resourceMap.set(refIn(resource.metadata?.namespace)(resource.kind, resource.metadata?.name), resource);
   }
 
   // Extract dependencies for each resource
-  for (const resource of resources) {
-    const sourceName = `${resource.kind}/${resource.metadata?.name}`;
+  for (const [index, resource] of scoped.entries()) {
+    const extracted = dependencies.length;
+    const ref = refIn(resource.metadata?.namespace);
+    const sourceName = ref(resource.kind, resource.metadata?.name);
 
     switch (resource.kind) {
       case 'Service':
-        extractServiceDependencies(resource, resources, sourceName, dependencies);
+        extractServiceDependencies(resource, scoped, resourceMap, ref, sourceName, dependencies);
         break;
       case 'Deployment':
       case 'StatefulSet':
       case 'DaemonSet':
       case 'Job':
       case 'CronJob':
-        extractWorkloadDependencies(resource, sourceName, dependencies);
+        extractWorkloadDependencies(resource, resourceMap, ref, sourceName, dependencies);
         break;
       case 'Ingress':
-        extractIngressDependencies(resource, sourceName, dependencies);
+        extractIngressDependencies(resource, ref, sourceName, dependencies);
+        break;
+      case 'HorizontalPodAutoscaler':
+        extractAutoscalerDependencies(resource, ref, sourceName, dependencies);
+        break;
+      case 'PodDisruptionBudget':
+        extractDisruptionBudgetDependencies(resource, scoped, ref, sourceName, dependencies);
+        break;
+      case 'VirtualService':
+        extractVirtualServiceDependencies(resource, resourceMap, ref, sourceName, dependencies);
+        break;
+      case 'DestinationRule':
+        extractDestinationRuleDependencies(resource, resourceMap, ref, sourceName, dependencies);
+        break;
+      case 'ServiceEntry':
+        extractServiceEntryDependencies(resource, sourceName, dependencies);
+        break;
+      case 'HTTPRoute':
+      case 'GRPCRoute':
+      case 'TCPRoute':
+      case 'TLSRoute':
+        extractRouteDependencies(resource, ref, sourceName, dependencies);
+        break;
+      case 'TrafficSplit':
+        extractTrafficSplitDependencies(resource, ref, sourceName, dependencies);
         break;
+      case 'NetworkPolicy':
+        extractNetworkPolicyDependencies(resource, scoped, ref, sourceName, dependencies);
+        break;
+      case 'ServerAuthorization':
+      case 'AuthorizationPolicy':
+        if (resource.apiVersion?.startsWith('policy.linkerd.io/')) {
+          extractLinkerdAuthorizationDependencies(resource, scoped, resourceMap, ref, sourceName, dependencies);
+        }
+        break;
+    }
+
+    const location = locations?.get(resources[index]);
+    if (location) {
+      dependencies.slice(extracted).forEach(dep => (dep.provenance = { ...location, ...dep.provenance }));
     }
   }
 
-  return dependencies;
+  const identityHint = (id: string, hint: NodeHint | undefined): NodeHint | undefined => {
+    const identity = identities.get(id);
+    if (!identity) return hint;
+    // Labels of objects declared in these manifests, pod template labels included for workloads
+    const resource = resourceMap.get(id);
+    const labels = resource && { ...podTemplateOf(resource)?.metadata?.labels, ...resource.metadata?.labels };
+    return {
+      name: `${identity.kind}/${identity.name}`,
+      ...hint,
+      metadata: {
+        kind: identity.kind,
+        namespace: identity.namespace,
+        cluster: identity.cluster,
+        labels: labels && Object.keys(labels).length > 0 ? labels : undefined,
+        ...hint?.metadata,
+      },
+    };
+  };
+
+  return dependencies.map(dep => ({
+    ...dep,
+    sourceNode: identityHint(dep.source, dep.sourceNode),
+    targetNode: identityHint(dep.target, dep.targetNode),
+  }));
 }
 
 /**
@@ -101,167 +301,772 @@ export async function parseKubernetes(fileContent: string): Promise<ParsedDepend
 function extractServiceDependencies(
   service: K8sResource,
   resources: K8sResource[],
+  resourceMap: Map<string, K8sResource>,
+  ref: ResourceRef,
   sourceName: string,
   dependencies: ParsedDependency[]
 ): void {
   const spec = service.spec as K8sServiceSpec | undefined;
+
+  // ExternalName services are DNS aliases for another host
+  if (spec?.type === 'ExternalName' && spec.externalName) {
+    const target = meshHostTarget(spec.externalName, resourceMap, ref);
+    dependencies.push({
+      source: sourceName,
+      target,
+      type: 'k8s_external',
+      metadata: { externalName: spec.externalName },
+      targetNode: externalHint(target),
+    });
+    return;
+  }
+
   if (!spec?.selector) return;
 
   const selector = spec.selector;
 
-  // Find deployments/pods that match the selector
+  // Find deployments/pods in the same namespace that match the selector
   for (const resource of resources) {
     if (!['Deployment', 'StatefulSet', 'DaemonSet', 'Pod'].includes(resource.kind)) {
       continue;
     }
+    if (resource.metadata?.namespace !== service.metadata?.namespace) {
+      continue;
+    }
 
-    const deploySpec = resource.spec as K8sDeploymentSpec | undefined;
-    const labels = resource.kind === 'Pod'
-      ? resource.metadata?.labels
-      : deploySpec?.template?.metadata?.labels;
+    const labels = podTemplateOf(resource)?.metadata?.labels;
 
     if (labels && matchesSelector(labels, selector)) {
       dependencies.push({
         source: sourceName,
-        target: `${resource.kind}/${resource.metadata?.name}`,
+        target: ref(resource.kind, resource.metadata?.name),
         type: 'k8s_service',
         metadata: { selector },
+        targetNode: workloadHint(resource, resourceMap, ref),
       });
     }
   }
 }
 
 /**
- * Extract workload dependencies (ConfigMaps, Secrets, PVCs, ServiceAccounts)
+ * Extract workload dependencies (ConfigMaps, Secrets, PVCs, ServiceAccounts, image pull secrets)
  */
 function extractWorkloadDependencies(
   workload: K8sResource,
+  resourceMap: Map<string, K8sResource>,
+  ref: ResourceRef,
   sourceName: string,
   dependencies: ParsedDependency[]
 ): void {
-  const spec = workload.spec as K8sDeploymentSpec | undefined;
-  const podSpec = spec?.template?.spec;
+  const podSpec = podTemplateOf(workload)?.spec;
 
   if (!podSpec) return;
 
+  const sourceNode = workloadHint(workload, resourceMap, ref);
+
   // Check volumes
   if (podSpec.volumes) {
     for (const volume of podSpec.volumes) {
       if (volume.configMap) {
         dependencies.push({
           source: sourceName,
-          target: `ConfigMap/${volume.configMap.name}`,
+          target: ref('ConfigMap', volume.configMap.name),
           type: 'k8s_configmap',
           metadata: { volumeName: volume.name },
+          sourceNode,
         });
       }
       if (volume.secret) {
         dependencies.push({
           source: sourceName,
-          target: `Secret/${volume.secret.secretName}`,
+          target: ref('Secret', volume.secret.secretName),
           type: 'k8s_secret',
           metadata: { volumeName: volume.name },
+          sourceNode,
         });
       }
+      for (const source of volume.projected?.sources || []) {
+        if (source.configMap) {
+          dependencies.push({
+            source: sourceName,
+            target: ref('ConfigMap', source.configMap.name),
+            type: 'k8s_configmap',
+            metadata: { volumeName: volume.name, projected: true },
+            sourceNode,
+          });
+        }
+        if (source.secret) {
+          dependencies.push({
+            source: sourceName,
+            target: ref('Secret', source.secret.name),
+            type: 'k8s_secret',
+            metadata: { volumeName: volume.name, projected: true },
+            sourceNode,
+          });
+        }
+      }
       if (volume.persistentVolumeClaim) {
         dependencies.push({
           source: sourceName,
-          target: `PersistentVolumeClaim/${volume.persistentVolumeClaim.claimName}`,
+          target: ref('PersistentVolumeClaim', volume.persistentVolumeClaim.claimName),
           type: 'k8s_deployment',
           metadata: { volumeName: volume.name },
+          sourceNode,
         });
       }
     }
   }
 
-  // Check containers for env references
-  if (podSpec.containers) {
-    for (const container of podSpec.containers) {
-      // Check envFrom
-      if (container.envFrom) {
-        for (const envFrom of container.envFrom) {
-          if (envFrom.configMapRef) {
-            dependencies.push({
-              source: sourceName,
-              target: `ConfigMap/${envFrom.configMapRef.name}`,
-              type: 'k8s_configmap',
-              metadata: { container: container.name },
-            });
-          }
-          if (envFrom.secretRef) {
-            dependencies.push({
-              source: sourceName,
-              target: `Secret/${envFrom.secretRef.name}`,
-              type: 'k8s_secret',
-              metadata: { container: container.name },
-            });
-          }
+  // Check containers (including init containers) for env references
+  for (const [container, initContainer] of containersOf(podSpec)) {
+    const containerMetadata = { container: container.name, initContainer: initContainer || undefined };
+
+    // Check envFrom
+    if (container.envFrom) {
+      for (const envFrom of container.envFrom) {
+        if (envFrom.configMapRef) {
+          dependencies.push({
+            source: sourceName,
+            target: ref('ConfigMap', envFrom.configMapRef.name),
+            type: 'k8s_configmap',
+            metadata: containerMetadata,
+            sourceNode,
+          });
+        }
+        if (envFrom.secretRef) {
+          dependencies.push({
+            source: sourceName,
+            target: ref('Secret', envFrom.secretRef.name),
+            type: 'k8s_secret',
+            metadata: containerMetadata,
+            sourceNode,
+          });
         }
       }
+    }
 
-      // Check individual env vars
-      if (container.env) {
-        for (const env of container.env) {
-          if (env.valueFrom?.configMapKeyRef) {
-            dependencies.push({
-              source: sourceName,
-              target: `ConfigMap/${env.valueFrom.configMapKeyRef.name}`,
-              type: 'k8s_configmap',
-              metadata: { container: container.name, envVar: env.name },
-            });
-          }
-          if (env.valueFrom?.secretKeyRef) {
-            dependencies.push({
-              source: sourceName,
-              target: `Secret/${env.valueFrom.secretKeyRef.name}`,
-              type: 'k8s_secret',
-              metadata: { container: container.name, envVar: env.name },
-            });
-          }
+    // Check individual env vars
+    if (container.env) {
+      for (const env of container.env) {
+        if (env.valueFrom?.configMapKeyRef) {
+          dependencies.push({
+            source: sourceName,
+            target: ref('ConfigMap', env.valueFrom.configMapKeyRef.name),
+            type: 'k8s_configmap',
+            metadata: { ...containerMetadata, envVar: env.name },
+            sourceNode,
+          });
+        }
+        if (env.valueFrom?.secretKeyRef) {
+          dependencies.push({
+            source: sourceName,
+            target: ref('Secret', env.valueFrom.secretKeyRef.name),
+            type: 'k8s_secret',
+            metadata: { ...containerMetadata, envVar: env.name },
+            sourceNode,
+          });
         }
       }
     }
   }
 
+  for (const pullSecret of podSpec.imagePullSecrets || []) {
+    dependencies.push({
+      source: sourceName,
+      target: ref('Secret', pullSecret.name),
+      type: 'k8s_secret',
+      metadata: { imagePullSecret: true },
+      sourceNode,
+    });
+  }
+
   // Check ServiceAccount
   if (podSpec.serviceAccountName) {
     dependencies.push({
       source: sourceName,
-      target: `ServiceAccount/${podSpec.serviceAccountName}`,
+      target: ref('ServiceAccount', podSpec.serviceAccountName),
       type: 'k8s_deployment',
       metadata: {},
+      sourceNode,
     });
   }
 }
 
 /**
- * Extract Ingress -> Service dependencies
+ * Node hint carrying the network endpoints a workload's containers are configured
+ * with, from inline `env` values and ConfigMaps in the same manifests
+ */
+function workloadHint(workload: K8sResource, resourceMap: Map<string, K8sResource>, ref: ResourceRef): NodeHint | undefined {
+  const podSpec = podTemplateOf(workload)?.spec;
+  const configMapData = (name: string) =>
+    ((resourceMap.get(ref('ConfigMap', name)) as { data?: Record<string, string> } | undefined)?.data) || {};
+
+  const envEndpoints: EnvEndpoint[] = [];
+  for (const [container] of podSpec ? containersOf(podSpec) : []) {
+    for (const envFrom of container.envFrom || []) {
+      if (envFrom.configMapRef) {
+        envEndpoints.push(...findEnvEndpoints(configMapData(envFrom.configMapRef.name), {
+          via: `ConfigMap/${envFrom.configMapRef.name}`,
+          container: container.name,
+        }));
+      }
+    }
+
+    const inline: Record<string, string> = {};
+    for (const env of container.env || []) {
+      const configMapRef = env.valueFrom?.configMapKeyRef;
+      if (env.value !== undefined) {
+        inline[env.name] = env.value;
+      } else if (configMapRef?.key && configMapData(configMapRef.name)[configMapRef.key] !== undefined) {
+        envEndpoints.push(...findEnvEndpoints({ [env.name]: configMapData(configMapRef.name)[configMapRef.key] }, {
+          via: `ConfigMap/${configMapRef.name}`,
+          container: container.name,
+        }));
+      }
+    }
+    envEndpoints.push(...findEnvEndpoints(inline, { container: container.name }));
+  }
+
+  return envEndpoints.length > 0 ? { metadata: { envEndpoints } } : undefined;
+}
+
+/**
+ * Extract Ingress -> Service dependencies, for both `networking.k8s.io/v1`
+ * (`backend.service.name`) and older (`backend.serviceName`) backends
  */
 function extractIngressDependencies(
   ingress: K8sResource,
+  ref: ResourceRef,
+  sourceName: string,
+  dependencies: ParsedDependency[]
+): void {
+  const spec = ingress.spec as {
+    defaultBackend?: IngressBackend;
+    backend?: IngressBackend;
+    rules?: Array<{ host?: string; http?: { paths?: Array<{ path?: string; backend?: IngressBackend }> } }>;
+  } | undefined;
+
+  if (!spec) return;
+
+  const backends: Array<{ backend?: IngressBackend; host?: string; path?: string }> = [
+    { backend: spec.defaultBackend ?? spec.backend },
+    ...(spec.rules || []).flatMap(rule => (rule.http?.paths || []).map(path => ({ backend: path.backend, host: rule.host, path: path.path }))),
+  ];
+
+  for (const { backend, host, path } of backends) {
+    const serviceName = backend?.service?.name ?? backend?.serviceName;
+    if (!serviceName) continue;
+    dependencies.push({
+      source: sourceName,
+      target: ref('Service', serviceName),
+      type: 'k8s_service',
+      metadata: { host, path, port: backend?.service?.port?.number ?? backend?.service?.port?.name ?? backend?.servicePort },
+    });
+  }
+}
+
+interface IngressBackend {
+  service?: { name: string; port?: { number?: number; name?: string } };
+  serviceName?: string;
+  servicePort?: number | string;
+}
+
+/**
+ * Extract HorizontalPodAutoscaler -> scale target dependencies
+ */
+function extractAutoscalerDependencies(
+  autoscaler: K8sResource,
+  ref: ResourceRef,
+  sourceName: string,
+  dependencies: ParsedDependency[]
+): void {
+  const spec = autoscaler.spec as {
+    scaleTargetRef?: { kind: string; name: string };
+    minReplicas?: number;
+    maxReplicas?: number;
+    metrics?: Array<{ type: string; resource?: { name: string } }>;
+  } | undefined;
+  if (!spec?.scaleTargetRef) return;
+
+  dependencies.push({
+    source: sourceName,
+    target: ref(spec.scaleTargetRef.kind, spec.scaleTargetRef.name),
+    type: 'k8s_scales',
+    metadata: {
+      minReplicas: spec.minReplicas,
+      maxReplicas: spec.maxReplicas,
+      metrics: spec.metrics?.map(metric => metric.resource?.name ?? metric.type),
+    },
+  });
+}
+
+/**
+ * Extract PodDisruptionBudget -> selected workload dependencies
+ */
+function extractDisruptionBudgetDependencies(
+  budget: K8sResource,
+  resources: K8sResource[],
+  ref: ResourceRef,
+  sourceName: string,
+  dependencies: ParsedDependency[]
+): void {
+  const spec = budget.spec as { selector?: LabelSelector; minAvailable?: number | string; maxUnavailable?: number | string } | undefined;
+  if (!spec?.selector) return;
+
+  for (const target of selectWorkloads(resources, spec.selector, budget.metadata?.namespace, ref)) {
+    dependencies.push({
+      source: sourceName,
+      target,
+      type: 'k8s_disruption_budget',
+      metadata: { minAvailable: spec.minAvailable, maxUnavailable: spec.maxUnavailable },
+    });
+  }
+}
+
+/**
+ * Graph ID for a mesh destination host: cluster services (`reviews`,
+ * `reviews.prod.svc.cluster.local`) map to their Service in the given or the
+ * referencing namespace, anything else is external
+ */
+function meshHostTarget(host: string, resourceMap: Map<string, K8sResource>, ref: ResourceRef): string {
+  const normalized = host.replace(/\.$/, '');
+  const clusterLocal = /^([^.]+)(?:\.([^.]+))?\.svc(?:\.cluster\.local)?$/.exec(normalized);
+  if (clusterLocal) return ref('Service', clusterLocal[1], clusterLocal[2]);
+  if (!normalized.includes('.')) return ref('Service', normalized);
+  // `reviews.prod` is namespace-qualified when `reviews` is a known Service there
+  const [first, ...rest] = normalized.split('.');
+  if (rest.length === 1 && resourceMap.has(ref('Service', first, rest[0]))) return ref('Service', first, rest[0]);
+  return `External/${normalized}`;
+}
+
+const EXTERNAL_NODE: NodeHint = { type: 'external' };
+
+function externalHint(target: string): NodeHint | undefined {
+  return target.startsWith('External/') ? EXTERNAL_NODE : undefined;
+}
+
+/**
+ * Extract Istio VirtualService -> destination Service routes, and Gateway -> VirtualService
+ */
+function extractVirtualServiceDependencies(
+  virtualService: K8sResource,
+  resourceMap: Map<string, K8sResource>,
+  ref: ResourceRef,
   sourceName: string,
   dependencies: ParsedDependency[]
 ): void {
-  const spec = ingress.spec as { rules?: Array<{ http?: { paths?: Array<{ backend?: { service?: { name: string } } }> } }> } | undefined;
-  
-  if (!spec?.rules) return;
-
-  for (const rule of spec.rules) {
-    if (!rule.http?.paths) continue;
-    
-    for (const path of rule.http.paths) {
-      if (path.backend?.service?.name) {
+  const spec = virtualService.spec as {
+    hosts?: string[];
+    gateways?: string[];
+    http?: IstioRoute[];
+    tcp?: IstioRoute[];
+    tls?: IstioRoute[];
+  } | undefined;
+  if (!spec) return;
+
+  for (const gateway of spec.gateways || []) {
+    // `mesh` is the sidecar pseudo-gateway; others may be `namespace/name`
+    if (gateway === 'mesh') continue;
+    const [gatewayNamespace, gatewayName] = gateway.includes('/') ? gateway.split('/') : [undefined, gateway];
+    dependencies.push({
+      source: ref('Gateway', gatewayName, gatewayNamespace),
+      target: sourceName,
+      type: 'k8s_route',
+      metadata: { hosts: spec.hosts },
+    });
+  }
+
+  for (const [protocol, routes] of [['http', spec.http], ['tcp', spec.tcp], ['tls', spec.tls]] as const) {
+    for (const route of routes || []) {
+      const destinations = [...(route.route || []), ...(route.mirror ? [{ destination: route.mirror }] : [])];
+      for (const { destination, weight } of destinations) {
+        if (!destination?.host) continue;
+        const target = meshHostTarget(destination.host, resourceMap, ref);
         dependencies.push({
           source: sourceName,
-          target: `Service/${path.backend.service.name}`,
-          type: 'k8s_service',
-          metadata: {},
+          target,
+          type: 'k8s_route',
+          metadata: {
+            protocol,
+            route: route.name,
+            subset: destination.subset,
+            port: destination.port?.number,
+            weight,
+            mirror: destination === route.mirror || undefined,
+          },
+          targetNode: externalHint(target),
+        });
+      }
+    }
+  }
+}
+
+interface IstioDestination {
+  host?: string;
+  subset?: string;
+  port?: { number?: number };
+}
+
+interface IstioRoute {
+  name?: string;
+  route?: Array<{ destination?: IstioDestination; weight?: number }>;
+  mirror?: IstioDestination;
+}
+
+/**
+ * Extract Istio DestinationRule -> Service traffic policies
+ */
+function extractDestinationRuleDependencies(
+  destinationRule: K8sResource,
+  resourceMap: Map<string, K8sResource>,
+  ref: ResourceRef,
+  sourceName: string,
+  dependencies: ParsedDependency[]
+): void {
+  const spec = destinationRule.spec as {
+    host?: string;
+    subsets?: Array<{ name: string }>;
+    trafficPolicy?: { tls?: { mode?: string }; loadBalancer?: { simple?: string } };
+  } | undefined;
+  if (!spec?.host) return;
+
+  const target = meshHostTarget(spec.host, resourceMap, ref);
+  dependencies.push({
+    source: sourceName,
+    target,
+    type: 'k8s_traffic_policy',
+    metadata: {
+      subsets: spec.subsets?.map(subset => subset.name),
+      tlsMode: spec.trafficPolicy?.tls?.mode,
+      loadBalancer: spec.trafficPolicy?.loadBalancer?.simple,
+    },
+    targetNode: externalHint(target),
+  });
+}
+
+/**
+ * Extract Istio ServiceEntry -> external host nodes
+ */
+function extractServiceEntryDependencies(
+  serviceEntry: K8sResource,
+  sourceName: string,
+  dependencies: ParsedDependency[]
+): void {
+  const spec = serviceEntry.spec as {
+    hosts?: string[];
+    location?: string;
+    resolution?: string;
+    ports?: Array<{ number: number; protocol?: string }>;
+  } | undefined;
+
+  for (const host of spec?.hosts || []) {
+    dependencies.push({
+      source: sourceName,
+      target: `External/${host}`,
+      type: 'k8s_external',
+      metadata: {
+        location: spec!.location,
+        resolution: spec!.resolution,
+        ports: spec!.ports?.map(port => port.number),
+      },
+      targetNode: { type: 'external', metadata: { location: spec!.location ?? 'MESH_EXTERNAL' } },
+    });
+  }
+}
+
+/**
+ * Extract Gateway API routes: parent Gateway -> route -> backend Services
+ */
+function extractRouteDependencies(
+  route: K8sResource,
+  ref: ResourceRef,
+  sourceName: string,
+  dependencies: ParsedDependency[]
+): void {
+  const spec = route.spec as {
+    hostnames?: string[];
+    parentRefs?: Array<{ name: string; kind?: string; namespace?: string; sectionName?: string }>;
+    rules?: Array<{ backendRefs?: Array<{ name: string; kind?: string; namespace?: string; port?: number; weight?: number }> }>;
+  } | undefined;
+  if (!spec) return;
+
+  for (const parent of spec.parentRefs || []) {
+    dependencies.push({
+      source: ref(parent.kind || 'Gateway', parent.name, parent.namespace),
+      target: sourceName,
+      type: 'k8s_route',
+      metadata: { listener: parent.sectionName, hostnames: spec.hostnames },
+    });
+  }
+
+  for (const rule of spec.rules || []) {
+    for (const backend of rule.backendRefs || []) {
+      dependencies.push({
+        source: sourceName,
+        target: ref(backend.kind || 'Service', backend.name, backend.namespace),
+        type: 'k8s_route',
+        metadata: { port: backend.port, weight: backend.weight },
+      });
+    }
+  }
+}
+
+/**
+ * Extract SMI/Linkerd TrafficSplit -> weighted backend Services
+ */
+function extractTrafficSplitDependencies(
+  trafficSplit: K8sResource,
+  ref: ResourceRef,
+  sourceName: string,
+  dependencies: ParsedDependency[]
+): void {
+  const spec = trafficSplit.spec as { service?: string; backends?: Array<{ service: string; weight?: number | string }> } | undefined;
+  if (!spec?.service) return;
+
+  dependencies.push({
+    source: ref('Service', spec.service),
+    target: sourceName,
+    type: 'k8s_route',
+    metadata: {},
+  });
+  for (const backend of spec.backends || []) {
+    dependencies.push({
+      source: sourceName,
+      target: ref('Service', backend.service),
+      type: 'k8s_route',
+      metadata: { weight: backend.weight },
+    });
+  }
+}
+
+interface LabelSelector {
+  matchLabels?: Record<string, string>;
+  matchExpressions?: Array<{ key: string; operator: string; values?: string[] }>;
+}
+
+interface NetworkPolicyPeer {
+  podSelector?: LabelSelector;
+  namespaceSelector?: LabelSelector;
+  ipBlock?: { cidr: string; except?: string[] };
+}
+
+/**
+ * Extract NetworkPolicy allowed traffic as edges between the workloads it selects and
+ * its ingress sources / egress destinations. IP blocks become external nodes and
+ * namespaces without matching workloads become Namespace nodes; allow-all rules
+ * (no peers) and a workload's traffic with itself add no edges.
+ */
+function extractNetworkPolicyDependencies(
+  policy: K8sResource,
+  resources: K8sResource[],
+  ref: ResourceRef,
+  policyName: string,
+  dependencies: ParsedDependency[]
+): void {
+  const spec = policy.spec as {
+    podSelector?: LabelSelector;
+    policyTypes?: string[];
+    ingress?: Array<{ from?: NetworkPolicyPeer[]; ports?: Array<{ port?: number | string; protocol?: string }> }>;
+    egress?: Array<{ to?: NetworkPolicyPeer[]; ports?: Array<{ port?: number | string; protocol?: string }> }>;
+  } | undefined;
+  if (!spec) return;
+
+  const namespace = policy.metadata?.namespace;
+  const selected = selectWorkloads(resources, spec.podSelector, namespace, ref);
+
+  const peers = (peer: NetworkPolicyPeer): string[] => {
+    if (peer.ipBlock) return [`External/${peer.ipBlock.cidr}`];
+    if (peer.namespaceSelector && !isEvaluableSelector(peer.namespaceSelector)) return [];
+    const peerNamespace = peer.namespaceSelector && selectedNamespace(peer.namespaceSelector);
+    if (peer.namespaceSelector && !peer.podSelector) {
+      return [ref('Namespace', peerNamespace ?? '*')];
+    }
+    const workloads = selectWorkloads(resources, peer.podSelector, peer.namespaceSelector ? peerNamespace : namespace, ref);
+    if (workloads.length > 0 || !peer.namespaceSelector) return workloads;
+    return [ref('Namespace', peerNamespace ?? '*')];
+  };
+  const ports = (rulePorts: Array<{ port?: number | string; protocol?: string }> | undefined) =>
+    rulePorts?.map(port => `${port.port ?? '*'}/${port.protocol ?? 'TCP'}`);
+
+  for (const rule of spec.ingress || []) {
+    for (const source of (rule.from || []).flatMap(peers)) {
+      for (const target of selected.filter(workload => workload !== source)) {
+        dependencies.push({
+          source,
+          target,
+          type: 'k8s_network_allow',
+          metadata: { policy: policyName, direction: 'ingress', ports: ports(rule.ports) },
+          sourceNode: externalHint(source),
+        });
+      }
+    }
+  }
+
+  for (const rule of spec.egress || []) {
+    for (const target of (rule.to || []).flatMap(peers)) {
+      for (const source of selected.filter(workload => workload !== target)) {
+        dependencies.push({
+          source,
+          target,
+          type: 'k8s_network_allow',
+          metadata: { policy: policyName, direction: 'egress', ports: ports(rule.ports) },
+          targetNode: externalHint(target),
+        });
+      }
+    }
+  }
+}
+
+/**
+ * The namespace a namespace selector names through the `kubernetes.io/metadata.name` label,
+ * as a `matchLabels` pair or a single-valued `In` expression
+ */
+function selectedNamespace(selector: LabelSelector): string | undefined {
+  const name = selector.matchLabels?.['kubernetes.io/metadata.name'];
+  if (name) return name;
+  const expression = selector.matchExpressions?.find(({ key }) => key === 'kubernetes.io/metadata.name');
+  return expression?.operator === 'In' && expression.values?.length === 1 ? expression.values[0] : undefined;
+}
+
+/**
+ * Extract Linkerd ServerAuthorization / AuthorizationPolicy as allowed traffic from the
+ * workloads running as the authorized service accounts to the workloads behind the Server
+ */
+function extractLinkerdAuthorizationDependencies(
+  authorization: K8sResource,
+  resources: K8sResource[],
+  resourceMap: Map<string, K8sResource>,
+  ref: ResourceRef,
+  authorizationName: string,
+  dependencies: ParsedDependency[]
+): void {
+  const spec = authorization.spec as {
+    server?: { name?: string };
+    targetRef?: { kind?: string; name?: string };
+    client?: { meshTLS?: { serviceAccounts?: Array<{ name: string }> } };
+    requiredAuthenticationRefs?: Array<{ kind?: string; name?: string }>;
+  } | undefined;
+  if (!spec) return;
+
+  const serverName = spec.server?.name ?? (spec.targetRef?.kind === 'Server' ? spec.targetRef.name : undefined);
+  const server = serverName ? resourceMap.get(ref('Server', serverName)) : undefined;
+  const serverSpec = server?.spec as { podSelector?: LabelSelector; port?: number | string } | undefined;
+  if (!serverSpec) return;
+
+  // MeshTLSAuthentication resources list identities as `<sa>.<namespace>.serviceaccount.identity...`
+  const serviceAccounts = [
+    ...(spec.client?.meshTLS?.serviceAccounts || []).map(account => account.name),
+    ...(spec.requiredAuthenticationRefs || [])
+      .filter(authRef => authRef.kind === 'MeshTLSAuthentication' && authRef.name)
+      .flatMap(authRef => {
+        const authSpec = resourceMap.get(ref('MeshTLSAuthentication', authRef.name!))?.spec as { identities?: string[]; identityRefs?: Array<{ kind?: string; name?: string }> } | undefined;
+        return [
+          ...(authSpec?.identities || []).map(identity => identity.split('.')[0]),
+          ...(authSpec?.identityRefs || []).filter(identityRef => identityRef.kind === 'ServiceAccount' && identityRef.name).map(identityRef => identityRef.name!),
+        ];
+      }),
+  ];
+
+  const targets = selectWorkloads(resources, serverSpec.podSelector, server!.metadata?.namespace, ref);
+  for (const account of new Set(serviceAccounts)) {
+    // Service accounts are namespaced, so only workloads alongside the authorization can run as them
+    const clients = resources.filter(resource =>
+      WORKLOAD_KINDS.includes(resource.kind) &&
+      resource.metadata?.namespace === authorization.metadata?.namespace &&
+      podTemplateOf(resource)?.spec?.serviceAccountName === account
+    ).map(resource => ref(resource.kind, resource.metadata?.name));
+
+    for (const source of clients.length > 0 ? clients : [ref('ServiceAccount', account)]) {
+      for (const target of targets.filter(workload => workload !== source)) {
+        dependencies.push({
+          source,
+          target,
+          type: 'k8s_network_allow',
+          metadata: { policy: authorizationName, server: serverName, port: serverSpec.port },
         });
       }
     }
   }
 }
 
+const WORKLOAD_KINDS = ['Deployment', 'StatefulSet', 'DaemonSet', 'Pod'];
+
+/**
+ * Workloads whose pod labels match a label selector (an empty selector selects all),
+ * limited to `namespace` when given. A selector that can't be evaluated selects nothing.
+ */
+function selectWorkloads(
+  resources: K8sResource[],
+  selector: LabelSelector | undefined,
+  namespace: string | undefined,
+  ref: ResourceRef
+): string[] {
+  if (!selector || !isEvaluableSelector(selector)) return [];
+  return resources
+    .filter(resource => WORKLOAD_KINDS.includes(resource.kind))
+    .filter(resource => !namespace || resource.metadata?.namespace === namespace)
+    .filter(resource => matchesLabelSelector(podTemplateOf(resource)?.metadata?.labels || {}, selector))
+    .map(resource => ref(resource.kind, resource.metadata?.name, resource.metadata?.namespace));
+}
+
+/**
+ * The pod template of a workload: the Pod itself, a CronJob's job template, or `spec.template`
+ */
+function podTemplateOf(resource: K8sResource): K8sPodTemplate | undefined {
+  if (resource.kind === 'Pod') {
+    return { metadata: resource.metadata, spec: resource.spec as K8sPodSpec | undefined };
+  }
+  const spec = resource.spec as K8sDeploymentSpec | undefined;
+  return resource.kind === 'CronJob' ? spec?.jobTemplate?.spec?.template : spec?.template;
+}
+
+/**
+ * Containers paired with whether they are init containers
+ */
+function containersOf(podSpec: K8sPodSpec): Array<[K8sContainer, boolean]> {
+  return [
+    ...(podSpec.initContainers || []).map(container => [container, true] as [K8sContainer, boolean]),
+    ...(podSpec.containers || []).map(container => [container, false] as [K8sContainer, boolean]),
+  ];
+}
+
+const SELECTOR_OPERATORS = ['In', 'NotIn', 'Exists', 'DoesNotExist'];
+
+/**
+ * Whether a label selector is well-formed: `matchLabels` is a map and every expression
+ * has a key, a known operator and, for `In` / `NotIn`, values
+ */
+function isEvaluableSelector(selector: LabelSelector): boolean {
+  if (typeof selector !== 'object') return false;
+  if (selector.matchLabels != null && typeof selector.matchLabels !== 'object') return false;
+  if (selector.matchExpressions == null) return true;
+  return Array.isArray(selector.matchExpressions) && selector.matchExpressions.every(expression =>
+    typeof expression?.key === 'string' &&
+    SELECTOR_OPERATORS.includes(expression.operator) &&
+    (expression.operator === 'Exists' || expression.operator === 'DoesNotExist' ||
+      (Array.isArray(expression.values) && expression.values.length > 0))
+  );
+}
+
+/**
+ * Check if labels match every `matchLabels` pair and `matchExpressions` requirement of a
+ * well-formed label selector
+ */
+function matchesLabelSelector(labels: Record<string, string>, selector: LabelSelector): boolean {
+  return matchesSelector(labels, selector.matchLabels || {}) &&
+    (selector.matchExpressions || []).every(({ key, operator, values }) => {
+      const value = labels[key];
+      switch (operator) {
+        case 'Exists': return value !== undefined;
+        case 'DoesNotExist': return value === undefined;
+        default: {
+          const listed = value !== undefined && values!.map(String).includes(String(value));
+          return operator === 'In' ? listed : !listed;
+        }
+      }
+    });
+}
+
 /**
  * Check if labels match a selector
  */
@@ -0,0 +1,544 @@
+/**
+ * Kustomize resolver - builds the final resources of a kustomization and extracts dependencies
+ */
+import path from 'path';
+import yaml from 'js-yaml';
+import {
+  CLUSTER_SCOPED_KINDS,
+  extractKubernetesDependencies,
+  loadKubernetesResources,
+  type K8sResource,
+  type KubernetesOptions,
+} from './kubernetes.js';
+import { trackLineRanges, type LineRange } from './yaml-lines.js';
+import type { ParsedDependency, Provenance, SourceFile } from '../types.js';
+
+interface PatchTarget {
+  kind?: string;
+  name?: string;
+  namespace?: string;
+  labelSelector?: string;
+}
+
+interface Patch {
+  path?: string;
+  patch?: string;
+  target?: PatchTarget;
+}
+
+interface Generator {
+  name: string;
+  namespace?: string;
+  literals?: string[];
+  envs?: string[];
+  files?: string[];
+}
+
+interface Kustomization {
+  resources?: string[];
+  bases?: string[];
+  components?: string[];
+  patches?: Patch[];
+  patchesStrategicMerge?: string[];
+  patchesJson6902?: Patch[];
+  configMapGenerator?: Generator[];
+  secretGenerator?: Generator[];
+  namePrefix?: string;
+  nameSuffix?: string;
+  namespace?: string;
+}
+
+interface JsonPatchOperation {
+  op: 'add' | 'replace' | 'remove' | 'copy' | 'move' | 'test';
+  path: string;
+  from?: string;
+  value?: unknown;
+}
+
+export const KUSTOMIZATION_FILENAMES = ['kustomization.yaml', 'kustomization.yml', 'Kustomization'];
+
+const UNPREFIXED_KINDS = new Set(['Namespace', 'CustomResourceDefinition']);
+
+/**
+ * Resolve the kustomization in `dir` and extract dependencies from its output, each
+ * located where its resource was declared (or generated) before patches and transforms
+ */
+export async function parseKustomization(
+  dir: string,
+  files: SourceFile[],
+  options: KubernetesOptions = {}
+): Promise<ParsedDependency[]> {
+  const builder = new KustomizeBuilder(new Map(files.map(file => [file.path, file.content])));
+  const resources = builder.build(dir, new Set());
+  return extractKubernetesDependencies(resources, options, builder.locations).map(dep => ({
+    ...dep,
+    metadata: { ...dep.metadata, kustomization: dir || '.' },
+  }));
+}
+
+/**
+ * Find the kustomization file in a directory, if any
+ */
+export function findKustomizationFile(dir: string, paths: Set<string> | Map<string, string>): string | undefined {
+  return KUSTOMIZATION_FILENAMES
+    .map(name => path.posix.join(dir, name))
+    .find(candidate => paths.has(candidate));
+}
+
+/**
+ * List every local file a kustomization (and its bases) reads, plus nested kustomization dirs
+ */
+export function listKustomizationFiles(
+  dir: string,
+  files: Map<string, string>,
+  visited: Set<string> = new Set()
+): { files: Set<string>; dirs: Set<string> } {
+  const result = { files: new Set<string>(), dirs: new Set<string>() };
+  const kustomizationFile = findKustomizationFile(dir, files);
+  if (!kustomizationFile || visited.has(dir)) return result;
+  visited.add(dir);
+
+  result.files.add(kustomizationFile);
+  const kustomization = loadKustomization(files.get(kustomizationFile)!);
+  if (!kustomization) return result;
+
+  const referenced = [
+    ...(kustomization.resources || []),
+    ...(kustomization.bases || []),
+    ...(kustomization.components || []),
+  ];
+
+  for (const entry of referenced) {
+    if (isRemote(entry)) continue;
+    const target = path.posix.join(dir, entry);
+    if (files.has(target)) {
+      result.files.add(target);
+    } else if (findKustomizationFile(target, files)) {
+      result.dirs.add(target);
+      const nested = listKustomizationFiles(target, files, visited);
+      nested.files.forEach(file => result.files.add(file));
+      nested.dirs.forEach(nestedDir => result.dirs.add(nestedDir));
+    }
+  }
+
+  const patchFiles = [
+    ...(kustomization.patchesStrategicMerge || []).filter(entry => !entry.includes('\n')),
+    ...[...(kustomization.patches || []), ...(kustomization.patchesJson6902 || [])]
+      .map(patch => patch.path)
+      .filter((entry): entry is string => !!entry),
+    ...[...(kustomization.configMapGenerator || []), ...(kustomization.secretGenerator || [])]
+      .flatMap(generator => [...(generator.envs || []), ...(generator.files || []).map(file => file.split('=').pop()!)]),
+  ];
+
+  for (const entry of patchFiles) {
+    const target = path.posix.join(dir, entry);
+    if (files.has(target)) result.files.add(target);
+  }
+
+  return result;
+}
+
+/**
+ * Applies a kustomization tree: resources/bases, generators, patches and name/namespace transforms
+ */
+class KustomizeBuilder {
+  private previousNames = new WeakMap<K8sResource, Set<string>>();
+  /** Where each resource was declared: its manifest, or the generator that made it */
+  readonly locations = new Map<K8sResource, Provenance>();
+
+  constructor(private files: Map<string, string>) {}
+
+  build(dir: string, stack: Set<string>): K8sResource[] {
+    const kustomizationFile = findKustomizationFile(dir, this.files);
+    if (!kustomizationFile) {
+      console.warn(`No kustomization found in ${dir || '.'}`);
+      return [];
+    }
+    if (stack.has(dir)) {
+      console.warn(`Kustomization cycle detected at ${dir || '.'}`);
+      return [];
+    }
+
+    const ranges = new Map<object, LineRange>();
+    const kustomization = loadKustomization(this.files.get(kustomizationFile)!, ranges);
+    if (!kustomization) return [];
+
+    const nextStack = new Set(stack).add(dir);
+    let resources: K8sResource[] = [];
+
+    for (const entry of [...(kustomization.resources || []), ...(kustomization.bases || []), ...(kustomization.components || [])]) {
+      if (isRemote(entry)) {
+        console.warn(`Skipping remote kustomize resource: ${entry}`);
+        continue;
+      }
+      const target = path.posix.join(dir, entry);
+      if (this.files.has(target)) {
+        const resourceRanges = new Map<object, LineRange>();
+        for (const resource of loadKubernetesResources(this.files.get(target)!, resourceRanges)) {
+          this.locations.set(resource, { parser: 'kustomize', file: target, ...resourceRanges.get(resource) });
+          resources.push(resource);
+        }
+      } else if (findKustomizationFile(target, this.files)) {
+        resources.push(...this.build(target, nextStack));
+      } else {
+        console.warn(`Kustomize resource not found: ${target}`);
+      }
+    }
+
+    for (const [resource, generator] of this.generate(kustomization)) {
+      this.locations.set(resource, { parser: 'kustomize', file: kustomizationFile, ...ranges.get(generator) });
+      resources.push(resource);
+    }
+    resources = this.applyPatches(dir, kustomization, resources);
+    this.applyTransforms(kustomization, resources);
+
+    return resources;
+  }
+
+  /**
+   * Create ConfigMaps and Secrets from generators, each paired with its generator
+   */
+  private generate(kustomization: Kustomization): Array<[K8sResource, Generator]> {
+    const generated: Array<[K8sResource, Generator]> = [];
+    const generators: Array<[string, Generator[] | undefined]> = [
+      ['ConfigMap', kustomization.configMapGenerator],
+      ['Secret', kustomization.secretGenerator],
+    ];
+
+    for (const [kind, list] of generators) {
+      for (const generator of list || []) {
+        if (!generator?.name) continue;
+        generated.push([{
+          apiVersion: 'v1',
+          kind,
+          metadata: { name: generator.name, namespace: generator.namespace },
+        }, generator]);
+      }
+    }
+
+    return generated;
+  }
+
+  private applyPatches(dir: string, kustomization: Kustomization, resources: K8sResource[]): K8sResource[] {
+    let result = resources;
+
+    const patches: Patch[] = [
+      ...(kustomization.patchesStrategicMerge || []).map(entry =>
+        entry.includes('\n') ? { patch: entry } : { path: entry }
+      ),
+      ...(kustomization.patches || []),
+      ...(kustomization.patchesJson6902 || []),
+    ];
+
+    for (const patch of patches) {
+      const content = patch.patch ?? (patch.path ? this.files.get(path.posix.join(dir, patch.path)) : undefined);
+      if (content === undefined) {
+        console.warn(`Kustomize patch not found: ${patch.path}`);
+        continue;
+      }
+
+      let documents: unknown[];
+      try {
+        documents = yaml.loadAll(content).filter(doc => doc);
+      } catch (error) {
+        console.warn('Failed to parse kustomize patch:', error instanceof Error ? error.message : 'Unknown error');
+        continue;
+      }
+
+      // A JSON 6902 patch is a list of operations and needs an explicit target
+      if (documents.length === 1 && Array.isArray(documents[0])) {
+        if (!patch.target) continue;
+        for (const resource of result) {
+          if (this.matchesTarget(resource, patch.target)) {
+            applyJsonPatch(resource, documents[0] as JsonPatchOperation[]);
+          }
+        }
+        continue;
+      }
+
+      for (const doc of documents as K8sResource[]) {
+        const target: PatchTarget = patch.target || {
+          kind: doc.kind,
+          name: doc.metadata?.name,
+          namespace: doc.metadata?.namespace,
+        };
+        const deleting = (doc as unknown as Record<string, unknown>)['$patch'] === 'delete';
+
+        result = result.filter(resource => {
+          if (!this.matchesTarget(resource, target, !patch.target)) return true;
+          if (deleting) return false;
+          mergeStrategic(resource, { ...doc, metadata: { ...doc.metadata, name: undefined, namespace: undefined } });
+          return true;
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply namePrefix/nameSuffix and namespace, then rewrite references to renamed resources
+   */
+  private applyTransforms(kustomization: Kustomization, resources: K8sResource[]): void {
+    const prefix = kustomization.namePrefix || '';
+    const suffix = kustomization.nameSuffix || '';
+    const renames = new Map<string, string>();
+
+    for (const resource of resources) {
+      if (!resource.metadata?.name) continue;
+
+      if ((prefix || suffix) && !UNPREFIXED_KINDS.has(resource.kind)) {
+        const oldName = resource.metadata.name;
+        const newName = `${prefix}${oldName}${suffix}`;
+        renames.set(`${resource.kind}/${oldName}`, newName);
+        const previous = this.previousNames.get(resource) || new Set<string>();
+        previous.add(oldName);
+        this.previousNames.set(resource, previous);
+        resource.metadata.name = newName;
+      }
+
+      if (kustomization.namespace && !CLUSTER_SCOPED_KINDS.has(resource.kind)) {
+        resource.metadata.namespace = kustomization.namespace;
+      }
+    }
+
+    if (renames.size > 0) {
+      for (const resource of resources) {
+        renameReferences(resource, renames);
+      }
+    }
+  }
+
+  private matchesTarget(resource: K8sResource, target: PatchTarget, exactName = false): boolean {
+    if (target.kind && resource.kind !== target.kind) return false;
+    if (target.namespace && resource.metadata?.namespace && resource.metadata.namespace !== target.namespace) {
+      return false;
+    }
+
+    if (target.name) {
+      const names = [resource.metadata?.name, ...(this.previousNames.get(resource) || [])];
+      const matches = exactName
+        ? (name: string) => name === target.name
+        : (name: string) => new RegExp(`^(?:${target.name})$`).test(name);
+      if (!names.some(name => name && matches(name))) return false;
+    }
+
+    if (target.labelSelector) {
+      const labels = resource.metadata?.labels || {};
+      for (const requirement of target.labelSelector.split(',')) {
+        const [key, value] = requirement.split('=').map(part => part.trim());
+        if (value === undefined ? !(key in labels) : labels[key] !== value) return false;
+      }
+    }
+
+    return true;
+  }
+}
+
+/**
+ * Rewrite name references (ConfigMaps, Secrets, PVCs, ServiceAccounts, Services) after renames
+ */
+function renameReferences(resource: K8sResource, renames: Map<string, string>): void {
+  const rename = (kind: string, holder: Record<string, unknown> | undefined, key: string) => {
+    const current = holder?.[key];
+    if (holder && typeof current === 'string' && renames.has(`${kind}/${current}`)) {
+      holder[key] = renames.get(`${kind}/${current}`);
+    }
+  };
+
+  const spec = objectAt(resource.spec);
+  const podSpec = resource.kind === 'Pod'
+    ? spec
+    : resource.kind === 'CronJob'
+      ? objectAt(spec, 'jobTemplate', 'spec', 'template', 'spec')
+      : objectAt(spec, 'template', 'spec');
+
+  if (podSpec) {
+    rename('ServiceAccount', podSpec, 'serviceAccountName');
+    for (const secret of objectsAt(podSpec.imagePullSecrets)) rename('Secret', secret, 'name');
+
+    for (const volume of objectsAt(podSpec.volumes)) {
+      rename('ConfigMap', objectAt(volume, 'configMap'), 'name');
+      rename('Secret', objectAt(volume, 'secret'), 'secretName');
+      rename('PersistentVolumeClaim', objectAt(volume, 'persistentVolumeClaim'), 'claimName');
+      for (const source of objectsAt(objectAt(volume, 'projected')?.sources)) {
+        rename('ConfigMap', objectAt(source, 'configMap'), 'name');
+        rename('Secret', objectAt(source, 'secret'), 'name');
+      }
+    }
+
+    for (const container of [...objectsAt(podSpec.containers), ...objectsAt(podSpec.initContainers)]) {
+      for (const envFrom of objectsAt(container.envFrom)) {
+        rename('ConfigMap', objectAt(envFrom, 'configMapRef'), 'name');
+        rename('Secret', objectAt(envFrom, 'secretRef'), 'name');
+      }
+      for (const env of objectsAt(container.env)) {
+        rename('ConfigMap', objectAt(env, 'valueFrom', 'configMapKeyRef'), 'name');
+        rename('Secret', objectAt(env, 'valueFrom', 'secretKeyRef'), 'name');
+      }
+    }
+  }
+
+  if (resource.kind === 'Ingress') {
+    const backends = [objectAt(spec, 'defaultBackend'), objectAt(spec, 'backend')];
+    for (const rule of objectsAt(spec?.rules)) {
+      for (const rulePath of objectsAt(objectAt(rule, 'http')?.paths)) backends.push(objectAt(rulePath, 'backend'));
+    }
+    for (const backend of backends) {
+      rename('Service', objectAt(backend, 'service'), 'name');
+      rename('Service', backend, 'serviceName');
+    }
+  }
+
+  if (resource.kind === 'HorizontalPodAutoscaler') {
+    const targetRef = objectAt(spec, 'scaleTargetRef');
+    if (typeof targetRef?.kind === 'string') rename(targetRef.kind, targetRef, 'name');
+  }
+}
+
+/**
+ * The object found by following `keys` from `value`, if every step is an object
+ */
+function objectAt(value: unknown, ...keys: string[]): Record<string, unknown> | undefined {
+  let current = value;
+  for (const key of keys) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current !== null && typeof current === 'object' && !Array.isArray(current)
+    ? current as Record<string, unknown>
+    : undefined;
+}
+
+/**
+ * The object items of a list, or none when `value` is not a list
+ */
+function objectsAt(value: unknown): Array<Record<string, unknown>> {
+  return Array.isArray(value) ? value.filter((item): item is Record<string, unknown> => objectAt(item) !== undefined) : [];
+}
+
+/**
+ * Strategic merge: maps merge recursively, lists of named items merge by name,
+ * `null` deletes a key and `$patch: delete` removes a list item
+ */
+function mergeStrategic(base: unknown, patch: unknown): unknown {
+  if (Array.isArray(base) && Array.isArray(patch)) {
+    const named = (items: unknown[]): items is Array<Record<string, unknown>> =>
+      items.every(item => item !== null && typeof item === 'object' && 'name' in item);
+    if (!named(base) || !named(patch)) return patch;
+
+    const result: unknown[] = [...base];
+    for (const item of patch) {
+      const index = result.findIndex(existing => (existing as Record<string, unknown>).name === item.name);
+      if (item.$patch === 'delete') {
+        if (index !== -1) result.splice(index, 1);
+      } else if (index !== -1) {
+        result[index] = mergeStrategic(result[index], item);
+      } else {
+        result.push(item);
+      }
+    }
+    return result;
+  }
+
+  if (base && patch && typeof base === 'object' && typeof patch === 'object' && !Array.isArray(patch)) {
+    const target = base as Record<string, unknown>;
+    const changes = patch as Record<string, unknown>;
+    if (changes.$patch === 'replace') {
+      const { $patch: _ignored, ...replacement } = changes;
+      return replacement;
+    }
+    for (const [key, value] of Object.entries(changes)) {
+      if (key === '$patch' || value === undefined) continue;
+      if (value === null) {
+        delete target[key];
+      } else {
+        target[key] = key in target ? mergeStrategic(target[key], value) : value;
+      }
+    }
+    return target;
+  }
+
+  return patch;
+}
+
+/**
+ * Apply RFC 6902 operations in place
+ */
+function applyJsonPatch(resource: K8sResource, operations: JsonPatchOperation[]): void {
+  const root = resource as unknown as Record<string, unknown>;
+
+  for (const operation of operations) {
+    try {
+      switch (operation.op) {
+        case 'add':
+        case 'replace':
+          setPointer(root, operation.path, operation.value, operation.op === 'add');
+          break;
+        case 'remove':
+          removePointer(root, operation.path);
+          break;
+        case 'copy':
+        case 'move': {
+          const value = getPointer(root, operation.from || '');
+          if (operation.op === 'move') removePointer(root, operation.from || '');
+          setPointer(root, operation.path, structuredClone(value), true);
+          break;
+        }
+      }
+    } catch (error) {
+      console.warn(`Failed to apply JSON patch ${operation.op} ${operation.path}:`, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+}
+
+function pointerSegments(pointer: string): string[] {
+  return pointer.split('/').slice(1).map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function getPointer(root: unknown, pointer: string): unknown {
+  return pointerSegments(pointer).reduce<unknown>((current, segment) => {
+    if (current === null || typeof current !== 'object') throw new Error(`Path not found: ${pointer}`);
+    return (current as Record<string, unknown>)[segment];
+  }, root);
+}
+
+function setPointer(root: Record<string, unknown>, pointer: string, value: unknown, insert: boolean): void {
+  const segments = pointerSegments(pointer);
+  const last = segments.pop()!;
+  const parent = getPointer(root, segments.length ? '/' + segments.join('/') : '') as Record<string, unknown> | unknown[];
+
+  if (Array.isArray(parent)) {
+    const index = last === '-' ? parent.length : Number(last);
+    parent.splice(index, insert ? 0 : 1, value);
+  } else if (parent && typeof parent === 'object') {
+    parent[last] = value;
+  } else {
+    throw new Error(`Path not found: ${pointer}`);
+  }
+}
+
+function removePointer(root: Record<string, unknown>, pointer: string): void {
+  const segments = pointerSegments(pointer);
+  const last = segments.pop()!;
+  const parent = getPointer(root, segments.length ? '/' + segments.join('/') : '') as Record<string, unknown> | unknown[];
+
+  if (Array.isArray(parent)) {
+    parent.splice(Number(last), 1);
+  } else if (parent && typeof parent === 'object') {
+    delete parent[last];
+  }
+}
+
+function loadKustomization(content: string, ranges?: Map<object, LineRange>): Kustomization | undefined {
+  try {
+    return (yaml.load(content, ranges && { listener: trackLineRanges(content, ranges) }) as Kustomization) || undefined;
+  } catch (error) {
+    console.warn('Failed to parse kustomization:', error instanceof Error ? error.message : 'Unknown error');
+    return undefined;
+  }
+}
+
+function isRemote(entry: string): boolean {
+  return /^[a-z]+:\/\//i.test(entry) || entry.startsWith('github.com/') || entry.includes('?ref=');
+}
@@ -0,0 +1,444 @@
+/**
+ * npm, pnpm and yarn lockfile parser - extracts resolved transitive dependencies
+ */
+import path from 'path';
+import yaml from 'js-yaml';
+import { trackLineRanges, type EntryRanges } from './yaml-lines.js';
+import type { DependencyType, ParsedDependency, Provenance, SourceFile } from '../types.js';
+
+export const LOCKFILE_NAMES = ['package-lock.json', 'npm-shrinkwrap.json', 'pnpm-lock.yaml', 'yarn.lock'];
+
+/**
+ * A dependency with the lockfile entry it resolved to
+ */
+interface ResolvedDependency {
+  name: string;
+  range?: string;
+  dependencyType: string;
+  key?: string;
+  /** Where the dependency is declared: the lockfile, or package.json for yarn importers */
+  location: Provenance;
+}
+
+interface LockedPackage {
+  name: string;
+  version: string;
+  dependencies: ResolvedDependency[];
+}
+
+interface Importer {
+  dir: string;
+  name?: string;
+  dependencies: ResolvedDependency[];
+}
+
+interface LockGraph {
+  importers: Importer[];
+  packages: Map<string, LockedPackage>;
+}
+
+interface Manifest {
+  name?: string;
+  dependencies: Array<{ name: string; range: string; dependencyType: string; location: Provenance }>;
+}
+
+const MANIFEST_FIELDS: Array<[string, string]> = [
+  ['dependencies', 'production'],
+  ['devDependencies', 'development'],
+  ['optionalDependencies', 'optional'],
+  ['peerDependencies', 'peer'],
+];
+
+/**
+ * Parse a lockfile into edges from each importing package to the exact versions it
+ * resolves, and from every locked package to its own dependencies. `files` holds the
+ * lockfile and the package.json files of the project it locks (used for importer
+ * names, and by yarn.lock to find direct dependencies).
+ */
+export async function parseLockfile(lockPath: string, files: SourceFile[]): Promise<ParsedDependency[]> {
+  const lockDir = path.posix.dirname(lockPath);
+  const lockfile = files.find(file => file.path === lockPath);
+  if (!lockfile) {
+    return [];
+  }
+
+  const manifests = new Map<string, Manifest>();
+  for (const file of files.filter(file => path.posix.basename(file.path) === 'package.json')) {
+    const manifest = readManifest(file);
+    if (manifest) manifests.set(path.posix.relative(lockDir, path.posix.dirname(file.path)) || '.', manifest);
+  }
+
+  let graph: LockGraph;
+  try {
+    const filename = path.posix.basename(lockPath);
+    if (filename === 'pnpm-lock.yaml') {
+      graph = readPnpmLock(lockfile);
+    } else if (filename === 'yarn.lock') {
+      graph = readYarnLock(lockfile, manifests);
+    } else {
+      graph = readPackageLock(lockfile);
+    }
+  } catch (error) {
+    console.warn(`Failed to parse ${lockPath}:`, error instanceof Error ? error.message : 'Unknown error');
+    return [];
+  }
+
+  const dependencies: ParsedDependency[] = [];
+  const lockName = path.posix.basename(lockDir === '.' ? '' : lockDir);
+
+  for (const importer of graph.importers) {
+    const dirName = importer.dir === '.' ? lockName : path.posix.basename(importer.dir);
+    const source = manifests.get(importer.dir)?.name || importer.name || dirName || 'unknown-package';
+    for (const dependency of importer.dependencies) {
+      const locked = dependency.key ? graph.packages.get(dependency.key) : undefined;
+      if (!locked) continue;
+      dependencies.push({
+        source,
+        target: locked.name,
+        type: edgeType(dependency.dependencyType),
+        metadata: {
+          version: dependency.range,
+          resolvedVersion: locked.version,
+          dependencyType: dependency.dependencyType,
+          lockfile: lockPath,
+        },
+        provenance: dependency.location,
+      });
+    }
+  }
+
+  for (const locked of graph.packages.values()) {
+    for (const dependency of locked.dependencies) {
+      const target = dependency.key ? graph.packages.get(dependency.key) : undefined;
+      if (!target) continue;
+      dependencies.push({
+        source: locked.name,
+        target: target.name,
+        type: 'npm_dependency',
+        metadata: {
+          version: dependency.range,
+          resolvedVersion: target.version,
+          sourceVersion: locked.version,
+          dependencyType: dependency.dependencyType,
+          transitive: true,
+          lockfile: lockPath,
+        },
+        provenance: dependency.location,
+      });
+    }
+  }
+
+  return dependencies;
+}
+
+function edgeType(dependencyType: string): DependencyType {
+  return dependencyType === 'development' ? 'npm_devDependency' : 'npm_dependency';
+}
+
+/**
+ * Where a dependency named in a section of a loaded file is declared
+ */
+function locate(file: SourceFile, entries: EntryRanges, section: unknown, name: string): Provenance {
+  return { parser: 'lockfiles', file: file.path, ...entries.get(section as object)?.get(name) };
+}
+
+function readManifest(file: SourceFile): Manifest | undefined {
+  try {
+    const entries: EntryRanges = new Map();
+    const pkg = (yaml.load(file.content, { json: true, listener: trackLineRanges(file.content, new Map(), entries) }) ?? {}) as Record<string, unknown>;
+    return {
+      name: typeof pkg.name === 'string' ? pkg.name : undefined,
+      dependencies: MANIFEST_FIELDS.flatMap(([field, dependencyType]) =>
+        Object.entries((pkg[field] || {}) as Record<string, string>).map(([name, range]) => ({
+          name,
+          range,
+          dependencyType,
+          location: locate(file, entries, pkg[field], name),
+        }))
+      ),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * package-lock.json / npm-shrinkwrap.json: v2+ `packages` keyed by install path,
+ * falling back to the v1 nested `dependencies` tree
+ */
+function readPackageLock(file: SourceFile): LockGraph {
+  const lines: EntryRanges = new Map();
+  const lock = (yaml.load(file.content, { json: true, listener: trackLineRanges(file.content, new Map(), lines) }) ?? {}) as {
+    name?: string;
+    packages?: Record<string, Record<string, unknown>>;
+    dependencies?: Record<string, Record<string, unknown>>;
+  };
+  const packages = new Map<string, LockedPackage>();
+  const importers: Importer[] = [];
+
+  if (lock.packages) {
+    const entries = lock.packages;
+    // Node module resolution: look in each enclosing node_modules up to the root
+    const resolve = (from: string, name: string): string | undefined => {
+      let base = from;
+      for (;;) {
+        const candidate = `${base ? `${base}/` : ''}node_modules/${name}`;
+        if (entries[candidate]) {
+          const entry = entries[candidate];
+          // Workspace links point at the member's folder, which is an importer
+          return entry.link ? undefined : candidate;
+        }
+        if (!base) return undefined;
+        base = base.includes('/node_modules/') ? base.slice(0, base.lastIndexOf('/node_modules/')) : '';
+      }
+    };
+    const collect = (from: string, entry: Record<string, unknown>, fields: Array<[string, string]>) =>
+      fields.flatMap(([field, dependencyType]) =>
+        Object.entries((entry[field] || {}) as Record<string, string>).map(([name, range]) => ({
+          name,
+          range,
+          dependencyType,
+          key: resolve(from, name),
+          location: locate(file, lines, entry[field], name),
+        }))
+      );
+
+    for (const [installPath, entry] of Object.entries(entries)) {
+      if (entry.link) continue;
+      if (!installPath.includes('node_modules/')) {
+        importers.push({
+          dir: installPath || '.',
+          name: (entry.name as string | undefined) ?? (installPath ? undefined : lock.name),
+          dependencies: collect(installPath, entry, MANIFEST_FIELDS.filter(([field]) => field !== 'peerDependencies')),
+        });
+        continue;
+      }
+      packages.set(installPath, {
+        name: (entry.name as string | undefined) ?? installPath.slice(installPath.lastIndexOf('node_modules/') + 'node_modules/'.length),
+        version: String(entry.version ?? ''),
+        dependencies: collect(installPath, entry, MANIFEST_FIELDS.filter(([field]) => field !== 'devDependencies')),
+      });
+    }
+    return { importers, packages };
+  }
+
+  // lockfileVersion 1: nested trees, `requires` resolved through enclosing scopes
+  const root: Importer = { dir: '.', name: lock.name, dependencies: [] };
+  const walk = (tree: Record<string, Record<string, unknown>>, scopes: Array<Record<string, string>>, prefix: string) => {
+    const scope: Record<string, string> = {};
+    for (const name of Object.keys(tree)) {
+      scope[name] = `${prefix}node_modules/${name}`;
+    }
+    const chain = [scope, ...scopes];
+    for (const [name, entry] of Object.entries(tree)) {
+      const key = scope[name];
+      const nestedTree = (entry.dependencies || {}) as Record<string, Record<string, unknown>>;
+      // Copies nested under a package shadow hoisted ones for its own requires
+      const nested = Object.fromEntries(Object.keys(nestedTree).map(dependency => [dependency, `${key}/node_modules/${dependency}`]));
+      packages.set(key, {
+        name,
+        version: String(entry.version ?? ''),
+        dependencies: Object.entries((entry.requires || {}) as Record<string, string>).map(([dependency, range]) => ({
+          name: dependency,
+          range,
+          dependencyType: 'production',
+          key: [nested, ...chain].map(candidate => candidate[dependency]).find(Boolean),
+          location: locate(file, lines, entry.requires, dependency),
+        })),
+      });
+      walk(nestedTree, chain, `${key}/`);
+      if (!prefix && !entry.bundled) {
+        root.dependencies.push({
+          name,
+          dependencyType: entry.dev ? 'development' : entry.optional ? 'optional' : 'production',
+          key,
+          location: locate(file, lines, tree, name),
+        });
+      }
+    }
+  };
+  walk(lock.dependencies || {}, [], '');
+  importers.push(root);
+  return { importers, packages };
+}
+
+/**
+ * pnpm-lock.yaml v5, v6 and v9: `importers` (or a root-level project) map specifiers to
+ * versions; `packages`/`snapshots` hold each package's resolved dependencies
+ */
+function readPnpmLock(file: SourceFile): LockGraph {
+  const lines: EntryRanges = new Map();
+  const lock = (yaml.load(file.content, { listener: trackLineRanges(file.content, new Map(), lines) }) || {}) as Record<string, unknown>;
+  const lockfileVersion = parseFloat(String(lock.lockfileVersion ?? '9'));
+  const legacyKeys = lockfileVersion < 6;
+  const packages = new Map<string, LockedPackage>();
+
+  // `react-dom@18.2.0(react@18.2.0)` (v6+) or `/react-dom/18.2.0_react@18.2.0` (v5)
+  const parseKey = (key: string): { name: string; version: string } | undefined => {
+    const bare = key.replace(/^\//, '');
+    if (legacyKeys) {
+      const slash = bare.lastIndexOf('/');
+      return slash > 0 ? { name: bare.slice(0, slash), version: bare.slice(slash + 1).replace(/_.*$/, '') } : undefined;
+    }
+    const at = bare.indexOf('@', 1);
+    return at > 0 ? { name: bare.slice(0, at), version: bare.slice(at + 1).replace(/\(.*$/, '') } : undefined;
+  };
+  const toKey = (name: string, version: string): string | undefined => {
+    if (/^(link|file|workspace):/.test(version)) return undefined;
+    // Aliases reference another package's key directly
+    if (version.startsWith('/') || (!legacyKeys && /^@?[^@(]+@/.test(version))) return version.replace(/^\//, '');
+    return legacyKeys ? `${name}/${version}` : `${name}@${version}`;
+  };
+  const readDependencies = (entry: Record<string, unknown>, fields: Array<[string, string]>, specifiers?: Record<string, string>) =>
+    fields.flatMap(([field, dependencyType]) =>
+      Object.entries((entry[field] || {}) as Record<string, unknown>).map(([name, spec]) => {
+        // v6+ importers: `{ specifier, version }`; elsewhere the version string
+        const details = typeof spec === 'object' && spec ? spec as { specifier?: string; version?: string } : { version: String(spec) };
+        return {
+          name,
+          range: details.specifier ?? specifiers?.[name] ?? (legacyKeys ? undefined : details.version),
+          dependencyType,
+          key: details.version ? toKey(name, String(details.version)) : undefined,
+          location: locate(file, lines, entry[field], name),
+        };
+      })
+    );
+
+  // v9 splits metadata (`packages`) from resolved dependencies (`snapshots`)
+  const snapshots = (lock.snapshots || lock.packages || {}) as Record<string, Record<string, unknown>>;
+  for (const [rawKey, entry] of Object.entries(snapshots)) {
+    const parsed = parseKey(rawKey);
+    if (!parsed) continue;
+    const packageFields = MANIFEST_FIELDS.filter(([field]) => field === 'dependencies' || field === 'optionalDependencies');
+    packages.set(rawKey.replace(/^\//, ''), {
+      name: (entry?.name as string | undefined) ?? parsed.name,
+      version: String(entry?.version ?? parsed.version),
+      dependencies: readDependencies(entry || {}, packageFields),
+    });
+  }
+
+  const importerFields = MANIFEST_FIELDS.filter(([field]) => field !== 'peerDependencies');
+  const projects = (lock.importers || { '.': lock }) as Record<string, Record<string, unknown>>;
+  const importers = Object.entries(projects).map(([dir, project]) => ({
+    dir,
+    dependencies: readDependencies(project || {}, importerFields, project?.specifiers as Record<string, string> | undefined),
+  }));
+
+  return { importers, packages };
+}
+
+/**
+ * yarn.lock, classic (v1) or Berry (YAML). Entries are keyed by every descriptor
+ * (`name@range`) that resolved to them; direct dependencies come from package.json.
+ */
+function readYarnLock(file: SourceFile, manifests: Map<string, Manifest>): LockGraph {
+  const lines: EntryRanges = new Map();
+  const entries = file.content.includes('__metadata:') ? readBerryEntries(file.content, lines) : readClassicEntries(file.content, lines);
+  const descriptors = new Map<string, string>();
+  const packages = new Map<string, LockedPackage>();
+
+  for (const [key, entry] of Object.entries(entries)) {
+    const names = key.split(',').map(descriptor => descriptor.trim().replace(/^"|"$/g, '')).filter(Boolean);
+    const first = splitDescriptor(names[0] || '');
+    if (!first || /^(workspace|link|portal|file):/.test(first.range) || entry.linkType === 'soft') continue;
+    names.forEach(descriptor => descriptors.set(descriptor, names[0]));
+    packages.set(names[0], {
+      name: first.name,
+      version: String(entry.version ?? ''),
+      dependencies: [
+        ...Object.entries(entry.dependencies || {}).map(([name, range]) => ({
+          name,
+          range: String(range),
+          dependencyType: 'production',
+          location: locate(file, lines, entry.dependencies, name),
+        })),
+        ...Object.entries(entry.optionalDependencies || {}).map(([name, range]) => ({
+          name,
+          range: String(range),
+          dependencyType: 'optional',
+          location: locate(file, lines, entry.optionalDependencies, name),
+        })),
+      ],
+    });
+  }
+
+  const lookup = (name: string, range: string) => descriptors.get(`${name}@${range}`) ?? descriptors.get(`${name}@npm:${range}`);
+  for (const locked of packages.values()) {
+    for (const dependency of locked.dependencies) {
+      dependency.key = lookup(dependency.name, dependency.range!);
+    }
+  }
+
+  const importers = [...manifests.entries()].map(([dir, manifest]) => ({
+    dir,
+    name: manifest.name,
+    dependencies: manifest.dependencies.map(dependency => ({ ...dependency, key: lookup(dependency.name, dependency.range) })),
+  }));
+
+  return { importers, packages };
+}
+
+interface YarnEntry {
+  version?: string;
+  linkType?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+function readBerryEntries(content: string, lines: EntryRanges): Record<string, YarnEntry> {
+  const lock = (yaml.load(content, { listener: trackLineRanges(content, new Map(), lines) }) || {}) as Record<string, YarnEntry>;
+  delete lock.__metadata;
+  return lock;
+}
+
+/**
+ * Classic yarn.lock isn't YAML: read it line by line, recording each dependency's line
+ * in `lines` as the YAML loaders do
+ */
+function readClassicEntries(content: string, lines: EntryRanges): Record<string, YarnEntry> {
+  const entries: Record<string, YarnEntry> = {};
+  let entry: YarnEntry | undefined;
+  let section: Record<string, string> | undefined;
+
+  for (const [index, line] of content.split(/\r?\n/).entries()) {
+    if (!line.trim() || line.trimStart().startsWith('#')) continue;
+    const indent = line.length - line.trimStart().length;
+    const text = line.trim();
+
+    if (indent === 0) {
+      entry = {};
+      section = undefined;
+      entries[text.replace(/:$/, '')] = entry;
+    } else if (entry && indent === 2) {
+      section = undefined;
+      if (text === 'dependencies:' || text === 'optionalDependencies:') {
+        section = {};
+        lines.set(section, new Map());
+        entry[text.slice(0, -1) as 'dependencies' | 'optionalDependencies'] = section;
+      } else {
+        const [key, value] = splitClassicLine(text);
+        if (key === 'version') entry.version = value;
+      }
+    } else if (section) {
+      const [key, value] = splitClassicLine(text);
+      section[key] = value;
+      lines.get(section)!.set(key, { startLine: index + 1, endLine: index + 1 });
+    }
+  }
+
+  return entries;
+}
+
+function splitClassicLine(text: string): [string, string] {
+  const match = /^("[^"]+"|\S+)\s+(.*)$/.exec(text);
+  const unquote = (value: string) => value.replace(/^"|"$/g, '');
+  return match ? [unquote(match[1]), unquote(match[2])] : [unquote(text), ''];
+}
+
+/**
+ * `@scope/name@^1.0.0` -> name and range
+ */
+function splitDescriptor(descriptor: string): { name: string; range: string } | undefined {
+  const at = descriptor.indexOf('@', 1);
+  return at > 0 ? { name: descriptor.slice(0, at), range: descriptor.slice(at + 1) } : undefined;
+}
@@ -0,0 +1,121 @@
+/**
+ * Maven pom.xml parser - extracts Maven artifact dependencies
+ */
+import { parseXml, xmlChild, xmlText, type XmlElement } from './xml.js';
+import type { ParsedDependency } from '../types.js';
+
+// Maven scopes mapped onto the dependency types used by the other package parsers
+const SCOPE_TYPES: Record<string, string> = {
+  compile: 'production',
+  runtime: 'runtime',
+  provided: 'provided',
+  system: 'provided',
+  test: 'test',
+  import: 'bom',
+};
+
+/**
+ * Maven coordinates as a graph ID, e.g. `org.springframework.boot:spring-boot-starter-web`
+ */
+export function mavenArtifactId(groupId: string | undefined, artifactId: string): string {
+  return groupId ? `${groupId}:${artifactId}` : artifactId;
+}
+
+/**
+ * Parse pom.xml content and extract dependencies. `${property}` references are
+ * resolved from `<properties>` and the project's own coordinates.
+ */
+export async function parsePom(fileContent: string): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+
+  let project: XmlElement;
+  try {
+    project = parseXml(fileContent);
+  } catch (error) {
+    console.warn('Failed to parse pom.xml:', error instanceof Error ? error.message : 'Unknown error');
+    return dependencies;
+  }
+
+  if (project.name !== 'project') {
+    return dependencies;
+  }
+
+  const parent = xmlChild(project, 'parent');
+  const properties = new Map<string, string>();
+  for (const property of xmlChild(project, 'properties')?.children || []) {
+    properties.set(property.name, property.text);
+  }
+  const groupId = xmlText(project, 'groupId') ?? xmlText(parent, 'groupId');
+  const version = xmlText(project, 'version') ?? xmlText(parent, 'version');
+  for (const [key, value] of [['project.groupId', groupId], ['project.version', version], ['project.artifactId', xmlText(project, 'artifactId')]]) {
+    if (value) properties.set(key!, value);
+  }
+
+  const locate = (element: XmlElement) => ({ parser: 'maven', startLine: element.startLine, endLine: element.endLine });
+
+  const resolve = (value: string | undefined): string | undefined => {
+    let resolved = value;
+    // Properties may refer to other properties
+    for (let depth = 0; resolved?.includes('${') && depth < 5; depth++) {
+      resolved = resolved.replace(/\$\{([^}]+)\}/g, (match, name: string) => properties.get(name) ?? match);
+    }
+    return resolved;
+  };
+
+  const artifactId = resolve(xmlText(project, 'artifactId'));
+  if (!artifactId) {
+    return dependencies;
+  }
+  const sourceName = mavenArtifactId(resolve(groupId), artifactId);
+
+  if (parent && xmlText(parent, 'artifactId')) {
+    dependencies.push({
+      source: sourceName,
+      target: mavenArtifactId(resolve(xmlText(parent, 'groupId')), resolve(xmlText(parent, 'artifactId'))!),
+      type: 'maven_dependency',
+      metadata: { version: resolve(xmlText(parent, 'version')), dependencyType: 'parent' },
+      provenance: locate(parent),
+    });
+  }
+
+  // Managed versions fill in dependencies declared without one
+  const managed = new Map<string, string>();
+  const management = xmlChild(xmlChild(project, 'dependencyManagement'), 'dependencies');
+  for (const dependency of management?.children.filter(child => child.name === 'dependency') || []) {
+    const id = mavenArtifactId(resolve(xmlText(dependency, 'groupId')), resolve(xmlText(dependency, 'artifactId')) || '');
+    const managedVersion = resolve(xmlText(dependency, 'version'));
+    if (managedVersion) managed.set(id, managedVersion);
+
+    // BOM imports are real dependencies of the build
+    if (xmlText(dependency, 'scope') === 'import') {
+      dependencies.push({
+        source: sourceName,
+        target: id,
+        type: 'maven_dependency',
+        metadata: { version: managedVersion, dependencyType: 'bom' },
+        provenance: locate(dependency),
+      });
+    }
+  }
+
+  for (const dependency of xmlChild(project, 'dependencies')?.children.filter(child => child.name === 'dependency') || []) {
+    const dependencyArtifact = resolve(xmlText(dependency, 'artifactId'));
+    if (!dependencyArtifact) continue;
+    const id = mavenArtifactId(resolve(xmlText(dependency, 'groupId')), dependencyArtifact);
+    const scope = xmlText(dependency, 'scope') || 'compile';
+
+    dependencies.push({
+      source: sourceName,
+      target: id,
+      type: 'maven_dependency',
+      metadata: {
+        version: resolve(xmlText(dependency, 'version')) ?? managed.get(id),
+        dependencyType: xmlText(dependency, 'optional') === 'true' ? 'optional' : SCOPE_TYPES[scope] ?? scope,
+        scope,
+      },
+      provenance: locate(dependency),
+    });
+  }
+
+  return dependencies;
+}
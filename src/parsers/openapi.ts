@@ -0,0 +1,185 @@
+/**
+ * OpenAPI parser - creates API nodes from OpenAPI/Swagger specs and links them to the
+ * service that provides them and the services that consume them
+ */
+import path from 'path';
+import yaml from 'js-yaml';
+import { trackLineRanges, type EntryRanges, type LineRange } from './yaml-lines.js';
+import type { ParsedDependency, Provenance } from '../types.js';
+
+interface OpenApiDocument {
+  openapi?: string;
+  swagger?: string;
+  info?: { title?: string; version?: string; 'x-service'?: string };
+  servers?: Array<{ url?: string }>;
+  host?: string;
+  paths?: Record<string, Record<string, { operationId?: string; 'x-consumers'?: string[] } | undefined>>;
+  'x-service'?: string;
+  'x-provider'?: string;
+  'x-consumers'?: string[];
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// Directories specs usually live in, which don't name the service
+const SPEC_DIRS = /^(api|apis|docs?|specs?|openapi|asyncapi|swagger|contracts?|schemas?)$/i;
+
+/**
+ * Check whether YAML/JSON content is an OpenAPI (3.x) or Swagger (2.0) document
+ */
+export function isOpenApiDocument(fileContent: string): boolean {
+  return /^\s*["']?(openapi|swagger)["']?\s*:\s*["']?\d/m.test(fileContent);
+}
+
+/**
+ * Graph ID of an API version, e.g. `API/orders-api@1.2.0`
+ */
+export function apiId(title: string, version?: string): string {
+  return `API/${slugify(title)}${version ? `@${version}` : ''}`;
+}
+
+/**
+ * Resolve the service that owns a spec: an explicit `x-service` (or `x-provider`)
+ * extension, an internal server hostname, or else the directory the spec lives in
+ */
+export function specOwner(
+  document: { info?: { title?: string; 'x-service'?: string }; 'x-service'?: string; 'x-provider'?: string },
+  specPath: string,
+  serverUrls: string[] = []
+): string {
+  const explicit = document['x-service'] ?? document['x-provider'] ?? document.info?.['x-service'];
+  if (explicit) return explicit;
+
+  for (const url of serverUrls) {
+    const host = /^(?:[a-z][a-z0-9+.-]*:\/\/)?([^/:?#{}]+)/i.exec(url)?.[1];
+    // Single-label hostnames are service names on the cluster/compose network
+    if (host && !host.includes('.') && host !== 'localhost') return host;
+  }
+
+  let dir = path.posix.dirname(specPath);
+  while (dir !== '.' && dir !== '/' && SPEC_DIRS.test(path.posix.basename(dir))) {
+    dir = path.posix.dirname(dir);
+  }
+  return dir !== '.' && dir !== '/' ? path.posix.basename(dir) : slugify(document.info?.title || 'api');
+}
+
+/**
+ * Parse an OpenAPI/Swagger spec. The API node is linked to its provider
+ * (`api_provider`, API -> service) and every consumer listed in `x-consumers`
+ * links to it (`api_consumer`, service -> API).
+ */
+export async function parseOpenApi(fileContent: string, specPath = 'openapi.yaml'): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+
+  let document: OpenApiDocument;
+  const ranges = new Map<object, LineRange>();
+  const entries: EntryRanges = new Map();
+  try {
+    document = yaml.load(fileContent, { listener: trackLineRanges(fileContent, ranges, entries) }) as OpenApiDocument;
+  } catch (error) {
+    console.warn('Failed to parse OpenAPI spec:', error instanceof Error ? error.message : 'Unknown error');
+    return dependencies;
+  }
+
+  if (!document || typeof document !== 'object' || !(document.openapi || document.swagger)) {
+    return dependencies;
+  }
+
+  const title = document.info?.title || path.posix.basename(specPath).replace(/\.(ya?ml|json)$/i, '');
+  const version = document.info?.version !== undefined ? String(document.info.version) : undefined;
+  const serverUrls = document.servers?.map(server => server.url || '') ?? (document.host ? [document.host] : []);
+  const provider = specOwner(document, specPath, serverUrls);
+
+  const operations = Object.entries(document.paths || {}).flatMap(([route, item]) =>
+    Object.keys(item || {})
+      .filter(method => HTTP_METHODS.includes(method.toLowerCase()))
+      .map(method => `${method.toUpperCase()} ${route}`)
+  );
+
+  const api = apiId(title, version);
+  const apiNode = {
+    type: 'api' as const,
+    name: version ? `${title} v${version}` : title,
+    metadata: {
+      protocol: 'http',
+      specPath,
+      specFormat: document.openapi ? `openapi ${document.openapi}` : `swagger ${document.swagger}`,
+      version,
+      operations,
+      servers: serverUrls.length > 0 ? serverUrls : undefined,
+    },
+  };
+
+  const locate = locator('openapi', ranges, entries);
+
+  dependencies.push({
+    source: api,
+    target: provider,
+    type: 'api_provider',
+    metadata: { specPath },
+    sourceNode: apiNode,
+    provenance: providerLocation(document, locate),
+  });
+
+  for (const [index, consumer] of (document['x-consumers'] || []).entries()) {
+    dependencies.push({
+      source: consumer,
+      target: api,
+      type: 'api_consumer',
+      metadata: { specPath, declaredIn: 'x-consumers' },
+      targetNode: apiNode,
+      provenance: locate(document['x-consumers'], index),
+    });
+  }
+
+  // Consumers of individual operations
+  for (const [route, item] of Object.entries(document.paths || {})) {
+    for (const [method, operation] of Object.entries(item || {})) {
+      if (!HTTP_METHODS.includes(method.toLowerCase())) continue;
+      for (const [index, consumer] of (operation?.['x-consumers'] || []).entries()) {
+        dependencies.push({
+          source: consumer,
+          target: api,
+          type: 'api_consumer',
+          metadata: { specPath, declaredIn: 'x-consumers', operation: `${method.toUpperCase()} ${route}` },
+          targetNode: apiNode,
+          provenance: locate(operation!['x-consumers'], index),
+        });
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Provenance lookup for a loaded spec: where an entry of `parent` was read, or the
+ * whole of `parent` without a key
+ */
+export function locator(
+  parser: string,
+  ranges: Map<object, LineRange>,
+  entries: EntryRanges
+): (parent: unknown, key?: string | number) => Provenance | undefined {
+  return (parent, key) => {
+    if (!parent || typeof parent !== 'object') return undefined;
+    const range = key === undefined ? ranges.get(parent) : entries.get(parent)?.get(key);
+    return range && { parser, ...range };
+  };
+}
+
+/**
+ * Where a spec names its provider, as `specOwner` resolves it: the `x-service` /
+ * `x-provider` extension, the servers, else its `info`
+ */
+export function providerLocation(
+  document: { info?: object; servers?: unknown; host?: unknown },
+  locate: (parent: unknown, key?: string | number) => Provenance | undefined
+): Provenance | undefined {
+  return locate(document, 'x-service') ?? locate(document, 'x-provider') ?? locate(document.info, 'x-service') ??
+    locate(document, 'servers') ?? locate(document, 'host') ?? locate(document, 'info') ?? locate(document);
+}
+
+function slugify(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9.]+/g, '-').replace(/^-+|-+$/g, '');
+}
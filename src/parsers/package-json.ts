@@ -1,7 +1,10 @@
 /**
  * package.json parser - extracts npm dependencies
  */
-import type { ParsedDependency } from '../types.js';
+import path from 'path';
+import yaml from 'js-yaml';
+import { trackLineRanges, type EntryRanges, type LineRange } from './yaml-lines.js';
+import type { ParsedDependency, Provenance } from '../types.js';
 
 interface PackageJson {
   name?: string;
@@ -12,20 +15,26 @@ interface PackageJson {
 }
 
 /**
- * Parse package.json content and extract dependencies
+ * Parse package.json content and extract dependencies. Packages without a name
+ * are named after their directory when the file path is known.
  */
-export async function parsePackageJson(fileContent: string): Promise<ParsedDependency[]> {
+export async function parsePackageJson(fileContent: string, filePath?: string): Promise<ParsedDependency[]> {
   const dependencies: ParsedDependency[] = [];
 
+  // Loaded as YAML's JSON subset to record where each dependency is declared
+  const ranges = new Map<object, LineRange>();
+  const entries: EntryRanges = new Map();
   let pkg: PackageJson;
   try {
-    pkg = JSON.parse(fileContent);
+    pkg = (yaml.load(fileContent, { json: true, listener: trackLineRanges(fileContent, ranges, entries) }) ?? {}) as PackageJson;
   } catch (error) {
     console.warn('Failed to parse package.json:', error instanceof Error ? error.message : 'Unknown error');
     return dependencies;
   }
 
-  const sourceName = pkg.name || 'unknown-package';
+  const dir = filePath ? path.posix.basename(path.posix.dirname(filePath)) : '';
+  const sourceName = pkg.name || (dir && dir !== '.' ? dir : 'unknown-package');
+  const locate = (section: object, name: string): Provenance => ({ parser: 'package-json', ...entries.get(section)?.get(name) });
 
   // Regular dependencies
   if (pkg.dependencies) {
@@ -35,6 +44,7 @@ export async function parsePackageJson(fileContent: string): Promise<ParsedDepen
         target: name,
         type: 'npm_dependency',
         metadata: { version, dependencyType: 'production' },
+        provenance: locate(pkg.dependencies, name),
       });
     }
   }
@@ -47,6 +57,7 @@ export async function parsePackageJson(fileContent: string): Promise<ParsedDepen
         target: name,
         type: 'npm_devDependency',
         metadata: { version, dependencyType: 'development' },
+        provenance: locate(pkg.devDependencies, name),
       });
     }
   }
@@ -59,6 +70,7 @@ export async function parsePackageJson(fileContent: string): Promise<ParsedDepen
         target: name,
         type: 'npm_dependency',
         metadata: { version, dependencyType: 'peer' },
+        provenance: locate(pkg.peerDependencies, name),
       });
     }
   }
@@ -71,6 +83,7 @@ export async function parsePackageJson(fileContent: string): Promise<ParsedDepen
         target: name,
         type: 'npm_dependency',
         metadata: { version, dependencyType: 'optional' },
+        provenance: locate(pkg.optionalDependencies, name),
       });
     }
   }
@@ -0,0 +1,203 @@
+/**
+ * Protobuf parser - creates API nodes for gRPC services in `.proto` files and links
+ * them to the services that own and consume them
+ */
+import { lineLocator, type LineRange } from './yaml-lines.js';
+import type { NodeHint, ParsedDependency, SourceFile } from '../types.js';
+
+export interface ProtoOptions {
+  /**
+   * Regex mapping a proto package to its owning service; the `service` named group (or
+   * the first capture group) is the service name. Defaults to the last package segment
+   * that isn't a version, e.g. `acme.orders.v1` -> `orders`.
+   */
+  packagePattern?: string;
+}
+
+interface ProtoRpc {
+  name: string;
+  requestType: string;
+  responseType: string;
+  clientStreaming: boolean;
+  serverStreaming: boolean;
+}
+
+interface ProtoService extends LineRange {
+  name: string;
+  rpcs: ProtoRpc[];
+}
+
+interface ProtoImport extends LineRange {
+  path: string;
+}
+
+interface ProtoFile {
+  path: string;
+  package?: string;
+  imports: ProtoImport[];
+  services: ProtoService[];
+}
+
+const DEFAULT_PACKAGE_PATTERN = /(?:^|\.)(?<service>[^.]+?)(?:\.v\d+(?:(?:alpha|beta)\d*)?)?$/;
+
+/**
+ * Graph ID of a gRPC service, e.g. `API/acme.orders.v1.OrderService`
+ */
+export function grpcServiceId(packageName: string | undefined, serviceName: string): string {
+  return `API/${packageName ? `${packageName}.` : ''}${serviceName}`;
+}
+
+/**
+ * Parse a single `.proto` file
+ */
+export async function parseProto(fileContent: string, protoPath = 'service.proto', options: ProtoOptions = {}): Promise<ParsedDependency[]> {
+  return parseProtoFiles([{ path: protoPath, content: fileContent }], options);
+}
+
+/**
+ * Parse `.proto` files together so imports resolve across files. Each gRPC service is
+ * an API node provided by its package's owning service (`api_provider`, API -> service);
+ * the owners of files importing it become consumers (`api_consumer`, service -> API).
+ */
+export async function parseProtoFiles(files: SourceFile[], options: ProtoOptions = {}): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+
+  let packagePattern = DEFAULT_PACKAGE_PATTERN;
+  if (options.packagePattern) {
+    try {
+      packagePattern = new RegExp(options.packagePattern);
+    } catch (error) {
+      console.warn('Invalid proto package pattern:', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+  const ownerOf = (protoFile: ProtoFile): string | undefined => {
+    if (!protoFile.package) return undefined;
+    const match = packagePattern.exec(protoFile.package);
+    return match?.groups?.service ?? match?.[1];
+  };
+
+  const protoFiles = files.map(file => readProtoFile(file.path, file.content));
+  const apiNode = (protoFile: ProtoFile, service: ProtoService): NodeHint => ({
+    type: 'api',
+    name: service.name,
+    metadata: {
+      protocol: 'grpc',
+      protoPath: protoFile.path,
+      package: protoFile.package,
+      rpcs: service.rpcs.map(rpc =>
+        `${rpc.name}(${rpc.clientStreaming ? 'stream ' : ''}${rpc.requestType}) returns (${rpc.serverStreaming ? 'stream ' : ''}${rpc.responseType})`
+      ),
+    },
+  });
+
+  for (const protoFile of protoFiles) {
+    const owner = ownerOf(protoFile);
+
+    for (const service of protoFile.services) {
+      const api = grpcServiceId(protoFile.package, service.name);
+      if (!owner) {
+        console.warn(`No owning service for gRPC service ${api}`);
+        continue;
+      }
+      dependencies.push({
+        source: api,
+        target: owner,
+        type: 'api_provider',
+        metadata: { protoPath: protoFile.path, package: protoFile.package },
+        sourceNode: apiNode(protoFile, service),
+        provenance: { parser: 'proto', file: protoFile.path, startLine: service.startLine, endLine: service.endLine },
+      });
+    }
+
+    // Importing another package's service definitions makes this package's owner a client
+    if (!owner) continue;
+    for (const { path: importPath, startLine, endLine } of protoFile.imports) {
+      const imported = resolveImport(importPath, protoFiles);
+      const importedOwner = imported && ownerOf(imported);
+      if (!imported || !importedOwner || importedOwner === owner) continue;
+
+      for (const service of imported.services) {
+        dependencies.push({
+          source: owner,
+          target: grpcServiceId(imported.package, service.name),
+          type: 'api_consumer',
+          metadata: { protoPath: protoFile.path, import: importPath },
+          targetNode: apiNode(imported, service),
+          provenance: { parser: 'proto', file: protoFile.path, startLine, endLine },
+        });
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Find a scanned file for an import path. Include roots aren't known, so the import
+ * matches any file whose path ends with it.
+ */
+function resolveImport(importPath: string, protoFiles: ProtoFile[]): ProtoFile | undefined {
+  return protoFiles.find(protoFile => protoFile.path === importPath) ??
+    protoFiles.find(protoFile => protoFile.path.endsWith(`/${importPath}`));
+}
+
+/**
+ * Extract the package, imports and service definitions of a `.proto` file
+ */
+function readProtoFile(protoPath: string, fileContent: string): ProtoFile {
+  const source = stripComments(fileContent);
+  const protoFile: ProtoFile = { path: protoPath, imports: [], services: [] };
+  const lineAt = lineLocator(source);
+  // Lines of source[start, end); matches include the delimiter before the keyword
+  const linesOf = (start: number, end: number): LineRange => ({
+    startLine: lineAt(source.slice(start).search(/\S/) + start),
+    endLine: lineAt(end - 1),
+  });
+
+  protoFile.package = /(?:^|[;}\s])package\s+([\w.]+)\s*;/.exec(source)?.[1];
+
+  for (const match of source.matchAll(/(?:^|[;}\s])import\s+(?:public\s+|weak\s+)?["']([^"']+)["']\s*;/g)) {
+    const start = match.index! + (/^[;}]/.test(match[0]) ? 1 : 0);
+    protoFile.imports.push({ path: match[1], ...linesOf(start, match.index! + match[0].length) });
+  }
+
+  for (const match of source.matchAll(/(?:^|[;}\s])service\s+(\w+)\s*\{/g)) {
+    const bodyStart = match.index! + match[0].length;
+    const body = blockBody(source, bodyStart);
+    const start = match.index! + (/^[;}]/.test(match[0]) ? 1 : 0);
+    const rpcs = [...body.matchAll(/rpc\s+(\w+)\s*\(\s*(stream\s+)?([\w.]+)\s*\)\s*returns\s*\(\s*(stream\s+)?([\w.]+)\s*\)/g)]
+      .map(rpc => ({
+        name: rpc[1],
+        requestType: rpc[3],
+        responseType: rpc[5],
+        clientStreaming: !!rpc[2],
+        serverStreaming: !!rpc[4],
+      }));
+    protoFile.services.push({ name: match[1], rpcs, ...linesOf(start, bodyStart + body.length + 1) });
+  }
+
+  return protoFile;
+}
+
+/**
+ * Text between an opening brace (already consumed) and its matching closing brace
+ */
+function blockBody(source: string, start: number): string {
+  let depth = 1;
+  for (let position = start; position < source.length; position++) {
+    if (source[position] === '{') depth++;
+    if (source[position] === '}' && --depth === 0) {
+      return source.slice(start, position);
+    }
+  }
+  return source.slice(start);
+}
+
+/**
+ * Blank out `//` and `/* *\/` comments, leaving string literals intact and every other
+ * character at its offset so matches keep their lines
+ */
+function stripComments(source: string): string {
+  return source.replace(/("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+    (match, literal) => literal ?? match.replace(/[^\n]/g, ' '));
+}
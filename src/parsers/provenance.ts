@@ -0,0 +1,30 @@
+/**
+ * Dependency provenance - records which file, lines and parser produced each dependency
+ */
+import type { ParsedDependency, Provenance, SourceFile } from '../types.js';
+
+/**
+ * Fill in the provenance parsers didn't set themselves: the parser name, and the file
+ * of a single-file unit. Parsers record the lines they read each dependency from, and
+ * the file too when their unit spans several files.
+ */
+export function attachProvenance(
+  dependencies: ParsedDependency[],
+  parser: string,
+  files: SourceFile[]
+): ParsedDependency[] {
+  return dependencies.map(dep => {
+    const provenance: Provenance = { parser, ...dep.provenance };
+    if (!provenance.file && files.length === 1) {
+      provenance.file = files[0].path;
+    }
+    return { ...dep, provenance };
+  });
+}
+
+/**
+ * Identity key for deduplicating provenance records
+ */
+export function provenanceKey(provenance: Provenance): string {
+  return `${provenance.parser}|${provenance.file ?? ''}|${provenance.startLine ?? ''}|${provenance.endLine ?? ''}`;
+}
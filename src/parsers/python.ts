@@ -0,0 +1,169 @@
+/**
+ * Python manifest parsers - extracts PyPI dependencies from requirements files and pyproject.toml
+ */
+import path from 'path';
+import { parseToml, type TomlTable } from './toml.js';
+import type { EntryRanges, LineRange } from './yaml-lines.js';
+import type { ParsedDependency } from '../types.js';
+
+interface Requirement {
+  name: string;
+  version?: string;
+  extras?: string[];
+  markers?: string;
+}
+
+/**
+ * Normalize a distribution name (PEP 503), e.g. `Flask_SQLAlchemy` -> `flask-sqlalchemy`
+ */
+export function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+/**
+ * Parse a requirements file. Requirements files don't name their project, so the
+ * containing directory is used; `requirements-dev.txt` style files are development deps.
+ */
+export async function parseRequirements(fileContent: string, filePath = 'requirements.txt'): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+  const dir = path.posix.basename(path.posix.dirname(filePath));
+  const sourceName = dir && dir !== '.' ? normalizePythonName(dir) : 'unknown-package';
+  const dependencyType = /(dev|test|lint|docs?)/i.test(path.posix.basename(filePath)) ? 'development' : 'production';
+
+  // Join `\` continuations, keeping the lines each requirement spans
+  const lines: Array<{ text: string } & LineRange> = [];
+  let continued = false;
+  fileContent.split(/\r?\n/).forEach((text, index) => {
+    const joined = continued ? lines[lines.length - 1] : undefined;
+    continued = text.endsWith('\\');
+    const part = continued ? text.slice(0, -1) : text;
+    if (joined) {
+      joined.text += ` ${part}`;
+      joined.endLine = index + 1;
+    } else {
+      lines.push({ text: part, startLine: index + 1, endLine: index + 1 });
+    }
+  });
+
+  for (const { text, startLine, endLine } of lines) {
+    const line = text.replace(/(^|\s)#.*$/, '').trim();
+    // Options (-r, -c, --index-url, ...) other than editable installs
+    if (!line || (line.startsWith('-') && !/^(-e|--editable)\s/.test(line))) continue;
+
+    const requirement = /^(-e|--editable)\s/.test(line)
+      ? editableRequirement(line)
+      : parseRequirement(line);
+    if (!requirement) continue;
+
+    dependencies.push({
+      source: sourceName,
+      target: requirement.name,
+      type: 'python_dependency',
+      metadata: { version: requirement.version, dependencyType, extras: requirement.extras, markers: requirement.markers },
+      provenance: { parser: 'python', startLine, endLine },
+    });
+  }
+
+  return dependencies;
+}
+
+/**
+ * Parse pyproject.toml (PEP 621 `[project]`, PEP 735 `[dependency-groups]` and Poetry)
+ */
+export async function parsePyproject(fileContent: string): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+
+  const entries: EntryRanges = new Map();
+  let pyproject: TomlTable;
+  try {
+    pyproject = parseToml(fileContent, entries);
+  } catch (error) {
+    console.warn('Failed to parse pyproject.toml:', error instanceof Error ? error.message : 'Unknown error');
+    return dependencies;
+  }
+
+  const project = (pyproject.project || {}) as TomlTable;
+  const poetry = ((pyproject.tool as TomlTable | undefined)?.poetry || {}) as TomlTable;
+  const sourceName = normalizePythonName(String(project.name ?? poetry.name ?? 'unknown-package'));
+
+  // `container` and `key` locate the requirement's entry
+  const add = (requirement: Requirement | undefined, container: unknown, key: string | number, dependencyType: string, group?: string) => {
+    if (!requirement) return;
+    dependencies.push({
+      source: sourceName,
+      target: requirement.name,
+      type: 'python_dependency',
+      metadata: { version: requirement.version, dependencyType, group, extras: requirement.extras, markers: requirement.markers },
+      provenance: { parser: 'python', ...entries.get(container as object)?.get(key) },
+    });
+  };
+  const addSpecs = (specs: unknown, dependencyType: string, group?: string) => {
+    asStrings(specs).forEach(([spec, index]) => add(parseRequirement(spec), specs, index, dependencyType, group));
+  };
+
+  // PEP 621
+  addSpecs(project.dependencies, 'production');
+  for (const [group, specs] of Object.entries((project['optional-dependencies'] || {}) as TomlTable)) {
+    addSpecs(specs, 'optional', group);
+  }
+
+  // PEP 735 dependency groups
+  for (const [group, specs] of Object.entries((pyproject['dependency-groups'] || {}) as TomlTable)) {
+    addSpecs(specs, 'development', group);
+  }
+
+  // Poetry
+  const poetryTables: Array<[TomlTable | undefined, string, string | undefined]> = [
+    [poetry.dependencies as TomlTable | undefined, 'production', undefined],
+    [poetry['dev-dependencies'] as TomlTable | undefined, 'development', 'dev'],
+    ...Object.entries((poetry.group || {}) as TomlTable).map(([group, table]) =>
+      [(table as TomlTable).dependencies as TomlTable | undefined, group === 'main' ? 'production' : 'development', group] as [TomlTable | undefined, string, string]
+    ),
+  ];
+  for (const [table, dependencyType, group] of poetryTables) {
+    for (const [name, spec] of Object.entries(table || {})) {
+      if (name.toLowerCase() === 'python') continue;
+      const version = typeof spec === 'string'
+        ? spec
+        : typeof (spec as TomlTable)?.version === 'string' ? (spec as TomlTable).version as string : undefined;
+      const optional = typeof spec === 'object' && (spec as TomlTable).optional === true;
+      add({ name: normalizePythonName(name), version }, table, name, optional ? 'optional' : dependencyType, group);
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Parse a PEP 508 requirement, e.g. `requests[socks]>=2.31,<3 ; python_version < "3.12"`
+ */
+function parseRequirement(spec: string): Requirement | undefined {
+  const [requirement, markers] = spec.split(';').map(part => part.trim());
+  const match = /^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[([^\]]*)\])?\s*(?:@\s*(\S+)|\(?([^)]*)\)?)?$/.exec(requirement);
+  if (!match) return undefined;
+  return {
+    name: normalizePythonName(match[1]),
+    version: (match[3] ?? match[4])?.trim() || undefined,
+    extras: match[2] ? match[2].split(',').map(extra => extra.trim()).filter(Boolean) : undefined,
+    markers: markers || undefined,
+  };
+}
+
+/**
+ * `-e git+https://...#egg=name` or `-e ./libs/shared`
+ */
+function editableRequirement(line: string): Requirement | undefined {
+  const target = line.replace(/^(-e|--editable)\s+/, '');
+  const egg = /[#&]egg=([A-Za-z0-9._-]+)/.exec(target)?.[1];
+  const name = egg ?? (target.startsWith('.') ? path.posix.basename(target.replace(/\/+$/, '')) : undefined);
+  return name ? { name: normalizePythonName(name), version: target } : undefined;
+}
+
+/**
+ * String items of an array, with their indexes
+ */
+function asStrings(value: unknown): Array<[string, number]> {
+  return Array.isArray(value)
+    ? value.flatMap((item, index): Array<[string, number]> => typeof item === 'string' ? [[item, index]] : [])
+    : [];
+}
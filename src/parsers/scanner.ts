@@ -0,0 +1,523 @@
+/**
+ * Scanner - groups scanned files into parse units and runs the matching parsers
+ */
+import path from 'path';
+import { createHash } from 'crypto';
+import { parseTerraform, parseTerraformModule, listLocalModuleSources } from './terraform.js';
+import { parseDockerCompose, parseComposeProject, listComposeFiles, COMPOSE_FILE_PATTERN } from './docker-compose.js';
+import { parseDockerfile } from './dockerfile.js';
+import { parseKubernetesManifests } from './kubernetes.js';
+import { parseCodeowners, findCodeownersFile } from './codeowners.js';
+import { parseBackstageCatalog, isBackstageCatalog } from './backstage.js';
+import { parsePackageJson } from './package-json.js';
+import { parseLockfile, LOCKFILE_NAMES } from './lockfiles.js';
+import { parseWorkspace, workspacePatterns, matchesWorkspace, PNPM_WORKSPACE_FILENAME } from './workspaces.js';
+import { parseGoMod } from './go-mod.js';
+import { parseRequirements, parsePyproject } from './python.js';
+import { parseCargoToml } from './cargo.js';
+import { parsePom } from './maven.js';
+import { parseGradle } from './gradle.js';
+import { parseCsproj } from './csproj.js';
+import { parseTerraformState, isTerraformJson } from './terraform-state.js';
+import { parseCloudFormation, isCloudFormationTemplate, cloudFormationStackName } from './cloudformation.js';
+import { parseArmTemplate, isArmTemplate } from './arm.js';
+import { parseGitHubWorkflow, isGitHubWorkflow } from './github-actions.js';
+import { parseOpenApi, isOpenApiDocument } from './openapi.js';
+import { parseAsyncApi, isAsyncApiDocument } from './asyncapi.js';
+import { parseBicepFiles } from './bicep.js';
+import { parseProtoFiles } from './proto.js';
+import { parseHelmChart } from './helm.js';
+import { inferRuntimeCalls } from './inference.js';
+import { parseKustomization, listKustomizationFiles, KUSTOMIZATION_FILENAMES } from './kustomize.js';
+import { attachProvenance } from './provenance.js';
+import { ENTITY_ALIASES_FILENAME } from '../graph/resolver.js';
+import { contentHash } from '../readers/content-hash.js';
+import type { ParsedDependency, SourceFile } from '../types.js';
+
+export interface ScanOptions {
+  /** Helm values overlays applied to every chart, e.g. `['prod']` */
+  helmValues?: string[];
+  /** Kustomization directory to build, e.g. `overlays/prod`. Defaults to every top-level kustomization */
+  kustomizeOverlay?: string;
+  /** Active Docker Compose profiles, e.g. `['debug']`. Defaults to every service */
+  composeProfiles?: string[];
+  /** Regex mapping proto packages to owning services; the `service` group (or first group) is the name */
+  protoPackagePattern?: string;
+  /** Cluster name added to Kubernetes node IDs, so scans of different clusters stay apart */
+  kubeCluster?: string;
+}
+
+/**
+ * Parse results carried between scans of one source: units whose files and options
+ * are unchanged reuse the previous scan's dependencies instead of being parsed again
+ */
+export interface ParseCache {
+  /** Dependencies of the previous scan's parse units, by unit key */
+  previous: Map<string, ParsedDependency[]>;
+  /** This scan's parse units, filled in by `parseFiles` */
+  current: Map<string, ParsedDependency[]>;
+  /** Files of reused units and of units parsed again (a file in several units can be in both) */
+  reusedFiles: Set<string>;
+  parsedFiles: Set<string>;
+}
+
+export function createParseCache(previous: Map<string, ParsedDependency[]> = new Map()): ParseCache {
+  return { previous, current: new Map(), reusedFiles: new Set(), parsedFiles: new Set() };
+}
+
+/**
+ * A set of files that must be parsed together
+ */
+interface ParseUnit {
+  files: SourceFile[];
+  /** Parser name recorded in each dependency's provenance */
+  parser: string;
+  parse: () => Promise<ParsedDependency[]>;
+}
+
+/**
+ * Parse all scanned files into dependencies, then infer runtime calls across them and
+ * assign CODEOWNERS ownership. With a cache, unchanged units are reused; inference
+ * and ownership span every unit so they always run again.
+ */
+export async function parseFiles(
+  files: SourceFile[],
+  options: ScanOptions = {},
+  cache?: ParseCache
+): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+
+  for (const unit of planParseUnits(files, options)) {
+    dependencies.push(...await parseUnit(unit, options, cache));
+  }
+
+  dependencies.push(...attachProvenance(inferRuntimeCalls(dependencies), 'inference', files));
+
+  // Ownership: CODEOWNERS rules matched against the files each node was found in
+  const codeowners = findCodeownersFile(files);
+  if (codeowners) {
+    dependencies.push(...attachProvenance(await parseCodeowners(codeowners.content, dependencies), 'codeowners', [codeowners]));
+  }
+  return dependencies;
+}
+
+async function parseUnit(unit: ParseUnit, options: ScanOptions, cache: ParseCache | undefined): Promise<ParsedDependency[]> {
+  if (!cache) {
+    return attachProvenance(await unit.parse(), unit.parser, unit.files);
+  }
+
+  const key = unitKey(unit, options);
+  const previous = cache.previous.get(key);
+  const dependencies = previous ?? attachProvenance(await unit.parse(), unit.parser, unit.files);
+  cache.current.set(key, dependencies);
+  unit.files.forEach(file => (previous ? cache.reusedFiles : cache.parsedFiles).add(file.path));
+  return dependencies;
+}
+
+/**
+ * Version of the parsers' output, part of every unit key. Bump it whenever a parser
+ * change alters what it returns for the same files, so stored parse results are not reused
+ */
+const PARSER_VERSION = 3;
+
+/**
+ * Identity of a unit's parse result: the parser version, its parser, its files' contents
+ * and the scan options, any of which changing means parsing it again
+ */
+function unitKey(unit: ParseUnit, options: ScanOptions): string {
+  const files = unit.files.map(file => `${file.path}@${file.hash ?? contentHash(file.content)}`).sort();
+  return createHash('sha1').update(JSON.stringify([PARSER_VERSION, unit.parser, options, files])).digest('hex');
+}
+
+/**
+ * Group files into parse units. Multi-file sources (e.g. Helm charts) claim their
+ * files first; everything left over is parsed on its own.
+ */
+function planParseUnits(files: SourceFile[], options: ScanOptions): ParseUnit[] {
+  const units: ParseUnit[] = [];
+  const claimed = new Set<string>();
+
+  // Backstage: all catalog files are parsed together so systems and domains resolve across files
+  const catalogFiles = files.filter(file => /\.ya?ml$/i.test(file.path) && isBackstageCatalog(file.content));
+  if (catalogFiles.length > 0) {
+    catalogFiles.forEach(file => claimed.add(file.path));
+    units.push({ files: catalogFiles, parser: 'backstage', parse: () => parseBackstageCatalog(catalogFiles) });
+  }
+
+  // Helm charts: each Chart.yaml owns the templates and values files beneath it
+  const chartDirs = files
+    .filter(file => path.posix.basename(file.path) === 'Chart.yaml')
+    .map(file => dirOf(file.path));
+
+  for (const chartDir of chartDirs) {
+    const chartFiles = files.filter(file =>
+      /\.(ya?ml|tpl)$/i.test(file.path) && !claimed.has(file.path) && owningDir(file.path, chartDirs) === chartDir
+    );
+    chartFiles.forEach(file => claimed.add(file.path));
+    units.push({
+      files: chartFiles,
+      parser: 'helm',
+      parse: () => parseHelmChart(chartDir, chartFiles, { valuesFiles: options.helmValues, cluster: options.kubeCluster }),
+    });
+  }
+
+  units.push(...planKustomizeUnits(files, claimed, options));
+  units.push(...planTerraformUnits(files, claimed));
+  units.push(...planComposeUnits(files, claimed, options));
+  units.push(...planWorkspaceUnits(files, claimed));
+  units.push(...planLockfileUnits(files, claimed));
+
+  // Bicep: all files are parsed together so modules resolve across files
+  const bicepFiles = files.filter(file => file.path.endsWith('.bicep') && !claimed.has(file.path));
+  if (bicepFiles.length > 0) {
+    bicepFiles.forEach(file => claimed.add(file.path));
+    units.push({ files: bicepFiles, parser: 'bicep', parse: () => parseBicepFiles(bicepFiles) });
+  }
+
+  // Protobuf: all files are parsed together so imports resolve across packages
+  const protoFiles = files.filter(file => file.path.endsWith('.proto') && !claimed.has(file.path));
+  if (protoFiles.length > 0) {
+    protoFiles.forEach(file => claimed.add(file.path));
+    units.push({
+      files: protoFiles,
+      parser: 'proto',
+      parse: () => parseProtoFiles(protoFiles, { packagePattern: options.protoPackagePattern }),
+    });
+  }
+
+  // Kubernetes: plain manifests are parsed together so selectors and references resolve
+  // across files (a NetworkPolicy in its own file still selects the workloads beside it)
+  const fileParsers = files
+    .filter(file => !claimed.has(file.path))
+    .map(file => ({ file, fileParser: selectFileParser(file.path, file.content, options) }));
+  const manifests = fileParsers.filter(({ fileParser }) => fileParser?.parser === 'kubernetes').map(({ file }) => file);
+  if (manifests.length > 0) {
+    units.push({
+      files: manifests,
+      parser: 'kubernetes',
+      parse: () => parseKubernetesManifests(manifests, { cluster: options.kubeCluster }),
+    });
+  }
+
+  for (const { file, fileParser } of fileParsers) {
+    if (fileParser && fileParser.parser !== 'kubernetes') {
+      units.push({ files: [file], ...fileParser });
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Kustomize: every top-level kustomization (one not used as a base by another) is built
+ * once, and all files it reads are claimed so bases are not also parsed as raw manifests
+ */
+function planKustomizeUnits(files: SourceFile[], claimed: Set<string>, options: ScanOptions): ParseUnit[] {
+  const fileMap = new Map(
+    files.filter(file => !claimed.has(file.path)).map(file => [file.path, file.content])
+  );
+  const kustomizeDirs = [...fileMap.keys()]
+    .filter(filePath => KUSTOMIZATION_FILENAMES.includes(path.posix.basename(filePath)))
+    .map(dirOf);
+
+  if (kustomizeDirs.length === 0) {
+    return [];
+  }
+
+  const listings = new Map(kustomizeDirs.map(dir => [dir, listKustomizationFiles(dir, fileMap)]));
+  const referenced = new Set([...listings.values()].flatMap(listing => [...listing.dirs]));
+  let roots = kustomizeDirs.filter(dir => !referenced.has(dir));
+
+  if (options.kustomizeOverlay) {
+    const overlay = options.kustomizeOverlay.replace(/^\.?\/+|\/+$/g, '');
+    const selected = kustomizeDirs.filter(dir => dir === overlay || dir.endsWith(`/${overlay}`));
+    if (selected.length > 0) {
+      roots = selected;
+    } else {
+      console.warn(`Kustomize overlay not found: ${options.kustomizeOverlay}`);
+    }
+  }
+
+  for (const listing of listings.values()) {
+    listing.files.forEach(filePath => claimed.add(filePath));
+  }
+
+  return roots.map(dir => {
+    const unitFiles = files.filter(file => listings.get(dir)!.files.has(file.path));
+    return {
+      files: unitFiles,
+      parser: 'kustomize',
+      parse: () => parseKustomization(dir, unitFiles, { cluster: options.kubeCluster }),
+    };
+  });
+}
+
+/**
+ * Terraform: each root module directory is parsed together with the local modules it
+ * calls; directories only used as module sources are not parsed on their own
+ */
+function planTerraformUnits(files: SourceFile[], claimed: Set<string>): ParseUnit[] {
+  const tfFiles = files.filter(file => file.path.endsWith('.tf') && !claimed.has(file.path));
+  if (tfFiles.length === 0) {
+    return [];
+  }
+
+  const fileMap = new Map(tfFiles.map(file => [file.path, file.content]));
+  const moduleDirs = [...new Set(tfFiles.map(file => dirOf(file.path)))];
+  const sources = new Map(moduleDirs.map(dir => [dir, listLocalModuleSources(dir, fileMap)]));
+  const referenced = new Set([...sources.values()].flat());
+
+  // Root modules, plus any module dirs reachable only through a cycle
+  const roots = moduleDirs.filter(dir => !referenced.has(dir));
+  const reachable = new Set<string>();
+  const visit = (dir: string) => {
+    if (reachable.has(dir)) return;
+    reachable.add(dir);
+    (sources.get(dir) || []).forEach(visit);
+  };
+  roots.forEach(visit);
+  roots.push(...moduleDirs.filter(dir => !reachable.has(dir)));
+
+  tfFiles.forEach(file => claimed.add(file.path));
+
+  return roots.map(dir => {
+    const unitDirs = new Set<string>();
+    const collect = (current: string) => {
+      if (unitDirs.has(current)) return;
+      unitDirs.add(current);
+      (sources.get(current) || []).forEach(collect);
+    };
+    collect(dir);
+
+    const unitFiles = tfFiles.filter(file => unitDirs.has(dirOf(file.path)));
+    return {
+      files: unitFiles,
+      parser: 'terraform',
+      parse: () => parseTerraformModule(dir, unitFiles),
+    };
+  });
+}
+
+/**
+ * Docker Compose: each directory's compose file is merged with its override file and
+ * parsed together with the files it includes or extends and its `.env`. Files only
+ * reached through `include` or `extends` are not parsed on their own.
+ */
+function planComposeUnits(files: SourceFile[], claimed: Set<string>, options: ScanOptions): ParseUnit[] {
+  const fileMap = new Map(
+    files.filter(file => !claimed.has(file.path)).map(file => [file.path, file.content])
+  );
+  const composePaths = [...fileMap.keys()].filter(filePath => COMPOSE_FILE_PATTERN.test(path.posix.basename(filePath)));
+  if (composePaths.length === 0) {
+    return [];
+  }
+
+  const isOverride = (filePath: string) => /\.override\.ya?ml$/i.test(filePath);
+  const listings = new Map(composePaths.map(filePath => [filePath, listComposeFiles(filePath, fileMap)]));
+  const referenced = new Set(
+    [...listings.entries()].flatMap(([filePath, listing]) => [...listing].filter(listed => listed !== filePath))
+  );
+
+  // Projects: each main compose file plus the overrides in its directory
+  const projects: string[][] = [];
+  for (const dir of new Set(composePaths.map(dirOf))) {
+    const inDir = composePaths.filter(filePath => dirOf(filePath) === dir && !referenced.has(filePath));
+    const overrides = inDir.filter(isOverride);
+    const mains = inDir.filter(filePath => !isOverride(filePath));
+    if (mains.length > 0) {
+      projects.push(...mains.map(main => [main, ...overrides]));
+    } else {
+      projects.push(...overrides.map(override => [override]));
+    }
+  }
+
+  for (const listing of listings.values()) {
+    listing.forEach(filePath => claimed.add(filePath));
+  }
+
+  return projects.map(projectPaths => {
+    const unitPaths = new Set(projectPaths.flatMap(filePath => [...listings.get(filePath)!]));
+    const unitFiles = files.filter(file => unitPaths.has(file.path));
+    return {
+      files: unitFiles,
+      parser: 'docker-compose',
+      parse: () => parseComposeProject(projectPaths, unitFiles, { profiles: options.composeProfiles }),
+    };
+  });
+}
+
+/**
+ * Workspaces: each npm/yarn `workspaces` root or pnpm-workspace.yaml is parsed together
+ * with the package.json files of its member packages so internal edges resolve
+ */
+function planWorkspaceUnits(files: SourceFile[], claimed: Set<string>): ParseUnit[] {
+  const roots = new Map<string, string[]>();
+  for (const file of files) {
+    const filename = path.posix.basename(file.path);
+    if (claimed.has(file.path) || (filename !== 'package.json' && filename !== PNPM_WORKSPACE_FILENAME)) continue;
+    const patterns = workspacePatterns(filename, file.content);
+    if (patterns) {
+      roots.set(dirOf(file.path), [...(roots.get(dirOf(file.path)) || []), ...patterns]);
+    }
+  }
+
+  // Outer workspaces first, so a nested workspace root is parsed as a member
+  const units: ParseUnit[] = [];
+  for (const [rootDir, patterns] of [...roots.entries()].sort(([a], [b]) => a.length - b.length)) {
+    const unitFiles = files.filter(file => {
+      if (claimed.has(file.path)) return false;
+      const filename = path.posix.basename(file.path);
+      if (dirOf(file.path) === rootDir) return filename === 'package.json' || filename === PNPM_WORKSPACE_FILENAME;
+      const dir = rootDir ? path.posix.relative(rootDir, dirOf(file.path)) : dirOf(file.path);
+      return filename === 'package.json' && !dir.startsWith('..') && matchesWorkspace(dir, patterns);
+    });
+    if (unitFiles.length === 0) continue;
+
+    unitFiles.forEach(file => claimed.add(file.path));
+    units.push({ files: unitFiles, parser: 'workspaces', parse: () => parseWorkspace(rootDir, unitFiles, patterns) });
+  }
+
+  return units;
+}
+
+/**
+ * Lockfiles: each is parsed with the package.json files beneath it, which stay
+ * unclaimed so their declared ranges are still parsed on their own
+ */
+function planLockfileUnits(files: SourceFile[], claimed: Set<string>): ParseUnit[] {
+  return files
+    .filter(file => !claimed.has(file.path) && LOCKFILE_NAMES.includes(path.posix.basename(file.path)))
+    .map(lockfile => {
+      claimed.add(lockfile.path);
+      const lockDir = dirOf(lockfile.path);
+      const unitFiles = [lockfile, ...files.filter(file =>
+        path.posix.basename(file.path) === 'package.json' && (!lockDir || file.path.startsWith(`${lockDir}/`))
+      )];
+      return { files: unitFiles, parser: 'lockfiles', parse: () => parseLockfile(lockfile.path, unitFiles) };
+    });
+}
+
+/**
+ * Parse a single file based on its type
+ */
+export async function parseFile(filePath: string, content: string, options: ScanOptions = {}): Promise<ParsedDependency[]> {
+  const fileParser = selectFileParser(filePath, content, options);
+  if (!fileParser) return [];
+  return attachProvenance(await fileParser.parse(), fileParser.parser, [{ path: filePath, content }]);
+}
+
+/**
+ * Pick the parser for a single file by its name and content
+ */
+function selectFileParser(
+  filePath: string,
+  content: string,
+  options: ScanOptions
+): Pick<ParseUnit, 'parser' | 'parse'> | undefined {
+  const filename = filePath.split('/').pop() || '';
+
+  // Entity alias files configure resolution; they describe no dependencies
+  if (filename === ENTITY_ALIASES_FILENAME) {
+    return undefined;
+  }
+
+  if (filename.endsWith('.tf')) {
+    return { parser: 'terraform', parse: () => parseTerraform(content) };
+  }
+
+  if (filename.endsWith('.tfstate') || (filename.endsWith('.json') && isTerraformJson(content))) {
+    return { parser: 'terraform-state', parse: () => parseTerraformState(content) };
+  }
+
+  if (filename.endsWith('.json') && isArmTemplate(content)) {
+    return { parser: 'arm', parse: () => parseArmTemplate(content) };
+  }
+
+  if (isGitHubWorkflow(filePath)) {
+    return { parser: 'github-actions', parse: () => parseGitHubWorkflow(content, filePath) };
+  }
+
+  if (/\.(ya?ml|json)$/i.test(filename) && isOpenApiDocument(content)) {
+    return { parser: 'openapi', parse: () => parseOpenApi(content, filePath) };
+  }
+
+  if (/\.(ya?ml|json)$/i.test(filename) && isAsyncApiDocument(content)) {
+    return { parser: 'asyncapi', parse: () => parseAsyncApi(content, filePath) };
+  }
+
+  if (/\.(ya?ml|json|template)$/i.test(filename) && isCloudFormationTemplate(content)) {
+    return { parser: 'cloudformation', parse: () => parseCloudFormation(content, cloudFormationStackName(filePath)) };
+  }
+
+  if (/docker-compose\.ya?ml$/i.test(filename) || COMPOSE_FILE_PATTERN.test(filename)) {
+    return { parser: 'docker-compose', parse: () => parseDockerCompose(content, filePath) };
+  }
+
+  if (/^Dockerfile(\..+)?$|\.dockerfile$/i.test(filename)) {
+    return { parser: 'dockerfile', parse: () => parseDockerfile(content, filePath) };
+  }
+
+  if (/\.ya?ml$/i.test(filename) && !filename.includes('docker-compose') && !COMPOSE_FILE_PATTERN.test(filename)) {
+    // Assume it's a Kubernetes manifest
+    return {
+      parser: 'kubernetes',
+      parse: () => parseKubernetesManifests([{ path: filePath, content }], { cluster: options.kubeCluster }),
+    };
+  }
+
+  if (filename === 'package.json') {
+    return { parser: 'package-json', parse: () => parsePackageJson(content, filePath) };
+  }
+
+  if (filename === 'go.mod') {
+    return { parser: 'go-mod', parse: () => parseGoMod(content) };
+  }
+
+  if (/^requirements[\w.-]*\.txt$/i.test(filename)) {
+    return { parser: 'python', parse: () => parseRequirements(content, filePath) };
+  }
+
+  if (filename === 'pyproject.toml') {
+    return { parser: 'python', parse: () => parsePyproject(content) };
+  }
+
+  if (filename === 'Cargo.toml') {
+    return { parser: 'cargo', parse: () => parseCargoToml(content) };
+  }
+
+  if (filename === 'pom.xml') {
+    return { parser: 'maven', parse: () => parsePom(content) };
+  }
+
+  if (/^build\.gradle(\.kts)?$/.test(filename)) {
+    return { parser: 'gradle', parse: () => parseGradle(content, filePath) };
+  }
+
+  if (/\.csproj$/i.test(filename)) {
+    return { parser: 'csproj', parse: () => parseCsproj(content, filePath) };
+  }
+
+  return undefined;
+}
+
+/**
+ * Directory of a scan-relative path ('' for the scan root)
+ */
+function dirOf(filePath: string): string {
+  const dir = path.posix.dirname(filePath);
+  return dir === '.' ? '' : dir;
+}
+
+/**
+ * Find the deepest directory in `dirs` that contains `filePath`
+ */
+function owningDir(filePath: string, dirs: string[]): string | undefined {
+  let owner: string | undefined;
+  for (const dir of dirs) {
+    const contains = dir === '' || filePath.startsWith(`${dir}/`);
+    if (contains && (owner === undefined || dir.length > owner.length)) {
+      owner = dir;
+    }
+  }
+  return owner;
+}
@@ -0,0 +1,370 @@
+/**
+ * Terraform state/plan parser - imports `terraform show -json` output (and raw .tfstate files)
+ */
+import yaml from 'js-yaml';
+import { trackLineRanges, type LineRange } from './yaml-lines.js';
+import type { ParsedDependency, PlannedAction, NodeHint } from '../types.js';
+
+interface StateResource {
+  address: string;
+  mode?: 'managed' | 'data';
+  type: string;
+  name: string;
+  index?: string | number;
+  provider_name?: string;
+  depends_on?: string[];
+}
+
+interface StateModule {
+  address?: string;
+  resources?: StateResource[];
+  child_modules?: StateModule[];
+}
+
+interface ResourceChange {
+  address: string;
+  module_address?: string;
+  mode?: 'managed' | 'data';
+  type: string;
+  name: string;
+  index?: string | number;
+  provider_name?: string;
+  change?: { actions?: string[] };
+}
+
+interface ConfigResource {
+  address: string;
+  depends_on?: string[];
+  expressions?: Record<string, unknown>;
+}
+
+interface ConfigModule {
+  resources?: ConfigResource[];
+  module_calls?: Record<string, { module?: ConfigModule }>;
+}
+
+interface TerraformShowJson {
+  format_version?: string;
+  terraform_version?: string;
+  values?: { root_module?: StateModule };
+  planned_values?: { root_module?: StateModule };
+  prior_state?: { values?: { root_module?: StateModule } };
+  resource_changes?: ResourceChange[];
+  configuration?: { root_module?: ConfigModule };
+}
+
+interface RawStateFile {
+  version: number;
+  resources?: Array<{
+    module?: string;
+    mode?: 'managed' | 'data';
+    type: string;
+    name: string;
+    provider?: string;
+    instances?: Array<{ index_key?: string | number; dependencies?: string[] }>;
+  }>;
+}
+
+/**
+ * A resource instance in the imported graph
+ */
+interface ResourceInstance {
+  address: string;
+  configAddress: string;
+  type: string;
+  provider?: string;
+  modulePath: string;
+  mode: 'managed' | 'data';
+  index?: string | number;
+  dependsOn: Set<string>;
+  plannedAction?: PlannedAction;
+  /** Lines of the JSON object the instance was read from */
+  lines?: LineRange;
+}
+
+/**
+ * Check whether JSON content looks like Terraform state or plan output
+ */
+export function isTerraformJson(fileContent: string): boolean {
+  return /"(terraform_version|format_version)"\s*:/.test(fileContent.slice(0, 2000)) &&
+    /"(values|planned_values|resources|resource_changes)"\s*:/.test(fileContent);
+}
+
+/**
+ * Parse Terraform state or plan JSON and extract resource instance dependencies.
+ * Every instance also links to its provider so resources without dependencies still appear.
+ * Each dependency's lines are those of the instance it was read from.
+ */
+export async function parseTerraformState(fileContent: string): Promise<ParsedDependency[]> {
+  // Loaded as YAML's JSON subset to record where each instance is
+  const ranges = new Map<object, LineRange>();
+  let document: TerraformShowJson & Partial<RawStateFile>;
+  try {
+    document = yaml.load(fileContent, { json: true, listener: trackLineRanges(fileContent, ranges) }) as TerraformShowJson & Partial<RawStateFile>;
+  } catch (error) {
+    console.warn('Failed to parse Terraform JSON:', error instanceof Error ? error.message : 'Unknown error');
+    return [];
+  }
+
+  if (!document || typeof document !== 'object') {
+    return [];
+  }
+
+  const isPlan = !!document.planned_values || !!document.resource_changes;
+  const instances = isPlan
+    ? collectPlanInstances(document, ranges)
+    : typeof document.version === 'number' && Array.isArray(document.resources)
+      ? collectRawStateInstances(document as RawStateFile, ranges)
+      : collectModuleInstances(document.values?.root_module, ranges);
+
+  return buildDependencies([...instances.values()], isPlan ? 'plan' : 'state');
+}
+
+/**
+ * Instances from `terraform show -json` state output
+ */
+function collectModuleInstances(
+  module: StateModule | undefined,
+  ranges: Map<object, LineRange>,
+  instances = new Map<string, ResourceInstance>()
+): Map<string, ResourceInstance> {
+  if (!module) return instances;
+
+  for (const resource of module.resources || []) {
+    instances.set(resource.address, {
+      address: resource.address,
+      configAddress: configAddress(resource.address),
+      type: resource.type,
+      provider: providerName(resource.provider_name),
+      modulePath: module.address || 'root',
+      mode: resource.mode || 'managed',
+      index: resource.index,
+      dependsOn: new Set(resource.depends_on || []),
+      lines: ranges.get(resource),
+    });
+  }
+
+  for (const child of module.child_modules || []) {
+    collectModuleInstances(child, ranges, instances);
+  }
+
+  return instances;
+}
+
+/**
+ * Instances from a raw `terraform.tfstate` file (state format version 4)
+ */
+function collectRawStateInstances(state: RawStateFile, ranges: Map<object, LineRange>): Map<string, ResourceInstance> {
+  const instances = new Map<string, ResourceInstance>();
+
+  for (const resource of state.resources || []) {
+    const prefix = resource.mode === 'data' ? 'data.' : '';
+    const base = `${resource.module ? `${resource.module}.` : ''}${prefix}${resource.type}.${resource.name}`;
+
+    for (const instance of resource.instances || [{}]) {
+      const address = base + indexSuffix(instance.index_key);
+      instances.set(address, {
+        address,
+        configAddress: base,
+        type: resource.type,
+        provider: providerName(resource.provider),
+        modulePath: resource.module || 'root',
+        mode: resource.mode || 'managed',
+        index: instance.index_key,
+        dependsOn: new Set(instance.dependencies || []),
+        lines: ranges.get(instance) ?? ranges.get(resource),
+      });
+    }
+  }
+
+  return instances;
+}
+
+/**
+ * Instances from plan output: planned values and pending deletions, with their actions,
+ * dependencies from prior state and from configuration references
+ */
+function collectPlanInstances(plan: TerraformShowJson, ranges: Map<object, LineRange>): Map<string, ResourceInstance> {
+  const instances = collectModuleInstances(plan.planned_values?.root_module, ranges);
+  const prior = collectModuleInstances(plan.prior_state?.values?.root_module, ranges);
+
+  for (const change of plan.resource_changes || []) {
+    const existing = instances.get(change.address) || prior.get(change.address);
+    const instance: ResourceInstance = existing || {
+      address: change.address,
+      configAddress: configAddress(change.address),
+      type: change.type,
+      provider: providerName(change.provider_name),
+      modulePath: change.module_address || 'root',
+      mode: change.mode || 'managed',
+      index: change.index,
+      dependsOn: new Set(),
+      lines: ranges.get(change),
+    };
+    instance.plannedAction = plannedAction(change.change?.actions || []);
+    prior.get(change.address)?.dependsOn.forEach(dep => instance.dependsOn.add(dep));
+    instances.set(change.address, instance);
+  }
+
+  // Configuration references cover dependencies of resources that don't exist yet
+  const configDependencies = new Map<string, Set<string>>();
+  collectConfigDependencies(plan.configuration?.root_module, '', configDependencies);
+  for (const instance of instances.values()) {
+    configDependencies.get(instance.configAddress)?.forEach(dep => instance.dependsOn.add(dep));
+  }
+
+  return instances;
+}
+
+function collectConfigDependencies(module: ConfigModule | undefined, prefix: string, result: Map<string, Set<string>>): void {
+  if (!module) return;
+
+  for (const resource of module.resources || []) {
+    const dependencies = new Set<string>();
+    for (const dep of resource.depends_on || []) dependencies.add(`${prefix}${dep}`);
+    for (const reference of expressionReferences(resource.expressions)) {
+      dependencies.add(`${prefix}${reference}`);
+    }
+    result.set(`${prefix}${resource.address}`, dependencies);
+  }
+
+  for (const [name, call] of Object.entries(module.module_calls || {})) {
+    collectConfigDependencies(call.module, `${prefix}module.${name}.`, result);
+  }
+}
+
+/**
+ * Collect `references` arrays from plan configuration expressions (nested blocks included)
+ */
+function expressionReferences(expressions: unknown): string[] {
+  const references: string[] = [];
+
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      for (const [key, nested] of Object.entries(value)) {
+        if (key === 'references' && Array.isArray(nested)) {
+          references.push(...nested.filter((ref): ref is string => typeof ref === 'string'));
+        } else {
+          visit(nested);
+        }
+      }
+    }
+  };
+
+  visit(expressions);
+  return references;
+}
+
+function buildDependencies(instances: ResourceInstance[], source: 'state' | 'plan'): ParsedDependency[] {
+  const dependencies: ParsedDependency[] = [];
+  const byConfigAddress = new Map<string, ResourceInstance[]>();
+  for (const instance of instances) {
+    const list = byConfigAddress.get(instance.configAddress) || [];
+    list.push(instance);
+    byConfigAddress.set(instance.configAddress, list);
+  }
+
+  const hint = (instance: ResourceInstance): NodeHint => ({
+    type: 'terraform_resource',
+    metadata: {
+      provider: instance.provider,
+      modulePath: instance.modulePath,
+      resourceType: instance.type,
+      mode: instance.mode,
+      index: instance.index,
+      plannedAction: instance.plannedAction,
+      importedFrom: source,
+    },
+  });
+
+  for (const instance of instances) {
+    if (instance.provider) {
+      dependencies.push({
+        source: instance.address,
+        target: `provider.${instance.provider}`,
+        type: 'terraform_provider',
+        sourceNode: hint(instance),
+        targetNode: { type: 'terraform_provider' },
+        provenance: { parser: 'terraform-state', ...instance.lines },
+      });
+    }
+
+    for (const dep of instance.dependsOn) {
+      const targets = resolveDependency(dep, byConfigAddress);
+      for (const target of targets) {
+        if (target.address === instance.address) continue;
+        dependencies.push({
+          source: instance.address,
+          target: target.address,
+          type: 'terraform_resource',
+          metadata: { dependsOn: dep },
+          sourceNode: hint(instance),
+          targetNode: hint(target),
+          provenance: { parser: 'terraform-state', ...instance.lines },
+        });
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Map a dependency address (resource, indexed instance, module, or attribute reference)
+ * to the imported instances it covers
+ */
+function resolveDependency(address: string, byConfigAddress: Map<string, ResourceInstance[]>): ResourceInstance[] {
+  const exact = [...byConfigAddress.values()].flat().find(instance => instance.address === address);
+  if (exact) return [exact];
+
+  // Attribute references like aws_vpc.main.id: try progressively shorter prefixes
+  const parts = configAddress(address).split('.');
+  for (let length = parts.length; length > 0; length--) {
+    const candidate = parts.slice(0, length).join('.');
+    const matches = byConfigAddress.get(candidate);
+    if (matches) return matches;
+  }
+
+  // Whole-module dependencies (depends_on = [module.network])
+  if (/(^|\.)module\.[^.]+$/.test(address)) {
+    return [...byConfigAddress.entries()]
+      .filter(([key]) => key.startsWith(`${address}.`))
+      .flatMap(([, matches]) => matches);
+  }
+
+  return [];
+}
+
+/**
+ * Strip instance keys: module.a["x"].aws_instance.web[0] -> module.a.aws_instance.web
+ */
+function configAddress(address: string): string {
+  return address.replace(/\[[^\]]*\]/g, '');
+}
+
+function indexSuffix(index: string | number | undefined): string {
+  if (index === undefined) return '';
+  return typeof index === 'number' ? `[${index}]` : `["${index}"]`;
+}
+
+/**
+ * `registry.terraform.io/hashicorp/aws` or `provider["registry.terraform.io/hashicorp/aws"].east` -> `aws` / `aws.east`
+ */
+function providerName(provider: string | undefined): string | undefined {
+  if (!provider) return undefined;
+  const match = /provider\["([^"]+)"\](?:\.(\w+))?$/.exec(provider);
+  const [fullName, alias] = match ? [match[1], match[2]] : [provider, undefined];
+  const name = fullName.split('/').pop()!;
+  return alias ? `${name}.${alias}` : name;
+}
+
+function plannedAction(actions: string[]): PlannedAction {
+  if (actions.includes('create') && actions.includes('delete')) return 'replace';
+  if (actions.includes('create')) return 'create';
+  if (actions.includes('delete')) return 'delete';
+  if (actions.includes('update')) return 'update';
+  if (actions.includes('read')) return 'read';
+  return 'no-op';
+}
@@ -1,125 +1,418 @@
 /**
- * Terraform parser - extracts resource dependencies from .tf files
+ * Terraform parser - extracts resource, module, variable and output dependencies from .tf files
  */
-import type { ParsedDependency } from '../types.js';
+import path from 'path';
+import { parseHcl, type HclAttribute, type HclBlock, type HclBody, type HclToken } from './hcl.js';
+import type { DependencyType, ParsedDependency, Provenance, SourceFile } from '../types.js';
 
-interface TerraformResource {
-  type: string;
-  name: string;
-  references: string[];
+type BlockKind = 'resource' | 'data' | 'module' | 'output' | 'local';
+
+interface TerraformBlock {
+  kind: BlockKind;
+  id: string;
+  attributes: HclAttribute[];
+  blocks: HclBlock[];
+  /** Where the block is declared; `file` is unset when parsing a single file's content */
+  file?: string;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * A parsed .tf file
+ */
+interface TerraformFile {
+  path?: string;
+  body: HclBody;
+}
+
+interface TerraformReference {
+  kind: 'resource' | 'module' | 'variable';
+  id: string;
+  /** Output name for module references */
+  output?: string;
+  referenceType: string;
 }
 
+const IGNORED_ROOTS = new Set(['count', 'each', 'self', 'path', 'terraform', 'true', 'false', 'null']);
+const MAX_MODULE_DEPTH = 10;
+
 /**
  * Parse Terraform file content and extract dependencies
  */
 export async function parseTerraform(fileContent: string): Promise<ParsedDependency[]> {
-  const dependencies: ParsedDependency[] = [];
-  const resources: TerraformResource[] = [];
+  const body = loadHcl(fileContent);
+  return body ? extractDependencies(collectBlocks([{ body }]), '', new Set()) : [];
+}
 
-  // Match resource blocks: resource "type" "name" { ... }
-  const resourceRegex = /resource\s+"([^"]+)"\s+"([^"]+)"\s*\{([^}]*(?:\{[^}]*\}[^}]*)*)\}/g;
-  let match;
+/**
+ * Parse the Terraform module in `dir`, following local module sources into nested subgraphs.
+ * Node IDs inside a nested module are prefixed with its address, e.g. `module.network.aws_vpc.main`.
+ */
+export async function parseTerraformModule(dir: string, files: SourceFile[]): Promise<ParsedDependency[]> {
+  const fileMap = new Map(files.map(file => [file.path, file.content]));
+  return new ModuleWalker(fileMap).walk(dir, '', []);
+}
 
-  while ((match = resourceRegex.exec(fileContent)) !== null) {
-    const [, type, name, body] = match;
-    const references = extractReferences(body);
-    resources.push({ type, name, references });
-  }
+/**
+ * Resolve the local module directories referenced by the module in `dir`
+ */
+export function listLocalModuleSources(dir: string, files: Map<string, string>): string[] {
+  return collectBlocks(loadModuleFiles(dir, files))
+    .filter(block => block.kind === 'module')
+    .map(block => localSource(dir, block))
+    .filter((source): source is string => source !== undefined);
+}
 
-  // Match data sources: data "type" "name" { ... }
-  const dataRegex = /data\s+"([^"]+)"\s+"([^"]+)"\s*\{([^}]*(?:\{[^}]*\}[^}]*)*)\}/g;
-  while ((match = dataRegex.exec(fileContent)) !== null) {
-    const [, type, name, body] = match;
-    const references = extractReferences(body);
-    resources.push({ type: `data.${type}`, name, references });
-  }
+/**
+ * Walks a module directory and the local modules it calls
+ */
+class ModuleWalker {
+  constructor(private files: Map<string, string>) {}
 
-  // Build dependencies from references
-  for (const resource of resources) {
-    const sourceId = `${resource.type}.${resource.name}`;
-    
-    for (const ref of resource.references) {
-      // Parse reference like aws_instance.example or data.aws_ami.ubuntu
-      const parts = ref.split('.');
-      if (parts.length >= 2) {
-        const targetId = parts.slice(0, 2).join('.');
-        
-        // Skip self-references
-        if (targetId !== sourceId) {
+  walk(dir: string, prefix: string, stack: string[]): ParsedDependency[] {
+    const blocks = collectBlocks(loadModuleFiles(dir, this.files));
+    const dependencies: ParsedDependency[] = [];
+    const nestedOutputs = new Map<string, Set<string>>();
+
+    for (const block of blocks.filter(candidate => candidate.kind === 'module')) {
+      const source = localSource(dir, block);
+      if (source === undefined) continue;
+
+      if (source === dir || stack.includes(source) || stack.length >= MAX_MODULE_DEPTH) {
+        console.warn(`Skipping recursive Terraform module: ${source}`);
+        continue;
+      }
+
+      const moduleId = `${prefix}${block.id}`;
+      const nested = this.walk(source, `${moduleId}.`, [...stack, dir]);
+      dependencies.push(...nested);
+
+      // Connect the module node to the subgraph through its outputs and variables
+      const outputs = new Set<string>();
+      const nestedIds = new Set(nested.flatMap(dep => [dep.source, dep.target]));
+      for (const id of nestedIds) {
+        const output = id.startsWith(`${moduleId}.output.`) ? id.slice(`${moduleId}.output.`.length) : undefined;
+        if (output && !output.includes('.')) outputs.add(output);
+      }
+      for (const output of outputs) {
+        dependencies.push({
+          source: moduleId,
+          target: `${moduleId}.output.${output}`,
+          type: 'terraform_module',
+          metadata: { output },
+          provenance: blockLocation(block),
+        });
+      }
+      for (const attribute of block.attributes) {
+        if (nestedIds.has(`${moduleId}.var.${attribute.name}`)) {
           dependencies.push({
-            source: sourceId,
-            target: targetId,
-            type: 'terraform_resource',
-            metadata: {
-              referenceType: parts.length > 2 ? parts.slice(2).join('.') : 'direct',
-            },
+            source: `${moduleId}.var.${attribute.name}`,
+            target: moduleId,
+            type: 'terraform_variable',
+            metadata: { input: attribute.name },
+            provenance: attributeLocation(block, attribute),
           });
         }
       }
+      nestedOutputs.set(block.id, outputs);
+    }
+
+    dependencies.push(...extractDependencies(blocks, prefix, new Set(nestedOutputs.keys()), nestedOutputs));
+    return dependencies;
+  }
+}
+
+/**
+ * Flatten top-level blocks of one or more files into addressable Terraform blocks
+ */
+function collectBlocks(files: TerraformFile[]): TerraformBlock[] {
+  const blocks: TerraformBlock[] = [];
+
+  for (const { path: file, body } of files) {
+    for (const block of body.blocks) {
+      const [first, second] = block.labels;
+      const declared = { attributes: block.attributes, blocks: block.blocks, file, startLine: block.startLine, endLine: block.endLine };
+      switch (block.type) {
+        case 'resource':
+          if (first && second) blocks.push({ kind: 'resource', id: `${first}.${second}`, ...declared });
+          break;
+        case 'data':
+          if (first && second) blocks.push({ kind: 'data', id: `data.${first}.${second}`, ...declared });
+          break;
+        case 'module':
+          if (first) blocks.push({ kind: 'module', id: `module.${first}`, ...declared });
+          break;
+        case 'output':
+          if (first) blocks.push({ kind: 'output', id: `output.${first}`, ...declared });
+          break;
+        case 'locals':
+          for (const attribute of block.attributes) {
+            const { startLine, endLine } = attributeLocation({ file }, attribute);
+            blocks.push({ kind: 'local', id: `local.${attribute.name}`, attributes: [attribute], blocks: [], file, startLine, endLine });
+          }
+          break;
+      }
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Turn block references into dependencies. `expandedModules` lists module blocks whose
+ * local source was walked, so references to their outputs point into the subgraph.
+ */
+function extractDependencies(
+  blocks: TerraformBlock[],
+  prefix: string,
+  expandedModules: Set<string>,
+  moduleOutputs: Map<string, Set<string>> = new Map()
+): ParsedDependency[] {
+  const dependencies: ParsedDependency[] = [];
+
+  for (const block of blocks) {
+    const sourceId = `${prefix}${block.id}`;
+
+    if (block.kind === 'module') {
+      const source = block.attributes.find(attribute => attribute.name === 'source');
+      const sourceValue = source ? stringValue(source.tokens) : undefined;
+      // Registry and remote modules have no local subgraph; link to the module source instead
+      if (source && sourceValue && !expandedModules.has(block.id) && !isLocalSource(sourceValue)) {
+        const version = block.attributes.find(attribute => attribute.name === 'version');
+        dependencies.push({
+          source: sourceId,
+          target: sourceValue,
+          type: 'terraform_module',
+          metadata: { source: sourceValue, version: version ? stringValue(version.tokens) : undefined },
+          provenance: attributeLocation(block, source),
+        });
+      }
+    }
+
+    for (const { attribute, declaration, references } of blockReferences(block)) {
+      for (const reference of references) {
+        let targetId = `${prefix}${reference.id}`;
+        if (reference.kind === 'module' && reference.output && moduleOutputs.get(reference.id)?.has(reference.output)) {
+          targetId = `${prefix}${reference.id}.output.${reference.output}`;
+        }
+
+        // Skip self-references
+        if (targetId === sourceId) continue;
+
+        const metadata: Record<string, unknown> = { referenceType: reference.referenceType };
+        if (block.kind === 'module') metadata.input = attribute;
+        if (reference.output) metadata.output = reference.output;
+
+        dependencies.push({
+          source: sourceId,
+          target: targetId,
+          type: dependencyType(block.kind, reference),
+          metadata,
+          provenance: attributeLocation(block, declaration),
+        });
+      }
     }
   }
 
   return dependencies;
 }
 
+function dependencyType(sourceKind: BlockKind, reference: TerraformReference): DependencyType {
+  if (sourceKind === 'output') return 'terraform_output';
+  if (sourceKind === 'module') return 'terraform_module';
+  if (reference.kind === 'variable') return 'terraform_variable';
+  if (reference.kind === 'module') return 'terraform_module';
+  return 'terraform_resource';
+}
+
 /**
- * Extract resource references from a Terraform block body
+ * Collect references from every attribute of a block, including nested blocks
+ * (`ingress`, `dynamic`, `lifecycle`, ...), with the attribute declaring them and its
+ * top-level name
  */
-function extractReferences(body: string): string[] {
-  const references: string[] = [];
-  
-  // Match references like ${aws_instance.example.id} or aws_instance.example.id
-  const interpolationRegex = /\$\{([^}]+)\}/g;
-  let match;
-  
-  while ((match = interpolationRegex.exec(body)) !== null) {
-    const ref = match[1].trim();
-    const extracted = extractResourceRef(ref);
-    if (extracted) {
-      references.push(extracted);
+function blockReferences(block: TerraformBlock): Array<{ attribute: string; declaration: HclAttribute; references: TerraformReference[] }> {
+  const result: Array<{ attribute: string; declaration: HclAttribute; references: TerraformReference[] }> = [];
+  const iterators = new Set<string>();
+
+  const visitBlocks = (blocks: HclBlock[], attribute?: string) => {
+    for (const nested of blocks) {
+      // Dynamic blocks introduce an iterator named after the block (or `iterator`)
+      if (nested.type === 'dynamic' && nested.labels[0]) {
+        iterators.add(nested.labels[0]);
+        const iterator = nested.attributes.find(candidate => candidate.name === 'iterator');
+        const iteratorName = iterator?.tokens[0]?.value;
+        if (iteratorName) iterators.add(iteratorName);
+      }
+      for (const nestedAttribute of nested.attributes) {
+        result.push({
+          attribute: attribute ?? nested.type,
+          declaration: nestedAttribute,
+          references: extractReferences(nestedAttribute.tokens, iterators),
+        });
+      }
+      visitBlocks(nested.blocks, attribute ?? nested.type);
     }
+  };
+
+  visitBlocks(block.blocks);
+  for (const attribute of block.attributes) {
+    result.push({ attribute: attribute.name, declaration: attribute, references: extractReferences(attribute.tokens, iterators) });
   }
 
-  // Match direct references (HCL2 style): aws_instance.example.id
-  const directRefRegex = /(?:^|[^a-zA-Z0-9_])([a-z][a-z0-9_]*\.[a-z][a-z0-9_]*(?:\.[a-z][a-z0-9_]*)*)/g;
-  while ((match = directRefRegex.exec(body)) !== null) {
-    const ref = match[1];
-    // Filter out common non-resource patterns
-    if (!isCommonKeyword(ref)) {
-      references.push(ref);
+  return result;
+}
+
+/**
+ * Extract references (resource, data, module, var and local traversals) from expression tokens
+ */
+function extractReferences(tokens: HclToken[], iterators: Set<string>): TerraformReference[] {
+  const references = new Map<string, TerraformReference>();
+  const locals = new Set(iterators);
+
+  // Names bound by for expressions: [for k, v in ... : ...]
+  tokens.forEach((token, index) => {
+    if (token.type !== 'identifier' || token.value !== 'for') return;
+    for (let next = index + 1; next < tokens.length && tokens[next].value !== 'in'; next++) {
+      if (tokens[next].type === 'identifier') locals.add(tokens[next].value);
+    }
+  });
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    const previous = tokens[index - 1];
+    if (token.type !== 'identifier' || (previous?.type === 'punct' && previous.value === '.')) continue;
+
+    const parts = traversal(tokens, index);
+    const reference = classifyTraversal(parts, locals);
+    if (reference) {
+      references.set(`${reference.id}|${reference.output ?? ''}|${reference.referenceType}`, reference);
     }
   }
 
-  // Deduplicate
-  return [...new Set(references)];
+  return [...references.values()];
 }
 
 /**
- * Extract resource reference from an expression
+ * Read a traversal like `aws_instance.web[0].private_ip` starting at `start`; index
+ * brackets are skipped and splats kept as `*`
  */
-function extractResourceRef(expression: string): string | null {
-  // Handle simple references
-  const simpleMatch = expression.match(/^([a-z][a-z0-9_]*\.[a-z][a-z0-9_]*)/);
-  if (simpleMatch) {
-    return simpleMatch[1];
+function traversal(tokens: HclToken[], start: number): string[] {
+  const parts = [tokens[start].value];
+  let index = start + 1;
+
+  while (index < tokens.length) {
+    const token = tokens[index];
+    const next = tokens[index + 1];
+
+    if (token.type === 'punct' && token.value === '.' && next && (next.type === 'identifier' || next.type === 'number' || next.value === '*')) {
+      parts.push(next.value);
+      index += 2;
+    } else if (token.type === 'punct' && token.value === '[') {
+      let depth = 0;
+      do {
+        if (tokens[index].value === '[') depth++;
+        if (tokens[index].value === ']') depth--;
+        index++;
+      } while (index < tokens.length && depth > 0);
+    } else {
+      break;
+    }
   }
-  
-  // Handle data source references
-  const dataMatch = expression.match(/^(data\.[a-z][a-z0-9_]*\.[a-z][a-z0-9_]*)/);
-  if (dataMatch) {
-    return dataMatch[1];
+
+  return parts;
+}
+
+function classifyTraversal(parts: string[], locals: Set<string>): TerraformReference | undefined {
+  const [root, first, second] = parts;
+  if (!first || locals.has(root) || IGNORED_ROOTS.has(root)) return undefined;
+
+  switch (root) {
+    case 'var':
+      return { kind: 'variable', id: `var.${first}`, referenceType: referenceType(parts, 2) };
+    case 'local':
+      return { kind: 'variable', id: `local.${first}`, referenceType: referenceType(parts, 2) };
+    case 'module':
+      return { kind: 'module', id: `module.${first}`, output: second, referenceType: referenceType(parts, 3) };
+    case 'data':
+      return second
+        ? { kind: 'resource', id: `data.${first}.${second}`, referenceType: referenceType(parts, 3) }
+        : undefined;
   }
 
-  return null;
+  // Resource types are always provider-prefixed (aws_instance, google_sql_database, ...)
+  if (!root.includes('_') || /^\d/.test(first)) return undefined;
+
+  return { kind: 'resource', id: `${root}.${first}`, referenceType: referenceType(parts, 2) };
+}
+
+function referenceType(parts: string[], consumed: number): string {
+  return parts.length > consumed ? parts.slice(consumed).join('.') : 'direct';
 }
 
 /**
- * Check if a reference is a common Terraform keyword (not a resource)
+ * Resolve a module block's local source directory, if it has one
  */
-function isCommonKeyword(ref: string): boolean {
-  const keywords = [
-    'var.', 'local.', 'module.', 'count.', 'each.', 'self.',
-    'path.', 'terraform.', 'true.', 'false.', 'null.'
-  ];
-  return keywords.some(k => ref.startsWith(k));
+function localSource(dir: string, block: TerraformBlock): string | undefined {
+  const source = block.attributes.find(attribute => attribute.name === 'source');
+  const value = source ? stringValue(source.tokens) : undefined;
+  if (!value || !isLocalSource(value)) return undefined;
+
+  const resolved = path.posix.normalize(path.posix.join(dir, value)).replace(/\/$/, '');
+  return resolved === '.' ? '' : resolved;
+}
+
+function isLocalSource(source: string): boolean {
+  return source.startsWith('./') || source.startsWith('../');
+}
+
+/**
+ * The value of a plain string literal expression
+ */
+function stringValue(tokens: HclToken[]): string | undefined {
+  return tokens.length === 1 && tokens[0].type === 'string' ? tokens[0].value : undefined;
+}
+
+/**
+ * Where a block is declared
+ */
+function blockLocation(block: TerraformBlock): Provenance {
+  return { parser: 'terraform', file: block.file, startLine: block.startLine, endLine: block.endLine };
+}
+
+/**
+ * Where an attribute of a block is declared: its name through its expression's last token
+ */
+function attributeLocation(block: Pick<TerraformBlock, 'file'>, attribute: HclAttribute): Provenance & { startLine: number; endLine: number } {
+  const lastLine = attribute.tokens[attribute.tokens.length - 1]?.line ?? attribute.line;
+  return { parser: 'terraform', file: block.file, startLine: attribute.line, endLine: Math.max(lastLine, attribute.line) };
+}
+
+/**
+ * Parsed .tf files directly inside `dir`
+ */
+function loadModuleFiles(dir: string, files: Map<string, string>): TerraformFile[] {
+  return moduleFiles(dir, files).flatMap(filePath => {
+    const body = loadHcl(files.get(filePath)!);
+    return body ? [{ path: filePath, body }] : [];
+  });
+}
+
+/**
+ * .tf files directly inside `dir`
+ */
+function moduleFiles(dir: string, files: Map<string, string>): string[] {
+  return [...files.keys()].filter(filePath => {
+    const fileDir = path.posix.dirname(filePath);
+    return filePath.endsWith('.tf') && (fileDir === '.' ? '' : fileDir) === dir;
+  });
+}
+
+function loadHcl(content: string): HclBody | undefined {
+  try {
+    return parseHcl(content);
+  } catch (error) {
+    console.warn('Failed to parse Terraform file:', error instanceof Error ? error.message : 'Unknown error');
+    return undefined;
+  }
 }
@@ -0,0 +1,272 @@
+/**
+ * TOML parser - enough of TOML 1.0 to read pyproject.toml and Cargo.toml manifests
+ */
+import { lineLocator, type EntryRanges } from './yaml-lines.js';
+
+export type TomlTable = { [key: string]: TomlValue };
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+
+/**
+ * Parse a TOML document. Throws on malformed input. With `entries`, records the lines
+ * of each key/value pair (from its key to the end of its value), table header and
+ * array item, like the YAML loaders' `trackLineRanges`.
+ */
+export function parseToml(source: string, entries?: EntryRanges): TomlTable {
+  return new TomlParser(source, entries).parse();
+}
+
+class TomlParser {
+  private position = 0;
+  private root: TomlTable = {};
+  private current: TomlTable = this.root;
+  /** Entry of the current table header, extended over the table's key/value lines */
+  private header?: { container: object; key: string | number; start: number };
+  private lineAt: (offset: number) => number;
+
+  constructor(private source: string, private entries?: EntryRanges) {
+    this.lineAt = lineLocator(source);
+  }
+
+  parse(): TomlTable {
+    while (this.skipWhitespaceAndComments(true), this.position < this.source.length) {
+      if (this.peek() === '[') {
+        this.parseTableHeader();
+      } else {
+        this.parseKeyValue(this.current);
+        if (this.header) this.record(this.header.container, this.header.key, this.header.start);
+      }
+      this.expectLineEnd();
+    }
+    return this.root;
+  }
+
+  private parseTableHeader(): void {
+    const start = this.position;
+    const isArray = this.source.startsWith('[[', this.position);
+    this.position += isArray ? 2 : 1;
+    const keys = this.parseKey();
+    this.skipWhitespaceAndComments(false);
+    if (!this.source.startsWith(isArray ? ']]' : ']', this.position)) {
+      this.fail(`Expected ${isArray ? ']]' : ']'}`);
+    }
+    this.position += isArray ? 2 : 1;
+
+    if (isArray) {
+      const parent = this.descend(this.root, keys.slice(0, -1));
+      const last = keys[keys.length - 1];
+      if (!Array.isArray(parent[last])) parent[last] = [];
+      const table: TomlTable = {};
+      (parent[last] as TomlValue[]).push(table);
+      this.recordKeys(this.root, keys.slice(0, -1), start);
+      this.header = { container: parent[last] as TomlValue[], key: (parent[last] as TomlValue[]).length - 1, start };
+      this.record(this.header.container, this.header.key, start);
+      this.current = table;
+    } else {
+      this.current = this.descend(this.root, keys);
+      this.recordKeys(this.root, keys, start);
+      this.header = { container: this.descend(this.root, keys.slice(0, -1)), key: keys[keys.length - 1], start };
+    }
+  }
+
+  private parseKeyValue(table: TomlTable): void {
+    this.skipWhitespaceAndComments(false);
+    const start = this.position;
+    const keys = this.parseKey();
+    this.skipWhitespaceAndComments(false);
+    if (this.peek() !== '=') this.fail('Expected =');
+    this.position++;
+    this.skipWhitespaceAndComments(false);
+    const value = this.parseValue();
+    this.descend(table, keys.slice(0, -1))[keys[keys.length - 1]] = value;
+    this.recordKeys(table, keys, start);
+  }
+
+  /**
+   * Record each key of a dotted key in its table, spanning every line that extends it
+   */
+  private recordKeys(table: TomlTable, keys: string[], start: number): void {
+    keys.forEach((key, index) => this.record(this.descend(table, keys.slice(0, index)), key, start));
+  }
+
+  /**
+   * Record an entry read from `start` up to the current position
+   */
+  private record(container: object, key: string | number, start: number): void {
+    if (!this.entries) return;
+    let found = this.entries.get(container);
+    if (!found) {
+      found = new Map();
+      this.entries.set(container, found);
+    }
+    const startLine = this.lineAt(start);
+    const endLine = this.lineAt(Math.max(this.position - 1, start));
+    const previous = found.get(key);
+    found.set(key, previous ? { startLine: previous.startLine, endLine: Math.max(previous.endLine, endLine) } : { startLine, endLine });
+  }
+
+  /**
+   * Walk (creating as needed) nested tables; arrays of tables resolve to their last entry
+   */
+  private descend(table: TomlTable, keys: string[]): TomlTable {
+    let current = table;
+    for (const key of keys) {
+      let next = current[key];
+      if (Array.isArray(next)) next = next[next.length - 1];
+      if (!next || typeof next !== 'object') {
+        next = {};
+        current[key] = next;
+      }
+      current = next as TomlTable;
+    }
+    return current;
+  }
+
+  private parseKey(): string[] {
+    const keys: string[] = [];
+    for (;;) {
+      this.skipWhitespaceAndComments(false);
+      const char = this.peek();
+      if (char === '"' || char === "'") {
+        keys.push(this.parseString());
+      } else {
+        const match = /^[A-Za-z0-9_-]+/.exec(this.source.slice(this.position));
+        if (!match) this.fail('Expected key');
+        keys.push(match![0]);
+        this.position += match![0].length;
+      }
+      this.skipWhitespaceAndComments(false);
+      if (this.peek() !== '.') return keys;
+      this.position++;
+    }
+  }
+
+  private parseValue(): TomlValue {
+    const char = this.peek();
+    if (char === '"' || char === "'") return this.parseString();
+    if (char === '[') return this.parseArray();
+    if (char === '{') return this.parseInlineTable();
+
+    const match = /^[^\s,\]}#]+/.exec(this.source.slice(this.position));
+    if (!match) this.fail('Expected value');
+    const literal = match![0];
+    this.position += literal.length;
+
+    if (literal === 'true') return true;
+    if (literal === 'false') return false;
+    if (/^[+-]?(\d[\d_]*)(\.\d[\d_]*)?([eE][+-]?\d+)?$/.test(literal)) return Number(literal.replace(/_/g, ''));
+    // Dates, times, hex/octal numbers and inf/nan are kept as written
+    return literal;
+  }
+
+  private parseArray(): TomlValue[] {
+    const values: TomlValue[] = [];
+    this.position++;
+    for (;;) {
+      this.skipWhitespaceAndComments(true);
+      if (this.peek() === ']') {
+        this.position++;
+        return values;
+      }
+      const start = this.position;
+      values.push(this.parseValue());
+      this.record(values, values.length - 1, start);
+      this.skipWhitespaceAndComments(true);
+      if (this.peek() === ',') {
+        this.position++;
+      } else if (this.peek() !== ']') {
+        this.fail('Expected , or ]');
+      }
+    }
+  }
+
+  private parseInlineTable(): TomlTable {
+    const table: TomlTable = {};
+    this.position++;
+    for (;;) {
+      this.skipWhitespaceAndComments(true);
+      if (this.peek() === '}') {
+        this.position++;
+        return table;
+      }
+      this.parseKeyValue(table);
+      this.skipWhitespaceAndComments(true);
+      if (this.peek() === ',') {
+        this.position++;
+      } else if (this.peek() !== '}') {
+        this.fail('Expected , or }');
+      }
+    }
+  }
+
+  private parseString(): string {
+    const quote = this.peek();
+    const multiline = this.source.startsWith(quote.repeat(3), this.position);
+    const delimiter = multiline ? quote.repeat(3) : quote;
+    this.position += delimiter.length;
+    // A newline right after the opening delimiter is trimmed
+    if (multiline && this.source[this.position] === '\n') this.position++;
+
+    let value = '';
+    for (;;) {
+      if (this.position >= this.source.length) this.fail('Unterminated string');
+      if (this.source.startsWith(delimiter, this.position)) {
+        this.position += delimiter.length;
+        return value;
+      }
+      const char = this.source[this.position++];
+      if (char === '\n' && !multiline) this.fail('Newline in string');
+      if (char === '\\' && quote === '"') {
+        value += this.parseEscape();
+      } else {
+        value += char;
+      }
+    }
+  }
+
+  private parseEscape(): string {
+    const char = this.source[this.position++];
+    const simple: Record<string, string> = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', '"': '"', '\\': '\\' };
+    if (char in simple) return simple[char];
+    if (char === 'u' || char === 'U') {
+      const length = char === 'u' ? 4 : 8;
+      const code = parseInt(this.source.slice(this.position, this.position + length), 16);
+      this.position += length;
+      return String.fromCodePoint(code);
+    }
+    if (/\s/.test(char)) {
+      // Line-ending backslash: skip the newline and leading whitespace
+      while (/\s/.test(this.source[this.position] ?? '')) this.position++;
+      return '';
+    }
+    return char;
+  }
+
+  private skipWhitespaceAndComments(newlines: boolean): void {
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+      if (char === ' ' || char === '\t' || char === '\r' || (newlines && char === '\n')) {
+        this.position++;
+      } else if (char === '#') {
+        while (this.position < this.source.length && this.source[this.position] !== '\n') this.position++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private expectLineEnd(): void {
+    this.skipWhitespaceAndComments(false);
+    if (this.position < this.source.length && this.peek() !== '\n') {
+      this.fail('Expected end of line');
+    }
+  }
+
+  private peek(): string {
+    return this.source[this.position];
+  }
+
+  private fail(message: string): never {
+    const line = this.source.slice(0, this.position).split('\n').length;
+    throw new Error(`${message} at line ${line}`);
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Monorepo workspace resolver - links npm, yarn and pnpm workspace packages to each other
+ */
+import path from 'path';
+import yaml from 'js-yaml';
+import { parsePackageJson } from './package-json.js';
+import type { ParsedDependency, SourceFile } from '../types.js';
+
+export const PNPM_WORKSPACE_FILENAME = 'pnpm-workspace.yaml';
+
+interface WorkspaceMember {
+  /** package.json path */
+  file: string;
+  dir: string;
+  name: string;
+  version?: string;
+  private?: boolean;
+  content: string;
+}
+
+/**
+ * Workspace globs declared by a root package.json (`workspaces` as an array or
+ * yarn's `{ packages }` form) or pnpm-workspace.yaml. Undefined when the file
+ * declares no workspaces.
+ */
+export function workspacePatterns(fileName: string, content: string): string[] | undefined {
+  try {
+    if (fileName === PNPM_WORKSPACE_FILENAME) {
+      const packages = (yaml.load(content) as { packages?: unknown } | undefined)?.packages;
+      return Array.isArray(packages) ? packages.filter((item): item is string => typeof item === 'string') : undefined;
+    }
+    const workspaces = (JSON.parse(content) as { workspaces?: unknown }).workspaces;
+    const packages = Array.isArray(workspaces) ? workspaces : (workspaces as { packages?: unknown } | undefined)?.packages;
+    return Array.isArray(packages) ? packages.filter((item): item is string => typeof item === 'string') : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a root-relative package directory matches the workspace globs.
+ * `!` patterns exclude, as in pnpm-workspace.yaml.
+ */
+export function matchesWorkspace(dir: string, patterns: string[]): boolean {
+  let matched = false;
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith('!');
+    if (globToRegExp(negated ? pattern.slice(1) : pattern).test(dir)) {
+      matched = !negated;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Parse every package.json in a workspace. Dependencies between member packages
+ * become `npm_workspace` edges and members become service nodes; members without
+ * a name are named after their directory.
+ */
+export async function parseWorkspace(
+  rootDir: string,
+  files: SourceFile[],
+  patterns: string[]
+): Promise<ParsedDependency[]> {
+  const dependencies: ParsedDependency[] = [];
+  const members = new Map<string, WorkspaceMember>();
+
+  for (const file of files.filter(file => path.posix.basename(file.path) === 'package.json')) {
+    const dir = path.posix.relative(rootDir, path.posix.dirname(file.path)) || '.';
+    if (dir !== '.' && !matchesWorkspace(dir, patterns)) continue;
+
+    let pkg: { name?: string; version?: string; private?: boolean };
+    try {
+      pkg = JSON.parse(file.content);
+    } catch (error) {
+      console.warn(`Failed to parse ${file.path}:`, error instanceof Error ? error.message : 'Unknown error');
+      continue;
+    }
+    const name = pkg.name || (dir === '.' ? path.posix.basename(rootDir) || 'workspace-root' : dir);
+    members.set(name, { file: file.path, dir, name, version: pkg.version, private: pkg.private, content: file.content });
+  }
+
+  const memberDirs = new Map([...members.values()].map(member => [member.dir, member]));
+  const nodeHint = (member: WorkspaceMember) => ({
+    type: 'service' as const,
+    metadata: { workspace: rootDir || '.', path: path.posix.join(rootDir, member.dir), version: member.version, private: member.private },
+  });
+
+  for (const member of members.values()) {
+    for (const dep of await parsePackageJson(member.content)) {
+      const provenance = { ...dep.provenance, parser: 'workspaces', file: member.file };
+      const version = String(dep.metadata?.version ?? '');
+      const internal = resolveMember(dep.target, version, member, members, memberDirs);
+
+      if (!internal) {
+        dependencies.push({ ...dep, source: member.name, sourceNode: nodeHint(member), provenance });
+        continue;
+      }
+
+      dependencies.push({
+        source: member.name,
+        target: internal.name,
+        type: 'npm_workspace',
+        metadata: {
+          ...dep.metadata,
+          protocol: /^(workspace|link|file|portal):/.exec(version)?.[1],
+          resolvedVersion: resolveWorkspaceVersion(version, internal.version),
+        },
+        sourceNode: nodeHint(member),
+        targetNode: nodeHint(internal),
+        provenance,
+      });
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Find the member a dependency refers to: by name, by `workspace:` alias, or by
+ * a `link:`/`file:`/`portal:` path into the workspace
+ */
+function resolveMember(
+  target: string,
+  version: string,
+  member: WorkspaceMember,
+  members: Map<string, WorkspaceMember>,
+  memberDirs: Map<string, WorkspaceMember>
+): WorkspaceMember | undefined {
+  const protocol = /^(workspace|link|file|portal):(.*)$/.exec(version);
+  if (protocol && (protocol[2].startsWith('.') || protocol[2].startsWith('/'))) {
+    const dir = path.posix.normalize(path.posix.join(member.dir, protocol[2])).replace(/\/+$/, '');
+    const linked = memberDirs.get(dir || '.');
+    if (linked) return linked;
+  }
+  // `"alias": "workspace:@acme/shared@*"`
+  const aliased = protocol?.[1] === 'workspace' ? /^(@?[^@]+)@/.exec(protocol[2])?.[1] : undefined;
+  return members.get(aliased ?? target);
+}
+
+/**
+ * The range a `workspace:` dependency publishes as: `*` pins the member's version,
+ * `^`/`~` prefix it, explicit ranges are kept
+ */
+function resolveWorkspaceVersion(version: string, memberVersion: string | undefined): string | undefined {
+  const range = /^workspace:(?:@?[^@]+@)?(.*)$/.exec(version)?.[1];
+  if (range === undefined) return undefined;
+  if (range === '*' || range === '') return memberVersion;
+  if (range === '^' || range === '~') return memberVersion ? `${range}${memberVersion}` : undefined;
+  return range.startsWith('.') ? memberVersion : range;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+  let source = '';
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (char === '*' && normalized[i + 1] === '*') {
+      // `**/` matches zero or more directories
+      source += normalized[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += normalized[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
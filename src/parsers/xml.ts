@@ -0,0 +1,115 @@
+/**
+ * Minimal XML reader - builds an element tree for project files (pom.xml, *.csproj)
+ */
+import { lineLocator } from './yaml-lines.js';
+
+export interface XmlElement {
+  /** Local name, without any namespace prefix */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+  /** 1-based lines from the start tag to the end tag */
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Parse an XML document into its root element. Throws on mismatched tags.
+ */
+export function parseXml(source: string): XmlElement {
+  const document: XmlElement = { name: '#document', attributes: {}, children: [], text: '', startLine: 1, endLine: 1 };
+  const stack: XmlElement[] = [document];
+
+  // Removed markup keeps its newlines so elements keep their lines
+  const newlines = (markup: string) => markup.replace(/[^\n]/g, '');
+  const cleaned = source
+    .replace(/<!--[\s\S]*?-->/g, newlines)
+    .replace(/<\?[\s\S]*?\?>/g, newlines)
+    .replace(/<!DOCTYPE[^>]*>/gi, newlines);
+  const lineAt = lineLocator(cleaned);
+
+  const tagPattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  let last = 0;
+  for (const match of cleaned.matchAll(tagPattern)) {
+    const parent = stack[stack.length - 1];
+    parent.text += decodeEntities(cleaned.slice(last, match.index));
+    last = match.index! + match[0].length;
+
+    if (match[1] !== undefined) {
+      parent.text += match[1];
+      continue;
+    }
+
+    const [, , closing, qualifiedName, rawAttributes, selfClosing] = match;
+    const name = qualifiedName.split(':').pop()!;
+
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.name !== name || stack.length === 0) {
+        throw new Error(`Unexpected closing tag </${qualifiedName}>`);
+      }
+      open.text = open.text.trim();
+      open.endLine = lineAt(last - 1);
+      continue;
+    }
+
+    const element: XmlElement = {
+      name,
+      attributes: {},
+      children: [],
+      text: '',
+      startLine: lineAt(match.index!),
+      endLine: lineAt(last - 1),
+    };
+    for (const attribute of rawAttributes.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      element.attributes[attribute[1].split(':').pop()!] = decodeEntities(attribute[2] ?? attribute[3]);
+    }
+    parent.children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  if (stack.length !== 1) {
+    throw new Error(`Unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+  const root = document.children[0];
+  if (!root) {
+    throw new Error('No root element');
+  }
+  return root;
+}
+
+/**
+ * First child element with the given name
+ */
+export function xmlChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(child => child.name === name);
+}
+
+/**
+ * Text of the first child element with the given name
+ */
+export function xmlText(element: XmlElement | undefined, name: string): string | undefined {
+  return xmlChild(element, name)?.text || undefined;
+}
+
+/**
+ * All descendants with the given name, in document order
+ */
+export function xmlDescendants(element: XmlElement, name: string): XmlElement[] {
+  return element.children.flatMap(child => [
+    ...(child.name === name ? [child] : []),
+    ...xmlDescendants(child, name),
+  ]);
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_match, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
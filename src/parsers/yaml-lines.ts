@@ -0,0 +1,103 @@
+/**
+ * YAML line tracking - records where js-yaml read each mapping and sequence. The line
+ * lookup is shared with the parsers that read other formats by offset.
+ */
+import type { EventType, State } from 'js-yaml';
+
+export interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Where the entries of loaded mappings and sequences were read: a mapping entry spans
+ * its key and value, keyed by the key; a sequence item is keyed by its index
+ */
+export type EntryRanges = Map<object, Map<string | number, LineRange>>;
+
+interface ReadNode {
+  result: unknown;
+  range: LineRange;
+}
+
+/**
+ * A js-yaml `listener` that fills `ranges` with the 1-based line range of every object
+ * and array built while loading `content`, keyed by the built value. A mapping value
+ * starts on its key's line; aliases keep the range of their anchor. With `entries`,
+ * it also records each mapping entry and sequence item (scalars included).
+ * JSON loads the same way, since js-yaml reads it as flow YAML.
+ */
+export function trackLineRanges(
+  content: string,
+  ranges: Map<object, LineRange>,
+  entries?: EntryRanges
+): (event: EventType, state: State) => void {
+  const lines = content.split('\n');
+  const lineOf = lineLocator(content);
+  // Nodes being read, each with the child nodes (keys, values, items) read so far
+  const opened: Array<{ startLine: number; children: ReadNode[] }> = [];
+
+  return (event, state) => {
+    if (event === 'open') {
+      opened.push({ startLine: state.line + 1, children: [] });
+      return;
+    }
+
+    const { startLine, children } = opened.pop() ?? { startLine: state.line + 1, children: [] };
+    const result: unknown = state.result;
+
+    // The loader stops at the next token: step back over the whitespace, blank lines
+    // and comments before it
+    let end = state.position;
+    while (end > 0 && /\s/.test(content[end - 1])) end--;
+    let endLine = lineOf(Math.max(end - 1, 0));
+    while (endLine > startLine && /^\s*(#.*)?$/.test(lines[endLine - 1])) endLine--;
+    const range = { startLine, endLine: Math.max(endLine, startLine) };
+    opened[opened.length - 1]?.children.push({ result, range });
+
+    if (!result || typeof result !== 'object' || ranges.has(result)) return;
+    ranges.set(result, range);
+    if (entries) entries.set(result, entryRanges(result, children));
+  };
+}
+
+/**
+ * Pair a node's children with its entries: sequence items in order, mapping keys with
+ * the value read after them
+ */
+function entryRanges(result: object, children: ReadNode[]): Map<string | number, LineRange> {
+  const found = new Map<string | number, LineRange>();
+  if (Array.isArray(result)) {
+    children.slice(0, result.length).forEach((child, index) => found.set(index, child.range));
+    return found;
+  }
+
+  for (let index = 0; index < children.length; index += 2) {
+    const key = children[index];
+    if (key.result === null || typeof key.result === 'object') continue;
+    const value = children[index + 1];
+    found.set(String(key.result), { startLine: key.range.startLine, endLine: value?.range.endLine ?? key.range.endLine });
+  }
+  return found;
+}
+
+/**
+ * Maps an offset in `content` to its 1-based line: the last line starting at or before it
+ */
+export function lineLocator(content: string): (offset: number) => number {
+  const lineStarts = [0];
+  for (let index = content.indexOf('\n'); index !== -1; index = content.indexOf('\n', index + 1)) {
+    lineStarts.push(index + 1);
+  }
+
+  return offset => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+}
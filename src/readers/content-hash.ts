@@ -0,0 +1,13 @@
+/**
+ * Content hashes for incremental rescans
+ */
+import { createHash } from 'crypto';
+
+/**
+ * Git blob SHA-1 of a file's content, the same hash GitHub's tree API reports, so
+ * local and GitHub scans can be compared with what a previous scan read
+ */
+export function contentHash(content: string): string {
+  const body = Buffer.from(content, 'utf-8');
+  return createHash('sha1').update(`blob ${body.length}\0`).update(body).digest('hex');
+}
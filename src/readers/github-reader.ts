@@ -2,10 +2,13 @@
  * GitHub repository reader - reads files from GitHub repositories
  */
 import { Octokit } from '@octokit/rest';
+import { contentHash } from './content-hash.js';
 
 interface FileInfo {
   path: string;
   content: string;
+  /** Git blob SHA */
+  hash: string;
 }
 
 interface GitHubTree {
@@ -24,10 +27,31 @@ interface GitHubTree {
 
 const SUPPORTED_PATTERNS = [
   /\.tf$/,                    // Terraform
+  /\.tfstate$/,               // Terraform state
+  /tfplan\.json$/,            // Terraform plan (terraform show -json)
+  /\.template$/,              // CloudFormation templates
+  /(template|cfn|cloudformation|stack)[\w.-]*\.json$/i, // CloudFormation JSON templates
+  /\.bicep$/,                 // Azure Bicep
+  /(azuredeploy|mainTemplate|arm)[\w.-]*\.json$/i, // Azure ARM templates
+  /(openapi|swagger|asyncapi)[\w.-]*\.json$/i, // API contracts
+  /\.proto$/,                 // Protobuf / gRPC
   /docker-compose\.ya?ml$/,   // Docker Compose
+  /^\.env$/,                  // Docker Compose interpolation variables
+  /^Dockerfile(\..+)?$/,      // Dockerfile, Dockerfile.prod
+  /\.dockerfile$/i,           // api.dockerfile
   /\.ya?ml$/,                 // Kubernetes manifests
   /CODEOWNERS$/,              // GitHub CODEOWNERS
   /package\.json$/,           // NPM package
+  /(package-lock|npm-shrinkwrap)\.json$/, // npm lockfiles
+  /yarn\.lock$/,              // Yarn lockfile
+  /go\.mod$/,                 // Go modules
+  /requirements[\w.-]*\.txt$/i, // Python requirements
+  /pyproject\.toml$/,         // Python project
+  /Cargo\.toml$/,             // Rust crate
+  /pom\.xml$/,                // Maven
+  /build\.gradle(\.kts)?$/,   // Gradle
+  /\.csproj$/i,               // .NET project
+  /\.tpl$/,                   // Helm template helpers
 ];
 
 const IGNORE_PATHS = [
@@ -45,6 +69,8 @@ export class GitHubReader {
   private owner: string;
   private repo: string;
   private branch: string;
+  private commitSha?: string;
+  private downloadedFiles = 0;
 
   constructor(repoUrl: string, branch: string = 'main', token?: string) {
     this.octokit = new Octokit({
@@ -81,15 +107,21 @@ export class GitHubReader {
   }
 
   /**
-   * Read all supported files from the repository
+   * Read all supported files from the repository. Files whose blob SHA matches one
+   * in `cachedFiles` (from a previous scan) with its content are taken from there
+   * instead of fetched.
    */
-  async readFiles(): Promise<FileInfo[]> {
+  async readFiles(cachedFiles: Array<Omit<FileInfo, 'content'> & { content?: string }> = []): Promise<FileInfo[]> {
+    const cached = new Map(cachedFiles.map(file => [file.path, file]));
+
     // Get the tree for the branch
     const { data: ref } = await this.octokit.git.getRef({
       owner: this.owner,
       repo: this.repo,
       ref: `heads/${this.branch}`,
     });
+    // Pin every read to one commit so provenance links match the scanned content
+    this.commitSha = ref.object.sha;
 
     const { data: tree } = await this.octokit.git.getTree({
       owner: this.owner,
@@ -108,11 +140,19 @@ export class GitHubReader {
     // Read file contents in parallel (with concurrency limit)
     const files: FileInfo[] = [];
     const batchSize = 10;
+    this.downloadedFiles = 0;
 
     for (let i = 0; i < supportedFiles.length; i += batchSize) {
       const batch = supportedFiles.slice(i, i + batchSize);
       const batchResults = await Promise.all(
-        batch.map(item => this.readFile(item.path!))
+        batch.map(item => {
+          const previous = cached.get(item.path!);
+          if (previous?.content !== undefined && previous.hash === item.sha) {
+            return Promise.resolve({ path: previous.path, content: previous.content, hash: previous.hash });
+          }
+          this.downloadedFiles++;
+          return this.readFile(item.path!);
+        })
       );
       
       for (const result of batchResults) {
@@ -125,6 +165,14 @@ export class GitHubReader {
     return files;
   }
 
+  /**
+   * Number of files the last `readFiles` call fetched from GitHub instead of taking
+   * from its cached files
+   */
+  getDownloadedFileCount(): number {
+    return this.downloadedFiles;
+  }
+
   /**
    * Read a single file from GitHub
    */
@@ -134,12 +182,12 @@ export class GitHubReader {
         owner: this.owner,
         repo: this.repo,
         path: filePath,
-        ref: this.branch,
+        ref: this.commitSha ?? this.branch,
       });
 
       if ('content' in data && data.encoding === 'base64') {
         const content = Buffer.from(data.content, 'base64').toString('utf-8');
-        return { path: filePath, content };
+        return { path: filePath, content, hash: data.sha ?? contentHash(content) };
       }
 
       return null;
@@ -164,13 +212,23 @@ export class GitHubReader {
   }
 
   /**
-   * Get repository info
+   * Get repository info. `commitSha` is set once files have been read.
    */
-  getRepoInfo(): { owner: string; repo: string; branch: string } {
+  getRepoInfo(): { owner: string; repo: string; branch: string; commitSha?: string } {
     return {
       owner: this.owner,
       repo: this.repo,
       branch: this.branch,
+      commitSha: this.commitSha,
     };
   }
+
+  /**
+   * Link to a file (and line range) at the scanned commit
+   */
+  getFileUrl(filePath: string, startLine?: number, endLine?: number): string {
+    const lines = startLine === undefined ? '' : endLine !== undefined && endLine !== startLine ? `#L${startLine}-L${endLine}` : `#L${startLine}`;
+    const encodedPath = filePath.split('/').map(encodeURIComponent).join('/');
+    return `https://github.com/${this.owner}/${this.repo}/blob/${this.commitSha ?? this.branch}/${encodedPath}${lines}`;
+  }
 }
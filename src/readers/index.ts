@@ -3,3 +3,4 @@
  */
 export { LocalReader } from './local-reader.js';
 export { GitHubReader } from './github-reader.js';
+export { contentHash } from './content-hash.js';
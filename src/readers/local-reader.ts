@@ -3,18 +3,41 @@
  */
 import fs from 'fs/promises';
 import path from 'path';
+import { contentHash } from './content-hash.js';
 
 interface FileInfo {
   path: string;
   content: string;
+  hash: string;
 }
 
 const SUPPORTED_PATTERNS = [
   /\.tf$/,                    // Terraform
+  /\.tfstate$/,               // Terraform state
+  /tfplan\.json$/,            // Terraform plan (terraform show -json)
+  /\.template$/,              // CloudFormation templates
+  /(template|cfn|cloudformation|stack)[\w.-]*\.json$/i, // CloudFormation JSON templates
+  /\.bicep$/,                 // Azure Bicep
+  /(azuredeploy|mainTemplate|arm)[\w.-]*\.json$/i, // Azure ARM templates
+  /(openapi|swagger|asyncapi)[\w.-]*\.json$/i, // API contracts
+  /\.proto$/,                 // Protobuf / gRPC
   /docker-compose\.ya?ml$/,   // Docker Compose
+  /^\.env$/,                  // Docker Compose interpolation variables
+  /^Dockerfile(\..+)?$/,      // Dockerfile, Dockerfile.prod
+  /\.dockerfile$/i,           // api.dockerfile
   /\.ya?ml$/,                 // Kubernetes manifests (filtered later)
   /CODEOWNERS$/,              // GitHub CODEOWNERS
   /package\.json$/,           // NPM package
+  /(package-lock|npm-shrinkwrap)\.json$/, // npm lockfiles
+  /yarn\.lock$/,              // Yarn lockfile
+  /go\.mod$/,                 // Go modules
+  /requirements[\w.-]*\.txt$/i, // Python requirements
+  /pyproject\.toml$/,         // Python project
+  /Cargo\.toml$/,             // Rust crate
+  /pom\.xml$/,                // Maven
+  /build\.gradle(\.kts)?$/,   // Gradle
+  /\.csproj$/i,               // .NET project
+  /\.tpl$/,                   // Helm template helpers
 ];
 
 const IGNORE_DIRS = [
@@ -90,7 +113,7 @@ export class LocalReader {
   ): Promise<void> {
     try {
       const content = await fs.readFile(fullPath, 'utf-8');
-      files.push({ path: relativePath, content });
+      files.push({ path: relativePath, content, hash: contentHash(content) });
     } catch {
       // Skip files we can't read
     }
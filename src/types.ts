@@ -7,19 +7,86 @@ export interface ParsedDependency {
   target: string;
   type: DependencyType;
   metadata?: Record<string, unknown>;
+  sourceNode?: NodeHint;
+  targetNode?: NodeHint;
+  provenance?: Provenance;
 }
 
+/**
+ * Where a dependency was found. Line ranges are 1-based and inclusive.
+ */
+export interface Provenance {
+  /** Parser that produced the dependency, e.g. `kubernetes` */
+  parser: string;
+  /** File path relative to the scan root */
+  file?: string;
+  startLine?: number;
+  endLine?: number;
+  /** Link to the file at the scanned commit (GitHub scans) */
+  url?: string;
+}
+
+/**
+ * Node details a parser knows better than the builder can infer from the ID
+ */
+export interface NodeHint {
+  type?: NodeType;
+  name?: string;
+  metadata?: Record<string, unknown>;
+  /** Where each variable in `metadata.envEndpoints` is set, for inferred calls' provenance */
+  envLocations?: Record<string, Provenance | undefined>;
+}
+
+export type PlannedAction = 'create' | 'update' | 'delete' | 'replace' | 'read' | 'no-op';
+
 export type DependencyType =
   | 'terraform_resource'
+  | 'terraform_module'
+  | 'terraform_variable'
+  | 'terraform_output'
+  | 'terraform_provider'
+  | 'cloudformation_resource'
+  | 'azure_resource'
+  | 'azure_module'
   | 'docker_depends_on'
   | 'docker_network'
+  | 'docker_volume'
+  | 'docker_build'
+  | 'docker_image'
+  | 'docker_base_image'
+  | 'docker_build_stage'
   | 'k8s_service'
   | 'k8s_deployment'
   | 'k8s_configmap'
   | 'k8s_secret'
+  | 'k8s_route'
+  | 'k8s_traffic_policy'
+  | 'k8s_external'
+  | 'k8s_network_allow'
+  | 'k8s_scales'
+  | 'k8s_disruption_budget'
   | 'npm_dependency'
   | 'npm_devDependency'
+  | 'npm_workspace'
+  | 'go_dependency'
+  | 'python_dependency'
+  | 'cargo_dependency'
+  | 'maven_dependency'
+  | 'nuget_dependency'
   | 'codeowner'
+  | 'owns'
+  | 'backstage_depends_on'
+  | 'helm_dependency'
+  | 'helm_resource'
+  | 'inferred_call'
+  | 'api_provider'
+  | 'api_consumer'
+  | 'ci_job'
+  | 'ci_needs'
+  | 'ci_uses_workflow'
+  | 'ci_action'
+  | 'ci_environment'
+  | 'ci_deploys'
   | 'unknown';
 
 export interface GraphNode {
@@ -27,6 +94,8 @@ export interface GraphNode {
   name: string;
   type: NodeType;
   metadata: Record<string, unknown>;
+  /** Every place a dependency involving this node was found */
+  provenance?: Provenance[];
 }
 
 export type NodeType =
@@ -35,11 +104,32 @@ export type NodeType =
   | 'queue'
   | 'api'
   | 'terraform_resource'
+  | 'terraform_module'
+  | 'terraform_variable'
+  | 'terraform_output'
+  | 'terraform_provider'
+  | 'cloudformation_resource'
+  | 'azure_resource'
   | 'docker_service'
+  | 'dockerfile'
+  | 'docker_image'
   | 'k8s_deployment'
   | 'k8s_service'
+  | 'k8s_network'
+  | 'external'
   | 'npm_package'
+  | 'go_module'
+  | 'python_package'
+  | 'cargo_crate'
+  | 'maven_artifact'
+  | 'nuget_package'
   | 'team'
+  | 'system'
+  | 'helm_chart'
+  | 'ci_workflow'
+  | 'ci_job'
+  | 'ci_action'
+  | 'ci_environment'
   | 'unknown';
 
 export interface GraphEdge {
@@ -48,6 +138,8 @@ export interface GraphEdge {
   target: string;
   type: DependencyType;
   metadata?: Record<string, unknown>;
+  /** Every place this dependency was found, when duplicates were merged */
+  provenance?: Provenance[];
 }
 
 export interface DependencyGraph {
@@ -57,15 +149,93 @@ export interface DependencyGraph {
   edges: GraphEdge[];
   metadata: {
     createdAt: string;
-    sourceType: 'github' | 'local';
+    sourceType: 'github' | 'local' | 'import';
     sourcePath: string;
+    /** Branch the graph was scanned from (GitHub scans) */
+    branch?: string;
+    /** Commit the graph was scanned at (GitHub scans) */
+    commitSha?: string;
+    /** Content hash (git blob SHA) of every scanned file, by path */
+    fileHashes?: Record<string, string>;
   };
 }
 
+/**
+ * Snapshots kept per project. The latest snapshot is never pruned.
+ */
+export interface RetentionPolicy {
+  /** Keep at most this many snapshots, newest first */
+  maxSnapshots?: number;
+  /** Prune snapshots older than this many days */
+  maxAgeDays?: number;
+}
+
+/**
+ * One scan of a project; its ID is the stored graph's ID
+ */
+export interface SnapshotSummary {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: string;
+  commitSha?: string;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+/**
+ * Every scan of one source (sourceType + sourcePath + branch)
+ */
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  sourceType: DependencyGraph['metadata']['sourceType'];
+  sourcePath: string;
+  branch?: string;
+  /** Overrides of the server's default retention policy */
+  retention: RetentionPolicy;
+  snapshotCount: number;
+  latestSnapshot?: SnapshotSummary;
+}
+
+export interface SourceFile {
+  path: string; // relative to the scan root
+  content: string;
+  hash?: string; // git blob SHA of the content; computed when missing
+}
+
+/**
+ * What a source's latest scan read and parsed, reused by an incremental rescan
+ */
+export interface ScanCache {
+  /** Files by hash; contents are only kept where a rescan reads them instead of downloading */
+  files: Array<{ path: string; hash: string; content?: string }>;
+  /** Dependencies of each parse unit, by unit key */
+  units: Map<string, ParsedDependency[]>;
+}
+
 export interface ScanRequest {
   type: 'github' | 'local';
   path: string; // repo url or local path
   branch?: string; // for github
+  helmValues?: string[]; // Helm values overlays, e.g. ['prod']
+  kustomizeOverlay?: string; // Kustomization directory to build, e.g. 'overlays/prod'
+  composeProfiles?: string[]; // Active Docker Compose profiles, e.g. ['debug']
+  protoPackagePattern?: string; // Regex mapping proto packages to owning services
+  kubeCluster?: string; // Cluster name added to Kubernetes node IDs, e.g. 'prod-eu'
+  entityResolution?: EntityResolutionOptions; // Rules unifying one service's nodes across sources
+  incremental?: boolean; // Reuse unchanged files' parse results from the previous scan (default true)
+}
+
+export interface EntityResolutionOptions {
+  /** Explicit aliases by entity name, e.g. `{ orders: ['Deployment/default/orders', '@acme/orders'] }` */
+  aliases?: Record<string, string[]>;
+  /** Kubernetes labels naming the service a workload belongs to, checked in order */
+  labelKeys?: string[];
+  /** Path globs mapped to entities; a `*` segment is the entity name unless `entity` is set */
+  pathMappings?: Array<{ path: string; entity?: string }>;
+  /** Suffixes dropped when normalizing names, e.g. `orders-service` -> `orders` */
+  stripSuffixes?: string[];
 }
 
 export interface ScanResult {
@@ -99,6 +269,58 @@ export interface CouplingResult {
   reasons: string[];
 }
 
+export interface PlanImpactResult {
+  /** Nodes with a pending create/update/delete/replace */
+  changedNodes: GraphNode[];
+  /** Nodes that depend on a changed node, directly or transitively */
+  affectedNodes: GraphNode[];
+  impactLevel: BlastRadiusResult['impactLevel'];
+}
+
+export interface VersionDriftResult {
+  /** Packages resolved to more than one version, most versions first */
+  packages: Array<{
+    package: string;
+    versions: Array<{
+      version: string;
+      /** Packages whose dependency resolved to this version */
+      dependents: string[];
+    }>;
+  }>;
+}
+
+export interface ProvenanceResult {
+  /** The node or edge asked about */
+  node?: Pick<GraphNode, 'id' | 'name' | 'type'>;
+  edge?: Pick<GraphEdge, 'id' | 'source' | 'target' | 'type'>;
+  provenance: Provenance[];
+}
+
+export interface MetadataChange {
+  /** `name`, `type` or `metadata.<key>` */
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface GraphDiffResult {
+  /** The graph compared from */
+  baseGraphId: string;
+  /** The graph compared to; added elements are in it but not in the base */
+  headGraphId: string;
+  nodes: {
+    added: GraphNode[];
+    removed: GraphNode[];
+    changed: Array<{ id: string; before: GraphNode; after: GraphNode; changes: MetadataChange[] }>;
+  };
+  edges: {
+    added: GraphEdge[];
+    removed: GraphEdge[];
+    /** Keyed by `source|target|type`, since edge IDs differ between scans */
+    changed: Array<{ key: string; before: GraphEdge; after: GraphEdge; changes: MetadataChange[] }>;
+  };
+}
+
 export interface CycleResult {
   cycles: GraphNode[][];
   severity: 'warning' | 'error';
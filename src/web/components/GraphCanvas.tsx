@@ -2,12 +2,17 @@
  * Graph Canvas component - Cytoscape.js visualization
  */
 import React, { useRef, useEffect, useCallback, useState } from 'react';
-import cytoscape, { Core, NodeSingular } from 'cytoscape';
+import cytoscape, { Core, EdgeSingular, NodeSingular } from 'cytoscape';
+
+export type DiffStatus = 'added' | 'removed' | 'changed';
 
 interface GraphNode {
   id: string;
   name: string;
   type: string;
+  metadata?: Record<string, unknown>;
+  /** Set when showing a diff against another graph */
+  diffStatus?: DiffStatus;
 }
 
 interface GraphEdge {
@@ -15,6 +20,7 @@ interface GraphEdge {
   source: string;
   target: string;
   type: string;
+  diffStatus?: DiffStatus;
 }
 
 interface GraphData {
@@ -37,26 +43,99 @@ const nodeColors: Record<string, string> = {
   queue: '#ffc107',
   api: '#6f42c1',
   terraform_resource: '#7950f2',
+  terraform_module: '#5c2fd6',
+  terraform_variable: '#b197fc',
+  terraform_output: '#9775fa',
+  terraform_provider: '#3b2a8c',
+  cloudformation_resource: '#ff9900',
+  azure_resource: '#0078d4',
   docker_service: '#0db7ed',
+  dockerfile: '#066da5',
+  docker_image: '#384d54',
   k8s_deployment: '#326ce5',
   k8s_service: '#4a9eff',
+  k8s_network: '#466bb0',
+  external: '#adb5bd',
   npm_package: '#cb3837',
+  go_module: '#00add8',
+  python_package: '#3776ab',
+  cargo_crate: '#dea584',
+  maven_artifact: '#c71a36',
+  nuget_package: '#004880',
   team: '#e91e63',
+  system: '#795548',
+  helm_chart: '#0f1689',
+  ci_workflow: '#2088ff',
+  ci_job: '#58a6ff',
+  ci_action: '#8b949e',
+  ci_environment: '#1a7f37',
   unknown: '#6c757d',
 };
 
+// Border colors for pending changes from an imported Terraform plan
+const plannedActionColors: Record<string, string> = {
+  create: '#2f9e44',
+  update: '#f59f00',
+  replace: '#e8590c',
+  delete: '#e03131',
+};
+
+// Node borders and edge colors in a diff view
+const diffColors: Record<DiffStatus, string> = {
+  added: '#2f9e44',
+  removed: '#e03131',
+  changed: '#f59f00',
+};
+
 // Edge colors by type
 const edgeColors: Record<string, string> = {
   terraform_resource: '#7950f2',
+  terraform_module: '#5c2fd6',
+  terraform_variable: '#b197fc',
+  terraform_output: '#9775fa',
+  terraform_provider: '#d0bfff',
+  cloudformation_resource: '#ff9900',
+  azure_resource: '#0078d4',
+  azure_module: '#50e6ff',
   docker_depends_on: '#0db7ed',
   docker_network: '#17a2b8',
+  docker_volume: '#20c997',
+  docker_build: '#066da5',
+  docker_image: '#384d54',
+  docker_base_image: '#5f7c8a',
+  docker_build_stage: '#90a4ae',
   k8s_service: '#326ce5',
   k8s_deployment: '#4a9eff',
   k8s_configmap: '#ff9800',
   k8s_secret: '#f44336',
+  k8s_route: '#466bb0',
+  k8s_traffic_policy: '#7d8fb3',
+  k8s_external: '#adb5bd',
+  k8s_network_allow: '#2f9e44',
+  k8s_scales: '#74c0fc',
+  k8s_disruption_budget: '#a5d8ff',
   npm_dependency: '#cb3837',
   npm_devDependency: '#999',
+  npm_workspace: '#e8590c',
+  go_dependency: '#00add8',
+  python_dependency: '#3776ab',
+  cargo_dependency: '#dea584',
+  maven_dependency: '#c71a36',
+  nuget_dependency: '#004880',
   codeowner: '#e91e63',
+  owns: '#e91e63',
+  backstage_depends_on: '#36baa2',
+  helm_dependency: '#0f1689',
+  helm_resource: '#5c6bc0',
+  inferred_call: '#fd7e14',
+  api_provider: '#6f42c1',
+  api_consumer: '#a371f7',
+  ci_job: '#2088ff',
+  ci_needs: '#58a6ff',
+  ci_uses_workflow: '#2088ff',
+  ci_action: '#8b949e',
+  ci_environment: '#1a7f37',
+  ci_deploys: '#1a7f37',
   unknown: '#999',
 };
 
@@ -91,6 +170,7 @@ export function GraphCanvas({
           style: {
             'background-color': (ele: NodeSingular) => nodeColors[ele.data('type')] || nodeColors.unknown,
             label: 'data(name)',
+            'text-wrap': 'wrap',
             'text-valign': 'bottom',
             'text-halign': 'center',
             'font-size': '11px',
@@ -103,6 +183,33 @@ export function GraphCanvas({
             height: 40,
           },
         },
+        {
+          selector: 'node[plannedAction]',
+          style: {
+            'border-width': (ele: NodeSingular) => plannedActionColors[ele.data('plannedAction')] ? 4 : 0,
+            'border-color': (ele: NodeSingular) => plannedActionColors[ele.data('plannedAction')] || '#fff',
+          },
+        },
+        {
+          selector: 'node[plannedAction = "delete"]',
+          style: {
+            'border-style': 'dashed',
+          },
+        },
+        {
+          selector: 'node[diffStatus]',
+          style: {
+            'border-width': 4,
+            'border-color': (ele: NodeSingular) => diffColors[ele.data('diffStatus') as DiffStatus],
+          },
+        },
+        {
+          selector: 'node[diffStatus = "removed"]',
+          style: {
+            'border-style': 'dashed',
+            opacity: 0.5,
+          },
+        },
         {
           selector: 'node:selected',
           style: {
@@ -129,6 +236,28 @@ export function GraphCanvas({
             opacity: 0.7,
           },
         },
+        {
+          selector: 'edge[type = "inferred_call"]',
+          style: {
+            'line-style': 'dashed',
+          },
+        },
+        {
+          selector: 'edge[diffStatus]',
+          style: {
+            width: 3,
+            'line-color': (ele: EdgeSingular) => diffColors[ele.data('diffStatus') as DiffStatus],
+            'target-arrow-color': (ele: EdgeSingular) => diffColors[ele.data('diffStatus') as DiffStatus],
+            opacity: 1,
+          },
+        },
+        {
+          selector: 'edge[diffStatus = "removed"]',
+          style: {
+            'line-style': 'dashed',
+            opacity: 0.5,
+          },
+        },
         {
           selector: 'edge.highlighted',
           style: {
@@ -207,8 +336,13 @@ export function GraphCanvas({
     const nodeElements = graph.nodes.map(node => ({
       data: {
         id: node.id,
-        name: node.name,
+        // Namespaced objects show their namespace (and cluster) on a second line
+        name: node.metadata?.namespace
+          ? `${node.name}\n${[node.metadata.cluster, node.metadata.namespace].filter(Boolean).join('/')}`
+          : node.name,
         type: node.type,
+        plannedAction: node.metadata?.plannedAction,
+        diffStatus: node.diffStatus,
       },
     }));
 
@@ -219,6 +353,7 @@ export function GraphCanvas({
         source: edge.source,
         target: edge.target,
         type: edge.type,
+        diffStatus: edge.diffStatus,
       },
     }));
 
@@ -338,6 +473,12 @@ export function GraphCanvas({
               <div className="legend-color" style={{ background: nodeColors.npm_package }} />
               <span>NPM Package</span>
             </div>
+            {graph.nodes.some(node => node.diffStatus) && (Object.keys(diffColors) as DiffStatus[]).map(status => (
+              <div className="legend-item" key={status}>
+                <div className="legend-color" style={{ background: '#fff', border: `3px solid ${diffColors[status]}` }} />
+                <span>{status.charAt(0).toUpperCase() + status.slice(1)}</span>
+              </div>
+            ))}
           </div>
         </>
       )}
@@ -1,26 +1,39 @@
 /**
  * Dashboard Page - main application layout
  */
-import React, { useState, useEffect, useCallback } from 'react';
-import { GraphCanvas } from '../components/GraphCanvas';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { GraphCanvas, DiffStatus } from '../components/GraphCanvas';
 import { QueryPanel } from '../components/QueryPanel';
 import { ScanModal } from '../components/ScanModal';
 
-interface GraphSummary {
+interface SnapshotSummary {
   id: string;
-  name: string;
-  sourceType: string;
-  sourcePath: string;
   createdAt: string;
+  commitSha?: string;
   nodeCount: number;
   edgeCount: number;
 }
 
+interface ProjectSummary {
+  id: string;
+  name: string;
+  sourceType: string;
+  sourcePath: string;
+  branch?: string;
+  snapshotCount: number;
+  latestSnapshot?: SnapshotSummary;
+}
+
 interface GraphData {
   id: string;
   name: string;
-  nodes: Array<{ id: string; name: string; type: string }>;
-  edges: Array<{ id: string; source: string; target: string; type: string }>;
+  nodes: Array<{ id: string; name: string; type: string; diffStatus?: DiffStatus }>;
+  edges: Array<{ id: string; source: string; target: string; type: string; diffStatus?: DiffStatus }>;
+}
+
+interface GraphDiff {
+  nodes: { added: GraphData['nodes']; removed: GraphData['nodes']; changed: Array<{ id: string }> };
+  edges: { added: GraphData['edges']; removed: GraphData['edges']; changed: Array<{ key: string }> };
 }
 
 interface Message {
@@ -32,9 +45,13 @@ const API_BASE = '/api';
 
 export function DashboardPage() {
   // State
-  const [graphs, setGraphs] = useState<GraphSummary[]>([]);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
   const [selectedGraphId, setSelectedGraphId] = useState<string | null>(null);
   const [graphData, setGraphData] = useState<GraphData | null>(null);
+  const [compareGraphId, setCompareGraphId] = useState<string | null>(null);
+  const [graphDiff, setGraphDiff] = useState<GraphDiff | null>(null);
   const [selectedNodes, setSelectedNodes] = useState<string[]>([]);
   const [highlightedNodes, setHighlightedNodes] = useState<string[]>([]);
   const [response, setResponse] = useState<string | null>(null);
@@ -48,16 +65,37 @@ export function DashboardPage() {
   const [showScanModal, setShowScanModal] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Load graphs list
-  const loadGraphs = useCallback(async () => {
+  // Load projects list
+  const loadProjects = useCallback(async () => {
+    try {
+      const res = await fetch(`${API_BASE}/projects`);
+      if (!res.ok) throw new Error('Failed to load projects');
+      const data = await res.json();
+      setProjects(data.projects);
+    } catch (err) {
+      console.error('Failed to load projects:', err);
+      setError('Failed to load projects');
+    }
+  }, []);
+
+  // Select a project and show its latest snapshot
+  const selectProject = useCallback(async (id: string | null) => {
+    setSelectedProjectId(id);
+    if (!id) {
+      setSnapshots([]);
+      setSelectedGraphId(null);
+      return;
+    }
+
     try {
-      const res = await fetch(`${API_BASE}/graphs`);
-      if (!res.ok) throw new Error('Failed to load graphs');
+      const res = await fetch(`${API_BASE}/projects/${id}/snapshots`);
+      if (!res.ok) throw new Error('Failed to load snapshots');
       const data = await res.json();
-      setGraphs(data.graphs);
+      setSnapshots(data.snapshots);
+      setSelectedGraphId(data.snapshots[data.snapshots.length - 1]?.id ?? null);
     } catch (err) {
-      console.error('Failed to load graphs:', err);
-      setError('Failed to load graphs');
+      console.error('Failed to load snapshots:', err);
+      setError('Failed to load snapshots');
     }
   }, []);
 
@@ -84,11 +122,12 @@ export function DashboardPage() {
 
   // Initial load
   useEffect(() => {
-    loadGraphs();
-  }, [loadGraphs]);
+    loadProjects();
+  }, [loadProjects]);
 
   // Load graph when selection changes
   useEffect(() => {
+    setCompareGraphId(null);
     if (selectedGraphId) {
       loadGraph(selectedGraphId);
     } else {
@@ -96,6 +135,55 @@ export function DashboardPage() {
     }
   }, [selectedGraphId, loadGraph]);
 
+  // Load the diff from the comparison graph to the selected one
+  useEffect(() => {
+    setGraphDiff(null);
+    if (!selectedGraphId || !compareGraphId) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`${API_BASE}/graphs/${compareGraphId}/diff/${selectedGraphId}`);
+        if (!res.ok) throw new Error('Failed to compare graphs');
+        const data = await res.json();
+        if (!cancelled) setGraphDiff(data.result);
+      } catch (err) {
+        console.error('Failed to compare graphs:', err);
+        if (!cancelled) setError('Failed to compare graphs');
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedGraphId, compareGraphId]);
+
+  // The selected graph plus what the comparison graph had, marked by diff status
+  const displayedGraph = useMemo<GraphData | null>(() => {
+    if (!graphData || !graphDiff) return graphData;
+
+    const edgeKey = (edge: GraphData['edges'][number]) => `${edge.source}|${edge.target}|${edge.type}`;
+    const nodeStatus = new Map<string, DiffStatus>([
+      ...graphDiff.nodes.added.map(node => [node.id, 'added'] as const),
+      ...graphDiff.nodes.changed.map(change => [change.id, 'changed'] as const),
+    ]);
+    const edgeStatus = new Map<string, DiffStatus>([
+      ...graphDiff.edges.added.map(edge => [edgeKey(edge), 'added'] as const),
+      ...graphDiff.edges.changed.map(change => [change.key, 'changed'] as const),
+    ]);
+
+    return {
+      ...graphData,
+      nodes: [
+        ...graphData.nodes.map(node => ({ ...node, diffStatus: nodeStatus.get(node.id) })),
+        ...graphDiff.nodes.removed.map(node => ({ ...node, diffStatus: 'removed' as const })),
+      ],
+      edges: [
+        ...graphData.edges.map(edge => ({ ...edge, diffStatus: edgeStatus.get(edgeKey(edge)) })),
+        ...graphDiff.edges.removed.map(edge => ({ ...edge, diffStatus: 'removed' as const })),
+      ],
+    };
+  }, [graphData, graphDiff]);
+
   // Handle scan
   const handleScan = useCallback(async (
     type: 'github' | 'local',
@@ -119,15 +207,15 @@ export function DashboardPage() {
       }
       
       const data = await res.json();
-      await loadGraphs();
-      setSelectedGraphId(data.graphId);
+      await loadProjects();
+      await selectProject(data.projectId);
       setShowScanModal(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Scan failed');
     } finally {
       setIsScanning(false);
     }
-  }, [loadGraphs]);
+  }, [loadProjects, selectProject]);
 
   // Handle ask
   const handleAsk = useCallback(async (question: string) => {
@@ -195,23 +283,26 @@ export function DashboardPage() {
     }
   }, [selectedGraphId, selectedNodes, sessionId]);
 
-  // Handle delete graph
-  const handleDeleteGraph = useCallback(async (id: string) => {
-    if (!confirm('Are you sure you want to delete this graph?')) return;
+  // Handle delete project
+  const handleDeleteProject = useCallback(async (id: string) => {
+    if (!confirm('Are you sure you want to delete this project and all its snapshots?')) return;
     
     try {
-      const res = await fetch(`${API_BASE}/graphs/${id}`, { method: 'DELETE' });
-      if (!res.ok) throw new Error('Failed to delete graph');
+      const res = await fetch(`${API_BASE}/projects/${id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to delete project');
       
-      if (selectedGraphId === id) {
-        setSelectedGraphId(null);
-        setGraphData(null);
+      if (selectedProjectId === id) {
+        await selectProject(null);
       }
-      await loadGraphs();
+      await loadProjects();
     } catch (err) {
-      setError('Failed to delete graph');
+      setError('Failed to delete project');
     }
-  }, [selectedGraphId, loadGraphs]);
+  }, [selectedProjectId, selectProject, loadProjects]);
+
+  const snapshotIndex = snapshots.findIndex(snapshot => snapshot.id === selectedGraphId);
+  const snapshotLabel = (snapshot: SnapshotSummary) =>
+    `${new Date(snapshot.createdAt).toLocaleString()}${snapshot.commitSha ? ` · ${snapshot.commitSha.slice(0, 7)}` : ''}`;
 
   return (
     <div className="app-container">
@@ -250,34 +341,39 @@ export function DashboardPage() {
         {/* Sidebar - Graph list */}
         <aside className="sidebar">
           <div className="sidebar-header">
-            <h2>Graphs</h2>
+            <h2>Projects</h2>
           </div>
           <div className="graph-list">
-            {graphs.length === 0 ? (
+            {projects.length === 0 ? (
               <div style={{ padding: 16, color: 'var(--text-secondary)', textAlign: 'center' }}>
-                No graphs yet.<br />Scan a repository to get started.
+                No projects yet.<br />Scan a repository to get started.
               </div>
             ) : (
-              graphs.map(graph => (
+              projects.map(project => (
                 <div
-                  key={graph.id}
-                  className={`graph-item ${selectedGraphId === graph.id ? 'selected' : ''}`}
-                  onClick={() => setSelectedGraphId(graph.id)}
+                  key={project.id}
+                  className={`graph-item ${selectedProjectId === project.id ? 'selected' : ''}`}
+                  onClick={() => selectProject(project.id)}
                 >
-                  <div className="graph-item-name">{graph.name}</div>
-                  <div className="graph-item-meta">
-                    {graph.nodeCount} nodes · {graph.edgeCount} edges
+                  <div className="graph-item-name">
+                    {project.name}{project.branch && ` (${project.branch})`}
                   </div>
+                  {project.latestSnapshot && (
+                    <div className="graph-item-meta">
+                      {project.latestSnapshot.nodeCount} nodes · {project.latestSnapshot.edgeCount} edges
+                    </div>
+                  )}
                   <div className="graph-item-meta">
-                    {new Date(graph.createdAt).toLocaleDateString()}
+                    {project.snapshotCount} snapshot{project.snapshotCount === 1 ? '' : 's'}
+                    {project.latestSnapshot && ` · ${new Date(project.latestSnapshot.createdAt).toLocaleDateString()}`}
                   </div>
-                  {selectedGraphId === graph.id && (
+                  {selectedProjectId === project.id && (
                     <button
                       className="btn btn-secondary btn-small"
                       style={{ marginTop: 8 }}
                       onClick={(e) => {
                         e.stopPropagation();
-                        handleDeleteGraph(graph.id);
+                        handleDeleteProject(project.id);
                       }}
                     >
                       Delete
@@ -308,12 +404,56 @@ export function DashboardPage() {
                   <span className="stat-value">{selectedNodes.length}</span>
                 </div>
               )}
+              <div className="stat-item" style={{ marginLeft: 'auto' }}>
+                <span>Compare with:</span>
+                <select
+                  value={compareGraphId ?? ''}
+                  onChange={(e) => setCompareGraphId(e.target.value || null)}
+                >
+                  <option value="">None</option>
+                  {snapshots.filter(snapshot => snapshot.id !== selectedGraphId).map(snapshot => (
+                    <option key={snapshot.id} value={snapshot.id}>
+                      {snapshotLabel(snapshot)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {graphDiff && (
+                <div className="stat-item">
+                  <span className="stat-value" style={{ color: '#2f9e44' }}>
+                    +{graphDiff.nodes.added.length + graphDiff.edges.added.length}
+                  </span>
+                  <span className="stat-value" style={{ color: '#e03131' }}>
+                    −{graphDiff.nodes.removed.length + graphDiff.edges.removed.length}
+                  </span>
+                  <span className="stat-value" style={{ color: '#f59f00' }}>
+                    ~{graphDiff.nodes.changed.length + graphDiff.edges.changed.length}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Timeline: step through the project's snapshots */}
+          {graphData && snapshots.length > 1 && snapshotIndex !== -1 && (
+            <div className="timeline-bar">
+              <span>History:</span>
+              <input
+                type="range"
+                min={0}
+                max={snapshots.length - 1}
+                value={snapshotIndex}
+                onChange={(e) => setSelectedGraphId(snapshots[Number(e.target.value)].id)}
+              />
+              <span className="timeline-label">
+                {snapshotIndex + 1}/{snapshots.length} · {snapshotLabel(snapshots[snapshotIndex])}
+              </span>
             </div>
           )}
 
           {/* Graph canvas */}
           <GraphCanvas
-            graph={graphData}
+            graph={displayedGraph}
             selectedNodes={selectedNodes}
             highlightedNodes={highlightedNodes}
             onNodeSelect={setSelectedNodes}
@@ -1,8 +1,14 @@
 /**
  * Graph analyzer tests
  */
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import initSqlJs from 'sql.js';
 import { GraphAnalyzer } from '../src/graph/analyzer.js';
+import { diffGraphs } from '../src/graph/diff.js';
+import { GraphStorage } from '../src/graph/storage.js';
 import type { DependencyGraph } from '../src/types.js';
 
 function createTestGraph(): DependencyGraph {
@@ -157,4 +163,221 @@ describe('GraphAnalyzer', () => {
       expect(stats.mostConnected).toBeDefined();
     });
   });
+
+  describe('getPlanImpact', () => {
+    it('should find changed nodes and their dependents', () => {
+      const graph = createTestGraph();
+      graph.nodes.find(n => n.id === 'db')!.metadata.plannedAction = 'replace';
+      graph.nodes.find(n => n.id === 'cache')!.metadata.plannedAction = 'no-op';
+      const analyzer = new GraphAnalyzer(graph);
+
+      const result = analyzer.getPlanImpact();
+
+      expect(result.changedNodes.map(n => n.id)).toEqual(['db']);
+      expect(result.affectedNodes.map(n => n.id)).toEqual(expect.arrayContaining(['api', 'web', 'worker']));
+      expect(result.affectedNodes.map(n => n.id)).not.toContain('cache');
+    });
+  });
+
+  describe('getVersionDrift', () => {
+    it('should list packages resolved to more than one version', () => {
+      const graph = createTestGraph();
+      graph.nodes.push({ id: 'lodash', name: 'lodash', type: 'npm_package', metadata: {} });
+      graph.edges.push(
+        { id: '7', source: 'api', target: 'lodash', type: 'npm_dependency', metadata: { resolvedVersion: '4.17.21' } },
+        { id: '8', source: 'worker', target: 'lodash', type: 'npm_dependency', metadata: { resolvedVersion: '4.17.20' } },
+        { id: '9', source: 'web', target: 'lodash', type: 'npm_dependency', metadata: { resolvedVersion: '4.17.21' } },
+        { id: '10', source: 'web', target: 'queue', type: 'npm_dependency', metadata: { resolvedVersion: '1.0.0' } },
+      );
+      const analyzer = new GraphAnalyzer(graph);
+
+      const result = analyzer.getVersionDrift();
+
+      expect(result.packages).toEqual([{
+        package: 'lodash',
+        versions: [
+          { version: '4.17.20', dependents: ['worker'] },
+          { version: '4.17.21', dependents: ['api', 'web'] },
+        ],
+      }]);
+    });
+  });
+
+  describe('getProvenance', () => {
+    it('should return where a node or edge was found', () => {
+      const graph = createTestGraph();
+      const provenance = { parser: 'docker-compose', file: 'docker-compose.yml', startLine: 3, endLine: 8 };
+      graph.nodes[0].provenance = [provenance];
+      graph.edges[0].provenance = [provenance];
+      const analyzer = new GraphAnalyzer(graph);
+
+      expect(analyzer.getProvenance({ nodeId: 'api' })).toEqual({
+        node: { id: 'api', name: 'API Service', type: 'service' },
+        provenance: [provenance],
+      });
+      expect(analyzer.getProvenance({ edgeId: graph.edges[0].id })?.provenance).toEqual([provenance]);
+      expect(analyzer.getProvenance({ nodeId: 'db' })?.provenance).toEqual([]);
+      expect(analyzer.getProvenance({ nodeId: 'missing' })).toBeUndefined();
+    });
+  });
+});
+
+describe('diffGraphs', () => {
+  it('should report added, removed and changed nodes and edges by stable identity', () => {
+    const base = createTestGraph();
+    const head = createTestGraph();
+    head.id = 'next-graph';
+    // Every scan assigns fresh edge IDs
+    head.edges.forEach(edge => { edge.id = `next-${edge.id}`; });
+    head.nodes = head.nodes.filter(node => node.id !== 'cache');
+    head.edges = head.edges.filter(edge => edge.target !== 'cache');
+    head.nodes.push({ id: 'search', name: 'Search', type: 'service', metadata: {} });
+    head.edges.push({ id: 'next-7', source: 'api', target: 'search', type: 'inferred_call' });
+    head.nodes.find(node => node.id === 'db')!.metadata = { owners: ['@org/data'] };
+    head.edges.find(edge => edge.source === 'web')!.metadata = { condition: 'service_healthy' };
+    head.nodes.find(node => node.id === 'api')!.provenance = [{ parser: 'docker-compose', file: 'docker-compose.yml', startLine: 4 }];
+
+    const diff = diffGraphs(base, head);
+
+    expect(diff.baseGraphId).toBe('test-graph');
+    expect(diff.headGraphId).toBe('next-graph');
+    expect(diff.nodes.added.map(node => node.id)).toEqual(['search']);
+    expect(diff.nodes.removed.map(node => node.id)).toEqual(['cache']);
+    expect(diff.nodes.changed).toEqual([expect.objectContaining({
+      id: 'db',
+      changes: [{ field: 'metadata.owners', before: undefined, after: ['@org/data'] }],
+    })]);
+    expect(diff.edges.added).toEqual([expect.objectContaining({ source: 'api', target: 'search', type: 'inferred_call' })]);
+    expect(diff.edges.removed).toEqual([expect.objectContaining({ source: 'api', target: 'cache' })]);
+    expect(diff.edges.changed).toEqual([expect.objectContaining({
+      key: 'web|api|docker_depends_on',
+      changes: [{ field: 'metadata.condition', before: undefined, after: 'service_healthy' }],
+    })]);
+  });
+
+  it('should find no changes between equivalent scans', () => {
+    const base = createTestGraph();
+    const head = createTestGraph();
+    base.nodes[0].metadata = { labels: { app: 'api', tier: 'backend' } };
+    head.nodes[0].metadata = { labels: { tier: 'backend', app: 'api' } };
+
+    const diff = diffGraphs(base, head);
+
+    expect(diff.nodes).toEqual({ added: [], removed: [], changed: [] });
+    expect(diff.edges).toEqual({ added: [], removed: [], changed: [] });
+  });
+});
+
+describe('GraphStorage snapshots', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'graph-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function scan(id: string, createdAt: string, branch?: string): DependencyGraph {
+    const graph = createTestGraph();
+    graph.id = id;
+    graph.metadata = { createdAt, sourceType: 'github', sourcePath: 'acme/shop', branch, commitSha: `sha-${id}` };
+    return graph;
+  }
+
+  it('should group scans of one source into a project of snapshots', async () => {
+    const storage = new GraphStorage(path.join(dir, 'graphs.sqlite'));
+    const projectId = await storage.saveGraph(scan('first', '2026-01-01T00:00:00.000Z', 'main'));
+    expect(await storage.saveGraph(scan('second', '2026-01-02T00:00:00.000Z', 'main'))).toBe(projectId);
+    await storage.saveGraph(scan('feature', '2026-01-03T00:00:00.000Z', 'feature'));
+
+    const projects = await storage.listProjects();
+    expect(projects).toHaveLength(2);
+    expect(projects.find(project => project.id === projectId)).toMatchObject({
+      sourcePath: 'acme/shop',
+      branch: 'main',
+      snapshotCount: 2,
+      latestSnapshot: { id: 'second', commitSha: 'sha-second', nodeCount: 6, edgeCount: 6 },
+    });
+    expect((await storage.listSnapshots(projectId))?.map(snapshot => snapshot.id)).toEqual(['first', 'second']);
+    expect(await storage.listSnapshots('missing')).toBeNull();
+    storage.close();
+  });
+
+  it('should prune snapshots by retention policy but keep the latest', async () => {
+    const storage = new GraphStorage(path.join(dir, 'graphs.sqlite'), { maxSnapshots: 2 });
+    const recent = new Date().toISOString();
+    await storage.saveGraph(scan('one', '2026-01-01T00:00:00.000Z'));
+    await storage.saveGraph(scan('two', '2026-01-02T00:00:00.000Z'));
+    const projectId = await storage.saveGraph(scan('three', recent));
+
+    expect((await storage.listSnapshots(projectId))?.map(snapshot => snapshot.id)).toEqual(['two', 'three']);
+    expect(await storage.loadGraph('one')).toBeNull();
+
+    const project = await storage.setRetention(projectId, { maxAgeDays: 1 });
+    expect(project).toMatchObject({ retention: { maxAgeDays: 1 }, snapshotCount: 1, latestSnapshot: { id: 'three' } });
+    storage.close();
+  });
+
+  it('should keep differently named Terraform imports in separate projects', async () => {
+    const storage = new GraphStorage(path.join(dir, 'graphs.sqlite'), { maxSnapshots: 1 });
+    // As POST /import/terraform saves them: the import name identifies the source
+    const terraformImport = (id: string, name: string): DependencyGraph => ({
+      ...createTestGraph(),
+      id,
+      name,
+      metadata: { createdAt: new Date().toISOString(), sourceType: 'import', sourcePath: name },
+    });
+
+    const network = await storage.saveGraph(terraformImport('network', 'network-plan'));
+    const billing = await storage.saveGraph(terraformImport('billing', 'billing-state'));
+
+    expect(billing).not.toBe(network);
+    expect(await storage.loadGraph('network')).not.toBeNull();
+    expect((await storage.listProjects()).map(project => project.name).sort()).toEqual(['billing-state', 'network-plan']);
+    storage.close();
+  });
+
+  it('should keep the files and parse results of the latest scan for the next rescan', async () => {
+    const storage = new GraphStorage(path.join(dir, 'graphs.sqlite'));
+    const dependency = { source: 'web', target: 'api', type: 'docker_depends_on' as const };
+    await storage.saveGraph(scan('first', '2026-01-01T00:00:00.000Z', 'main'), {
+      files: [{ path: 'docker-compose.yml', content: 'old', hash: 'a1' }],
+      units: new Map([['old-unit', [dependency]]]),
+    });
+    await storage.saveGraph(scan('second', '2026-01-02T00:00:00.000Z', 'main'), {
+      files: [{ path: 'docker-compose.yml', content: 'services: {}', hash: 'b2' }, { path: '.env', hash: 'c3' }],
+      units: new Map([['unit', [dependency]]]),
+    });
+
+    const cache = await storage.loadScanCache({ sourceType: 'github', sourcePath: 'acme/shop', branch: 'main' });
+    expect(cache?.files).toEqual([
+      { path: '.env', hash: 'c3' },
+      { path: 'docker-compose.yml', content: 'services: {}', hash: 'b2' },
+    ]);
+    expect([...(cache?.units ?? [])]).toEqual([['unit', [dependency]]]);
+    expect(await storage.loadScanCache({ sourceType: 'github', sourcePath: 'acme/shop' })).toBeNull();
+    storage.close();
+  });
+
+  it('should file graphs saved before projects existed under projects', async () => {
+    const dbPath = path.join(dir, 'graphs.sqlite');
+    const SQL = await initSqlJs();
+    const legacy = new SQL.Database();
+    legacy.run(`CREATE TABLE graphs (id TEXT PRIMARY KEY, name TEXT NOT NULL, graph_json TEXT NOT NULL,
+      source_type TEXT NOT NULL, source_path TEXT NOT NULL, created_at TEXT NOT NULL, updated_at TEXT NOT NULL)`);
+    for (const graph of [scan('old-1', '2025-06-01T00:00:00.000Z'), scan('old-2', '2025-06-02T00:00:00.000Z')]) {
+      legacy.run('INSERT INTO graphs VALUES (?, ?, ?, ?, ?, ?, ?)', [
+        graph.id, graph.name, JSON.stringify(graph), 'github', 'acme/shop', graph.metadata.createdAt, graph.metadata.createdAt,
+      ]);
+    }
+    fs.writeFileSync(dbPath, legacy.export());
+    legacy.close();
+
+    const storage = new GraphStorage(dbPath);
+    const [project] = await storage.listProjects();
+    expect(project).toMatchObject({ sourcePath: 'acme/shop', snapshotCount: 2, latestSnapshot: { id: 'old-2' } });
+    storage.close();
+  });
 });
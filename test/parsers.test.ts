@@ -3,10 +3,30 @@
  */
 import { describe, it, expect } from 'vitest';
 import { parseTerraform } from '../src/parsers/terraform.js';
+import { parseTerraformState } from '../src/parsers/terraform-state.js';
+import { parseCloudFormation } from '../src/parsers/cloudformation.js';
+import { parseArmTemplate } from '../src/parsers/arm.js';
+import { parseBicepFiles } from '../src/parsers/bicep.js';
+import { parseOpenApi } from '../src/parsers/openapi.js';
+import { parseAsyncApi } from '../src/parsers/asyncapi.js';
+import { parseProtoFiles } from '../src/parsers/proto.js';
 import { parseDockerCompose } from '../src/parsers/docker-compose.js';
-import { parseKubernetes } from '../src/parsers/kubernetes.js';
-import { parseCodeowners } from '../src/parsers/codeowners.js';
+import { parseDockerfile } from '../src/parsers/dockerfile.js';
+import { kubernetesNodeId, parseKubernetes, parseKubernetesNodeId } from '../src/parsers/kubernetes.js';
+import { matchPattern, parseCodeowners } from '../src/parsers/codeowners.js';
 import { parsePackageJson } from '../src/parsers/package-json.js';
+import { parseGoMod } from '../src/parsers/go-mod.js';
+import { parseRequirements, parsePyproject } from '../src/parsers/python.js';
+import { parseCargoToml } from '../src/parsers/cargo.js';
+import { parsePom } from '../src/parsers/maven.js';
+import { parseGradle } from '../src/parsers/gradle.js';
+import { parseCsproj } from '../src/parsers/csproj.js';
+import { parseHelmChart } from '../src/parsers/helm.js';
+import { createParseCache, parseFiles } from '../src/parsers/scanner.js';
+import { contentHash } from '../src/readers/content-hash.js';
+import { buildGraph, nodeDisplayName } from '../src/graph/builder.js';
+import { resolveEntities, loadEntityAliases } from '../src/graph/resolver.js';
+import type { ParsedDependency } from '../src/types.js';
 
 describe('Terraform Parser', () => {
   it('should parse resource dependencies', async () => {
@@ -45,6 +65,621 @@ resource "aws_vpc" "main" {
     const deps = await parseTerraform('');
     expect(deps).toEqual([]);
   });
+
+  it('should follow references in deeply nested blocks', async () => {
+    const content = `
+resource "aws_security_group" "web" {
+  dynamic "ingress" {
+    for_each = var.ports
+    content {
+      from_port = ingress.value
+      cidr_blocks = [for s in aws_subnet.private : s.cidr_block]
+      description = "allow \${local.env} from \${aws_vpc.main.id}"
+    }
+  }
+}
+`;
+    const deps = await parseTerraform(content);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'aws_security_group.web',
+      target: 'aws_subnet.private',
+      type: 'terraform_resource',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'aws_security_group.web',
+      target: 'aws_vpc.main',
+      type: 'terraform_resource',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'aws_security_group.web',
+      target: 'var.ports',
+      type: 'terraform_variable',
+    }));
+    expect(deps.some(dep => dep.target.startsWith('ingress.') || dep.target.startsWith('s.'))).toBe(false);
+  });
+
+  it('should link modules and outputs', async () => {
+    const files = [
+      {
+        path: 'infra/main.tf',
+        content: `
+resource "aws_vpc" "main" {
+  cidr_block = "10.0.0.0/16"
+}
+
+module "network" {
+  source = "./modules/network"
+  vpc_id = aws_vpc.main.id
+}
+
+module "eks" {
+  source  = "terraform-aws-modules/eks/aws"
+  version = "~> 20.0"
+  subnet_ids = module.network.subnet_ids
+}
+
+output "cluster" {
+  value = module.eks.cluster_name
+}
+`,
+      },
+      {
+        path: 'infra/modules/network/main.tf',
+        content: `
+variable "vpc_id" {}
+
+resource "aws_subnet" "private" {
+  vpc_id = var.vpc_id
+}
+
+output "subnet_ids" {
+  value = aws_subnet.private[*].id
+}
+`,
+      },
+    ];
+    const deps = await parseFiles(files);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'module.network',
+      target: 'aws_vpc.main',
+      type: 'terraform_module',
+      metadata: expect.objectContaining({ input: 'vpc_id' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'module.network.aws_subnet.private',
+      target: 'module.network.var.vpc_id',
+      type: 'terraform_variable',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'module.network.var.vpc_id',
+      target: 'module.network',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'module.eks',
+      target: 'module.network.output.subnet_ids',
+      type: 'terraform_module',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'module.eks',
+      target: 'terraform-aws-modules/eks/aws',
+      metadata: expect.objectContaining({ version: '~> 20.0' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'output.cluster',
+      target: 'module.eks',
+      type: 'terraform_output',
+    }));
+    // The module directory is only parsed as part of its caller
+    expect(deps.some(dep => dep.source === 'aws_subnet.private')).toBe(false);
+  });
+});
+
+describe('Terraform State Parser', () => {
+  it('should expand indexed instances from state', async () => {
+    const content = JSON.stringify({
+      format_version: '1.0',
+      terraform_version: '1.7.0',
+      values: {
+        root_module: {
+          resources: [
+            {
+              address: 'aws_vpc.main',
+              mode: 'managed',
+              type: 'aws_vpc',
+              name: 'main',
+              provider_name: 'registry.terraform.io/hashicorp/aws',
+            },
+          ],
+          child_modules: [
+            {
+              address: 'module.app',
+              resources: [0, 1].map(index => ({
+                address: `module.app.aws_instance.web[${index}]`,
+                mode: 'managed',
+                type: 'aws_instance',
+                name: 'web',
+                index,
+                provider_name: 'registry.terraform.io/hashicorp/aws',
+                depends_on: ['aws_vpc.main'],
+              })),
+            },
+          ],
+        },
+      },
+    });
+    const deps = await parseTerraformState(content);
+
+    for (const index of [0, 1]) {
+      expect(deps).toContainEqual(expect.objectContaining({
+        source: `module.app.aws_instance.web[${index}]`,
+        target: 'aws_vpc.main',
+        type: 'terraform_resource',
+        sourceNode: expect.objectContaining({
+          metadata: expect.objectContaining({ provider: 'aws', modulePath: 'module.app', index }),
+        }),
+      }));
+    }
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'aws_vpc.main',
+      target: 'provider.aws',
+      type: 'terraform_provider',
+    }));
+  });
+
+  it('should mark planned actions from plan output', async () => {
+    const content = JSON.stringify({
+      format_version: '1.2',
+      terraform_version: '1.7.0',
+      planned_values: {
+        root_module: {
+          resources: [
+            { address: 'aws_db_instance.main', mode: 'managed', type: 'aws_db_instance', name: 'main', provider_name: 'registry.terraform.io/hashicorp/aws' },
+            { address: 'aws_instance.api', mode: 'managed', type: 'aws_instance', name: 'api', provider_name: 'registry.terraform.io/hashicorp/aws' },
+          ],
+        },
+      },
+      resource_changes: [
+        { address: 'aws_db_instance.main', type: 'aws_db_instance', name: 'main', change: { actions: ['delete', 'create'] } },
+        { address: 'aws_instance.api', type: 'aws_instance', name: 'api', change: { actions: ['no-op'] } },
+      ],
+      configuration: {
+        root_module: {
+          resources: [
+            {
+              address: 'aws_instance.api',
+              expressions: { user_data: { references: ['aws_db_instance.main.address', 'aws_db_instance.main'] } },
+            },
+          ],
+        },
+      },
+    });
+    const deps = await parseTerraformState(content);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'aws_instance.api',
+      target: 'aws_db_instance.main',
+      type: 'terraform_resource',
+      targetNode: expect.objectContaining({
+        metadata: expect.objectContaining({ plannedAction: 'replace', importedFrom: 'plan' }),
+      }),
+    }));
+  });
+
+  it('should handle invalid JSON', async () => {
+    const deps = await parseTerraformState('not json');
+    expect(deps).toEqual([]);
+  });
+});
+
+describe('CloudFormation Parser', () => {
+  it('should parse short-form intrinsics and DependsOn', async () => {
+    const content = `
+AWSTemplateFormatVersion: '2010-09-09'
+Transform: AWS::Serverless-2016-10-31
+Resources:
+  OrdersTable:
+    Type: AWS::DynamoDB::Table
+  OrdersQueue:
+    Type: AWS::SQS::Queue
+  OrdersFunction:
+    Type: AWS::Serverless::Function
+    DependsOn: OrdersQueue
+    Properties:
+      Environment:
+        Variables:
+          TABLE: !Ref OrdersTable
+          QUEUE_URL: !Sub 'https://sqs/\${AWS::Region}/\${OrdersQueue.QueueName}'
+      Events:
+        Stream:
+          Type: DynamoDB
+          Properties:
+            Stream: !GetAtt OrdersTable.StreamArn
+        Http:
+          Type: Api
+          Properties:
+            Path: /orders
+            Method: post
+      VpcConfig:
+        SubnetIds:
+          - !ImportValue network-PrivateSubnet
+`;
+    const deps = await parseCloudFormation(content, 'orders');
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'orders/OrdersFunction',
+      target: 'orders/OrdersTable',
+      type: 'cloudformation_resource',
+      metadata: expect.objectContaining({ via: 'Ref' }),
+      targetNode: expect.objectContaining({ type: 'database' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'orders/OrdersFunction',
+      target: 'orders/OrdersTable',
+      metadata: expect.objectContaining({ via: 'GetAtt', attribute: 'StreamArn' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'orders/OrdersFunction',
+      target: 'orders/OrdersQueue',
+      metadata: expect.objectContaining({ via: 'Sub', attribute: 'QueueName' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'orders/OrdersFunction',
+      target: 'orders/OrdersQueue',
+      metadata: expect.objectContaining({ via: 'DependsOn' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'orders/OrdersFunction',
+      target: 'Export/network-PrivateSubnet',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'orders/ServerlessRestApi',
+      target: 'orders/OrdersFunction',
+    }));
+  });
+
+  it('should link exports to their resources in JSON templates', async () => {
+    const content = JSON.stringify({
+      AWSTemplateFormatVersion: '2010-09-09',
+      Resources: {
+        PrivateSubnet: { Type: 'AWS::EC2::Subnet' },
+      },
+      Outputs: {
+        SubnetId: {
+          Value: { Ref: 'PrivateSubnet' },
+          Export: { Name: { 'Fn::Sub': '${AWS::StackName}-PrivateSubnet' } },
+        },
+      },
+    });
+    const deps = await parseCloudFormation(content, 'network');
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Export/network-PrivateSubnet',
+      target: 'network/PrivateSubnet',
+      type: 'cloudformation_resource',
+    }));
+  });
+
+  it('should handle invalid YAML', async () => {
+    const deps = await parseCloudFormation('Resources: [', 'broken');
+    expect(deps).toEqual([]);
+  });
+});
+
+describe('Azure Parsers', () => {
+  it('should parse ARM dependsOn, resourceId() and reference() calls', async () => {
+    const content = JSON.stringify({
+      $schema: 'https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#',
+      parameters: { appName: { type: 'string', defaultValue: 'orders' } },
+      variables: { planName: "[concat(parameters('appName'), '-plan')]" },
+      resources: [
+        { type: 'Microsoft.Web/serverfarms', apiVersion: '2022-03-01', name: "[variables('planName')]" },
+        { type: 'Microsoft.Insights/components', apiVersion: '2020-02-02', name: 'orders-ai' },
+        {
+          type: 'Microsoft.Web/sites',
+          apiVersion: '2022-03-01',
+          name: "[parameters('appName')]",
+          dependsOn: ["[resourceId('Microsoft.Web/serverfarms', variables('planName'))]"],
+          properties: {
+            serverFarmId: "[resourceId('Microsoft.Web/serverfarms', variables('planName'))]",
+            siteConfig: {
+              appSettings: [{ value: "[reference('orders-ai').InstrumentationKey]" }],
+            },
+          },
+        },
+      ],
+    });
+    const deps = await parseArmTemplate(content);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Microsoft.Web/sites/orders',
+      target: 'Microsoft.Web/serverfarms/orders-plan',
+      type: 'azure_resource',
+      metadata: { via: 'dependsOn' },
+      sourceNode: expect.objectContaining({
+        type: 'service',
+        metadata: expect.objectContaining({ azureType: 'Microsoft.Web/sites', apiVersion: '2022-03-01' }),
+      }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Microsoft.Web/sites/orders',
+      target: 'Microsoft.Insights/components/orders-ai',
+      metadata: { via: 'reference' },
+    }));
+  });
+
+  it('should resolve Bicep symbolic references and modules across files', async () => {
+    const files = [
+      {
+        path: 'infra/main.bicep',
+        content: `
+param prefix string = 'orders'
+
+resource plan 'Microsoft.Web/serverfarms@2022-03-01' = {
+  name: '\${prefix}-plan'
+  location: resourceGroup().location
+}
+
+resource vnet 'Microsoft.Network/virtualNetworks@2023-04-01' = {
+  name: '\${prefix}-vnet'
+
+  resource apps 'subnets' = {
+    name: 'apps'
+  }
+}
+
+module app './app.bicep' = {
+  name: 'app-deploy'
+  params: {
+    appName: '\${prefix}-api'
+    planId: plan.id
+  }
+}
+`,
+      },
+      {
+        path: 'infra/app.bicep',
+        content: `
+@description('Name of the web app')
+param appName string
+param planId string
+
+resource site 'Microsoft.Web/sites@2022-03-01' = {
+  name: appName
+  properties: {
+    serverFarmId: planId
+  }
+}
+
+resource sql 'Microsoft.Sql/servers@2022-05-01-preview' = {
+  name: '\${appName}-sql'
+}
+
+resource settings 'Microsoft.Web/sites/config@2022-03-01' = {
+  parent: site
+  name: 'appsettings'
+  dependsOn: [
+    sql
+  ]
+}
+`,
+      },
+    ];
+    const deps = await parseBicepFiles(files);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Microsoft.Resources/deployments/app-deploy',
+      target: 'Microsoft.Web/serverfarms/orders-plan',
+      type: 'azure_resource',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Microsoft.Resources/deployments/app-deploy',
+      target: 'Microsoft.Web/sites/orders-api',
+      type: 'azure_module',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Microsoft.Web/sites/orders-api',
+      target: 'Microsoft.Web/serverfarms/orders-plan',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Microsoft.Web/sites/config/orders-api/appsettings',
+      target: 'Microsoft.Web/sites/orders-api',
+      metadata: { via: 'parent' },
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Microsoft.Web/sites/config/orders-api/appsettings',
+      target: 'Microsoft.Sql/servers/orders-api-sql',
+      metadata: { via: 'dependsOn' },
+      targetNode: expect.objectContaining({ type: 'database' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Microsoft.Network/virtualNetworks/subnets/orders-vnet/apps',
+      target: 'Microsoft.Network/virtualNetworks/orders-vnet',
+      metadata: { via: 'parent' },
+    }));
+  });
+});
+
+describe('API Contract Parsers', () => {
+  it('should link an OpenAPI spec to its provider and consumers', async () => {
+    const content = `
+openapi: 3.0.3
+info:
+  title: Orders API
+  version: 2.1.0
+servers:
+  - url: http://orders:8080/v2
+x-consumers: [web]
+paths:
+  /orders:
+    get:
+      operationId: listOrders
+    post:
+      operationId: createOrder
+      x-consumers: [checkout]
+`;
+    const deps = await parseOpenApi(content, 'services/orders-svc/api/openapi.yaml');
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'API/orders-api@2.1.0',
+      target: 'orders',
+      type: 'api_provider',
+      sourceNode: expect.objectContaining({
+        type: 'api',
+        name: 'Orders API v2.1.0',
+        metadata: expect.objectContaining({ operations: ['GET /orders', 'POST /orders'] }),
+      }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'web', target: 'API/orders-api@2.1.0', type: 'api_consumer' }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'checkout',
+      target: 'API/orders-api@2.1.0',
+      metadata: expect.objectContaining({ operation: 'POST /orders' }),
+    }));
+  });
+
+  it('should fall back to the spec directory as provider', async () => {
+    const deps = await parseOpenApi('swagger: "2.0"\ninfo:\n  title: Billing\n  version: "1"\nhost: api.example.com\n', 'billing/docs/swagger.yaml');
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'API/billing@1', target: 'billing', type: 'api_provider' }));
+  });
+
+  it('should link AsyncAPI 2.x publishers and subscribers to channels', async () => {
+    const content = `
+asyncapi: 2.6.0
+info:
+  title: Order events
+  version: 1.0.0
+  x-service: orders
+servers:
+  production:
+    url: kafka:9092
+    protocol: kafka
+channels:
+  orders.created:
+    subscribe:
+      operationId: publishOrderCreated
+    x-subscribers: [billing, shipping]
+  payments.settled:
+    publish:
+      operationId: onPaymentSettled
+`;
+    const deps = await parseAsyncApi(content, 'orders/asyncapi.yaml');
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Channel/orders.created',
+      target: 'orders',
+      type: 'api_provider',
+      sourceNode: expect.objectContaining({ type: 'queue', metadata: { protocol: 'kafka' } }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'billing', target: 'Channel/orders.created', type: 'api_consumer' }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'shipping', target: 'Channel/orders.created', type: 'api_consumer' }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'orders',
+      target: 'Channel/payments.settled',
+      type: 'api_consumer',
+      metadata: expect.objectContaining({ action: 'receive' }),
+    }));
+  });
+
+  it('should resolve AsyncAPI 3.x operations to channel addresses', async () => {
+    const content = `
+asyncapi: 3.0.0
+info:
+  title: Shipping
+  version: 1.0.0
+channels:
+  shipmentDispatched:
+    address: shipments.dispatched
+  orderCreated:
+    address: orders.created
+operations:
+  sendShipmentDispatched:
+    action: send
+    channel:
+      $ref: '#/channels/shipmentDispatched'
+  onOrderCreated:
+    action: receive
+    channel:
+      $ref: '#/channels/orderCreated'
+`;
+    const deps = await parseAsyncApi(content, 'shipping/asyncapi.yaml');
+
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'Channel/shipments.dispatched', target: 'shipping', type: 'api_provider' }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'shipping', target: 'Channel/orders.created', type: 'api_consumer' }));
+  });
+});
+
+describe('Protobuf Parser', () => {
+  const files = [
+    {
+      path: 'proto/acme/orders/v1/orders.proto',
+      content: `
+syntax = "proto3";
+// service Legacy { } is commented out
+package acme.orders.v1;
+
+import "google/protobuf/timestamp.proto";
+
+service OrderService {
+  rpc GetOrder (GetOrderRequest) returns (Order);
+  rpc WatchOrders (WatchRequest) returns (stream Order) {
+    option idempotency_level = NO_SIDE_EFFECTS;
+  }
+}
+
+message Order { string id = 1; }
+`,
+    },
+    {
+      path: 'proto/acme/checkout/v1/checkout.proto',
+      content: `
+syntax = "proto3";
+package acme.checkout.v1;
+
+import "acme/orders/v1/orders.proto";
+
+service CheckoutService {
+  rpc Checkout (CheckoutRequest) returns (acme.orders.v1.Order);
+}
+`,
+    },
+  ];
+
+  it('should create API nodes owned by the package service', async () => {
+    const deps = await parseProtoFiles(files);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'API/acme.orders.v1.OrderService',
+      target: 'orders',
+      type: 'api_provider',
+      sourceNode: expect.objectContaining({
+        type: 'api',
+        metadata: expect.objectContaining({
+          protocol: 'grpc',
+          rpcs: ['GetOrder(GetOrderRequest) returns (Order)', 'WatchOrders(WatchRequest) returns (stream Order)'],
+        }),
+      }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'checkout',
+      target: 'API/acme.orders.v1.OrderService',
+      type: 'api_consumer',
+      metadata: expect.objectContaining({ import: 'acme/orders/v1/orders.proto' }),
+    }));
+    expect(deps.some(dep => dep.source.includes('Legacy'))).toBe(false);
+  });
+
+  it('should map packages to services with a configured pattern', async () => {
+    const deps = await parseProtoFiles(files, { packagePattern: '^acme\\.(?<service>[^.]+)\\.' });
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'API/acme.checkout.v1.CheckoutService',
+      target: 'checkout',
+    }));
+    const custom = await parseProtoFiles(files, { packagePattern: '^acme\\.([^.]+)' });
+    expect(custom).toContainEqual(expect.objectContaining({ source: 'checkout', target: 'API/acme.orders.v1.OrderService' }));
+  });
 });
 
 describe('Docker Compose Parser', () => {
@@ -110,178 +745,2452 @@ services:
     const deps = await parseDockerCompose('invalid: yaml: content: [');
     expect(deps).toEqual([]);
   });
-});
 
-describe('Kubernetes Parser', () => {
-  it('should parse Service to Deployment dependencies', async () => {
+  it('should link services sharing a named volume', async () => {
     const content = `
-apiVersion: v1
-kind: Service
-metadata:
-  name: my-service
-spec:
-  selector:
-    app: my-app
-  ports:
-    - port: 80
----
-apiVersion: apps/v1
-kind: Deployment
-metadata:
-  name: my-deployment
-spec:
-  selector:
-    matchLabels:
-      app: my-app
-  template:
-    metadata:
-      labels:
-        app: my-app
-    spec:
-      containers:
-        - name: my-container
-          image: nginx
+services:
+  api:
+    image: node
+    volumes:
+      - uploads:/data/uploads
+      - ./src:/app/src
+  worker:
+    image: node
+    volumes:
+      - type: volume
+        source: uploads
+        target: /uploads
+  web:
+    image: nginx
+    volumes:
+      - ./src:/app/src
+volumes:
+  uploads:
 `;
-    const deps = await parseKubernetes(content);
-    
-    expect(deps).toContainEqual(expect.objectContaining({
-      source: 'Service/my-service',
-      target: 'Deployment/my-deployment',
-      type: 'k8s_service',
-    }));
-  });
+    const deps = await parseDockerCompose(content);
 
-  it('should parse ConfigMap and Secret references', async () => {
-    const content = `
-apiVersion: apps/v1
-kind: Deployment
-metadata:
-  name: my-app
-spec:
-  template:
-    spec:
-      containers:
-        - name: app
-          envFrom:
-            - configMapRef:
-                name: app-config
-            - secretRef:
-                name: app-secrets
-`;
-    const deps = await parseKubernetes(content);
-    
-    expect(deps).toContainEqual(expect.objectContaining({
-      source: 'Deployment/my-app',
-      target: 'ConfigMap/app-config',
-      type: 'k8s_configmap',
-    }));
-    
     expect(deps).toContainEqual(expect.objectContaining({
-      source: 'Deployment/my-app',
-      target: 'Secret/app-secrets',
-      type: 'k8s_secret',
+      source: 'api',
+      target: 'worker',
+      type: 'docker_volume',
+      metadata: { volume: 'uploads' },
     }));
+    // Bind mounts are not shared volumes
+    expect(deps.filter(dep => dep.type === 'docker_volume')).toHaveLength(1);
   });
 
-  it('should handle empty content', async () => {
-    const deps = await parseKubernetes('');
-    expect(deps).toEqual([]);
+  const projectFiles = [
+    {
+      path: 'app/docker-compose.yml',
+      content: `
+include:
+  - ../shared/compose.yaml
+services:
+  api:
+    extends:
+      file: common.yml
+      service: node-app
+    image: registry.example.com/api:\${API_TAG:-latest}
+    depends_on: [db]
+  debug:
+    image: busybox:\${BUSYBOX_TAG}
+    profiles: [debug]
+    depends_on:
+      - api
+`,
+    },
+    {
+      path: 'app/docker-compose.override.yml',
+      content: `
+services:
+  api:
+    depends_on:
+      cache:
+        condition: service_started
+`,
+    },
+    {
+      path: 'app/common.yml',
+      content: `
+services:
+  node-app:
+    build: ./api
+    networks: [backend]
+`,
+    },
+    { path: 'app/.env', content: 'API_TAG=1.4.2\n# comment\nBUSYBOX_TAG="1.36"\n' },
+    {
+      path: 'shared/compose.yaml',
+      content: `
+services:
+  db:
+    image: postgres:\${PG_VERSION:-16}
+    networks: [backend]
+  cache:
+    image: redis
+`,
+    },
+  ];
+
+  it('should resolve include, extends, overrides and .env interpolation', async () => {
+    const deps = await parseFiles(projectFiles);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'api',
+      target: 'Dockerfile/app/api/Dockerfile',
+      type: 'docker_build',
+      metadata: { context: 'app/api', image: 'registry.example.com/api:1.4.2' },
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'api', target: 'db', type: 'docker_depends_on' }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'api',
+      target: 'cache',
+      metadata: { condition: 'service_started' },
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'api', target: 'db', type: 'docker_network' }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'db', target: 'Image/postgres:16' }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'debug', target: 'Image/busybox:1.36' }));
+
+    // Extended and included files are not parsed as separate projects or Kubernetes manifests
+    expect(deps.filter(dep => dep.source === 'node-app')).toHaveLength(0);
+    expect(deps.filter(dep => dep.target === 'Image/redis')).toHaveLength(1);
+  });
+
+  it('should only include services in the active profiles', async () => {
+    const deps = await parseFiles(projectFiles, { composeProfiles: [] });
+    expect(deps.filter(dep => dep.source === 'debug')).toHaveLength(0);
+
+    const debugDeps = await parseFiles(projectFiles, { composeProfiles: ['debug'] });
+    expect(debugDeps).toContainEqual(expect.objectContaining({
+      source: 'debug',
+      target: 'api',
+      sourceNode: expect.objectContaining({ metadata: { profiles: ['debug'] } }),
+    }));
   });
 });
 
-describe('CODEOWNERS Parser', () => {
-  it('should parse owner assignments', async () => {
-    const content = `
-# Global owners
-* @org/platform-team
+describe('Dockerfile Parser', () => {
+  const content = `
+# syntax=docker/dockerfile:1
+ARG NODE_VERSION=20
+FROM node:\${NODE_VERSION}-alpine AS build
+WORKDIR /app
+COPY . .
+RUN npm ci && \\
+    npm run build
 
-# Frontend
-/src/web/ @org/frontend-team @alice
+FROM build AS test
+RUN npm test
 
-# Backend
-/src/api/ @org/backend-team
+FROM docker.io/library/nginx:1.25
+COPY --from=build /app/dist /usr/share/nginx/html
+COPY --from=busybox:1.36 /bin/wget /usr/bin/wget
+EXPOSE 80 443/tcp
+`;
+
+  it('should link stages and base images', async () => {
+    const deps = await parseDockerfile(content, 'web/Dockerfile');
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Dockerfile/web/Dockerfile#build',
+      target: 'Image/node:20-alpine',
+      type: 'docker_base_image',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Dockerfile/web/Dockerfile#test',
+      target: 'Dockerfile/web/Dockerfile#build',
+      type: 'docker_build_stage',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Dockerfile/web/Dockerfile',
+      target: 'Image/nginx:1.25',
+      type: 'docker_base_image',
+      sourceNode: expect.objectContaining({
+        metadata: expect.objectContaining({ exposedPorts: ['80', '443/tcp'] }),
+      }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Dockerfile/web/Dockerfile',
+      target: 'Dockerfile/web/Dockerfile#build',
+      metadata: { relation: 'copy' },
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Dockerfile/web/Dockerfile',
+      target: 'Image/busybox:1.36',
+      metadata: expect.objectContaining({ copyFrom: true }),
+    }));
+  });
+
+  it('should link compose build contexts to Dockerfiles', async () => {
+    const compose = `
+services:
+  web:
+    build: ./web
+  worker:
+    build:
+      context: ./worker
+      dockerfile: Dockerfile.prod
+  cache:
+    image: redis:7
+`;
+    const deps = await parseDockerCompose(compose, 'deploy/docker-compose.yml');
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'web',
+      target: 'Dockerfile/deploy/web/Dockerfile',
+      type: 'docker_build',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'worker',
+      target: 'Dockerfile/deploy/worker/Dockerfile.prod',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'cache',
+      target: 'Image/redis:7',
+      type: 'docker_image',
+    }));
+  });
+});
+
+describe('Kubernetes Parser', () => {
+  it('should parse Service to Deployment dependencies', async () => {
+    const content = `
+apiVersion: v1
+kind: Service
+metadata:
+  name: my-service
+spec:
+  selector:
+    app: my-app
+  ports:
+    - port: 80
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: my-deployment
+spec:
+  selector:
+    matchLabels:
+      app: my-app
+  template:
+    metadata:
+      labels:
+        app: my-app
+    spec:
+      containers:
+        - name: my-container
+          image: nginx
 `;
-    const deps = await parseCodeowners(content);
+    const deps = await parseKubernetes(content);
     
     expect(deps).toContainEqual(expect.objectContaining({
-      source: '*',
-      target: '@org/platform-team',
-      type: 'codeowner',
+      source: 'Service/default/my-service',
+      target: 'Deployment/default/my-deployment',
+      type: 'k8s_service',
     }));
+  });
+
+  it('should parse ConfigMap and Secret references', async () => {
+    const content = `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: my-app
+spec:
+  template:
+    spec:
+      containers:
+        - name: app
+          envFrom:
+            - configMapRef:
+                name: app-config
+            - secretRef:
+                name: app-secrets
+`;
+    const deps = await parseKubernetes(content);
     
     expect(deps).toContainEqual(expect.objectContaining({
-      source: '/src/web/',
-      target: '@org/frontend-team',
-      type: 'codeowner',
+      source: 'Deployment/default/my-app',
+      target: 'ConfigMap/default/app-config',
+      type: 'k8s_configmap',
     }));
     
     expect(deps).toContainEqual(expect.objectContaining({
-      source: '/src/api/',
-      target: '@org/backend-team',
-      type: 'codeowner',
+      source: 'Deployment/default/my-app',
+      target: 'Secret/default/app-secrets',
+      type: 'k8s_secret',
     }));
   });
 
-  it('should skip comments and empty lines', async () => {
+  it('should extract Istio routes, traffic policies and external hosts', async () => {
     const content = `
-# This is a comment
-# Another comment
+apiVersion: networking.istio.io/v1beta1
+kind: VirtualService
+metadata:
+  name: reviews
+spec:
+  hosts: [reviews.example.com]
+  gateways: [istio-system/public-gateway, mesh]
+  http:
+    - route:
+        - destination:
+            host: reviews.prod.svc.cluster.local
+            subset: v2
+          weight: 80
+        - destination:
+            host: api.partner.com
+          weight: 20
+---
+apiVersion: networking.istio.io/v1beta1
+kind: DestinationRule
+metadata:
+  name: reviews
+spec:
+  host: reviews
+  subsets:
+    - name: v2
+  trafficPolicy:
+    tls:
+      mode: ISTIO_MUTUAL
+---
+apiVersion: networking.istio.io/v1beta1
+kind: ServiceEntry
+metadata:
+  name: stripe
+spec:
+  hosts: [api.stripe.com]
+  location: MESH_EXTERNAL
+  resolution: DNS
+  ports:
+    - number: 443
+      name: https
+`;
+    const deps = await parseKubernetes(content);
 
-/src/ @team
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'Gateway/istio-system/public-gateway', target: 'VirtualService/default/reviews', type: 'k8s_route' }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'VirtualService/default/reviews',
+      target: 'Service/prod/reviews',
+      type: 'k8s_route',
+      metadata: expect.objectContaining({ subset: 'v2', weight: 80 }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'VirtualService/default/reviews',
+      target: 'External/api.partner.com',
+      targetNode: expect.objectContaining({ type: 'external' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'DestinationRule/default/reviews',
+      target: 'Service/default/reviews',
+      type: 'k8s_traffic_policy',
+      metadata: expect.objectContaining({ subsets: ['v2'], tlsMode: 'ISTIO_MUTUAL' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'ServiceEntry/default/stripe',
+      target: 'External/api.stripe.com',
+      type: 'k8s_external',
+      metadata: expect.objectContaining({ ports: [443] }),
+    }));
+    expect(deps.some(dep => dep.source === 'Gateway/default/mesh')).toBe(false);
+  });
+
+  it('should extract Gateway API routes and Linkerd traffic splits', async () => {
+    const content = `
+apiVersion: gateway.networking.k8s.io/v1
+kind: HTTPRoute
+metadata:
+  name: storefront
+spec:
+  parentRefs:
+    - name: external
+      sectionName: https
+  rules:
+    - backendRefs:
+        - name: storefront
+          port: 8080
+          weight: 90
+        - name: storefront-canary
+          port: 8080
+          weight: 10
+---
+apiVersion: split.smi-spec.io/v1alpha2
+kind: TrafficSplit
+metadata:
+  name: checkout-split
+spec:
+  service: checkout
+  backends:
+    - service: checkout-v1
+      weight: 900
+    - service: checkout-v2
+      weight: 100
 `;
-    const deps = await parseCodeowners(content);
-    expect(deps).toHaveLength(1);
+    const deps = await parseKubernetes(content);
+
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'Gateway/default/external', target: 'HTTPRoute/default/storefront', type: 'k8s_route' }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'HTTPRoute/default/storefront',
+      target: 'Service/default/storefront-canary',
+      metadata: expect.objectContaining({ port: 8080, weight: 10 }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'Service/default/checkout', target: 'TrafficSplit/default/checkout-split' }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'TrafficSplit/default/checkout-split',
+      target: 'Service/default/checkout-v2',
+      metadata: expect.objectContaining({ weight: 100 }),
+    }));
   });
-});
 
-describe('Package.json Parser', () => {
-  it('should parse dependencies', async () => {
-    const content = JSON.stringify({
-      name: 'my-app',
-      dependencies: {
-        express: '^4.18.0',
-        lodash: '^4.17.0',
-      },
-      devDependencies: {
-        typescript: '^5.0.0',
-      },
-    });
+  it('should model NetworkPolicy ingress and egress as allowed traffic', async () => {
+    const content = `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+spec:
+  template:
+    metadata:
+      labels: { app: api }
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web
+spec:
+  template:
+    metadata:
+      labels: { app: web }
+---
+apiVersion: networking.k8s.io/v1
+kind: NetworkPolicy
+metadata:
+  name: api-traffic
+spec:
+  podSelector:
+    matchLabels: { app: api }
+  policyTypes: [Ingress, Egress]
+  ingress:
+    - from:
+        - podSelector:
+            matchLabels: { app: web }
+      ports:
+        - port: 8080
+  egress:
+    - to:
+        - ipBlock:
+            cidr: 10.20.0.0/16
+    - to:
+        - namespaceSelector:
+            matchLabels:
+              kubernetes.io/metadata.name: kube-system
+`;
+    const deps = await parseKubernetes(content);
 
-    const deps = await parsePackageJson(content);
-    
     expect(deps).toContainEqual(expect.objectContaining({
-      source: 'my-app',
-      target: 'express',
-      type: 'npm_dependency',
+      source: 'Deployment/default/web',
+      target: 'Deployment/default/api',
+      type: 'k8s_network_allow',
+      metadata: expect.objectContaining({ policy: 'NetworkPolicy/default/api-traffic', direction: 'ingress', ports: ['8080/TCP'] }),
     }));
-    
     expect(deps).toContainEqual(expect.objectContaining({
-      source: 'my-app',
-      target: 'lodash',
-      type: 'npm_dependency',
+      source: 'Deployment/default/api',
+      target: 'External/10.20.0.0/16',
+      metadata: expect.objectContaining({ direction: 'egress' }),
     }));
-    
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'Deployment/default/api', target: 'Namespace/kube-system' }));
+  });
+
+  it('should resolve NetworkPolicy selectors against workloads in other files', async () => {
+    const workload = (name: string) => `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: ${name}
+  namespace: shop
+spec:
+  template:
+    metadata:
+      labels: { app: ${name} }
+`;
+    const deps = await parseFiles([
+      { path: 'k8s/api.yaml', content: workload('api') },
+      { path: 'k8s/web.yaml', content: workload('web') },
+      {
+        path: 'k8s/netpol.yaml',
+        content: `
+apiVersion: networking.k8s.io/v1
+kind: NetworkPolicy
+metadata:
+  name: api-ingress
+  namespace: shop
+spec:
+  podSelector:
+    matchLabels: { app: api }
+  ingress:
+    - from:
+        - podSelector:
+            matchLabels: { app: web }
+`,
+      },
+    ]);
+
     expect(deps).toContainEqual(expect.objectContaining({
-      source: 'my-app',
-      target: 'typescript',
-      type: 'npm_devDependency',
+      source: 'Deployment/shop/web',
+      target: 'Deployment/shop/api',
+      type: 'k8s_network_allow',
+      provenance: expect.objectContaining({ parser: 'kubernetes', file: 'k8s/netpol.yaml' }),
     }));
   });
 
-  it('should handle invalid JSON', async () => {
-    const deps = await parsePackageJson('not valid json');
-    expect(deps).toEqual([]);
+  it('should evaluate NetworkPolicy selectors and peers that only use matchExpressions', async () => {
+    const workload = (name: string, namespace: string) => `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: ${name}
+  namespace: ${namespace}
+spec:
+  template:
+    metadata:
+      labels: { app: ${name} }
+`;
+    const content = [
+      workload('api', 'default'),
+      workload('web', 'default'),
+      workload('metrics', 'monitoring'),
+      `
+apiVersion: networking.k8s.io/v1
+kind: NetworkPolicy
+metadata:
+  name: api-traffic
+spec:
+  podSelector:
+    matchExpressions:
+      - { key: app, operator: In, values: [api] }
+  ingress:
+    - from:
+        - podSelector:
+            matchExpressions:
+              - { key: app, operator: NotIn, values: [api] }
+        - namespaceSelector:
+            matchExpressions:
+              - { key: kubernetes.io/metadata.name, operator: In, values: [monitoring] }
+          podSelector:
+            matchExpressions:
+              - { key: app, operator: Exists }
+        - podSelector:
+            matchExpressions:
+              - { key: app, operator: Gt, values: ["1"] }
+`,
+      `
+apiVersion: networking.k8s.io/v1
+kind: NetworkPolicy
+metadata:
+  name: same-app
+spec:
+  podSelector:
+    matchExpressions:
+      - { key: app, operator: In, values: [web] }
+  ingress:
+    - from:
+        - podSelector:
+            matchExpressions:
+              - { key: app, operator: In, values: [web] }
+`,
+    ].join('---');
+    const deps = await parseKubernetes(content);
+    const allowed = deps
+      .filter(dep => dep.type === 'k8s_network_allow')
+      .map(dep => `${dep.source} -> ${dep.target}`)
+      .sort();
+
+    expect(allowed).toEqual([
+      'Deployment/default/web -> Deployment/default/api',
+      'Deployment/monitoring/metrics -> Deployment/default/api',
+    ]);
   });
 
-  it('should handle missing name', async () => {
-    const content = JSON.stringify({
-      dependencies: { express: '^4.18.0' },
-    });
+  it('should link Linkerd authorized clients to the workloads behind a Server', async () => {
+    const content = `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: checkout
+spec:
+  template:
+    metadata:
+      labels: { app: checkout }
+    spec:
+      serviceAccountName: checkout
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: payments
+spec:
+  template:
+    metadata:
+      labels: { app: payments }
+---
+apiVersion: policy.linkerd.io/v1beta1
+kind: Server
+metadata:
+  name: payments-grpc
+spec:
+  podSelector:
+    matchLabels: { app: payments }
+  port: grpc
+---
+apiVersion: policy.linkerd.io/v1beta1
+kind: ServerAuthorization
+metadata:
+  name: payments-from-checkout
+spec:
+  server:
+    name: payments-grpc
+  client:
+    meshTLS:
+      serviceAccounts:
+        - name: checkout
+`;
+    const deps = await parseKubernetes(content);
 
-    const deps = await parsePackageJson(content);
     expect(deps).toContainEqual(expect.objectContaining({
-      source: 'unknown-package',
-      target: 'express',
+      source: 'Deployment/default/checkout',
+      target: 'Deployment/default/payments',
+      type: 'k8s_network_allow',
+      metadata: expect.objectContaining({ policy: 'ServerAuthorization/default/payments-from-checkout', port: 'grpc' }),
     }));
   });
+
+  it('should read CronJob job templates, init containers, projected volumes and pull secrets', async () => {
+    const content = `
+apiVersion: batch/v1
+kind: CronJob
+metadata:
+  name: nightly-report
+spec:
+  schedule: "0 2 * * *"
+  jobTemplate:
+    spec:
+      template:
+        spec:
+          imagePullSecrets:
+            - name: registry-creds
+          initContainers:
+            - name: migrate
+              envFrom:
+                - secretRef:
+                    name: db-credentials
+          containers:
+            - name: report
+              env:
+                - name: BUCKET
+                  valueFrom:
+                    configMapKeyRef:
+                      name: report-config
+                      key: bucket
+          volumes:
+            - name: bundle
+              projected:
+                sources:
+                  - configMap:
+                      name: ca-bundle
+                  - secret:
+                      name: signing-key
+`;
+    const deps = await parseKubernetes(content);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'CronJob/default/nightly-report',
+      target: 'Secret/default/db-credentials',
+      metadata: expect.objectContaining({ container: 'migrate', initContainer: true }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'CronJob/default/nightly-report', target: 'ConfigMap/default/report-config', type: 'k8s_configmap' }));
+    expect(deps).toContainEqual(expect.objectContaining({ target: 'ConfigMap/default/ca-bundle', metadata: expect.objectContaining({ projected: true }) }));
+    expect(deps).toContainEqual(expect.objectContaining({ target: 'Secret/default/signing-key', type: 'k8s_secret' }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      target: 'Secret/default/registry-creds',
+      metadata: expect.objectContaining({ imagePullSecret: true }),
+    }));
+  });
+
+  it('should link legacy Ingress backends, HPAs, PDBs and ExternalName services', async () => {
+    const content = `
+apiVersion: extensions/v1beta1
+kind: Ingress
+metadata:
+  name: legacy
+spec:
+  backend:
+    serviceName: fallback
+    servicePort: 80
+  rules:
+    - host: shop.example.com
+      http:
+        paths:
+          - path: /
+            backend:
+              serviceName: storefront
+              servicePort: 8080
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: storefront
+spec:
+  template:
+    metadata:
+      labels: { app: storefront }
+---
+apiVersion: autoscaling/v2
+kind: HorizontalPodAutoscaler
+metadata:
+  name: storefront
+spec:
+  scaleTargetRef:
+    apiVersion: apps/v1
+    kind: Deployment
+    name: storefront
+  minReplicas: 2
+  maxReplicas: 10
+---
+apiVersion: policy/v1
+kind: PodDisruptionBudget
+metadata:
+  name: storefront
+spec:
+  minAvailable: 1
+  selector:
+    matchLabels: { app: storefront }
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: billing-db
+spec:
+  type: ExternalName
+  externalName: billing.abc123.eu-west-1.rds.amazonaws.com
+`;
+    const deps = await parseKubernetes(content);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Ingress/default/legacy',
+      target: 'Service/default/storefront',
+      metadata: expect.objectContaining({ host: 'shop.example.com', port: 8080 }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'Ingress/default/legacy', target: 'Service/default/fallback' }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'HorizontalPodAutoscaler/default/storefront',
+      target: 'Deployment/default/storefront',
+      type: 'k8s_scales',
+      metadata: expect.objectContaining({ minReplicas: 2, maxReplicas: 10 }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'PodDisruptionBudget/default/storefront',
+      target: 'Deployment/default/storefront',
+      type: 'k8s_disruption_budget',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Service/default/billing-db',
+      target: 'External/billing.abc123.eu-west-1.rds.amazonaws.com',
+      type: 'k8s_external',
+    }));
+  });
+
+  it('should resolve PodDisruptionBudget selectors against workloads in other files', async () => {
+    const deps = await parseFiles([
+      {
+        path: 'k8s/deploy.yaml',
+        content: `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+spec:
+  template:
+    metadata:
+      labels: { app: api }
+`,
+      },
+      {
+        path: 'k8s/pdb.yaml',
+        content: `
+apiVersion: policy/v1
+kind: PodDisruptionBudget
+metadata:
+  name: api
+spec:
+  maxUnavailable: 1
+  selector:
+    matchLabels: { app: api }
+`,
+      },
+    ]);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'PodDisruptionBudget/default/api',
+      target: 'Deployment/default/api',
+      type: 'k8s_disruption_budget',
+      metadata: expect.objectContaining({ maxUnavailable: 1 }),
+      provenance: expect.objectContaining({ file: 'k8s/pdb.yaml' }),
+    }));
+  });
+
+  it('should evaluate PodDisruptionBudget selectors that only use matchExpressions', async () => {
+    const workload = (name: string, tier: string) => `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: ${name}
+spec:
+  template:
+    metadata:
+      labels: { app: ${name}, tier: ${tier} }
+`;
+    const budget = (name: string, expressions: string) => `
+apiVersion: policy/v1
+kind: PodDisruptionBudget
+metadata:
+  name: ${name}
+spec:
+  minAvailable: 1
+  selector:
+    matchExpressions:
+${expressions}
+`;
+    const content = [
+      workload('api', 'backend'),
+      workload('web', 'frontend'),
+      workload('worker', 'backend'),
+      budget('api', '      - { key: app, operator: In, values: [api] }'),
+      budget('backend', '      - { key: tier, operator: NotIn, values: [frontend] }\n      - { key: app, operator: Exists }'),
+      budget('unknown', '      - { key: app, operator: Gt, values: ["1"] }'),
+    ].join('---');
+    const deps = await parseKubernetes(content);
+    const targets = (budgetName: string) => deps
+      .filter(dep => dep.source === `PodDisruptionBudget/default/${budgetName}`)
+      .map(dep => dep.target)
+      .sort();
+
+    expect(targets('api')).toEqual(['Deployment/default/api']);
+    expect(targets('backend')).toEqual(['Deployment/default/api', 'Deployment/default/worker']);
+    expect(targets('unknown')).toEqual([]);
+  });
+
+  it('should keep same-named objects in different namespaces apart', async () => {
+    const content = ['payments', 'search'].map(namespace => `
+apiVersion: v1
+kind: Service
+metadata:
+  name: api
+  namespace: ${namespace}
+spec:
+  selector:
+    app: api
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+  namespace: ${namespace}
+spec:
+  template:
+    metadata:
+      labels:
+        app: api
+    spec:
+      containers:
+        - name: api
+          envFrom:
+            - configMapRef:
+                name: api-config
+`).join('---');
+    const deps = await parseKubernetes(content);
+
+    expect(deps.filter(dep => dep.type === 'k8s_service').map(dep => [dep.source, dep.target])).toEqual([
+      ['Service/payments/api', 'Deployment/payments/api'],
+      ['Service/search/api', 'Deployment/search/api'],
+    ]);
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'Deployment/search/api', target: 'ConfigMap/search/api-config' }));
+    expect(deps[0].sourceNode).toEqual(expect.objectContaining({
+      name: 'Service/api',
+      metadata: expect.objectContaining({ kind: 'Service', namespace: 'payments' }),
+    }));
+
+    const graph = buildGraph(deps, { name: 'k8s', sourceType: 'local', sourcePath: '.' });
+    const services = graph.nodes.filter(node => node.type === 'k8s_service');
+    expect(services.map(nodeDisplayName).sort()).toEqual(['Service/api (payments)', 'Service/api (search)']);
+  });
+
+  it('should apply default namespaces and cluster context to node IDs', async () => {
+    const content = `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web
+spec:
+  template:
+    spec:
+      serviceAccountName: web
+---
+apiVersion: networking.k8s.io/v1
+kind: NetworkPolicy
+metadata:
+  name: web-egress
+spec:
+  podSelector: {}
+  egress:
+    - to:
+        - namespaceSelector:
+            matchLabels:
+              kubernetes.io/metadata.name: monitoring
+`;
+    const deps = await parseKubernetes(content, { namespace: 'team-a', cluster: 'prod-eu' });
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Deployment/prod-eu/team-a/web',
+      target: 'ServiceAccount/prod-eu/team-a/web',
+    }));
+    // Namespaces are cluster-scoped
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Deployment/prod-eu/team-a/web',
+      target: 'Namespace/prod-eu/monitoring',
+      targetNode: expect.objectContaining({ metadata: expect.objectContaining({ cluster: 'prod-eu', namespace: undefined }) }),
+    }));
+
+    expect(kubernetesNodeId({ kind: 'Service', name: 'api' })).toBe('Service/default/api');
+    expect(parseKubernetesNodeId('Deployment/prod-eu/team-a/web')).toEqual({ kind: 'Deployment', cluster: 'prod-eu', namespace: 'team-a', name: 'web' });
+    expect(parseKubernetesNodeId('Namespace/monitoring')).toEqual({ kind: 'Namespace', name: 'monitoring' });
+    expect(parseKubernetesNodeId('Job/.github/workflows/deploy.yml#build')).toBeUndefined();
+  });
+
+  it('should handle empty content', async () => {
+    const deps = await parseKubernetes('');
+    expect(deps).toEqual([]);
+  });
+});
+
+describe('GitHub Actions Parser', () => {
+  const workflow = `
+name: Deploy
+on:
+  push:
+    branches: [main]
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4
+      - uses: docker/build-push-action@0565240e2d4ab88bba5387d719585280857ece09
+        with:
+          push: true
+          tags: ghcr.io/acme/orders:latest
+  test:
+    uses: ./.github/workflows/test.yml
+  deploy:
+    needs: [build, test]
+    environment:
+      name: production
+      url: https://orders.example.com
+    runs-on: ubuntu-latest
+    steps:
+      - uses: ./.github/actions/setup-kubectl
+      - name: Roll out
+        run: |
+          helm upgrade --install orders ./charts/orders -n prod -f values-prod.yaml
+          kubectl rollout status deployment/orders -n prod
+`;
+
+  it('should model workflows, jobs and needs', async () => {
+    const deps = await parseFiles([{ path: '.github/workflows/deploy.yml', content: workflow }]);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Workflow/.github/workflows/deploy.yml',
+      target: 'Job/.github/workflows/deploy.yml#build',
+      type: 'ci_job',
+      sourceNode: expect.objectContaining({ name: 'Deploy', metadata: expect.objectContaining({ triggers: ['push'] }) }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Job/.github/workflows/deploy.yml#deploy',
+      target: 'Job/.github/workflows/deploy.yml#test',
+      type: 'ci_needs',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Job/.github/workflows/deploy.yml#test',
+      target: 'Workflow/.github/workflows/test.yml',
+      type: 'ci_uses_workflow',
+    }));
+  });
+
+  it('should link actions with their pinned versions', async () => {
+    const deps = await parseFiles([{ path: '.github/workflows/deploy.yml', content: workflow }]);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      target: 'Action/actions/checkout',
+      type: 'ci_action',
+      metadata: expect.objectContaining({ ref: 'v4', pinned: false }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      target: 'Action/docker/build-push-action',
+      metadata: expect.objectContaining({ pinned: true }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      target: 'Action/.github/actions/setup-kubectl',
+      targetNode: expect.objectContaining({ metadata: { local: true } }),
+    }));
+  });
+
+  it('should link jobs to environments and deployment targets', async () => {
+    const deps = await parseFiles([{ path: '.github/workflows/deploy.yml', content: workflow }]);
+    const deploy = 'Job/.github/workflows/deploy.yml#deploy';
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: deploy,
+      target: 'Environment/production',
+      type: 'ci_environment',
+      metadata: { url: 'https://orders.example.com' },
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: deploy, target: 'Chart/orders', type: 'ci_deploys' }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: deploy,
+      target: 'Deployment/prod/orders',
+      type: 'ci_deploys',
+      metadata: expect.objectContaining({ via: 'kubectl', environment: 'production' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Job/.github/workflows/deploy.yml#build',
+      target: 'Image/ghcr.io/acme/orders:latest',
+      type: 'ci_deploys',
+    }));
+  });
+});
+
+describe('Backstage Catalog Parser', () => {
+  it('should map entities to dependency, API and ownership edges', async () => {
+    const deps = await parseFiles([
+      { path: 'catalog/systems.yaml', content: `apiVersion: backstage.io/v1alpha1
+kind: System
+metadata:
+  name: checkout
+spec:
+  owner: group:default/payments-team
+  domain: commerce
+---
+apiVersion: backstage.io/v1alpha1
+kind: API
+metadata:
+  name: orders-api
+spec:
+  type: openapi
+  owner: payments-team
+  system: checkout
+` },
+      { path: 'services/orders/catalog-info.yaml', content: `apiVersion: backstage.io/v1alpha1
+kind: Component
+metadata:
+  name: orders
+  title: Orders Service
+  annotations:
+    github.com/project-slug: acme/orders
+spec:
+  type: service
+  lifecycle: production
+  owner: payments-team
+  system: checkout
+  providesApis:
+    - orders-api
+  consumesApis:
+    - api:inventory-api
+  dependsOn:
+    - resource:default/orders-db
+    - component:shipping
+` },
+    ]);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Group/payments-team',
+      target: 'orders',
+      type: 'owns',
+      targetNode: expect.objectContaining({
+        type: 'service',
+        name: 'Orders Service',
+        metadata: expect.objectContaining({ system: 'checkout', domain: 'commerce', lifecycle: 'production' }),
+      }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'Group/payments-team', target: 'System/checkout', type: 'owns' }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'API/orders-api', target: 'orders', type: 'api_provider' }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'orders', target: 'API/inventory-api', type: 'api_consumer' }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'orders', target: 'Resource/orders-db', type: 'backstage_depends_on' }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'orders', target: 'shipping', type: 'backstage_depends_on' }));
+    expect(deps.some(dep => dep.type.startsWith('k8s_'))).toBe(false);
+  });
+});
+
+describe('CODEOWNERS Parser', () => {
+  const codeowners = `
+# Global owners
+* @org/platform-team
+
+# Frontend
+/src/web/ @org/frontend-team @alice
+
+# Backend
+/src/api/ @org/backend-team
+*.md @org/docs
+/src/api/vendor/
+`;
+
+  const deps: ParsedDependency[] = [
+    { source: 'web', target: 'react', type: 'npm_dependency', provenance: { parser: 'package-json', file: 'src/web/package.json' } },
+    { source: 'api', target: 'express', type: 'npm_dependency', provenance: { parser: 'package-json', file: 'src/api/package.json' } },
+    { source: 'api', target: 'react', type: 'npm_dependency', provenance: { parser: 'package-json', file: 'src/api/package.json' } },
+    { source: 'legacy', target: 'lodash', type: 'npm_dependency', provenance: { parser: 'package-json', file: 'src/api/vendor/legacy/package.json' } },
+  ];
+
+  it('should give owning teams owns edges to the nodes declared in their files', async () => {
+    const ownership = await parseCodeowners(codeowners, deps);
+
+    expect(ownership).toContainEqual(expect.objectContaining({
+      source: '@org/frontend-team',
+      target: 'web',
+      type: 'owns',
+      sourceNode: { type: 'team', name: '@org/frontend-team' },
+      targetNode: { metadata: { owners: ['@alice', '@org/frontend-team'] } },
+      provenance: { parser: 'codeowners', startLine: 6, endLine: 6 },
+    }));
+    expect(ownership).toContainEqual(expect.objectContaining({ source: '@alice', target: 'web' }));
+    expect(ownership).toContainEqual(expect.objectContaining({ source: '@org/backend-team', target: 'api' }));
+    // Only referenced from api's manifest
+    expect(ownership).toContainEqual(expect.objectContaining({ source: '@org/backend-team', target: 'express' }));
+    expect(ownership.some(dep => dep.source.startsWith('/') || dep.source === '*')).toBe(false);
+  });
+
+  it('should let the last matching rule win', async () => {
+    const ownership = await parseCodeowners(codeowners, deps);
+
+    expect(ownership.filter(dep => dep.target === 'api').map(dep => dep.source)).toEqual(['@org/backend-team']);
+    // The last match has no owners, so the vendored package is unowned
+    expect(ownership.some(dep => dep.target === 'legacy')).toBe(false);
+    // Referenced from two teams' manifests: owned by neither
+    expect(ownership.some(dep => dep.target === 'react')).toBe(false);
+  });
+
+  it('should match patterns the way GitHub does', () => {
+    expect(matchPattern('docs/guide/README.md', '*.md')).toBe(true);
+    expect(matchPattern('src/web/app.ts', '/src/web/')).toBe(true);
+    expect(matchPattern('lib/src/web/app.ts', '/src/web/')).toBe(false);
+    expect(matchPattern('apps/build/logs/out.txt', 'build/logs/')).toBe(false);
+    expect(matchPattern('apps/logs/out.txt', 'logs/')).toBe(true);
+    expect(matchPattern('docs/a/b/c.md', 'docs/**/*.md')).toBe(true);
+    expect(matchPattern('docs/intro.md', 'docs/*')).toBe(true);
+    expect(matchPattern('docs/build/setup.md', 'docs/*')).toBe(false);
+    expect(matchPattern('any/path/file.ts', '*')).toBe(true);
+    expect(matchPattern('services/orders/main.go', '/services/orders')).toBe(true);
+    expect(matchPattern('services/orders-v2/main.go', '/services/orders')).toBe(false);
+  });
+
+  it('should attach ownership to scanned nodes', async () => {
+    const graph = buildGraph(await parseFiles([
+      { path: 'src/web/package.json', content: '{\n  "name": "web",\n  "dependencies": { "react": "^18.0.0" }\n}\n' },
+      { path: '.github/CODEOWNERS', content: codeowners },
+      { path: 'CODEOWNERS', content: '* @org/ignored\n' },
+    ]), { name: 'test', sourceType: 'local', sourcePath: '.' });
+
+    const web = graph.nodes.find(node => node.id === 'web')!;
+    expect(web.metadata.owners).toEqual(['@alice', '@org/frontend-team']);
+    expect(graph.nodes.find(node => node.id === '@org/frontend-team')?.type).toBe('team');
+    expect(graph.edges).toContainEqual(expect.objectContaining({
+      source: '@org/frontend-team',
+      target: 'web',
+      type: 'owns',
+      provenance: [{ parser: 'codeowners', file: '.github/CODEOWNERS', startLine: 6, endLine: 6 }],
+    }));
+    expect(graph.nodes.some(node => node.id === '/src/web/' || node.id === '@org/ignored')).toBe(false);
+  });
+});
+
+describe('Package.json Parser', () => {
+  it('should parse dependencies', async () => {
+    const content = JSON.stringify({
+      name: 'my-app',
+      dependencies: {
+        express: '^4.18.0',
+        lodash: '^4.17.0',
+      },
+      devDependencies: {
+        typescript: '^5.0.0',
+      },
+    });
+
+    const deps = await parsePackageJson(content);
+    
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'my-app',
+      target: 'express',
+      type: 'npm_dependency',
+    }));
+    
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'my-app',
+      target: 'lodash',
+      type: 'npm_dependency',
+    }));
+    
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'my-app',
+      target: 'typescript',
+      type: 'npm_devDependency',
+    }));
+  });
+
+  it('should handle invalid JSON', async () => {
+    const deps = await parsePackageJson('not valid json');
+    expect(deps).toEqual([]);
+  });
+
+  it('should handle missing name', async () => {
+    const content = JSON.stringify({
+      dependencies: { express: '^4.18.0' },
+    });
+
+    const deps = await parsePackageJson(content);
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'unknown-package',
+      target: 'express',
+    }));
+  });
+
+  it('should name packages without a name after their directory', async () => {
+    const deps = await parsePackageJson(JSON.stringify({ dependencies: { express: '^4.18.0' } }), 'tools/scripts/package.json');
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'scripts', target: 'express' }));
+  });
+});
+
+describe('Workspaces', () => {
+  it('should link npm workspace packages with internal edges', async () => {
+    const deps = await parseFiles([
+      { path: 'package.json', content: JSON.stringify({ name: 'acme', private: true, workspaces: ['packages/*'], devDependencies: { turbo: '^2.0.0' } }) },
+      { path: 'packages/shared/package.json', content: JSON.stringify({ name: '@acme/shared', version: '1.4.0', dependencies: { zod: '^3.22.0' } }) },
+      { path: 'packages/api/package.json', content: JSON.stringify({ name: '@acme/api', dependencies: { '@acme/shared': '^1.4.0', express: '^4.18.0' } }) },
+      { path: 'packages/tools/package.json', content: JSON.stringify({ devDependencies: { '@acme/shared': '*' } }) },
+    ]);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: '@acme/api',
+      target: '@acme/shared',
+      type: 'npm_workspace',
+      targetNode: expect.objectContaining({ type: 'service', metadata: expect.objectContaining({ path: 'packages/shared', version: '1.4.0' }) }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: '@acme/api', target: 'express', type: 'npm_dependency' }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'packages/tools',
+      target: '@acme/shared',
+      type: 'npm_workspace',
+      metadata: expect.objectContaining({ dependencyType: 'development' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'acme', target: 'turbo', type: 'npm_devDependency' }));
+    expect(deps.some(dep => dep.source === 'unknown-package')).toBe(false);
+  });
+
+  it('should resolve pnpm-workspace.yaml globs and the workspace protocol', async () => {
+    const deps = await parseFiles([
+      { path: 'pnpm-workspace.yaml', content: "packages:\n  - 'apps/*'\n  - 'libs/**'\n  - '!**/test/**'\n" },
+      { path: 'package.json', content: JSON.stringify({ name: 'root', private: true }) },
+      { path: 'libs/ui/button/package.json', content: JSON.stringify({ name: '@acme/button', version: '2.1.0' }) },
+      { path: 'libs/test/fixtures/package.json', content: JSON.stringify({ name: '@acme/fixtures' }) },
+      { path: 'apps/web/package.json', content: JSON.stringify({
+        name: 'web',
+        dependencies: { '@acme/button': 'workspace:^', '@acme/fixtures': '^1.0.0', ui: 'workspace:@acme/button@*' },
+      }) },
+    ]);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'web',
+      target: '@acme/button',
+      type: 'npm_workspace',
+      metadata: expect.objectContaining({ version: 'workspace:^', protocol: 'workspace', resolvedVersion: '^2.1.0' }),
+    }));
+    expect(deps.filter(dep => dep.type === 'npm_workspace')).toHaveLength(2);
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'web', target: '@acme/fixtures', type: 'npm_dependency' }));
+  });
+});
+
+describe('Lockfiles', () => {
+  it('should resolve package-lock.json v3 installs through nested node_modules', async () => {
+    const deps = await parseFiles([
+      { path: 'package.json', content: JSON.stringify({ name: 'app', dependencies: { express: '^4.18.0' } }) },
+      { path: 'package-lock.json', content: JSON.stringify({
+        name: 'app',
+        lockfileVersion: 3,
+        packages: {
+          '': { name: 'app', dependencies: { express: '^4.18.0' }, devDependencies: { vitest: '^1.0.0' } },
+          'node_modules/express': { version: '4.18.2', dependencies: { qs: '6.11.0', 'body-parser': '1.20.1' } },
+          'node_modules/body-parser': { version: '1.20.1', dependencies: { qs: '6.11.0' } },
+          'node_modules/qs': { version: '6.13.0' },
+          'node_modules/express/node_modules/qs': { version: '6.11.0' },
+          'node_modules/vitest': { version: '1.6.1', dev: true },
+        },
+      }) },
+    ]);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'app',
+      target: 'express',
+      type: 'npm_dependency',
+      metadata: expect.objectContaining({ resolvedVersion: '4.18.2', lockfile: 'package-lock.json' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'app', target: 'vitest', type: 'npm_devDependency' }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'express',
+      target: 'qs',
+      metadata: expect.objectContaining({ resolvedVersion: '6.11.0', transitive: true }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'body-parser',
+      target: 'qs',
+      metadata: expect.objectContaining({ resolvedVersion: '6.13.0' }),
+    }));
+  });
+
+  it('should parse pnpm-lock.yaml v9 importers and snapshots', async () => {
+    const deps = await parseFiles([
+      { path: 'pnpm-lock.yaml', content: `lockfileVersion: '9.0'
+importers:
+  .:
+    devDependencies:
+      typescript:
+        specifier: ^5.4.0
+        version: 5.4.5
+  packages/web:
+    dependencies:
+      react-dom:
+        specifier: ^18.2.0
+        version: 18.2.0(react@18.2.0)
+packages:
+  react@18.2.0:
+    resolution: {integrity: sha512-a}
+snapshots:
+  typescript@5.4.5: {}
+  react@18.2.0:
+    dependencies:
+      loose-envify: 1.4.0
+  loose-envify@1.4.0: {}
+  react-dom@18.2.0(react@18.2.0):
+    dependencies:
+      react: 18.2.0
+` },
+      { path: 'packages/web/package.json', content: JSON.stringify({ name: '@acme/web' }) },
+    ]);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: '@acme/web',
+      target: 'react-dom',
+      metadata: expect.objectContaining({ version: '^18.2.0', resolvedVersion: '18.2.0' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ target: 'typescript', type: 'npm_devDependency' }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'react-dom', target: 'react', metadata: expect.objectContaining({ transitive: true }) }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'react', target: 'loose-envify' }));
+  });
+
+  it('should match yarn.lock descriptors to package.json ranges', async () => {
+    const deps = await parseFiles([
+      { path: 'svc/package.json', content: JSON.stringify({ name: 'svc', dependencies: { '@babel/core': '^7.0.0' } }) },
+      { path: 'svc/yarn.lock', content: `# yarn lockfile v1
+
+
+"@babel/core@^7.0.0", "@babel/core@^7.1.0":
+  version "7.24.0"
+  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.24.0.tgz"
+  dependencies:
+    debug "^4.1.0"
+
+debug@^4.1.0:
+  version "4.3.4"
+` },
+    ]);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'svc',
+      target: '@babel/core',
+      metadata: expect.objectContaining({ resolvedVersion: '7.24.0', lockfile: 'svc/yarn.lock' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: '@babel/core',
+      target: 'debug',
+      metadata: expect.objectContaining({ version: '^4.1.0', resolvedVersion: '4.3.4' }),
+    }));
+  });
+});
+
+describe('Package Manifest Parsers', () => {
+  it('should parse go.mod requires with indirect markers and replacements', async () => {
+    const deps = await parseGoMod(`module github.com/acme/orders
+
+go 1.22
+
+require (
+	github.com/gin-gonic/gin v1.9.1
+	golang.org/x/net v0.20.0 // indirect
+)
+
+replace github.com/gin-gonic/gin => ../gin
+`);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'github.com/acme/orders',
+      target: 'github.com/gin-gonic/gin',
+      type: 'go_dependency',
+      metadata: expect.objectContaining({ version: 'v1.9.1', dependencyType: 'production', replace: '../gin' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      target: 'golang.org/x/net',
+      metadata: expect.objectContaining({ dependencyType: 'indirect' }),
+    }));
+  });
+
+  it('should parse requirements files and pyproject.toml', async () => {
+    const requirements = await parseRequirements(`# runtime
+Flask_SQLAlchemy[asyncio]>=3.1 ; python_version >= "3.10"
+requests==2.31.0
+-r base.txt
+`, 'services/billing/requirements.txt');
+
+    expect(requirements).toContainEqual(expect.objectContaining({
+      source: 'billing',
+      target: 'flask-sqlalchemy',
+      type: 'python_dependency',
+      metadata: expect.objectContaining({ version: '>=3.1', extras: ['asyncio'], markers: 'python_version >= "3.10"' }),
+    }));
+    expect(requirements).toHaveLength(2);
+
+    const pyproject = await parsePyproject(`[project]
+name = "billing_api"
+dependencies = ["fastapi>=0.110"]
+
+[project.optional-dependencies]
+postgres = ["psycopg[binary]>=3"]
+
+[dependency-groups]
+test = ["pytest>=8"]
+`);
+
+    expect(pyproject).toContainEqual(expect.objectContaining({
+      source: 'billing-api',
+      target: 'fastapi',
+      metadata: expect.objectContaining({ dependencyType: 'production' }),
+    }));
+    expect(pyproject).toContainEqual(expect.objectContaining({
+      target: 'psycopg',
+      metadata: expect.objectContaining({ dependencyType: 'optional', group: 'postgres' }),
+    }));
+    expect(pyproject).toContainEqual(expect.objectContaining({
+      target: 'pytest',
+      metadata: expect.objectContaining({ dependencyType: 'development', group: 'test' }),
+    }));
+  });
+
+  it('should parse Poetry dependencies', async () => {
+    const deps = await parsePyproject(`[tool.poetry]
+name = "worker"
+
+[tool.poetry.dependencies]
+python = "^3.11"
+celery = { version = "^5.3", extras = ["redis"] }
+
+[tool.poetry.group.dev.dependencies]
+ruff = "^0.4"
+`);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'worker',
+      target: 'celery',
+      metadata: expect.objectContaining({ version: '^5.3', dependencyType: 'production' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      target: 'ruff',
+      metadata: expect.objectContaining({ dependencyType: 'development', group: 'dev' }),
+    }));
+    expect(deps.some(dep => dep.target === 'python')).toBe(false);
+  });
+
+  it('should parse Cargo.toml dependency tables', async () => {
+    const deps = await parseCargoToml(`[package]
+name = "gateway"
+version = "0.1.0"
+
+[dependencies]
+tokio = { version = "1", features = ["full"] }
+http1 = { package = "http", version = "0.2" }
+shared = { path = "../shared" }
+
+[dev-dependencies]
+mockito = "1.2"
+
+[target.'cfg(unix)'.dependencies]
+nix = "0.28"
+`);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'gateway',
+      target: 'tokio',
+      type: 'cargo_dependency',
+      metadata: expect.objectContaining({ version: '1', dependencyType: 'production' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ target: 'http', metadata: expect.objectContaining({ version: '0.2' }) }));
+    expect(deps).toContainEqual(expect.objectContaining({ target: 'shared', metadata: expect.objectContaining({ path: '../shared' }) }));
+    expect(deps).toContainEqual(expect.objectContaining({ target: 'mockito', metadata: expect.objectContaining({ dependencyType: 'development' }) }));
+    expect(deps).toContainEqual(expect.objectContaining({ target: 'nix', metadata: expect.objectContaining({ target: 'cfg(unix)' }) }));
+  });
+
+  it('should parse pom.xml with parent, properties and scopes', async () => {
+    const deps = await parsePom(`<?xml version="1.0" encoding="UTF-8"?>
+<project xmlns="http://maven.apache.org/POM/4.0.0">
+  <parent>
+    <groupId>com.acme</groupId>
+    <artifactId>platform-parent</artifactId>
+    <version>2.0.0</version>
+  </parent>
+  <artifactId>orders</artifactId>
+  <properties>
+    <jackson.version>2.17.0</jackson.version>
+  </properties>
+  <dependencyManagement>
+    <dependencies>
+      <dependency>
+        <groupId>org.junit</groupId>
+        <artifactId>junit-bom</artifactId>
+        <version>5.10.2</version>
+        <type>pom</type>
+        <scope>import</scope>
+      </dependency>
+    </dependencies>
+  </dependencyManagement>
+  <dependencies>
+    <dependency>
+      <groupId>com.fasterxml.jackson.core</groupId>
+      <artifactId>jackson-databind</artifactId>
+      <version>\${jackson.version}</version>
+    </dependency>
+    <dependency>
+      <groupId>org.junit.jupiter</groupId>
+      <artifactId>junit-jupiter</artifactId>
+      <scope>test</scope>
+    </dependency>
+  </dependencies>
+</project>`);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'com.acme:orders',
+      target: 'com.acme:platform-parent',
+      type: 'maven_dependency',
+      metadata: expect.objectContaining({ dependencyType: 'parent' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      target: 'com.fasterxml.jackson.core:jackson-databind',
+      metadata: expect.objectContaining({ version: '2.17.0', dependencyType: 'production' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      target: 'org.junit.jupiter:junit-jupiter',
+      metadata: expect.objectContaining({ dependencyType: 'test' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      target: 'org.junit:junit-bom',
+      metadata: expect.objectContaining({ dependencyType: 'bom' }),
+    }));
+  });
+
+  it('should parse Gradle string, map and project notations', async () => {
+    const deps = await parseGradle(`plugins { id 'java' }
+
+group = 'com.acme'
+
+dependencies {
+    implementation 'org.springframework.boot:spring-boot-starter-web:3.2.0'
+    implementation(platform("software.amazon.awssdk:bom:2.25.0"))
+    compileOnly group: 'org.projectlombok', name: 'lombok', version: '1.18.30'
+    testImplementation("org.junit.jupiter:junit-jupiter:5.10.2")
+    // implementation 'commented:out:1.0'
+    implementation project(':libs:core')
+}
+`, 'services/orders/build.gradle');
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'com.acme:orders',
+      target: 'org.springframework.boot:spring-boot-starter-web',
+      type: 'maven_dependency',
+      metadata: expect.objectContaining({ version: '3.2.0', dependencyType: 'production' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ target: 'software.amazon.awssdk:bom', metadata: expect.objectContaining({ dependencyType: 'bom' }) }));
+    expect(deps).toContainEqual(expect.objectContaining({ target: 'org.projectlombok:lombok', metadata: expect.objectContaining({ dependencyType: 'provided' }) }));
+    expect(deps).toContainEqual(expect.objectContaining({ target: 'org.junit.jupiter:junit-jupiter', metadata: expect.objectContaining({ dependencyType: 'test' }) }));
+    expect(deps).toContainEqual(expect.objectContaining({ target: 'com.acme:core', metadata: expect.objectContaining({ dependencyType: 'project' }) }));
+    expect(deps.some(dep => dep.target.startsWith('commented'))).toBe(false);
+  });
+
+  it('should parse csproj package and project references', async () => {
+    const deps = await parseCsproj(`<Project Sdk="Microsoft.NET.Sdk.Web">
+  <PropertyGroup>
+    <TargetFramework>net8.0</TargetFramework>
+    <AssemblyName>Acme.Orders.Api</AssemblyName>
+  </PropertyGroup>
+  <ItemGroup>
+    <PackageReference Include="Serilog.AspNetCore" Version="8.0.1" />
+    <PackageReference Include="StyleCop.Analyzers">
+      <Version>1.1.118</Version>
+      <PrivateAssets>all</PrivateAssets>
+    </PackageReference>
+    <ProjectReference Include="..\\Acme.Orders.Domain\\Acme.Orders.Domain.csproj" />
+  </ItemGroup>
+</Project>`, 'src/Orders/Orders.csproj');
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Acme.Orders.Api',
+      target: 'Serilog.AspNetCore',
+      type: 'nuget_dependency',
+      metadata: expect.objectContaining({ version: '8.0.1', dependencyType: 'production' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      target: 'StyleCop.Analyzers',
+      metadata: expect.objectContaining({ version: '1.1.118', dependencyType: 'development' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      target: 'Acme.Orders.Domain',
+      metadata: expect.objectContaining({ dependencyType: 'project' }),
+    }));
+  });
+
+  it('should dispatch manifests by file name when scanning', async () => {
+    const deps = await parseFiles([
+      { path: 'svc/go.mod', content: 'module example.com/svc\n\nrequire github.com/lib/pq v1.10.9\n' },
+      { path: 'svc/requirements-dev.txt', content: 'pytest>=8\n' },
+      { path: 'crate/Cargo.toml', content: '[package]\nname = "crate"\n\n[dependencies]\nserde = "1"\n' },
+    ]);
+
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'example.com/svc', target: 'github.com/lib/pq', type: 'go_dependency' }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'svc',
+      target: 'pytest',
+      type: 'python_dependency',
+      metadata: expect.objectContaining({ dependencyType: 'development' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'crate', target: 'serde', type: 'cargo_dependency' }));
+  });
+});
+
+describe('Helm Chart Parser', () => {
+  const chartFiles = [
+    {
+      path: 'charts/shop/Chart.yaml',
+      content: `
+apiVersion: v2
+name: shop
+version: 1.2.0
+dependencies:
+  - name: redis
+    version: 17.x
+    repository: https://charts.bitnami.com/bitnami
+    condition: redis.enabled
+`,
+    },
+    {
+      path: 'charts/shop/values.yaml',
+      content: `
+replicaCount: 1
+redis:
+  enabled: true
+config:
+  create: false
+`,
+    },
+    {
+      path: 'charts/shop/values-prod.yaml',
+      content: `
+redis:
+  enabled: false
+config:
+  create: true
+`,
+    },
+    {
+      path: 'charts/shop/templates/_helpers.tpl',
+      content: `
+{{/* Full name of the release */}}
+{{- define "shop.fullname" -}}
+{{ .Release.Name }}-{{ .Chart.Name | trunc 63 }}
+{{- end }}
+`,
+    },
+    {
+      path: 'charts/shop/templates/service.yaml',
+      content: `
+apiVersion: v1
+kind: Service
+metadata:
+  name: {{ include "shop.fullname" . }}
+spec:
+  selector:
+    app: {{ include "shop.fullname" . | quote }}
+`,
+    },
+    {
+      path: 'charts/shop/templates/deployment.yaml',
+      content: `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: {{ include "shop.fullname" . }}
+spec:
+  replicas: {{ .Values.replicaCount }}
+  template:
+    metadata:
+      labels:
+        app: {{ include "shop.fullname" . }}
+    spec:
+      containers:
+        - name: web
+          {{- if .Values.config.create }}
+          envFrom:
+            - configMapRef:
+                name: {{ include "shop.fullname" . }}-config
+          {{- end }}
+`,
+    },
+  ];
+
+  it('should render templates before extracting Kubernetes dependencies', async () => {
+    const deps = await parseHelmChart('charts/shop', chartFiles);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Service/default/shop-shop',
+      target: 'Deployment/default/shop-shop',
+      type: 'k8s_service',
+    }));
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Chart/shop',
+      target: 'Deployment/default/shop-shop',
+      type: 'helm_resource',
+    }));
+  });
+
+  it('should link chart dependencies', async () => {
+    const deps = await parseHelmChart('charts/shop', chartFiles);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Chart/shop',
+      target: 'Chart/redis',
+      type: 'helm_dependency',
+      metadata: expect.objectContaining({ enabled: true }),
+    }));
+  });
+
+  it('should merge named values overlays', async () => {
+    const deps = await parseHelmChart('charts/shop', chartFiles, { valuesFiles: ['prod'] });
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Deployment/default/shop-shop',
+      target: 'ConfigMap/default/shop-shop-config',
+      type: 'k8s_configmap',
+    }));
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      target: 'Chart/redis',
+      metadata: expect.objectContaining({ enabled: false }),
+    }));
+  });
+});
+
+describe('Kustomize', () => {
+  const files = [
+    {
+      path: 'k8s/base/kustomization.yaml',
+      content: `
+resources:
+  - app.yaml
+configMapGenerator:
+  - name: app-config
+`,
+    },
+    {
+      path: 'k8s/base/app.yaml',
+      content: `
+apiVersion: v1
+kind: Service
+metadata:
+  name: app
+spec:
+  selector:
+    app: app
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: app
+spec:
+  template:
+    metadata:
+      labels:
+        app: app
+    spec:
+      containers:
+        - name: app
+          image: app:1.0
+          envFrom:
+            - configMapRef:
+                name: app-config
+`,
+    },
+    {
+      path: 'k8s/overlays/prod/kustomization.yaml',
+      content: `
+resources:
+  - ../../base
+namePrefix: prod-
+namespace: production
+patches:
+  - path: secret-patch.yaml
+`,
+    },
+    {
+      path: 'k8s/overlays/prod/secret-patch.yaml',
+      content: `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: app
+spec:
+  template:
+    spec:
+      containers:
+        - name: app
+          env:
+            - name: DB_PASSWORD
+              valueFrom:
+                secretKeyRef:
+                  name: prod-credentials
+                  key: password
+`,
+    },
+    {
+      path: 'k8s/overlays/dev/kustomization.yaml',
+      content: `
+resources:
+  - ../../base
+nameSuffix: -dev
+`,
+    },
+  ];
+
+  it('should build overlays with renamed references', async () => {
+    const deps = await parseFiles(files, { kustomizeOverlay: 'overlays/prod' });
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Service/production/prod-app',
+      target: 'Deployment/production/prod-app',
+      type: 'k8s_service',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Deployment/production/prod-app',
+      target: 'ConfigMap/production/prod-app-config',
+      type: 'k8s_configmap',
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Deployment/production/prod-app',
+      target: 'Secret/production/prod-credentials',
+      type: 'k8s_secret',
+    }));
+    expect(deps.some(dep => dep.source === 'Deployment/default/app')).toBe(false);
+  });
+
+  it('should build every top-level overlay by default', async () => {
+    const deps = await parseFiles(files);
+    const sources = new Set(deps.map(dep => dep.source));
+
+    expect(sources).toContain('Service/production/prod-app');
+    expect(sources).toContain('Service/default/app-dev');
+    expect(sources).not.toContain('Service/default/app');
+  });
+});
+
+describe('Runtime Call Inference', () => {
+  it('should infer calls from compose environment variables', async () => {
+    const deps = await parseFiles([{
+      path: 'docker-compose.yml',
+      content: `
+services:
+  web:
+    image: web
+    environment:
+      ORDERS_URL: http://orders:8080/api
+      REDIS_HOST: cache
+      STRIPE_URL: https://api.stripe.com
+  orders:
+    image: orders
+    environment:
+      - DATABASE_URL=postgres://app:secret@db:5432/orders
+      - LOG_LEVEL=debug
+  db:
+    image: postgres
+  cache:
+    image: redis
+`,
+    }]);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'web',
+      target: 'orders',
+      type: 'inferred_call',
+      metadata: expect.objectContaining({ envVar: 'ORDERS_URL', confidence: 0.9, port: 8080, scheme: 'http' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'web',
+      target: 'cache',
+      type: 'inferred_call',
+      metadata: expect.objectContaining({ envVar: 'REDIS_HOST', confidence: 0.6 }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'orders',
+      target: 'db',
+      type: 'inferred_call',
+      metadata: expect.objectContaining({ envVar: 'DATABASE_URL', scheme: 'postgres' }),
+    }));
+    // External hosts aren't known services, and credentials are never kept
+    expect(deps.filter(dep => dep.type === 'inferred_call')).toHaveLength(3);
+    expect(JSON.stringify(deps)).not.toContain('secret');
+  });
+
+  it('should infer calls from Kubernetes env values and ConfigMaps', async () => {
+    const deps = await parseFiles([{
+      path: 'k8s/app.yaml',
+      content: `
+apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: web-config
+data:
+  PAYMENTS_ADDR: payments.shop.svc.cluster.local:9090
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web
+spec:
+  template:
+    metadata:
+      labels:
+        app: web
+    spec:
+      containers:
+        - name: web
+          env:
+            - name: ORDERS_URL
+              value: http://orders
+          envFrom:
+            - configMapRef:
+                name: web-config
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: orders
+spec:
+  selector:
+    app: orders
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: payments
+  namespace: shop
+spec:
+  selector:
+    app: payments
+---
+apiVersion: apps/v1
+kind: StatefulSet
+metadata:
+  name: orders
+spec:
+  template:
+    metadata:
+      labels:
+        app: orders
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: payments
+  namespace: shop
+spec:
+  template:
+    metadata:
+      labels:
+        app: payments
+`,
+    }]);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Deployment/default/web',
+      target: 'Service/default/orders',
+      type: 'inferred_call',
+      metadata: expect.objectContaining({ envVar: 'ORDERS_URL', container: 'web' }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Deployment/default/web',
+      target: 'Service/shop/payments',
+      type: 'inferred_call',
+      metadata: expect.objectContaining({ envVar: 'PAYMENTS_ADDR', via: 'ConfigMap/web-config', confidence: 0.85 }),
+    }));
+  });
+});
+
+describe('Provenance', () => {
+  const files = [
+    {
+      path: 'services/web/package.json',
+      content: `{
+  "name": "web",
+  "dependencies": {
+    "react": "^18.2.0",
+    "express": "^4.18.0"
+  }
+}
+`,
+    },
+    {
+      path: 'k8s/app.yaml',
+      content: `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web
+spec:
+  template:
+    spec:
+      containers:
+        - name: web
+          envFrom:
+            - configMapRef:
+                name: web-config
+`,
+    },
+  ];
+
+  it('should record the file, line range and parser of each dependency', async () => {
+    const deps = await parseFiles(files);
+
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'web',
+      target: 'express',
+      provenance: { parser: 'package-json', file: 'services/web/package.json', startLine: 5, endLine: 5 },
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'Deployment/default/web',
+      target: 'ConfigMap/default/web-config',
+      provenance: { parser: 'kubernetes', file: 'k8s/app.yaml', startLine: 1, endLine: 12 },
+    }));
+  });
+
+  it('should take line ranges from where parsers read each dependency', async () => {
+    const deps = await parseFiles([
+      {
+        path: 'k8s/api.yaml',
+        content: `apiVersion: v1
+kind: Service
+metadata:
+  name: api
+spec:
+  selector:
+    app: api
+---
+# The API server
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+spec:
+  template:
+    metadata:
+      labels:
+        app: api
+    spec:
+      serviceAccountName: api
+`,
+      },
+      {
+        path: 'infra/app.yaml',
+        content: `AWSTemplateFormatVersion: '2010-09-09'
+Resources:
+  Bucket:
+    Type: AWS::S3::Bucket
+
+Outputs:
+  BucketName:
+    Value: !Ref Bucket
+    Export:
+      Name: app-bucket
+`,
+      },
+      {
+        path: 'terraform/main.tf',
+        content: `resource "aws_instance" "web" {
+  ami = "ami-123"
+
+  subnet_id = aws_subnet.main.id
+}
+`,
+      },
+    ]);
+    const lines = (source: string, target: string) => {
+      const { startLine, endLine } = deps.find(dep => dep.source === source && dep.target === target)!.provenance!;
+      return [startLine, endLine];
+    };
+
+    expect(lines('Service/default/api', 'Deployment/default/api')).toEqual([1, 7]);
+    expect(lines('Deployment/default/api', 'ServiceAccount/default/api')).toEqual([10, 20]);
+    expect(lines('Export/app-bucket', 'app/Bucket')).toEqual([7, 10]);
+    expect(lines('aws_instance.web', 'aws_subnet.main')).toEqual([4, 4]);
+  });
+
+  it('should locate dependencies in the files and lines of multi-file units', async () => {
+    const deps = await parseFiles([
+      {
+        path: 'docker-compose.yml',
+        content: `services:
+  orders:
+    image: acme/orders:1.0
+    depends_on:
+      - postgres
+  postgres:
+    image: postgres:16
+`,
+      },
+      {
+        path: 'services/orders/Dockerfile',
+        content: `FROM node:20 AS build
+RUN npm ci
+
+FROM gcr.io/distroless/nodejs20
+COPY --from=build \\
+  /app /app
+`,
+      },
+      { path: 'charts/web/Chart.yaml', content: 'apiVersion: v2\nname: web\nversion: 1.0.0\n' },
+      {
+        path: 'charts/web/templates/service.yaml',
+        content: `apiVersion: v1
+kind: ServiceAccount
+metadata:
+  name: web
+`,
+      },
+      {
+        path: 'charts/web/templates/deployment.yaml',
+        content: `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web
+spec:
+  template:
+    spec:
+      serviceAccountName: web
+`,
+      },
+      { path: 'k8s/base/kustomization.yaml', content: 'resources:\n  - app.yaml\nconfigMapGenerator:\n  - name: app-config\n' },
+      {
+        path: 'k8s/base/app.yaml',
+        content: `apiVersion: v1
+kind: ServiceAccount
+metadata:
+  name: app
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: app
+spec:
+  template:
+    spec:
+      serviceAccountName: app
+`,
+      },
+      { path: 'package.json', content: JSON.stringify({ name: 'root', private: true, workspaces: ['packages/*'] }) },
+      { path: 'packages/a/package.json', content: '{\n  "name": "a",\n  "dependencies": {\n    "b": "*"\n  }\n}\n' },
+      { path: 'packages/b/package.json', content: '{\n  "name": "b"\n}\n' },
+    ]);
+    const provenance = (source: string, target: string) => deps.find(dep => dep.source === source && dep.target === target)?.provenance;
+
+    expect(provenance('orders', 'postgres')).toEqual({ parser: 'docker-compose', file: 'docker-compose.yml', startLine: 5, endLine: 5 });
+    expect(provenance('Dockerfile/services/orders/Dockerfile', 'Dockerfile/services/orders/Dockerfile#build')).toEqual({
+      parser: 'dockerfile',
+      file: 'services/orders/Dockerfile',
+      startLine: 5,
+      endLine: 6,
+    });
+    expect(provenance('Deployment/default/web', 'ServiceAccount/default/web')).toEqual({
+      parser: 'helm',
+      file: 'charts/web/templates/deployment.yaml',
+      startLine: 1,
+      endLine: 8,
+    });
+    expect(provenance('Deployment/default/app', 'ServiceAccount/default/app')).toEqual({
+      parser: 'kustomize',
+      file: 'k8s/base/app.yaml',
+      startLine: 6,
+      endLine: 13,
+    });
+    expect(provenance('a', 'b')).toEqual({ parser: 'workspaces', file: 'packages/a/package.json', startLine: 4, endLine: 4 });
+  });
+
+  it('should record the lines declaring each package dependency', async () => {
+    const deps = await parseFiles([
+      { path: 'go/go.mod', content: 'module example.com/api\n\nrequire (\n\tgithub.com/lib/pq v1.10.9\n)\n' },
+      { path: 'py/requirements.txt', content: '# pinned\nrequests==2.31.0 \\\n  --hash=sha256:abc\n' },
+      { path: 'rust/Cargo.toml', content: '[package]\nname = "crate"\n\n[dependencies.serde]\nversion = "1"\nfeatures = ["derive"]\n' },
+      {
+        path: 'java/pom.xml',
+        content: `<project>
+  <!-- coordinates -->
+  <groupId>com.acme</groupId>
+  <artifactId>api</artifactId>
+  <dependencies>
+    <dependency>
+      <groupId>org.slf4j</groupId>
+      <artifactId>slf4j-api</artifactId>
+    </dependency>
+  </dependencies>
+</project>
+`,
+      },
+    ]);
+    const lines = (target: string) => {
+      const { startLine, endLine } = deps.find(dep => dep.target === target)!.provenance!;
+      return [startLine, endLine];
+    };
+
+    expect(lines('github.com/lib/pq')).toEqual([4, 4]);
+    expect(lines('requests')).toEqual([2, 3]);
+    expect(lines('serde')).toEqual([4, 6]);
+    expect(lines('org.slf4j:slf4j-api')).toEqual([6, 9]);
+  });
+
+  it('should merge provenance when buildGraph collapses duplicates', async () => {
+    const deps = await parseFiles([
+      ...files,
+      { path: 'services/api/package.json', content: '{\n  "name": "api",\n  "dependencies": { "express": "^4.18.0" }\n}\n' },
+    ]);
+    const graph = buildGraph([...deps, ...deps], { name: 'test', sourceType: 'local', sourcePath: '.' });
+
+    const express = graph.nodes.find(node => node.id === 'express')!;
+    expect(express.provenance?.map(entry => entry.file)).toEqual(['services/web/package.json', 'services/api/package.json']);
+    const edge = graph.edges.find(e => e.source === 'web' && e.target === 'express')!;
+    expect(edge.provenance).toHaveLength(1);
+  });
+});
+
+describe('Entity Resolution', () => {
+  const files = [
+    {
+      path: 'docker-compose.yml',
+      content: `services:
+  orders:
+    build: ./services/orders
+    depends_on:
+      - postgres
+  postgres:
+    image: postgres:16
+`,
+    },
+    {
+      path: 'k8s/orders.yaml',
+      content: `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: orders-deployment
+spec:
+  template:
+    metadata:
+      labels:
+        app.kubernetes.io/name: orders
+    spec:
+      containers:
+        - name: orders
+          image: acme/orders:1.0
+          envFrom:
+            - configMapRef:
+                name: orders-config
+`,
+    },
+    { path: 'services/orders/package.json', content: '{\n  "name": "@acme/orders-service",\n  "dependencies": { "express": "^4.18.0" }\n}\n' },
+    { path: 'CODEOWNERS', content: '/services/orders/ @acme/orders-team\n' },
+  ];
+
+  it('should unify one service across compose, Kubernetes and packages, keeping its owners', async () => {
+    const deps = resolveEntities(await parseFiles(files));
+    const graph = buildGraph(deps, { name: 'test', sourceType: 'local', sourcePath: '.' });
+
+    const orders = graph.nodes.find(node => node.id === 'orders')!;
+    expect(orders).toMatchObject({ type: 'service', name: 'orders' });
+    expect(orders.metadata?.owners).toEqual(['@acme/orders-team']);
+    expect(orders.metadata?.aliases).toEqual([
+      '@acme/orders-service',
+      'Deployment/default/orders-deployment',
+      'orders',
+    ]);
+    expect(graph.edges).toContainEqual(expect.objectContaining({ source: 'orders', target: 'postgres' }));
+    expect(graph.edges).toContainEqual(expect.objectContaining({ source: 'orders', target: 'ConfigMap/default/orders-config' }));
+    expect(graph.edges).toContainEqual(expect.objectContaining({ source: 'orders', target: 'express' }));
+    expect(graph.edges).toContainEqual(expect.objectContaining({ source: '@acme/orders-team', target: 'orders', type: 'owns' }));
+    expect(graph.nodes.find(node => node.id === 'Deployment/default/orders-deployment')).toBeUndefined();
+  });
+
+  it('should leave names shared by several nodes of one layer unmerged', async () => {
+    const deps = resolveEntities(await parseFiles([
+      files[0],
+      {
+        path: 'k8s/orders.yaml',
+        content: `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: orders
+  namespace: shop
+spec:
+  template:
+    spec:
+      containers:
+        - name: orders
+          envFrom:
+            - configMapRef:
+                name: orders-config
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: orders
+  namespace: staging
+spec:
+  template:
+    spec:
+      containers:
+        - name: orders
+          envFrom:
+            - configMapRef:
+                name: orders-config
+`,
+      },
+    ]));
+    const graph = buildGraph(deps, { name: 'test', sourceType: 'local', sourcePath: '.' });
+
+    expect(graph.nodes.find(node => node.id === 'orders')?.metadata?.aliases).toBeUndefined();
+    expect(graph.nodes.map(node => node.id)).toEqual(expect.arrayContaining(['Deployment/shop/orders', 'Deployment/staging/orders']));
+  });
+
+  it('should not merge third-party packages from lockfiles with workloads', async () => {
+    const deps = resolveEntities(await parseFiles([
+      { path: 'package.json', content: JSON.stringify({ name: 'shop', dependencies: { redis: '^4.6.0' } }) },
+      {
+        path: 'package-lock.json',
+        content: JSON.stringify({
+          name: 'shop',
+          lockfileVersion: 3,
+          packages: {
+            '': { name: 'shop', dependencies: { redis: '^4.6.0' } },
+            'node_modules/redis': { version: '4.6.13', dependencies: { '@redis/client': '1.5.14' } },
+            'node_modules/@redis/client': { version: '1.5.14' },
+          },
+        }),
+      },
+      {
+        path: 'k8s/redis.yaml',
+        content: `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: redis
+spec:
+  template:
+    spec:
+      containers:
+        - name: redis
+          image: redis:7
+          envFrom:
+            - configMapRef:
+                name: redis-config
+`,
+      },
+    ]));
+
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'redis', target: '@redis/client', type: 'npm_dependency' }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'shop', target: 'redis' }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'Deployment/default/redis', target: 'ConfigMap/default/redis-config' }));
+    expect(deps.some(dep => dep.sourceNode?.metadata?.aliases || dep.targetNode?.metadata?.aliases)).toBe(false);
+  });
+
+  it('should apply explicit aliases from entity-aliases.yaml', async () => {
+    const aliasFile = {
+      path: 'entity-aliases.yaml',
+      content: 'billing:\n  - postgres\n  - Deployment/default/orders-deployment\n',
+    };
+    const parsed = await parseFiles([...files, aliasFile]);
+    const deps = resolveEntities(parsed, { aliases: loadEntityAliases([aliasFile]) });
+
+    expect(parsed.some(dep => dep.provenance?.file === 'entity-aliases.yaml')).toBe(false);
+    expect(deps).toContainEqual(expect.objectContaining({
+      source: 'billing',
+      target: 'ConfigMap/default/orders-config',
+      sourceNode: expect.objectContaining({ metadata: expect.objectContaining({ aliases: ['Deployment/default/orders-deployment', 'postgres'] }) }),
+    }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'orders', target: 'billing' }));
+  });
+});
+
+describe('Incremental Rescans', () => {
+  const files = [
+    { path: 'services/web/package.json', content: '{\n  "name": "web",\n  "dependencies": { "express": "^4.18.0" }\n}\n' },
+    { path: 'services/api/package.json', content: '{\n  "name": "api",\n  "dependencies": { "pg": "^8.0.0" }\n}\n' },
+    {
+      path: 'docker-compose.yml',
+      content: `services:
+  web:
+    build: ./services/web
+    environment:
+      API_URL: http://api:8080
+  api:
+    build: ./services/api
+`,
+    },
+  ];
+
+  it('should hash content the way git hashes blobs', () => {
+    expect(contentHash('hello\n')).toBe('ce013625030ba8dba906f756967f9e9ca394464a');
+  });
+
+  it('should only parse units whose files changed', async () => {
+    const first = createParseCache();
+    await parseFiles(files, {}, first);
+    expect([...first.parsedFiles].sort()).toEqual(files.map(file => file.path).sort());
+
+    const changed = files.map(file => file.path === 'services/api/package.json'
+      ? { ...file, content: file.content.replace('"pg": "^8.0.0"', '"pg": "^8.11.0", "redis": "^4.0.0"') }
+      : file);
+    const rescan = createParseCache(first.current);
+    const deps = await parseFiles(changed, {}, rescan);
+
+    expect([...rescan.parsedFiles]).toEqual(['services/api/package.json']);
+    expect([...rescan.reusedFiles].sort()).toEqual(['docker-compose.yml', 'services/web/package.json']);
+    // Spliced results match a full parse, including inference across units
+    expect(deps).toEqual(await parseFiles(changed));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'api', target: 'redis' }));
+    expect(deps).toContainEqual(expect.objectContaining({ source: 'web', target: 'api', type: 'inferred_call' }));
+  });
+
+  it('should parse everything again when scan options change', async () => {
+    const first = createParseCache();
+    await parseFiles(files, {}, first);
+
+    const rescan = createParseCache(first.current);
+    await parseFiles(files, { kubeCluster: 'prod' }, rescan);
+
+    expect(rescan.reusedFiles.size).toBe(0);
+  });
 });